@@ -1,9 +1,10 @@
 /**
- * Activity panel - lightweight view of recent session updates.
+ * Activity panel - worker job queue plus recent session updates.
  */
 
 import { type Component, createMemo, For, Show } from "solid-js";
 import { useOpenCode } from "@/context/opencode";
+import { orderJobTree } from "@/context/opencode-helpers";
 import { formatRelativeTime } from "@/lib/utils";
 
 const ClockIcon = () => (
@@ -24,9 +25,11 @@ const ClockIcon = () => (
 );
 
 export const JobQueue: Component = () => {
-  const { sessions } = useOpenCode();
+  const { sessions, jobQueue } = useOpenCode();
 
   const recent = createMemo(() => sessions().slice(0, 20));
+  const queuedCount = createMemo(() => jobQueue().filter((job) => job.status === "queued").length);
+  const jobTree = createMemo(() => orderJobTree(jobQueue()));
 
   return (
     <div class="flex flex-col h-full bg-background">
@@ -35,6 +38,36 @@ export const JobQueue: Component = () => {
         <span class="text-xs text-muted-foreground">{sessions().length} sessions</span>
       </div>
 
+      <Show when={jobQueue().length > 0}>
+        <div class="border-b border-border p-3 space-y-2 flex-shrink-0">
+          <div class="flex items-center justify-between text-xs text-muted-foreground">
+            <span>Job queue</span>
+            <span>{queuedCount()} waiting</span>
+          </div>
+          <For each={jobTree()}>
+            {({ job, depth }) => (
+              <div class="rounded-md border border-border/60 px-3 py-2" style={{ "margin-left": `${depth * 12}px` }}>
+                <div class="flex items-center justify-between text-xs">
+                  <span class="font-medium text-foreground">
+                    {job.parentJobId ? "↳ " : ""}
+                    {job.workerId}
+                  </span>
+                  <span class="text-muted-foreground">
+                    {job.status === "running" ? "running" : `#${job.position ?? "?"} in queue`}
+                    {job.priority !== 0 ? ` · p${job.priority}` : ""}
+                  </span>
+                </div>
+                <div class="text-xs text-muted-foreground truncate">{job.message ?? job.jobId}</div>
+                <div class="text-[10px] text-muted-foreground/80">
+                  Queued {formatRelativeTime(job.queuedAt)}
+                  {job.deadline ? ` · deadline ${new Date(job.deadline).toLocaleTimeString()}` : ""}
+                </div>
+              </div>
+            )}
+          </For>
+        </div>
+      </Show>
+
       <div class="flex-1 overflow-auto">
         <Show
           when={recent().length > 0}
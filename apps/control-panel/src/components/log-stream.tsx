@@ -28,11 +28,23 @@ export const LogsPanel: Component = () => {
         const workerId = typeof chunk?.workerId === "string" ? chunk.workerId : "worker";
         return `${payloadRecord.type}: ${workerId}`;
       }
+      if (payloadRecord.type === "orchestra.worker.wakeup") {
+        const workerId = typeof data.workerId === "string" ? data.workerId : "worker";
+        const reason = typeof data.reason === "string" ? data.reason : "wakeup";
+        return `${payloadRecord.type}: ${workerId} ${reason}`;
+      }
       if (payloadRecord.type === "orchestra.workflow.step") {
         const workflowId = typeof data.workflowId === "string" ? data.workflowId : "workflow";
         const stepId = typeof data.stepId === "string" ? data.stepId : "step";
         return `${payloadRecord.type}: ${workflowId}/${stepId}`;
       }
+      if (payloadRecord.type === "orchestra.workflow.step.retry") {
+        const workflowId = typeof data.workflowId === "string" ? data.workflowId : "workflow";
+        const stepId = typeof data.stepId === "string" ? data.stepId : "step";
+        const attempt = typeof data.attempt === "number" ? data.attempt : undefined;
+        const suffix = attempt !== undefined ? ` attempt=${attempt}` : "";
+        return `${payloadRecord.type}: ${workflowId}/${stepId}${suffix}`;
+      }
       if (payloadRecord.type === "orchestra.workflow.carry.trimmed") {
         const workflowId = typeof data.workflowId === "string" ? data.workflowId : "workflow";
         const stepId = typeof data.stepId === "string" ? data.stepId : "step";
@@ -40,6 +52,13 @@ export const LogsPanel: Component = () => {
         const suffix = dropped !== undefined ? ` dropped=${dropped}` : "";
         return `${payloadRecord.type}: ${workflowId}/${stepId}${suffix}`;
       }
+      if (payloadRecord.type === "orchestra.workflow.approval") {
+        const workflowId = typeof data.workflowId === "string" ? data.workflowId : "workflow";
+        const stepId = typeof data.stepId === "string" ? data.stepId : "step";
+        const status = typeof data.status === "string" ? data.status : "pending";
+        const approver = typeof data.approver === "string" ? ` by ${data.approver}` : "";
+        return `${payloadRecord.type}: ${workflowId}/${stepId} ${status}${approver}`;
+      }
       if (payloadRecord.type.startsWith("orchestra.workflow.")) {
         const workflowId = typeof data.workflowId === "string" ? data.workflowId : "workflow";
         return `${payloadRecord.type}: ${workflowId}`;
@@ -48,9 +67,25 @@ export const LogsPanel: Component = () => {
         const key = typeof data.key === "string" ? data.key : undefined;
         const fromKey = typeof data.fromKey === "string" ? data.fromKey : undefined;
         const toKey = typeof data.toKey === "string" ? data.toKey : undefined;
-        const label = key ?? (fromKey && toKey ? `${fromKey} -> ${toKey}` : "memory");
+        const action = typeof data.action === "string" ? data.action : "memory";
+        const label = key ?? (fromKey && toKey ? `${fromKey} -> ${toKey}` : action);
         return `${payloadRecord.type}: ${label}`;
       }
+      if (payloadRecord.type === "orchestra.budget.exceeded") {
+        const message = typeof data.message === "string" ? data.message : "budget exceeded";
+        return `${payloadRecord.type}: ${message}`;
+      }
+      if (payloadRecord.type === "orchestra.job.queue") {
+        const jobs = Array.isArray(data.jobs) ? data.jobs.filter(asRecord) : [];
+        const queued = jobs.filter((job) => job.status === "queued").length;
+        return `${payloadRecord.type}: ${jobs.length - queued} running, ${queued} queued`;
+      }
+      if (payloadRecord.type === "orchestra.prompt.fit") {
+        const workerId = typeof data.workerId === "string" ? data.workerId : "worker";
+        const action = typeof data.action === "string" ? data.action : "fit";
+        const model = typeof data.model === "string" ? ` ${data.model}` : "";
+        return `${payloadRecord.type}: ${workerId} ${action}${model}`;
+      }
       if (payloadRecord.type === "orchestra.error") {
         const message = typeof data.message === "string" ? data.message : "error";
         return `${payloadRecord.type}: ${message}`;
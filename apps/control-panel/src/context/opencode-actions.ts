@@ -6,6 +6,7 @@ import {
   buildAttachmentParts,
   buildModelOptions,
   createEventItem,
+  extractJobQueueFromEvent,
   extractMessagesAndParts,
   extractSkillLoadEventFromEvent,
   extractWorkerSnapshotFromEvent,
@@ -33,6 +34,8 @@ type ActionDeps = {
 
 export function createOpenCodeActions({ client, state, setState }: ActionDeps) {
   const asRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+  const asStringList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
 
   const fetchCatalog = async () => {
     const [providersRes, toolIdsRes] = await Promise.allSettled([client.config.providers(), client.tool.ids()]);
@@ -228,6 +231,19 @@ export function createOpenCodeActions({ client, state, setState }: ActionDeps) {
 
     if (event.type === "orchestra.workflow.started") {
       const startedAt = typeof data.startedAt === "number" ? data.startedAt : event.timestamp;
+      const graph = Array.isArray(data.steps)
+        ? data.steps.filter(asRecord).flatMap((node) => {
+            if (typeof node.id !== "string" || typeof node.workerId !== "string") return [];
+            return [
+              {
+                id: node.id,
+                title: typeof node.title === "string" ? node.title : undefined,
+                workerId: node.workerId,
+                dependsOn: asStringList(node.dependsOn),
+              },
+            ];
+          })
+        : undefined;
       upsertWorkflowRun({
         runId,
         workflowId,
@@ -235,6 +251,7 @@ export function createOpenCodeActions({ client, state, setState }: ActionDeps) {
         status: "running",
         startedAt,
         steps: [],
+        ...(graph && graph.length > 0 ? { graph } : {}),
       });
       return;
     }
@@ -243,7 +260,7 @@ export function createOpenCodeActions({ client, state, setState }: ActionDeps) {
       const stepId = typeof data.stepId === "string" ? data.stepId : "";
       const workerId = typeof data.workerId === "string" ? data.workerId : "";
       if (!stepId || !workerId) return;
-      const stepStatus = data.status === "error" ? "error" : "success";
+      const stepStatus = data.status === "error" || data.status === "skipped" ? data.status : "success";
       const startedAt = typeof data.startedAt === "number" ? data.startedAt : event.timestamp;
       const finishedAt = typeof data.finishedAt === "number" ? data.finishedAt : event.timestamp;
       const durationMs =
@@ -253,12 +270,18 @@ export function createOpenCodeActions({ client, state, setState }: ActionDeps) {
         stepId,
         stepTitle: typeof data.stepTitle === "string" ? data.stepTitle : undefined,
         workerId,
+        dependsOn: Array.isArray(data.dependsOn) ? asStringList(data.dependsOn) : undefined,
         status: stepStatus,
+        iteration: typeof data.iteration === "number" ? data.iteration : undefined,
+        attempts: typeof data.attempts === "number" ? data.attempts : undefined,
         startedAt,
         finishedAt,
         durationMs,
         response: typeof data.response === "string" ? data.response : undefined,
         responseTruncated: typeof data.responseTruncated === "boolean" ? data.responseTruncated : undefined,
+        files: Array.isArray(data.files) ? asStringList(data.files) : undefined,
+        diff: typeof data.diff === "string" ? data.diff : undefined,
+        diffTruncated: typeof data.diffTruncated === "boolean" ? data.diffTruncated : undefined,
         warning: typeof data.warning === "string" ? data.warning : undefined,
         error: typeof data.error === "string" ? data.error : undefined,
       };
@@ -277,7 +300,9 @@ export function createOpenCodeActions({ client, state, setState }: ActionDeps) {
             } satisfies WorkflowRun);
 
           const steps = existing.steps ?? [];
-          const index = steps.findIndex((item) => item.stepId === step.stepId);
+          const index = steps.findIndex(
+            (item) => item.stepId === step.stepId && (item.iteration ?? 1) === (step.iteration ?? 1),
+          );
           if (index >= 0) steps[index] = step;
           else steps.push(step);
           existing.steps = steps;
@@ -340,10 +365,67 @@ export function createOpenCodeActions({ client, state, setState }: ActionDeps) {
       return;
     }
 
+    if (event.type === "orchestra.workflow.approval") {
+      const stepId = typeof data.stepId === "string" ? data.stepId : "";
+      if (!stepId) return;
+      const iteration = typeof data.iteration === "number" ? data.iteration : undefined;
+
+      setState(
+        produce((s) => {
+          const existing =
+            s.workflowRuns[runId] ??
+            ({
+              runId,
+              workflowId,
+              workflowName,
+              status: "running",
+              startedAt: event.timestamp,
+              steps: [],
+            } satisfies WorkflowRun);
+
+          const pending = (existing.pendingApprovals ?? []).filter((item) => item.stepId !== stepId);
+          if (data.status === "pending") {
+            pending.push({
+              stepId,
+              stepTitle: typeof data.stepTitle === "string" ? data.stepTitle : undefined,
+              iteration,
+              carry: typeof data.carry === "string" ? data.carry : undefined,
+              requestedAt: event.timestamp,
+            });
+          } else if (data.status === "approved" || data.status === "rejected") {
+            const step = existing.steps.find(
+              (item) => item.stepId === stepId && (item.iteration ?? 1) === (iteration ?? 1),
+            );
+            if (step) {
+              step.approval = {
+                decision: data.status,
+                approver: typeof data.approver === "string" ? data.approver : "unknown",
+                comment: typeof data.comment === "string" ? data.comment : undefined,
+                carryEdited: data.carryEdited === true ? true : undefined,
+                instructions: typeof data.instructions === "string" ? data.instructions : undefined,
+                at: event.timestamp,
+              };
+            }
+          }
+          existing.pendingApprovals = pending;
+          s.workflowRuns[runId] = existing;
+        }),
+      );
+      return;
+    }
+
     if (event.type === "orchestra.workflow.completed") {
       const finishedAt = typeof data.finishedAt === "number" ? data.finishedAt : event.timestamp;
       const status = data.status === "error" ? "error" : "success";
       const durationMs = typeof data.durationMs === "number" ? data.durationMs : undefined;
+      const usage =
+        asRecord(data.usage)
+          ? {
+              inputTokens: Number(data.usage.inputTokens) || 0,
+              outputTokens: (Number(data.usage.outputTokens) || 0) + (Number(data.usage.reasoningTokens) || 0),
+              cost: Number(data.usage.cost) || 0,
+            }
+          : undefined;
       setState(
         produce((s) => {
           const existing =
@@ -358,7 +440,9 @@ export function createOpenCodeActions({ client, state, setState }: ActionDeps) {
             } satisfies WorkflowRun);
           existing.status = status;
           existing.finishedAt = finishedAt;
+          existing.pendingApprovals = undefined;
           if (durationMs !== undefined) existing.durationMs = durationMs;
+          if (usage) existing.usage = usage;
           s.workflowRuns[runId] = existing;
         }),
       );
@@ -369,6 +453,8 @@ export function createOpenCodeActions({ client, state, setState }: ActionDeps) {
     if (worker) upsertWorker(worker);
     handleWorkerStream(extractWorkerStreamChunkFromEvent(event));
     updateWorkflowRunFromEvent(event);
+    const jobQueue = extractJobQueueFromEvent(event);
+    if (jobQueue) setState("jobQueue", jobQueue);
     const skillEvent = extractSkillLoadEventFromEvent(event);
     if (skillEvent) {
       setState(
@@ -493,6 +579,7 @@ export function createOpenCodeActions({ client, state, setState }: ActionDeps) {
           s.workers = {};
           s.workerStreams = {};
           s.workflowRuns = {};
+          s.jobQueue = [];
           s.skillEvents = [];
           s.lastUpdate = Date.now();
         }),
@@ -3,6 +3,7 @@ import type {
   ModelOption,
   OpenCodeEventItem,
   OrchestratorEvent,
+  QueuedJob,
   SkillEventSource,
   SkillLoadEvent,
   WorkerRuntime,
@@ -104,6 +105,8 @@ export const toWorkerRuntime = (raw: unknown): WorkerRuntime | null => {
   return {
     id,
     name,
+    replicaOf: typeof raw.replicaOf === "string" ? raw.replicaOf : undefined,
+    replicaIndex: typeof raw.replicaIndex === "number" ? raw.replicaIndex : undefined,
     status,
     sessionId,
     workerSessionId,
@@ -203,6 +206,49 @@ export const extractSkillLoadEventFromEvent = (event: OrchestratorEvent): SkillL
   };
 };
 
+export const extractJobQueueFromEvent = (event: OrchestratorEvent): QueuedJob[] | null => {
+  if (event.type !== "orchestra.job.queue") return null;
+  const data = event.data;
+  if (!asRecord(data) || !Array.isArray(data.jobs)) return null;
+  return data.jobs.filter(asRecord).flatMap((job) => {
+    if (typeof job.jobId !== "string" || typeof job.workerId !== "string") return [];
+    return [
+      {
+        jobId: job.jobId,
+        workerId: job.workerId,
+        status: job.status === "running" ? "running" : "queued",
+        position: typeof job.position === "number" ? job.position : undefined,
+        priority: typeof job.priority === "number" ? job.priority : 0,
+        deadline: typeof job.deadline === "number" ? job.deadline : undefined,
+        queuedAt: typeof job.queuedAt === "number" ? job.queuedAt : event.timestamp,
+        message: typeof job.message === "string" ? job.message : undefined,
+        parentJobId: typeof job.parentJobId === "string" ? job.parentJobId : undefined,
+      } satisfies QueuedJob,
+    ];
+  });
+};
+
+/** Queue entries with delegated jobs listed under the job that delegated them. */
+export const orderJobTree = (jobs: QueuedJob[]): Array<{ job: QueuedJob; depth: number }> => {
+  const ids = new Set(jobs.map((job) => job.jobId));
+  const children = new Map<string, QueuedJob[]>();
+  const roots: QueuedJob[] = [];
+  for (const job of jobs) {
+    if (job.parentJobId && ids.has(job.parentJobId)) {
+      children.set(job.parentJobId, [...(children.get(job.parentJobId) ?? []), job]);
+    } else {
+      roots.push(job);
+    }
+  }
+  const ordered: Array<{ job: QueuedJob; depth: number }> = [];
+  const visit = (job: QueuedJob, depth: number) => {
+    ordered.push({ job, depth });
+    for (const child of children.get(job.jobId) ?? []) visit(child, depth + 1);
+  };
+  for (const job of roots) visit(job, 0);
+  return ordered;
+};
+
 const fileToDataUrl = (file: File) =>
   new Promise<string>((resolve, reject) => {
     const reader = new FileReader();
@@ -30,6 +30,9 @@ export type SubagentEvent = {
 export type WorkerRuntime = {
   id: string;
   name: string;
+  /** Profile id this worker replicates (e.g. `coder` for `coder#2`) */
+  replicaOf?: string;
+  replicaIndex?: number;
   status: WorkerStatus;
   sessionId?: string;
   workerSessionId?: string;
@@ -69,11 +72,17 @@ export type WorkerStreamChunk = {
 export type OrchestratorEventType =
   | "orchestra.worker.status"
   | "orchestra.worker.stream"
+  | "orchestra.worker.wakeup"
   | "orchestra.workflow.started"
   | "orchestra.workflow.step"
+  | "orchestra.workflow.step.retry"
   | "orchestra.workflow.completed"
   | "orchestra.workflow.carry.trimmed"
+  | "orchestra.workflow.approval"
   | "orchestra.memory.written"
+  | "orchestra.budget.exceeded"
+  | "orchestra.job.queue"
+  | "orchestra.prompt.fit"
   | "orchestra.skill.load.started"
   | "orchestra.skill.load.completed"
   | "orchestra.skill.load.failed"
@@ -88,6 +97,20 @@ export type OrchestratorEvent = {
   data: Record<string, unknown>;
 };
 
+export type QueuedJob = {
+  jobId: string;
+  workerId: string;
+  status: "queued" | "running";
+  /** 1-based position in the worker queue (queued jobs only) */
+  position?: number;
+  priority: number;
+  deadline?: number;
+  queuedAt: number;
+  message?: string;
+  /** Job of the worker that delegated this one */
+  parentJobId?: string;
+};
+
 export type SkillEventSource = "in-process" | "server";
 
 export type SkillLoadEvent = {
@@ -116,21 +139,61 @@ export type WorkflowCarryTrim = {
   at: number;
 };
 
+export type WorkflowStepApproval = {
+  decision: "approved" | "rejected";
+  approver: string;
+  comment?: string;
+  carryEdited?: boolean;
+  instructions?: string;
+  at: number;
+};
+
+/** Step output waiting for an approve/reject decision */
+export type WorkflowPendingApproval = {
+  stepId: string;
+  stepTitle?: string;
+  iteration?: number;
+  /** Carry the step hands downstream; approvers may edit it */
+  carry?: string;
+  requestedAt: number;
+};
+
 export type WorkflowRunStep = {
   stepId: string;
   stepTitle?: string;
   workerId: string;
-  status: "success" | "error";
+  dependsOn?: string[];
+  status: "success" | "error" | "skipped";
+  iteration?: number;
+  attempts?: number;
   startedAt: number;
   finishedAt: number;
   durationMs: number;
   response?: string;
   responseTruncated?: boolean;
+  /** Files the step changed in the git working tree */
+  files?: string[];
+  diff?: string;
+  diffTruncated?: boolean;
   warning?: string;
   carryTrim?: WorkflowCarryTrim;
+  approval?: WorkflowStepApproval;
   error?: string;
 };
 
+export type WorkflowGraphNode = {
+  id: string;
+  title?: string;
+  workerId: string;
+  dependsOn: string[];
+};
+
+export type WorkflowRunUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+};
+
 export type WorkflowRun = {
   runId: string;
   workflowId: string;
@@ -139,7 +202,13 @@ export type WorkflowRun = {
   startedAt: number;
   finishedAt?: number;
   durationMs?: number;
+  /** Token totals reported when the run completed */
+  usage?: WorkflowRunUsage;
   steps: WorkflowRunStep[];
+  /** Step graph announced when the run started */
+  graph?: WorkflowGraphNode[];
+  /** Steps waiting for approval before the run continues */
+  pendingApprovals?: WorkflowPendingApproval[];
 };
 
 export type ModelOption = {
@@ -161,6 +230,8 @@ export interface OpenCodeState {
   /** Active worker stream chunks (keyed by workerId) */
   workerStreams: Record<string, WorkerStreamChunk>;
   workflowRuns: Record<string, WorkflowRun>;
+  /** Worker queue snapshot from the latest orchestra.job.queue event */
+  jobQueue: QueuedJob[];
   skillEvents: SkillLoadEvent[];
   modelOptions: ModelOption[];
   toolIds: string[];
@@ -178,6 +249,7 @@ export interface OpenCodeContextValue {
   /** Active worker stream chunks for live display */
   workerStreams: Accessor<WorkerStreamChunk[]>;
   workflowRuns: Accessor<WorkflowRun[]>;
+  jobQueue: Accessor<QueuedJob[]>;
   skillEvents: Accessor<SkillLoadEvent[]>;
   subagents: Accessor<SubagentSession[]>;
   activeSubagent: Accessor<SubagentSession | null>;
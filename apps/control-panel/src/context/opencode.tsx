@@ -30,6 +30,7 @@ export type {
   WorkerRuntime,
   WorkerStreamChunk,
   WorkflowCarryTrim,
+  WorkflowPendingApproval,
   WorkflowRun,
 } from "./opencode-types";
 
@@ -58,6 +59,7 @@ export const OpenCodeProvider: ParentComponent<{ baseUrl?: string }> = (props) =
     lastSubagentEvent: null,
     workerStreams: {},
     workflowRuns: {},
+    jobQueue: [],
     skillEvents: [],
     modelOptions: [],
     toolIds: [],
@@ -144,6 +146,7 @@ export const OpenCodeProvider: ParentComponent<{ baseUrl?: string }> = (props) =
     workers: () => Object.values(state.workers),
     workerStreams: () => Object.values(state.workerStreams),
     workflowRuns: () => Object.values(state.workflowRuns),
+    jobQueue: () => state.jobQueue,
     skillEvents: () => state.skillEvents ?? [],
     subagents: () => Object.values(state.subagents),
     activeSubagent: () => (state.lastSubagentEvent?.type === "active" ? state.lastSubagentEvent.subagent : null),
@@ -5,11 +5,17 @@ import type { OrchestratorEvent, OrchestratorEventType } from "./opencode-types"
 const eventTypes: OrchestratorEventType[] = [
   "orchestra.worker.status",
   "orchestra.worker.stream",
+  "orchestra.worker.wakeup",
   "orchestra.workflow.started",
   "orchestra.workflow.step",
+  "orchestra.workflow.step.retry",
   "orchestra.workflow.completed",
   "orchestra.workflow.carry.trimmed",
+  "orchestra.workflow.approval",
   "orchestra.memory.written",
+  "orchestra.budget.exceeded",
+  "orchestra.job.queue",
+  "orchestra.prompt.fit",
   "orchestra.skill.load.started",
   "orchestra.skill.load.completed",
   "orchestra.skill.load.failed",
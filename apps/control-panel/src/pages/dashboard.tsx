@@ -136,6 +136,7 @@ export const DashboardPage: Component = () => {
                         </div>
                         <div class="text-xs text-muted-foreground">
                           {worker.model ?? "Auto model"} · {worker.id}
+                          {worker.replicaOf ? ` · replica ${worker.replicaIndex ?? "?"} of ${worker.replicaOf}` : ""}
                         </div>
                       </CardHeader>
                       <CardContent class="space-y-3 text-sm">
@@ -1,11 +1,13 @@
 /**
- * Memory Page - Inspect orchestrator memory writes
+ * Memory Page - Inspect orchestrator memory writes and move memories between projects
  */
 
-import { type Component, createMemo, createSignal, For, Show } from "solid-js";
+import { type Component, createEffect, createMemo, createSignal, For, Show } from "solid-js";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { useLayout } from "@/context/layout";
 import { useOpenCode } from "@/context/opencode";
 import { parseOrchestratorEvent } from "@/context/opencode-helpers";
 import type { OrchestratorEvent } from "@/context/opencode-types";
@@ -14,10 +16,139 @@ import { formatRelativeTime } from "@/lib/utils";
 const asString = (value: unknown) => (typeof value === "string" ? value : "");
 const asStringArray = (value: unknown) => (Array.isArray(value) ? value.map(String) : []);
 
+type TextPart = { type?: string; text?: string };
+type TransferOp = "memory.export" | "memory.import" | "memory.promote" | "memory.rekey";
+type ConflictPolicy = "skip" | "overwrite" | "merge-tags";
+
+const extractText = (parts: TextPart[] | undefined): string => {
+  if (!parts || parts.length === 0) return "";
+  return parts
+    .filter((part) => part.type === "text" && typeof part.text === "string")
+    .map((part) => part.text?.trim() ?? "")
+    .filter(Boolean)
+    .join("\n\n");
+};
+
+const parseJson = <T,>(value: string): T | null => {
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+};
+
+const formatCounts = (value: unknown): string => {
+  if (!value || typeof value !== "object") return "";
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, count]) => typeof count === "number" && count > 0)
+    .map(([name, count]) => `${count} ${name}`)
+    .join(", ");
+};
+
 export const MemoryPage: Component = () => {
-  const { events } = useOpenCode();
+  const { client, events, sessions } = useOpenCode();
+  const { selectedWorkerId } = useLayout();
   const [query, setQuery] = createSignal("");
 
+  const [selectedSessionId, setSelectedSessionId] = createSignal<string | null>(null);
+  const [exportPath, setExportPath] = createSignal("");
+  const [importPath, setImportPath] = createSignal("");
+  const [onConflict, setOnConflict] = createSignal<ConflictPolicy>("skip");
+  const [promoteKeys, setPromoteKeys] = createSignal("");
+  const [rekeyFrom, setRekeyFrom] = createSignal("");
+  const [transferOutput, setTransferOutput] = createSignal("");
+  const [transferError, setTransferError] = createSignal<string | null>(null);
+  const [transferRunning, setTransferRunning] = createSignal<TransferOp | null>(null);
+
+  createEffect(() => {
+    const preferred = selectedWorkerId();
+    if (!selectedSessionId() && preferred) {
+      setSelectedSessionId(preferred);
+      return;
+    }
+    if (!selectedSessionId() && sessions().length > 0) {
+      setSelectedSessionId(sessions()[0].id);
+    }
+  });
+
+  const runTransfer = async (op: TransferOp, memory: Record<string, unknown>) => {
+    const sessionId = selectedSessionId();
+    if (!sessionId) {
+      setTransferError("Select a session to run memory operations.");
+      return;
+    }
+    setTransferRunning(op);
+    setTransferError(null);
+    setTransferOutput("");
+    try {
+      const payload = JSON.stringify(memory).replace(/"/g, '\\"');
+      const args = `--kind op --op ${op} --task "${op}" --memory "${payload}"`;
+      const startRes = await client.session.command({
+        path: { id: sessionId },
+        body: { command: "task_start", arguments: args },
+      });
+      const startText = extractText(startRes.data?.parts as TextPart[] | undefined);
+      const taskId = startText ? parseJson<{ taskId?: string }>(startText)?.taskId : undefined;
+      if (!taskId || typeof taskId !== "string") {
+        setTransferError(`Failed to start ${op}.`);
+        setTransferOutput(startText);
+        return;
+      }
+
+      const awaitRes = await client.session.command({
+        path: { id: sessionId },
+        body: { command: "task_await", arguments: `--taskId ${taskId}` },
+      });
+      const awaitText = extractText(awaitRes.data?.parts as TextPart[] | undefined);
+      const jobPayload = awaitText ? parseJson<{ responseText?: string; error?: string }>(awaitText) : null;
+      if (jobPayload?.error) {
+        setTransferError(String(jobPayload.error));
+      } else {
+        setTransferOutput(jobPayload?.responseText ? String(jobPayload.responseText) : awaitText || `${op} completed.`);
+      }
+    } catch (err) {
+      setTransferError(err instanceof Error ? err.message : `Failed to run ${op}.`);
+    } finally {
+      setTransferRunning(null);
+    }
+  };
+
+  const handleExport = () => runTransfer("memory.export", exportPath().trim() ? { path: exportPath().trim() } : {});
+
+  const handleImport = () => {
+    if (!importPath().trim()) {
+      setTransferError("Provide the JSONL file to import.");
+      return;
+    }
+    return runTransfer("memory.import", { path: importPath().trim(), onConflict: onConflict() });
+  };
+
+  const handlePromote = () => {
+    const entries = promoteKeys()
+      .split(",")
+      .map((key) => key.trim())
+      .filter(Boolean);
+    if (entries.length === 0) {
+      setTransferError("List the keys to promote, or a prefix ending in *.");
+      return;
+    }
+    const keys = entries.filter((key) => !key.endsWith("*"));
+    const prefix = entries.find((key) => key.endsWith("*"))?.slice(0, -1);
+    return runTransfer("memory.promote", {
+      ...(keys.length > 0 ? { keys } : {}),
+      ...(prefix ? { keyPrefix: prefix } : {}),
+      onConflict: onConflict(),
+    });
+  };
+
+  const handleRekey = () => {
+    if (!rekeyFrom().trim()) {
+      setTransferError("Provide the old projectId to re-key from.");
+      return;
+    }
+    return runTransfer("memory.rekey", { fromProjectId: rekeyFrom().trim(), onConflict: onConflict() });
+  };
+
   const memoryWrites = createMemo(() =>
     events()
       .map((item) => parseOrchestratorEvent(item.payload))
@@ -105,6 +236,117 @@ export const MemoryPage: Component = () => {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Transfer</CardTitle>
+              <CardDescription>
+                Export or import memories as JSONL, promote project memories to global, or re-key them after the
+                projectId changed. Runs in the selected session's project.
+              </CardDescription>
+            </CardHeader>
+            <CardContent class="space-y-4">
+              <div class="grid gap-4 md:grid-cols-2">
+                <label class="flex flex-col gap-2 text-xs text-muted-foreground">
+                  <span class="font-medium text-foreground">Session</span>
+                  <select
+                    class="input"
+                    value={selectedSessionId() ?? ""}
+                    onChange={(e) => setSelectedSessionId(e.currentTarget.value)}
+                  >
+                    <For
+                      each={sessions()}
+                      fallback={
+                        <option value="" disabled>
+                          No sessions available
+                        </option>
+                      }
+                    >
+                      {(session) => (
+                        <option value={session.id}>{session.title || session.id.slice(0, 8)}</option>
+                      )}
+                    </For>
+                  </select>
+                </label>
+                <label class="flex flex-col gap-2 text-xs text-muted-foreground">
+                  <span class="font-medium text-foreground">Existing keys</span>
+                  <select
+                    class="input"
+                    value={onConflict()}
+                    onChange={(e) => setOnConflict(e.currentTarget.value as ConflictPolicy)}
+                  >
+                    <option value="skip">Skip (keep existing)</option>
+                    <option value="overwrite">Overwrite</option>
+                    <option value="merge-tags">Merge tags</option>
+                  </select>
+                </label>
+              </div>
+
+              <div class="grid gap-3 md:grid-cols-[1fr_auto] items-end">
+                <label class="flex flex-col gap-2 text-xs text-muted-foreground">
+                  <span class="font-medium text-foreground">Export to</span>
+                  <Input
+                    placeholder=".opencode/memory/export-<timestamp>.jsonl"
+                    value={exportPath()}
+                    onInput={(e) => setExportPath(e.currentTarget.value)}
+                  />
+                </label>
+                <Button variant="outline" onClick={handleExport} disabled={transferRunning() !== null}>
+                  {transferRunning() === "memory.export" ? "Exporting..." : "Export"}
+                </Button>
+
+                <label class="flex flex-col gap-2 text-xs text-muted-foreground">
+                  <span class="font-medium text-foreground">Import from</span>
+                  <Input
+                    placeholder="path/to/memory.jsonl"
+                    value={importPath()}
+                    onInput={(e) => setImportPath(e.currentTarget.value)}
+                  />
+                </label>
+                <Button variant="outline" onClick={handleImport} disabled={transferRunning() !== null}>
+                  {transferRunning() === "memory.import" ? "Importing..." : "Import"}
+                </Button>
+
+                <label class="flex flex-col gap-2 text-xs text-muted-foreground">
+                  <span class="font-medium text-foreground">Promote to global</span>
+                  <Input
+                    placeholder="decision:db, decision:*"
+                    value={promoteKeys()}
+                    onInput={(e) => setPromoteKeys(e.currentTarget.value)}
+                  />
+                </label>
+                <Button variant="outline" onClick={handlePromote} disabled={transferRunning() !== null}>
+                  {transferRunning() === "memory.promote" ? "Promoting..." : "Promote"}
+                </Button>
+
+                <label class="flex flex-col gap-2 text-xs text-muted-foreground">
+                  <span class="font-medium text-foreground">Re-key from projectId</span>
+                  <Input
+                    placeholder="old project id"
+                    value={rekeyFrom()}
+                    onInput={(e) => setRekeyFrom(e.currentTarget.value)}
+                  />
+                </label>
+                <Button variant="outline" onClick={handleRekey} disabled={transferRunning() !== null}>
+                  {transferRunning() === "memory.rekey" ? "Re-keying..." : "Re-key"}
+                </Button>
+              </div>
+
+              <Show when={transferError()}>
+                {(err) => (
+                  <div class="rounded-md border border-destructive/40 bg-destructive/10 px-3 py-2 text-xs text-destructive">
+                    {err()}
+                  </div>
+                )}
+              </Show>
+
+              <Show when={transferOutput()}>
+                <pre class="rounded-md border border-border bg-card/70 p-3 text-xs text-muted-foreground whitespace-pre-wrap">
+                  {transferOutput()}
+                </pre>
+              </Show>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Recent Writes</CardTitle>
@@ -119,6 +361,7 @@ export const MemoryPage: Component = () => {
                   {(event) => {
                     const data = event.data;
                     const tags = asStringArray(data.tags);
+                    const counts = formatCounts(data.counts);
                     return (
                       <div class="rounded-md border border-border/60 bg-card/70 px-3 py-2">
                         <div class="flex items-center justify-between text-xs text-muted-foreground">
@@ -130,6 +373,9 @@ export const MemoryPage: Component = () => {
                           {asString(data.action)} · {asString(data.projectId) || "project"} ·{" "}
                           {asString(data.taskId) || "task"}
                         </div>
+                        <Show when={counts}>
+                          <div class="text-xs text-muted-foreground">{counts}</div>
+                        </Show>
                         <Show when={tags.length > 0}>
                           <div class="mt-2 flex flex-wrap gap-2">
                             <For each={tags}>{(tag) => <Badge variant="secondary">{tag}</Badge>}</For>
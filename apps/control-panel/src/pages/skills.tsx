@@ -22,6 +22,21 @@ type SkillInventoryItem = {
   errors?: string[];
 };
 
+type SkillLockInfo = {
+  name: string;
+  version?: string;
+  hash?: string;
+  status: "locked" | "drift" | "unlocked" | "missing";
+  workflows: string[];
+  drift?: string[];
+};
+
+type SkillsLockSummary = {
+  lockfile?: string;
+  policy?: string;
+  skills: Map<string, SkillLockInfo>;
+};
+
 type TextPart = { type?: string; text?: string };
 
 type SkillStatusBadge = {
@@ -56,6 +71,21 @@ const formatSkillSource = (source?: string): string => {
   }
 };
 
+const getLockBadge = (lock?: SkillLockInfo): SkillStatusBadge => {
+  switch (lock?.status) {
+    case "locked":
+      return { label: "Locked", variant: "ready" };
+    case "drift":
+      return { label: "Drift", variant: "error" };
+    case "missing":
+      return { label: "Locked, missing", variant: "error" };
+    default:
+      return { label: "Unlocked", variant: "outline" };
+  }
+};
+
+const shortHash = (hash?: string): string => (hash ? hash.replace(/^sha256:/, "").slice(0, 12) : "");
+
 const getStatusBadge = (skill: SkillInventoryItem): SkillStatusBadge => {
   if (skill.status === "disabled") {
     return { label: "Tool disabled", variant: "error" };
@@ -84,6 +114,7 @@ export const SkillsPage: Component = () => {
   const [lastRefresh, setLastRefresh] = createSignal<number | null>(null);
   const [includeGlobal, setIncludeGlobal] = createSignal(true);
   const [selectedSkillName, setSelectedSkillName] = createSignal<string | null>(null);
+  const [lockSummary, setLockSummary] = createSignal<SkillsLockSummary | null>(null);
 
   const workerById = createMemo(() => new Map(workers().map((worker) => [worker.id, worker])));
 
@@ -154,6 +185,41 @@ export const SkillsPage: Component = () => {
     return items;
   };
 
+  const normalizeLock = (raw: unknown): SkillsLockSummary | null => {
+    if (!asRecord(raw) || !Array.isArray(raw.skills)) return null;
+    const skills = new Map<string, SkillLockInfo>();
+    for (const item of raw.skills) {
+      if (!asRecord(item)) continue;
+      const name = asString(item.name);
+      const status = asString(item.status);
+      if (!name || !["locked", "drift", "unlocked", "missing"].includes(status)) continue;
+      const entry: SkillLockInfo = {
+        name,
+        status: status as SkillLockInfo["status"],
+        workflows: Array.isArray(item.workflows) ? item.workflows.map(String) : [],
+      };
+      if (asString(item.version)) entry.version = asString(item.version);
+      if (asString(item.hash)) entry.hash = asString(item.hash);
+      if (Array.isArray(item.drift) && item.drift.length > 0) entry.drift = item.drift.map(String);
+      skills.set(name, entry);
+    }
+    return { lockfile: asString(raw.lockfile) || undefined, policy: asString(raw.policy) || undefined, skills };
+  };
+
+  // Lock status comes from the orchestrator; the skill list still loads when it is unavailable.
+  const loadLockStatus = async (sessionId: string) => {
+    try {
+      const res = await client.session.command({
+        path: { id: sessionId },
+        body: { command: "task_list", arguments: "--view skills --format json" },
+      });
+      const text = extractText(res.data?.parts as TextPart[] | undefined);
+      setLockSummary(text ? normalizeLock(JSON.parse(text)) : null);
+    } catch {
+      setLockSummary(null);
+    }
+  };
+
   const loadSkills = async () => {
     const sessionId = selectedSessionId();
     if (!sessionId) {
@@ -172,6 +238,7 @@ export const SkillsPage: Component = () => {
       const parsed = text ? JSON.parse(text) : [];
       const next = normalizeSkills(parsed);
       setSkills(next);
+      await loadLockStatus(sessionId);
       setLastRefresh(Date.now());
       if (!next.find((skill) => skill.name === selectedSkillName())) {
         setSelectedSkillName(next[0]?.name ?? null);
@@ -275,6 +342,7 @@ export const SkillsPage: Component = () => {
                       {(skill) => {
                         const status = getStatusBadge(skill);
                         const lastLoad = lastLoadBySkill().get(skill.name);
+                        const lock = lockSummary()?.skills.get(skill.name);
                         return (
                           <button
                             class={
@@ -293,6 +361,16 @@ export const SkillsPage: Component = () => {
                               <span>{formatSkillSource(skill.source)}</span>
                               <span class="skill-item-dot" />
                               <span>{skill.permission ?? "allow"}</span>
+                              <Show when={lock && lock.status !== "unlocked" ? lock : undefined}>
+                                {(entry) => (
+                                  <>
+                                    <span class="skill-item-dot" />
+                                    <span class={entry().status === "locked" ? undefined : "text-destructive"}>
+                                      {getLockBadge(entry()).label}
+                                    </span>
+                                  </>
+                                )}
+                              </Show>
                               <Show when={lastLoad}>
                                 {(load) => (
                                   <>
@@ -332,6 +410,8 @@ export const SkillsPage: Component = () => {
               const status = getStatusBadge(skill());
               const lastLoad = lastLoadBySkill().get(skill().name);
               const worker = lastLoad?.workerId ? workerById().get(lastLoad.workerId) : undefined;
+              const lock = lockSummary()?.skills.get(skill().name);
+              const lockBadge = getLockBadge(lock);
               return (
                 <div class="skills-editor">
                   <div class="skills-editor-header">
@@ -372,6 +452,38 @@ export const SkillsPage: Component = () => {
                       </Card>
                     </div>
 
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Lock</CardTitle>
+                        <CardDescription>
+                          Version and content hash recorded in {lockSummary()?.lockfile ?? "skills.lock.json"}
+                          {lockSummary()?.policy ? ` (on drift: ${lockSummary()?.policy})` : ""}.
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <Show
+                          when={lockSummary()}
+                          fallback={<div class="text-sm text-muted-foreground">Lock status unavailable.</div>}
+                        >
+                          <div class="space-y-2 text-sm">
+                            <div class="flex items-center gap-2">
+                              <Badge variant={lockBadge.variant}>{lockBadge.label}</Badge>
+                              <Show when={lock?.version}>
+                                {(version) => <span class="text-muted-foreground">v{version()}</span>}
+                              </Show>
+                              <Show when={lock?.hash}>
+                                {(hash) => <span class="text-xs text-muted-foreground font-mono">{shortHash(hash())}</span>}
+                              </Show>
+                            </div>
+                            <Show when={(lock?.workflows ?? []).length > 0}>
+                              <div class="text-xs text-muted-foreground">Workflows: {lock?.workflows.join(", ")}</div>
+                            </Show>
+                            <For each={lock?.drift ?? []}>{(line) => <div class="text-xs text-destructive">• {line}</div>}</For>
+                          </div>
+                        </Show>
+                      </CardContent>
+                    </Card>
+
                     <Card>
                       <CardHeader>
                         <CardTitle>Last Loaded</CardTitle>
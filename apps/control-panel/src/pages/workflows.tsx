@@ -6,9 +6,14 @@ import { type Component, createEffect, createMemo, createSignal, For, Show } fro
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Textarea } from "@/components/ui/input";
+import { Input, Textarea } from "@/components/ui/input";
 import { useLayout } from "@/context/layout";
-import { type WorkflowCarryTrim, useOpenCode } from "@/context/opencode";
+import {
+  type WorkflowCarryTrim,
+  type WorkflowPendingApproval,
+  type WorkflowRun,
+  useOpenCode,
+} from "@/context/opencode";
 import { formatDuration, formatRelativeTime, truncate } from "@/lib/utils";
 
 type WorkflowDefinition = {
@@ -16,6 +21,18 @@ type WorkflowDefinition = {
   name?: string;
   description?: string;
   steps?: Array<{ id?: string; title?: string }>;
+  inputs?: Record<
+    string,
+    {
+      type: "string" | "number" | "boolean";
+      description?: string;
+      required?: boolean;
+      default?: string | number | boolean;
+      enum?: Array<string | number | boolean>;
+    }
+  >;
+  source?: "builtin" | "config" | "project" | "global";
+  sourcePath?: string;
 };
 
 type TextPart = { type?: string; text?: string };
@@ -38,6 +55,92 @@ const formatCarryTrimTitle = (trim?: WorkflowCarryTrim): string | undefined => {
   return parts.length > 0 ? parts.join(" | ") : undefined;
 };
 
+/** True when the run's steps branch or fan in (not a plain sequence). */
+const isGraphRun = (run: WorkflowRun): boolean => {
+  const graph = run.graph ?? [];
+  return graph.some((node, index) => {
+    const previous = graph[index - 1];
+    if (!previous) return node.dependsOn.length > 0;
+    return node.dependsOn.length !== 1 || node.dependsOn[0] !== previous.id;
+  });
+};
+
+type ApprovalDecision = {
+  op: "workflow.approve" | "workflow.reject";
+  comment?: string;
+  carry?: string;
+  instructions?: string;
+};
+
+/** Review form for one step waiting for approval. */
+const ApprovalItem: Component<{
+  run: WorkflowRun;
+  pending: WorkflowPendingApproval;
+  onDecide: (decision: ApprovalDecision) => Promise<void>;
+}> = (props) => {
+  const [comment, setComment] = createSignal("");
+  const [carry, setCarry] = createSignal(props.pending.carry ?? "");
+  const [instructions, setInstructions] = createSignal("");
+  const [busy, setBusy] = createSignal(false);
+
+  const decide = async (op: ApprovalDecision["op"]) => {
+    setBusy(true);
+    try {
+      await props.onDecide({
+        op,
+        comment: comment().trim() || undefined,
+        carry: op === "workflow.approve" && carry() !== (props.pending.carry ?? "") ? carry() : undefined,
+        instructions: op === "workflow.reject" ? instructions().trim() || undefined : undefined,
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div class="rounded-md border border-status-busy/40 bg-card/70 p-3 space-y-3">
+      <div class="flex items-center justify-between">
+        <div>
+          <div class="font-medium text-foreground">
+            {props.run.workflowName ?? props.run.workflowId} · {props.pending.stepTitle ?? props.pending.stepId}
+            {props.pending.iteration ? ` (pass ${props.pending.iteration})` : ""}
+          </div>
+          <div class="text-xs text-muted-foreground">
+            Run {props.run.runId.slice(0, 8)} · requested {formatRelativeTime(props.pending.requestedAt)}
+          </div>
+        </div>
+        <Badge variant="busy">Awaiting approval</Badge>
+      </div>
+      <label class="flex flex-col gap-2 text-xs text-muted-foreground">
+        <span class="font-medium text-foreground">Carry for downstream steps</span>
+        <Textarea rows={4} value={carry()} onInput={(e) => setCarry(e.currentTarget.value)} />
+      </label>
+      <div class="grid gap-3 md:grid-cols-2">
+        <label class="flex flex-col gap-2 text-xs text-muted-foreground">
+          <span class="font-medium text-foreground">Comment</span>
+          <Input value={comment()} onInput={(e) => setComment(e.currentTarget.value)} placeholder="Optional" />
+        </label>
+        <label class="flex flex-col gap-2 text-xs text-muted-foreground">
+          <span class="font-medium text-foreground">Instructions if rejected</span>
+          <Input
+            value={instructions()}
+            onInput={(e) => setInstructions(e.currentTarget.value)}
+            placeholder="What the step should do differently"
+          />
+        </label>
+      </div>
+      <div class="flex items-center gap-2">
+        <Button onClick={() => decide("workflow.approve")} disabled={busy()}>
+          Approve
+        </Button>
+        <Button variant="outline" onClick={() => decide("workflow.reject")} disabled={busy()}>
+          Reject and retry
+        </Button>
+      </div>
+    </div>
+  );
+};
+
 const parseJson = <T,>(value: string): T | null => {
   try {
     return JSON.parse(value) as T;
@@ -58,6 +161,7 @@ export const WorkflowsPage: Component = () => {
 
   const [selectedWorkflowId, setSelectedWorkflowId] = createSignal<string>("");
   const [task, setTask] = createSignal("");
+  const [inputValues, setInputValues] = createSignal<Record<string, string>>({});
   const [runOutput, setRunOutput] = createSignal("");
   const [runError, setRunError] = createSignal<string | null>(null);
   const [running, setRunning] = createSignal(false);
@@ -68,6 +172,10 @@ export const WorkflowsPage: Component = () => {
       .sort((a, b) => b.startedAt - a.startedAt),
   );
   const activeRuns = createMemo(() => sortedRuns().filter((run) => run.status === "running"));
+  const pendingApprovals = createMemo(() =>
+    sortedRuns().flatMap((run) => (run.pendingApprovals ?? []).map((pending) => ({ run, pending }))),
+  );
+  const [approvalError, setApprovalError] = createSignal<string | null>(null);
   const skillsByRun = createMemo(() => {
     const map = new Map<string, string[]>();
     for (const event of skillEvents()) {
@@ -152,6 +260,16 @@ export const WorkflowsPage: Component = () => {
     void loadWorkflows();
   });
 
+  const selectedWorkflowInputs = createMemo(() => {
+    const workflow = availableWorkflows().find((entry) => entry.id === selectedWorkflowId());
+    return Object.entries(workflow?.inputs ?? {});
+  });
+
+  createEffect(() => {
+    selectedWorkflowId();
+    setInputValues({});
+  });
+
   const handleRunWorkflow = async () => {
     const sessionId = selectedSessionId();
     if (!sessionId) {
@@ -171,7 +289,12 @@ export const WorkflowsPage: Component = () => {
     setRunOutput("");
     try {
       const safeTask = task().trim().replace(/"/g, '\\"');
-      const args = `--kind workflow --workflowId ${selectedWorkflowId()} --task "${safeTask}"`;
+      const inputs = Object.fromEntries(
+        Object.entries(inputValues()).filter(([, value]) => value.trim() !== "")
+      );
+      const inputArgs =
+        Object.keys(inputs).length > 0 ? ` --inputs "${JSON.stringify(inputs).replace(/"/g, '\\"')}"` : "";
+      const args = `--kind workflow --workflowId ${selectedWorkflowId()} --task "${safeTask}"${inputArgs}`;
       const startRes = await client.session.command({
         path: { id: sessionId },
         body: { command: "task_start", arguments: args },
@@ -210,6 +333,33 @@ export const WorkflowsPage: Component = () => {
     }
   };
 
+  const handleApproval = async (run: WorkflowRun, pending: WorkflowPendingApproval, decision: ApprovalDecision) => {
+    const sessionId = selectedSessionId();
+    if (!sessionId) {
+      setApprovalError("Select a session to approve workflow steps.");
+      return;
+    }
+    setApprovalError(null);
+    try {
+      const approval = {
+        runId: run.runId,
+        stepId: pending.stepId,
+        approver: "control-panel",
+        comment: decision.comment,
+        carry: decision.carry,
+        instructions: decision.instructions,
+      };
+      const safeApproval = JSON.stringify(approval).replace(/"/g, '\\"');
+      const args = `--kind op --op ${decision.op} --task "${decision.op} ${pending.stepId}" --approval "${safeApproval}"`;
+      await client.session.command({
+        path: { id: sessionId },
+        body: { command: "task_start", arguments: args },
+      });
+    } catch (err) {
+      setApprovalError(err instanceof Error ? err.message : "Failed to send approval.");
+    }
+  };
+
   return (
     <div class="flex-1 flex flex-col overflow-hidden">
       <header class="px-6 py-5 border-b border-border">
@@ -268,6 +418,7 @@ export const WorkflowsPage: Component = () => {
                       {(workflow) => (
                         <option value={workflow.id}>
                           {workflow.name ?? workflow.id} · {workflow.steps?.length ?? 0} steps
+                          {workflow.source ? ` · ${workflow.source}` : ""}
                         </option>
                       )}
                     </For>
@@ -285,6 +436,34 @@ export const WorkflowsPage: Component = () => {
                 />
               </label>
 
+              <Show when={selectedWorkflowInputs().length > 0}>
+                <div class="grid gap-3 md:grid-cols-2">
+                  <For each={selectedWorkflowInputs()}>
+                    {([name, input]) => (
+                      <label class="flex flex-col gap-2 text-xs text-muted-foreground">
+                        <span class="font-medium text-foreground">
+                          {name} <span class="text-muted-foreground">({input.type})</span>
+                        </span>
+                        <Input
+                          value={inputValues()[name] ?? ""}
+                          onInput={(e) => {
+                            const value = e.currentTarget.value;
+                            setInputValues((prev) => ({ ...prev, [name]: value }));
+                          }}
+                          placeholder={
+                            input.enum
+                              ? input.enum.join(" | ")
+                              : input.default !== undefined
+                                ? `Default: ${String(input.default)}`
+                                : (input.description ?? (input.required === false ? "Optional" : "Required"))
+                          }
+                        />
+                      </label>
+                    )}
+                  </For>
+                </div>
+              </Show>
+
               <div class="flex items-center gap-2">
                 <Button onClick={handleRunWorkflow} disabled={running() || workflowsLoading()}>
                   {running() ? "Running..." : "Run Workflow"}
@@ -319,6 +498,32 @@ export const WorkflowsPage: Component = () => {
             </CardContent>
           </Card>
 
+          <Show when={pendingApprovals().length > 0}>
+            <Card>
+              <CardHeader>
+                <CardTitle>Pending Approvals</CardTitle>
+                <CardDescription>
+                  Steps paused for review. Approve (optionally editing the carry) or reject to retry the step with
+                  new instructions.
+                </CardDescription>
+              </CardHeader>
+              <CardContent class="space-y-3 text-sm">
+                <For each={pendingApprovals()}>
+                  {(item) => (
+                    <ApprovalItem
+                      run={item.run}
+                      pending={item.pending}
+                      onDecide={(decision) => handleApproval(item.run, item.pending, decision)}
+                    />
+                  )}
+                </For>
+                <Show when={approvalError()}>
+                  {(err) => <div class="text-xs text-destructive">{err()}</div>}
+                </Show>
+              </CardContent>
+            </Card>
+          </Show>
+
           <div class="grid gap-6 lg:grid-cols-2">
             <Card>
               <CardHeader>
@@ -340,7 +545,9 @@ export const WorkflowsPage: Component = () => {
                               Started {formatRelativeTime(run.startedAt)}
                             </div>
                           </div>
-                          <Badge variant="busy">Running</Badge>
+                          <Badge variant="busy">
+                            {(run.pendingApprovals?.length ?? 0) > 0 ? "Awaiting approval" : "Running"}
+                          </Badge>
                         </div>
                         <div class="mt-2 text-xs text-muted-foreground">
                           {run.steps.length} steps · Run {run.runId.slice(0, 8)}
@@ -379,6 +586,9 @@ export const WorkflowsPage: Component = () => {
                           <div class="font-medium text-foreground">{run.workflowName ?? run.workflowId}</div>
                           <div class="text-xs text-muted-foreground">
                             {formatRelativeTime(run.startedAt)} · {run.steps.length} steps
+                            {run.usage
+                              ? ` · ${run.usage.inputTokens + run.usage.outputTokens} tokens · $${run.usage.cost.toFixed(4)}`
+                              : ""}
                           </div>
                           <Show when={(skillsByRun().get(run.runId) ?? []).length > 0}>
                             <div class="mt-2 flex flex-wrap gap-2">
@@ -436,6 +646,9 @@ export const WorkflowsPage: Component = () => {
                             <div class="flex items-center justify-between text-xs">
                               <div class="min-w-0">
                                 <div class="text-muted-foreground">{step.stepTitle ?? step.stepId}</div>
+                                <Show when={isGraphRun(run) && (step.dependsOn?.length ?? 0) > 0}>
+                                  <div class="text-[10px] text-muted-foreground/80">after {step.dependsOn?.join(", ")}</div>
+                                </Show>
                                 <Show when={(skillsByStep().get(run.runId)?.get(step.stepId) ?? []).length > 0}>
                                   <div class="mt-1 flex flex-wrap gap-1">
                                     <For each={(skillsByStep().get(run.runId)?.get(step.stepId) ?? []).slice(0, 3)}>
@@ -452,8 +665,18 @@ export const WorkflowsPage: Component = () => {
                                     </Show>
                                   </div>
                                 </Show>
-                                <Show when={step.warning || step.carryTrim}>
+                                <Show when={step.warning || step.carryTrim || step.approval}>
                                   <div class="mt-1 flex flex-wrap gap-1">
+                                    <Show when={step.approval}>
+                                      {(approval) => (
+                                        <span
+                                          class="rounded-full border border-border px-2 py-0.5 text-[10px] text-muted-foreground"
+                                          title={approval().comment ?? approval().instructions}
+                                        >
+                                          {approval().decision === "approved" ? "Approved" : "Rejected"} by {approval().approver}
+                                        </span>
+                                      )}
+                                    </Show>
                                     <Show when={step.warning}>
                                       <span
                                         class="rounded-full border border-status-error/40 px-2 py-0.5 text-[10px] text-status-error"
@@ -474,7 +697,9 @@ export const WorkflowsPage: Component = () => {
                                 </Show>
                               </div>
                               <span class="text-foreground">
-                                {step.status === "error" ? "Error" : "Success"} · {formatDuration(step.durationMs)}
+                                {step.status === "error" ? "Error" : step.status === "skipped" ? "Skipped" : "Success"}
+                                {step.iteration ? ` (pass ${step.iteration})` : ""}
+                                {step.attempts ? ` · ${step.attempts} attempts` : ""} · {formatDuration(step.durationMs)}
                               </span>
                             </div>
                           )}
@@ -13,10 +13,10 @@ function getBridgeTimeoutMs() {
   return Number.isFinite(value) && value > 0 ? value : 10_000;
 }
 
-async function postJson(path, body) {
+async function postJson(path, body, options) {
   const { url, token } = getBridgeConfig();
   if (!url || !token) throw new Error("Missing orchestrator bridge env (OPENCODE_ORCH_BRIDGE_URL/OPENCODE_ORCH_BRIDGE_TOKEN)");
-  const timeoutMs = getBridgeTimeoutMs();
+  const timeoutMs = options?.timeoutMs ?? getBridgeTimeoutMs();
   const abort = new AbortController();
   const timer = setTimeout(() => abort.abort(new Error(`Bridge request timed out after ${timeoutMs}ms`)), timeoutMs);
   let res;
@@ -64,9 +64,79 @@ Set final=true on the last chunk to indicate completion.`,
     },
   });
 
+  const wakeupTool = tool({
+    description: `Wake up the orchestrator without waiting to be asked.
+Use reason "result_ready" when an async job's result is done, "needs_attention" when you are blocked
+on a decision or missing input, "error" for failures the orchestrator should know about now.
+Repeated or frequent wakeups for the same job are dropped, so send one per real change.`,
+    args: {
+      reason: tool.schema
+        .enum(["result_ready", "needs_attention", "error", "progress", "custom"])
+        .describe("Why the orchestrator should look now"),
+      summary: tool.schema.string().optional().describe("One or two sentences the orchestrator will read"),
+      jobId: tool.schema.string().optional().describe("Job ID from <orchestrator-job>, if any"),
+    },
+    async execute(args) {
+      const { workerId } = getBridgeConfig();
+      if (!workerId) return "Missing OPENCODE_ORCH_WORKER_ID; cannot wake the orchestrator.";
+
+      try {
+        const res = await postJson("/v1/wakeup", {
+          workerId,
+          jobId: args.jobId,
+          reason: args.reason,
+          summary: args.summary,
+        });
+        return res.routed
+          ? "Orchestrator notified."
+          : "Wakeup recorded, but no orchestrator session owns this worker.";
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        if (message.includes("Bridge error 429")) {
+          return "Wakeup dropped: a matching or too-frequent wakeup was already sent for this job. Continue your work.";
+        }
+        throw err;
+      }
+    },
+  });
+
+  const delegateTool = tool({
+    description: `Hand part of your task to another worker and wait for its reply.
+Use this when a peer is better suited (e.g. "architect" for design questions, "docs" for research).
+Give the peer a self-contained task: it does not see your conversation.
+Delegating back to a worker already in the chain, or too many levels deep, is refused.`,
+    args: {
+      workerId: tool.schema.string().describe("Peer worker id (e.g. 'architect', 'docs')"),
+      task: tool.schema.string().describe("Self-contained task for the peer worker"),
+      jobId: tool.schema.string().optional().describe("Your job ID from <orchestrator-job>, if any"),
+      timeoutMs: tool.schema.number().optional().describe("How long to wait for the peer (default: 10 minutes)"),
+    },
+    async execute(args) {
+      const { workerId } = getBridgeConfig();
+      if (!workerId) return "Missing OPENCODE_ORCH_WORKER_ID; cannot delegate.";
+
+      const timeoutMs = typeof args.timeoutMs === "number" && args.timeoutMs > 0 ? args.timeoutMs : 600_000;
+      const res = await postJson(
+        "/v1/delegate",
+        {
+          workerId,
+          targetWorkerId: args.workerId,
+          task: args.task,
+          jobId: args.jobId,
+          timeoutMs,
+        },
+        { timeoutMs: timeoutMs + 90_000 }
+      );
+      if (!res.ok) return `Delegation to "${args.workerId}" failed: ${res.error ?? "unknown error"}`;
+      return res.response || `Worker "${args.workerId}" finished without a text reply.`;
+    },
+  });
+
   return {
     tool: {
       stream_chunk: streamChunkTool,
+      wakeup_orchestrator: wakeupTool,
+      delegate_to_worker: delegateTool,
     },
     "tool.execute.before": async (input, output) => {
       if (input.tool !== "skill") return;
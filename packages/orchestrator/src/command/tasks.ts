@@ -1,19 +1,68 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, isAbsolute, join, relative, resolve } from "node:path";
 import { tool, type ToolDefinition } from "@opencode-ai/plugin";
 import { getProfile } from "../config/profiles";
-import { workerJobs } from "../core/jobs";
+import {
+  buildDelegationChain,
+  checkDelegation,
+  type DelegationRequest,
+  type DelegationResult,
+  findDelegatingJob,
+} from "../core/delegation";
+import { findBudgetBreach, formatBudgetBreach } from "../core/guardrails";
+import { captureJobChanges, type JobChanges } from "../core/diffs";
+import { type WorkerJob, workerJobs } from "../core/jobs";
+import { jobScheduler, resolveWorkerConcurrency } from "../core/scheduler";
+import { parseReplicaId } from "../core/worker-replicas";
+import {
+  applyJobWorktree,
+  createJobWorktree,
+  finalizeJobWorktree,
+  type JobWorktree,
+  type JobWorktreeAction,
+  WORKTREE_BRANCH_PREFIX,
+} from "../core/worktrees";
 import type { OrchestratorContext } from "../context/orchestrator-context";
+import type { JsonSchema } from "../types";
+import type { WorkerAttachment } from "../workers/prompt/attachments";
+import { estimateTokens } from "../workers/prompt/budget";
 import { sendToWorker, spawnWorker, stopWorker } from "../workers/spawner";
+import { isWithin } from "../skills/discovery";
+import { getSkillLockStatuses, getSkillsLockPath, lockWorkflowSkills, readSkillsLock, writeSkillsLock } from "../skills/lockfile";
+import { collectWorkflowSkillRequirements, listSkills, validateSkills } from "../skills/preflight";
+import { installSkills, loadSkillRegistry } from "../skills/registry";
 import { renderMarkdownTable } from "./markdown";
 import type { ToolContext } from "./state";
 import { getOrchestratorContext } from "./state";
-import { getWorkflow, listWorkflows } from "../workflows/engine";
+import { getWorkflowFileErrors } from "../workflows";
+import { getWorkflow, listWorkflows, resolveWorkflowInputs } from "../workflows/engine";
 import type { WorkflowRunResult } from "../workflows/types";
-import { continueWorkflowWithContext, resolveWorkflowLimits, runWorkflowWithContext } from "../workflows/runner";
+import { formatPendingApprovalError } from "../workflows/approvals";
+import {
+  abandonWorkflowRun,
+  continueWorkflowWithContext,
+  decideWorkflowStep,
+  resolveWorkflowLimits,
+  runWorkflowWithContext,
+} from "../workflows/runner";
+import { getWorkflowRun, listWorkflowRuns } from "../workflows/runs";
 import { getLogBuffer } from "../core/logger";
+import { usageLedger, type UsageEntry } from "../core/usage";
+import { resolveOutputSchema } from "../helpers/json-schema";
 import { fetchOpencodeConfig, fetchProviders, filterProviders, flattenProviders } from "../models/catalog";
 import { resolveWorkerModel } from "../models/resolve";
-import { loadNeo4jConfigFromEnv } from "../memory/neo4j";
-import { linkMemory, upsertMemory, type MemoryScope } from "../memory/graph";
+import { getRoutingRule, rankModels } from "../models/routing";
+import { NEO4J_NOT_CONFIGURED, resolveMemoryStore } from "../memory/backend";
+import type { MemoryScope } from "../memory/store";
+import {
+  exportMemory,
+  importMemory,
+  type MemoryConflictPolicy,
+  parseMemoryExport,
+  promoteMemory,
+  rekeyMemory,
+  serializeMemoryExport,
+} from "../memory/transfer";
 import { completeMemoryTask, recordMemoryLink, recordMemoryPut } from "../memory/tasks";
 import { publishOrchestratorEvent } from "../core/orchestrator-events";
 
@@ -32,9 +81,13 @@ type ToolAttachment = {
   mimeType?: string;
 };
 
-type MemoryOpKind = "memory.put" | "memory.link" | "memory.done";
+type MemoryTransferOpKind = "memory.export" | "memory.import" | "memory.promote" | "memory.rekey";
+type MemoryOpKind = "memory.put" | "memory.link" | "memory.done" | MemoryTransferOpKind;
 type WorkerModelOpKind = "worker.model.set" | "worker.model.reset";
-type TaskOpKind = MemoryOpKind | WorkerModelOpKind;
+type WorkflowApprovalOpKind = "workflow.approve" | "workflow.reject";
+type WorktreeOpKind = "worktree.merge" | "worktree.cherry-pick" | "worktree.discard";
+type SkillsOpKind = "skills.install" | "skills.lock";
+type TaskOpKind = MemoryOpKind | WorkerModelOpKind | WorkflowApprovalOpKind | WorktreeOpKind | SkillsOpKind;
 
 type MemoryOpPayload = {
   taskId?: string;
@@ -49,6 +102,13 @@ type MemoryOpPayload = {
   storedKeys?: string[];
   linkedKeys?: Array<{ from: string; to: string; relation: string }>;
   notes?: string;
+  /** JSONL file to write (export) or read (import); relative to the session directory */
+  path?: string;
+  onConflict?: MemoryConflictPolicy;
+  keys?: string[];
+  keyPrefix?: string;
+  fromProjectId?: string;
+  toProjectId?: string;
 };
 
 type WorkerModelOpPayload = {
@@ -58,6 +118,24 @@ type WorkerModelOpPayload = {
   respawn?: boolean;
 };
 
+type WorkflowApprovalOpPayload = {
+  runId?: string;
+  stepId?: string;
+  approver?: string;
+  comment?: string;
+  carry?: string;
+  instructions?: string;
+};
+
+type SkillsOpPayload = {
+  /** Skills to install (with their dependencies) */
+  names?: string[];
+  /** Workflow whose required skills to install, or to lock (skills.lock; default: every workflow that requires skills) */
+  workflowId?: string;
+  /** Replace skill folders that already exist */
+  overwrite?: boolean;
+};
+
 function hasImageAttachment(attachments: ToolAttachment[] | undefined): boolean {
   return Boolean(attachments?.some((a) => a.type === "image"));
 }
@@ -71,6 +149,15 @@ function guessWorkerId(task: string, attachments?: ToolAttachment[]): string {
 }
 
 function pickWorkflowResponse(result: WorkflowRunResult): { success: boolean; response?: string; error?: string } {
+  if (result.budgetExceeded) {
+    return {
+      success: false,
+      error: `Workflow paused: ${formatBudgetBreach(result.budgetExceeded)}. Continue with continueRunId "${result.runId}" once the budget allows.`,
+    };
+  }
+  if (result.pendingApprovals?.length) {
+    return { success: false, error: `Workflow paused: ${formatPendingApprovalError(result)}` };
+  }
   const errorStep = result.steps.find((step) => step.status === "error");
   if (errorStep) {
     return { success: false, error: errorStep.error ?? "workflow step failed" };
@@ -85,25 +172,132 @@ function pickWorkflowResponse(result: WorkflowRunResult): { success: boolean; re
   return { success: true, response: responseStep.response };
 }
 
+function settleWorkflowJob(jobId: string, result: WorkflowRunResult, captured?: JobChanges): void {
+  if (result.worktree) recordJobWorktree(jobId, result.worktree);
+  const changes = result.changes ?? captured;
+  if (changes) workerJobs.setChanges(jobId, changes);
+  const picked = pickWorkflowResponse(result);
+  if (picked.success && picked.response) {
+    workerJobs.setResult(jobId, { responseText: picked.response });
+  } else {
+    workerJobs.setError(jobId, { error: picked.error ?? "workflow failed" });
+  }
+
+  workerJobs.attachReport(jobId, {
+    summary: `${result.workflowName} (${result.workflowId})`,
+    ...(result.skillsLockNotice ? { notes: result.skillsLockNotice } : {}),
+    details: JSON.stringify(
+      {
+        runId: result.runId,
+        status: result.status,
+        inputs: result.inputs,
+        budgetExceeded: result.budgetExceeded,
+        pendingApprovals: result.pendingApprovals,
+        steps: result.steps.map((s) => ({
+          id: s.id,
+          title: s.title,
+          workerId: s.workerId,
+          status: s.status,
+          durationMs: s.durationMs,
+          warning: s.warning,
+          error: s.error,
+          structured: s.structured,
+          approval: s.approval,
+        })),
+      },
+      null,
+      2
+    ),
+  });
+}
+
+function formatJobStatus(job: WorkerJob): string {
+  const position = job.status === "queued" ? jobScheduler.position(job.id) : undefined;
+  return position ? `queued (#${position})` : job.status;
+}
+
+function withQueuePosition(job: WorkerJob): WorkerJob & { queuePosition?: number } {
+  const position = job.status === "queued" ? jobScheduler.position(job.id) : undefined;
+  return position ? { ...job, queuePosition: position } : job;
+}
+
 function resolveMemoryScope(context: OrchestratorContext, input?: string): MemoryScope {
   if (input === "project" || input === "global") return input;
   return (context.config.memory?.scope ?? "project") as MemoryScope;
 }
 
-async function runMemoryOp(
+async function runMemoryTransferOp(
   context: OrchestratorContext,
-  op: MemoryOpKind,
+  op: MemoryTransferOpKind,
   memory?: MemoryOpPayload
 ): Promise<{ ok: boolean; response?: string; error?: string }> {
-  if (op === "memory.put") {
-    const cfg = loadNeo4jConfigFromEnv();
-    if (!cfg) {
+  const store = resolveMemoryStore(context.config.memory);
+  if (!store) return { ok: false, error: NEO4J_NOT_CONFIGURED };
+  const projectId = context.projectId;
+  const onConflict = memory?.onConflict ?? "skip";
+  const resolvePath = (path: string) => (isAbsolute(path) ? path : resolve(context.directory, path));
+
+  try {
+    if (op === "memory.export") {
+      const scopes: MemoryScope[] = memory?.scope ? [memory.scope] : projectId ? ["project", "global"] : ["global"];
+      if (scopes.includes("project") && !projectId) return { ok: false, error: "Missing projectId; restart OpenCode." };
+      const path = memory?.path?.trim()
+        ? resolvePath(memory.path.trim())
+        : join(context.directory, ".opencode", "memory", `export-${new Date().toISOString().replace(/[:.]/g, "-")}.jsonl`);
+      const data = await exportMemory(store, { projectId, scopes });
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, serializeMemoryExport(data, { projectId }), "utf8");
       return {
-        ok: false,
-        error:
-          "Neo4j is not configured. Set env vars: OPENCODE_NEO4J_URI, OPENCODE_NEO4J_USERNAME, OPENCODE_NEO4J_PASSWORD (and optional OPENCODE_NEO4J_DATABASE).",
+        ok: true,
+        response: JSON.stringify({ path, scopes, nodes: data.nodes.length, links: data.links.length }, null, 2),
       };
     }
+
+    let result: Awaited<ReturnType<typeof importMemory>>;
+    let scope: MemoryScope = "project";
+    if (op === "memory.import") {
+      const path = memory?.path?.trim();
+      if (!path) return { ok: false, error: "Missing memory.path for op memory.import." };
+      const data = parseMemoryExport(await readFile(resolvePath(path), "utf8"));
+      result = await importMemory(store, data, { projectId, onConflict });
+    } else if (op === "memory.promote") {
+      if (!projectId) return { ok: false, error: "Missing projectId; restart OpenCode." };
+      result = await promoteMemory(store, { projectId, keys: memory?.keys, keyPrefix: memory?.keyPrefix, onConflict });
+      scope = "global";
+    } else {
+      const fromProjectId = memory?.fromProjectId?.trim();
+      const toProjectId = memory?.toProjectId?.trim() || projectId;
+      if (!fromProjectId || !toProjectId) {
+        return { ok: false, error: "Missing memory.fromProjectId (and memory.toProjectId) for op memory.rekey." };
+      }
+      result = await rekeyMemory(store, { fromProjectId, toProjectId, onConflict });
+    }
+
+    publishOrchestratorEvent("orchestra.memory.written", {
+      action: op === "memory.import" ? "import" : op === "memory.promote" ? "promote" : "rekey",
+      scope,
+      projectId,
+      taskId: memory?.taskId,
+      counts: result,
+    });
+    return { ok: true, response: JSON.stringify({ onConflict, ...result }, null, 2) };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+async function runMemoryOp(
+  context: OrchestratorContext,
+  op: MemoryOpKind,
+  memory?: MemoryOpPayload
+): Promise<{ ok: boolean; response?: string; error?: string }> {
+  if (op === "memory.export" || op === "memory.import" || op === "memory.promote" || op === "memory.rekey") {
+    return runMemoryTransferOp(context, op, memory);
+  }
+
+  if (op === "memory.put") {
+    const store = resolveMemoryStore(context.config.memory);
+    if (!store) return { ok: false, error: NEO4J_NOT_CONFIGURED };
     const key = memory?.key?.trim();
     const value = memory?.value?.trim();
     if (!key || !value) return { ok: false, error: "Missing memory.key/memory.value for op memory.put." };
@@ -112,8 +306,7 @@ async function runMemoryOp(
     const projectId = scope === "project" ? context.projectId : undefined;
     if (scope === "project" && !projectId) return { ok: false, error: "Missing projectId; restart OpenCode." };
 
-    const node = await upsertMemory({
-      cfg,
+    const node = await store.upsert({
       scope,
       projectId,
       key,
@@ -135,14 +328,8 @@ async function runMemoryOp(
   }
 
   if (op === "memory.link") {
-    const cfg = loadNeo4jConfigFromEnv();
-    if (!cfg) {
-      return {
-        ok: false,
-        error:
-          "Neo4j is not configured. Set env vars: OPENCODE_NEO4J_URI, OPENCODE_NEO4J_USERNAME, OPENCODE_NEO4J_PASSWORD (and optional OPENCODE_NEO4J_DATABASE).",
-      };
-    }
+    const store = resolveMemoryStore(context.config.memory);
+    if (!store) return { ok: false, error: NEO4J_NOT_CONFIGURED };
     const fromKey = memory?.fromKey?.trim();
     const toKey = memory?.toKey?.trim();
     if (!fromKey || !toKey) return { ok: false, error: "Missing memory.fromKey/memory.toKey for op memory.link." };
@@ -152,8 +339,7 @@ async function runMemoryOp(
     if (scope === "project" && !projectId) return { ok: false, error: "Missing projectId; restart OpenCode." };
 
     const relation = memory?.relation ?? "relates_to";
-    const res = await linkMemory({
-      cfg,
+    const res = await store.link({
       scope,
       projectId,
       fromKey,
@@ -192,6 +378,216 @@ function isMemoryOp(op: TaskOpKind): op is MemoryOpKind {
   return op.startsWith("memory.");
 }
 
+function isWorkflowApprovalOp(op: TaskOpKind): op is WorkflowApprovalOpKind {
+  return op === "workflow.approve" || op === "workflow.reject";
+}
+
+function isWorktreeOp(op: TaskOpKind): op is WorktreeOpKind {
+  return op.startsWith("worktree.");
+}
+
+function isSkillsOp(op: TaskOpKind): op is SkillsOpKind {
+  return op.startsWith("skills.");
+}
+
+function usesWorktreeIsolation(context: OrchestratorContext, workerIds: string[]): boolean {
+  return workerIds.some((workerId) => {
+    const profile = context.workerPool.get(workerId)?.profile ?? getProfile(workerId, context.profiles);
+    return profile?.isolation === "worktree";
+  });
+}
+
+/** Store a worktree on the job that created it and on the job that finished with it (for continued runs). */
+function recordJobWorktree(jobId: string, worktree: JobWorktree): void {
+  workerJobs.setWorktree(jobId, worktree);
+  const ownerId = worktree.branch.slice(WORKTREE_BRANCH_PREFIX.length);
+  if (ownerId !== jobId && workerJobs.get(ownerId)) workerJobs.setWorktree(ownerId, worktree);
+}
+
+async function finishJobWorktree(jobId: string, worktree: JobWorktree, message: string): Promise<void> {
+  try {
+    const finalized = await finalizeJobWorktree(worktree, message);
+    recordJobWorktree(jobId, finalized.worktree);
+    workerJobs.setChanges(jobId, finalized.changes);
+  } catch {
+    // The checkout stays registered; cleanupDeadWorkers commits and removes it later.
+  }
+}
+
+async function runWorktreeOp(
+  jobId: string,
+  op: WorktreeOpKind,
+  worktree?: { taskId?: string }
+): Promise<{ ok: boolean; response?: string; error?: string }> {
+  const taskId = worktree?.taskId?.trim();
+  if (!taskId) return { ok: false, error: `Missing worktree.taskId for op ${op}.` };
+  const target = workerJobs.get(taskId);
+  if (!target) return { ok: false, error: `Unknown task "${taskId}".` };
+  if (!target.worktree) return { ok: false, error: `Task "${taskId}" did not run in a worktree.` };
+
+  const action = op.slice("worktree.".length) as JobWorktreeAction;
+  try {
+    const applied = await applyJobWorktree(target.worktree, action);
+    recordJobWorktree(taskId, applied);
+    workerJobs.setWorktree(jobId, applied);
+    return {
+      ok: true,
+      response: JSON.stringify(
+        { taskId, action, branch: applied.branch, commit: applied.commit, files: applied.files, state: applied.state },
+        null,
+        2
+      ),
+    };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** Record the skills each workflow resolves to (versions and content hashes) in `skills.lock.json`. */
+async function runSkillsLockOp(
+  context: OrchestratorContext,
+  payload?: SkillsOpPayload
+): Promise<{ ok: boolean; response?: string; error?: string }> {
+  const workflows = payload?.workflowId ? [getWorkflow(payload.workflowId)] : listWorkflows();
+  if (workflows[0] === undefined) return { ok: false, error: `Unknown workflow "${payload?.workflowId}".` };
+
+  const root = context.worktree ?? context.directory;
+  try {
+    let lock = await readSkillsLock(root);
+    const locked: Record<string, string[]> = {};
+    for (const workflow of workflows) {
+      if (!workflow) continue;
+      const required = collectWorkflowSkillRequirements(workflow, context.profiles).map((req) => req.name);
+      if (required.length === 0) continue;
+      const preflight = await validateSkills({
+        requiredSkills: required,
+        directory: context.directory,
+        worktree: context.worktree,
+        includeGlobal: true,
+        registries: context.config.skills?.registries,
+      });
+      const missing = preflight.skills.filter((skill) => skill.status === "missing").map((skill) => skill.name);
+      if (missing.length > 0 || preflight.cycles) {
+        return { ok: false, error: `Cannot lock workflow "${workflow.id}": ${preflight.errors.join("; ")}` };
+      }
+      lock = lockWorkflowSkills(lock, workflow.id, preflight.skills);
+      locked[workflow.id] = preflight.skills.map((skill) => skill.name);
+    }
+    if (Object.keys(locked).length === 0) return { ok: false, error: "No workflow requires skills; nothing to lock." };
+    await writeSkillsLock(root, lock);
+    return { ok: true, response: JSON.stringify({ lockfile: getSkillsLockPath(root), workflows: locked }, null, 2) };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** Install missing skills and their dependencies from the configured registries. */
+async function runSkillsInstallOp(
+  context: OrchestratorContext,
+  payload?: SkillsOpPayload
+): Promise<{ ok: boolean; response?: string; error?: string }> {
+  const registries = context.config.skills?.registries ?? [];
+  if (registries.length === 0) {
+    return { ok: false, error: "No skill registries configured. Set skills.registries in orchestrator.json." };
+  }
+
+  let names = payload?.names?.map((name) => name.trim()).filter(Boolean) ?? [];
+  if (payload?.workflowId) {
+    const workflow = getWorkflow(payload.workflowId);
+    if (!workflow) return { ok: false, error: `Unknown workflow "${payload.workflowId}".` };
+    names = [...names, ...collectWorkflowSkillRequirements(workflow, context.profiles).map((req) => req.name)];
+  }
+  if (names.length === 0) return { ok: false, error: "Missing skills.names or skills.workflowId for op skills.install." };
+
+  const check = () =>
+    validateSkills({
+      requiredSkills: names,
+      directory: context.directory,
+      worktree: context.worktree,
+      includeGlobal: true,
+      registries,
+    });
+  const before = await check();
+  if (before.cycles) {
+    return { ok: false, error: before.cycles.map((cycle) => `skill dependency cycle: ${cycle.join(" -> ")}`).join("; ") };
+  }
+
+  try {
+    const registry = await loadSkillRegistry(registries, context.directory);
+    const result = await installSkills({
+      names: payload?.overwrite ? before.skills.map((skill) => skill.name).filter((name) => registry.has(name)) : (before.install ?? []),
+      registry,
+      directory: context.directory,
+      overwrite: payload?.overwrite,
+    });
+    const after = await check();
+    return {
+      ok: true,
+      response: JSON.stringify(
+        {
+          installed: result.installed,
+          ...(result.skipped.length > 0 ? { skipped: result.skipped } : {}),
+          skills: after.skills.map((skill) => ({ name: skill.name, status: skill.status })),
+          ...(after.ok ? {} : { errors: after.errors }),
+        },
+        null,
+        2
+      ),
+    };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+async function runWorkflowApprovalOp(
+  context: OrchestratorContext,
+  jobId: string,
+  op: WorkflowApprovalOpKind,
+  approval?: WorkflowApprovalOpPayload,
+  sessionId?: string
+): Promise<void> {
+  const runId = approval?.runId?.trim();
+  if (!runId) {
+    workerJobs.setError(jobId, { error: `Missing approval.runId for op ${op}.` });
+    return;
+  }
+  // Approval gates a human review, so a worker's own session must not decide it.
+  if (sessionId && context.workerPool.list().some((instance) => instance.sessionId === sessionId)) {
+    workerJobs.setError(jobId, { error: `Workers cannot decide workflow approvals (op ${op}).` });
+    return;
+  }
+
+  const decided = await decideWorkflowStep(
+    context,
+    {
+      runId,
+      stepId: approval?.stepId?.trim() || undefined,
+      decision: op === "workflow.approve" ? "approved" : "rejected",
+      approver: approval?.approver?.trim() || (sessionId ? `session:${sessionId}` : "orchestrator"),
+      comment: approval?.comment,
+      carry: approval?.carry,
+      instructions: approval?.instructions,
+    },
+    { sessionId, jobId }
+  );
+  if (decided.resumed) {
+    settleWorkflowJob(jobId, decided.result);
+    return;
+  }
+  workerJobs.setResult(jobId, {
+    responseText: JSON.stringify(
+      {
+        runId,
+        stepId: decided.stepId,
+        approval: decided.approval,
+        waitingFor: decided.result.pendingApprovals?.map((entry) => entry.stepId) ?? [],
+      },
+      null,
+      2
+    ),
+  });
+}
+
 async function runWorkerModelOp(
   context: OrchestratorContext,
   op: WorkerModelOpKind,
@@ -293,18 +689,25 @@ async function runWorkerModelOp(
   };
 }
 
-async function ensureWorkerForTask(
+/**
+ * Pick the replica a worker task runs on: an explicit replica id (`coder#2`)
+ * is used as-is, a profile id goes to its least busy replica and may scale up.
+ */
+async function acquireWorkerForTask(
   context: OrchestratorContext,
   input: { workerId: string; autoSpawn: boolean; sessionId?: string }
-): Promise<{ ok: boolean; error?: string }> {
+): Promise<{ ok: true; workerId: string; release: () => void } | { ok: false; error: string }> {
   const workerPool = context.workerPool;
   const existing = workerPool.get(input.workerId);
-  if (existing && existing.status !== "stopped") return { ok: true };
-  if (!input.autoSpawn) {
+  const running = existing && existing.status !== "stopped" ? existing : undefined;
+  if (running && parseReplicaId(input.workerId).index > 1) {
+    return { ok: true, workerId: input.workerId, release: () => {} };
+  }
+  if (!running && !input.autoSpawn) {
     return { ok: false, error: `Worker "${input.workerId}" is not running. Set autoSpawn=true or spawn it first.` };
   }
 
-  const profile = getProfile(input.workerId, context.profiles);
+  const profile = running?.profile ?? getProfile(input.workerId, context.profiles);
   if (!profile) {
     const available = Object.keys(context.profiles).sort().join(", ");
     return {
@@ -314,19 +717,206 @@ async function ensureWorkerForTask(
   }
 
   const { basePort, timeout } = context.spawnDefaults;
-  const instance = await spawnWorker(profile, {
-    basePort,
-    timeout,
-    directory: context.directory,
-    client: context.client,
-    parentSessionId: input.sessionId,
+  const lease = await workerPool.acquire(profile, (replica) =>
+    spawnWorker(replica, {
+      basePort,
+      timeout,
+      directory: context.directory,
+      client: context.client,
+      parentSessionId: input.sessionId,
+    })
+  );
+
+  if (input.sessionId && lease.spawned && lease.instance.modelResolution !== "reused existing worker") {
+    workerPool.trackOwnership(input.sessionId, lease.instance.profile.id);
+  }
+
+  return { ok: true, workerId: lease.instance.profile.id, release: lease.release };
+}
+
+type WorkerTaskInput = {
+  workerId: string;
+  task: string;
+  autoSpawn: boolean;
+  sessionId?: string;
+  timeoutMs: number;
+  attachments?: WorkerAttachment[];
+  from?: string;
+  model?: string;
+  modelPolicy?: "dynamic" | "sticky";
+  outputSchema?: string | JsonSchema;
+  schemaRetries?: number;
+};
+
+/** Run a worker job on its (least busy) replica and settle it with the reply. */
+async function runWorkerTask(context: OrchestratorContext, job: WorkerJob, input: WorkerTaskInput): Promise<void> {
+  const outputSchema = resolveOutputSchema(input.outputSchema, context.config.outputSchemas);
+
+  const acquired = await acquireWorkerForTask(context, {
+    workerId: input.workerId,
+    autoSpawn: input.autoSpawn,
+    sessionId: input.sessionId,
   });
+  if (!acquired.ok) {
+    workerJobs.setError(job.id, { error: acquired.error });
+    return;
+  }
+  const workerId = acquired.workerId;
+  let worktree: JobWorktree | undefined;
+
+  try {
+    if (usesWorktreeIsolation(context, [workerId])) {
+      worktree = await createJobWorktree(context.directory, job.id);
+      workerJobs.setWorktree(job.id, worktree);
+    }
+
+    let resolvedModelOverride: string | undefined;
+    if (input.model) {
+      const client = context.client;
+      if (!client) {
+        workerJobs.setError(job.id, { error: "OpenCode client not available; restart OpenCode." });
+        return;
+      }
+
+      const instance = context.workerPool.get(workerId);
+      const profile = instance?.profile ?? getProfile(workerId, context.profiles);
+      if (!profile) {
+        workerJobs.setError(job.id, { error: `Unknown worker "${workerId}".` });
+        return;
+      }
+
+      const [cfg, providersRes] = await Promise.all([
+        fetchOpencodeConfig(client, context.directory),
+        fetchProviders(client, context.directory),
+      ]);
 
-  if (input.sessionId && instance.modelResolution !== "reused existing worker") {
-    workerPool.trackOwnership(input.sessionId, instance.profile.id);
+      const resolved = resolveWorkerModel({
+        profile,
+        overrideModelRef: input.model,
+        config: cfg,
+        providers: providersRes.providers,
+        providerDefaults: providersRes.defaults,
+      });
+
+      resolvedModelOverride = resolved.resolvedModel;
+
+      if (instance && input.modelPolicy === "sticky") {
+        instance.profile = { ...instance.profile, model: resolved.resolvedModel };
+        instance.modelRef = resolved.modelRef;
+        instance.modelPolicy = "sticky";
+        instance.modelResolution = resolved.reason;
+      }
+    }
+
+    // Worktree jobs get their diff when the worktree is committed instead.
+    const { result: res, changes } = await captureJobChanges(worktree ? undefined : context.directory, () =>
+      sendToWorker(workerId, input.task, {
+        attachments: input.attachments,
+        timeout: job.deadline ? Math.max(1, Math.min(input.timeoutMs, job.deadline - Date.now())) : input.timeoutMs,
+        jobId: job.id,
+        from: input.from,
+        sessionId: input.sessionId,
+        model: resolvedModelOverride,
+        outputSchema,
+        schemaRetries: input.schemaRetries,
+        directory: worktree?.directory,
+        budget: { limits: context.security?.budgets, job: job.id },
+      })
+    );
+
+    if (changes) workerJobs.setChanges(job.id, changes);
+    if (res.model || res.modelFailovers || res.promptFit) {
+      workerJobs.setModel(job.id, { model: res.model, modelFailovers: res.modelFailovers, promptFit: res.promptFit });
+    }
+    if (worktree) {
+      await finishJobWorktree(job.id, worktree, `orchestra: ${workerId} job ${job.id}`);
+      worktree = undefined;
+    }
+    if (res.success && res.response) {
+      workerJobs.setResult(job.id, { responseText: res.response, structured: res.structured, usage: res.usage });
+    } else {
+      workerJobs.setError(job.id, { error: res.error ?? "unknown_error" });
+    }
+  } finally {
+    if (worktree) await finishJobWorktree(job.id, worktree, `orchestra: ${workerId} job ${job.id}`);
+    acquired.release();
+  }
+}
+
+/** Queue a worker job; it may run `maxConcurrency` at a time on each replica. */
+function scheduleWorkerJob(
+  context: OrchestratorContext,
+  job: WorkerJob,
+  workerId: string,
+  start: () => Promise<void>
+): void {
+  const profile = context.workerPool.get(workerId)?.profile ?? getProfile(workerId, context.profiles);
+  jobScheduler.schedule({
+    jobId: job.id,
+    workerId,
+    priority: job.priority,
+    deadline: job.deadline,
+    maxConcurrency: resolveWorkerConcurrency(workerId, profile),
+    start,
+  });
+}
+
+/**
+ * Start a job on a peer worker for a worker that asked through the bridge,
+ * and wait for its reply. The job records its parent job and delegation
+ * chain; cycles and chains past `security.delegation.maxDepth` are refused.
+ */
+export async function delegateWorkerTask(
+  context: OrchestratorContext,
+  request: DelegationRequest
+): Promise<DelegationResult> {
+  const parent = findDelegatingJob(request.fromWorkerId, request.jobId);
+  const chain = buildDelegationChain(parent, request.fromWorkerId);
+  const timeoutMs = request.timeoutMs ?? 600_000;
+  const job = workerJobs.create({
+    workerId: request.workerId,
+    message: request.task,
+    sessionId: parent?.sessionId,
+    requestedBy: `worker:${request.fromWorkerId}`,
+    parentJobId: parent?.id,
+    delegationChain: chain,
+    queued: true,
+    priority: parent?.priority,
+    deadline: parent?.deadline,
+  });
+
+  const refusal = checkDelegation(chain, request.workerId, context.security?.delegation);
+  if (refusal) {
+    workerJobs.setError(job.id, { error: refusal });
+    return { ok: false, jobId: job.id, error: refusal };
   }
 
-  return { ok: true };
+  scheduleWorkerJob(context, job, request.workerId, () =>
+    runWorkerTask(context, job, {
+      workerId: request.workerId,
+      task: request.task,
+      autoSpawn: true,
+      sessionId: parent?.sessionId,
+      timeoutMs,
+      from: request.fromWorkerId,
+    })
+  );
+
+  try {
+    const done = await workerJobs.await(job.id, { timeoutMs: timeoutMs + 60_000 });
+    if (done.status === "succeeded") {
+      return {
+        ok: true,
+        jobId: job.id,
+        workerId: request.workerId,
+        response: done.responseText ?? "",
+        ...(done.structured !== undefined ? { structured: done.structured } : {}),
+      };
+    }
+    return { ok: false, jobId: job.id, error: done.error ?? `delegated job ${done.status}` };
+  } catch (err) {
+    return { ok: false, jobId: job.id, error: err instanceof Error ? err.message : String(err) };
+  }
 }
 
 export function createTaskTools(context: OrchestratorContext): TaskTools {
@@ -350,11 +940,32 @@ export function createTaskTools(context: OrchestratorContext): TaskTools {
         .describe("Model override policy (dynamic = per-task, sticky = update worker default)"),
       workflowId: tool.schema.string().optional().describe("Workflow id when kind=workflow (e.g. 'roocode-boomerang')"),
       continueRunId: tool.schema.string().optional().describe("Continue a paused workflow run by runId (kind=workflow only)"),
+      inputs: tool.schema
+        .record(tool.schema.string(), tool.schema.any())
+        .optional()
+        .describe("Values for the workflow's declared inputs, e.g. { targetFile: 'src/a.ts', strict: true } (kind=workflow only)"),
       op: tool.schema
-        .enum(["memory.put", "memory.link", "memory.done", "worker.model.set", "worker.model.reset"])
+        .enum([
+          "memory.put",
+          "memory.link",
+          "memory.done",
+          "memory.export",
+          "memory.import",
+          "memory.promote",
+          "memory.rekey",
+          "worker.model.set",
+          "worker.model.reset",
+          "workflow.approve",
+          "workflow.reject",
+          "worktree.merge",
+          "worktree.cherry-pick",
+          "worktree.discard",
+          "skills.install",
+          "skills.lock",
+        ])
         .optional()
         .describe(
-          "Operation id when kind=op (memory.put/memory.link/memory.done/worker.model.set/worker.model.reset)"
+          "Operation id when kind=op (memory.put/memory.link/memory.done/memory.export/memory.import/memory.promote/memory.rekey/worker.model.set/worker.model.reset/workflow.approve/workflow.reject/worktree.merge/worktree.cherry-pick/worktree.discard/skills.install/skills.lock)"
         ),
       memory: tool.schema
         .object({
@@ -378,6 +989,15 @@ export function createTaskTools(context: OrchestratorContext): TaskTools {
             )
             .optional(),
           notes: tool.schema.string().optional(),
+          path: tool.schema.string().optional().describe("JSONL file for memory.export/memory.import"),
+          onConflict: tool.schema
+            .enum(["skip", "overwrite", "merge-tags"])
+            .optional()
+            .describe("Existing keys on import/promote/rekey: skip (default), overwrite, or merge-tags"),
+          keys: tool.schema.array(tool.schema.string()).optional().describe("Project keys to promote"),
+          keyPrefix: tool.schema.string().optional().describe("Promote project keys with this prefix"),
+          fromProjectId: tool.schema.string().optional().describe("Old projectId for memory.rekey"),
+          toProjectId: tool.schema.string().optional().describe("New projectId for memory.rekey (default: current)"),
         })
         .optional()
         .describe("Memory op payload when kind=op"),
@@ -390,6 +1010,34 @@ export function createTaskTools(context: OrchestratorContext): TaskTools {
         })
         .optional()
         .describe("Worker model op payload when kind=op"),
+      approval: tool.schema
+        .object({
+          runId: tool.schema.string().optional(),
+          stepId: tool.schema.string().optional(),
+          approver: tool.schema.string().optional().describe("Who made the decision (defaults to the calling session)"),
+          comment: tool.schema.string().optional(),
+          carry: tool.schema.string().optional().describe("Replacement carry for downstream steps (approve only)"),
+          instructions: tool.schema.string().optional().describe("Amended instructions for the retried step (reject only)"),
+        })
+        .optional()
+        .describe("Workflow approval op payload when kind=op (stepId may be omitted when only one step waits)"),
+      worktree: tool.schema
+        .object({
+          taskId: tool.schema.string().optional().describe("Task whose worktree branch to merge, cherry-pick or discard"),
+        })
+        .optional()
+        .describe("Worktree op payload when kind=op"),
+      skills: tool.schema
+        .object({
+          names: tool.schema.array(tool.schema.string()).optional().describe("Skills to install with their dependencies"),
+          workflowId: tool.schema
+            .string()
+            .optional()
+            .describe("Workflow whose skills to install, or to lock (skills.lock; default: all workflows)"),
+          overwrite: tool.schema.boolean().optional().describe("Replace skills already in .opencode/skill (default: false)"),
+        })
+        .optional()
+        .describe("Skills op payload when kind=op"),
       attachments: tool.schema
         .array(
           tool.schema.object({
@@ -404,6 +1052,24 @@ export function createTaskTools(context: OrchestratorContext): TaskTools {
       autoSpawn: tool.schema.boolean().optional().describe("Auto-spawn missing workers (default: true)"),
       timeoutMs: tool.schema.number().optional().describe("Timeout for the underlying work (default: 10 minutes)"),
       from: tool.schema.string().optional().describe("Source worker id (for worker-to-worker communication)"),
+      outputSchema: tool.schema
+        .union([tool.schema.string(), tool.schema.record(tool.schema.string(), tool.schema.any())])
+        .optional()
+        .describe(
+          "JSON Schema (or the name of one in orchestrator.json outputSchemas) the worker reply must match; the parsed result is returned as `structured` (kind=worker only)"
+        ),
+      schemaRetries: tool.schema
+        .number()
+        .optional()
+        .describe("Times to ask the worker to fix a reply that does not match outputSchema (default: 1)"),
+      priority: tool.schema
+        .number()
+        .optional()
+        .describe("Queue priority when the worker is busy; higher starts first (default: 0, kind=worker only)"),
+      deadlineMs: tool.schema
+        .number()
+        .optional()
+        .describe("Fail the task if it has not finished this many ms from now; queued tasks past it never start (kind=worker only)"),
     },
     async execute(args, ctx: ToolContext) {
       const kind = args.kind ?? "auto";
@@ -424,11 +1090,50 @@ export function createTaskTools(context: OrchestratorContext): TaskTools {
             ? `op:${args.op ?? "unknown"}`
             : (resolvedWorkerId ?? "worker:unknown");
 
+      if (resolvedKind !== "op") {
+        // A worker task is at least as large as its prompt; workflow steps are checked as they are sent.
+        const estimate = resolvedKind === "worker" ? { tokens: estimateTokens(args.task) } : undefined;
+        const breach = findBudgetBreach(
+          context.security?.budgets,
+          { session: sessionId, run: args.continueRunId },
+          estimate
+        );
+        if (breach) {
+          const message = `Budget exceeded: ${formatBudgetBreach(breach)}. Raise security.budgets in orchestrator.json to start more work.`;
+          publishOrchestratorEvent("orchestra.budget.exceeded", {
+            ...breach,
+            action: "refused",
+            message,
+            sessionId,
+            runId: args.continueRunId,
+          });
+          return message;
+        }
+      }
+
+      // Reject bad inputs before a job exists or any worker is spawned.
+      const startingWorkflow = resolvedWorkflowId && !args.continueRunId ? getWorkflow(resolvedWorkflowId) : undefined;
+      if (startingWorkflow) {
+        try {
+          resolveWorkflowInputs(startingWorkflow, args.inputs);
+        } catch (err) {
+          return err instanceof Error ? err.message : String(err);
+        }
+      }
+
+      const queued = resolvedKind === "worker";
       const job = workerJobs.create({
         workerId: jobWorkerId,
         message: args.task,
         sessionId,
         requestedBy: ctx?.agent,
+        ...(queued
+          ? {
+              queued,
+              priority: args.priority,
+              deadline: typeof args.deadlineMs === "number" ? Date.now() + Math.max(0, args.deadlineMs) : undefined,
+            }
+          : {}),
       });
 
       const run = async () => {
@@ -440,35 +1145,11 @@ export function createTaskTools(context: OrchestratorContext): TaskTools {
             }
 
             if (args.continueRunId) {
-              const result = await continueWorkflowWithContext(context, args.continueRunId, { sessionId });
-
-              const picked = pickWorkflowResponse(result);
-              if (picked.success && picked.response) {
-                workerJobs.setResult(job.id, { responseText: picked.response });
-              } else {
-                workerJobs.setError(job.id, { error: picked.error ?? "workflow failed" });
-              }
-
-              workerJobs.attachReport(job.id, {
-                summary: `${result.workflowName} (${result.workflowId})`,
-                details: JSON.stringify(
-                  {
-                    runId: result.runId,
-                    status: result.status,
-                    steps: result.steps.map((s) => ({
-                      id: s.id,
-                      title: s.title,
-                      workerId: s.workerId,
-                      status: s.status,
-                      durationMs: s.durationMs,
-                      warning: s.warning,
-                      error: s.error,
-                    })),
-                  },
-                  null,
-                  2
-                ),
-              });
+              const { result, changes } = await captureJobChanges(
+                getWorkflowRun(args.continueRunId)?.worktree ? undefined : context.directory,
+                () => continueWorkflowWithContext(context, args.continueRunId as string, { sessionId, jobId: job.id })
+              );
+              settleWorkflowJob(job.id, result, changes);
               return;
             }
 
@@ -485,45 +1166,35 @@ export function createTaskTools(context: OrchestratorContext): TaskTools {
             }
 
             const limits = resolveWorkflowLimits(context, workflowId);
-            const result = await runWorkflowWithContext(
+            const worktree = usesWorktreeIsolation(
               context,
-              {
-                workflowId,
-                task: args.task,
-                attachments: args.attachments,
-                autoSpawn,
-                limits,
-              },
-              { sessionId }
-            );
-
-            const picked = pickWorkflowResponse(result);
-            if (picked.success && picked.response) {
-              workerJobs.setResult(job.id, { responseText: picked.response });
-            } else {
-              workerJobs.setError(job.id, { error: picked.error ?? "workflow failed" });
+              workflow.steps.map((step) => step.workerId)
+            )
+              ? await createJobWorktree(context.directory, job.id)
+              : undefined;
+            if (worktree) workerJobs.setWorktree(job.id, worktree);
+            let settled: { result: WorkflowRunResult; changes?: JobChanges };
+            try {
+              settled = await captureJobChanges(worktree ? undefined : context.directory, () =>
+                runWorkflowWithContext(
+                  context,
+                  {
+                    workflowId,
+                    task: args.task,
+                    inputs: args.inputs,
+                    attachments: args.attachments,
+                    autoSpawn,
+                    limits,
+                    worktree,
+                  },
+                  { sessionId, jobId: job.id }
+                )
+              );
+            } catch (err) {
+              if (worktree) await finishJobWorktree(job.id, worktree, `orchestra: ${workflowId} job ${job.id}`);
+              throw err;
             }
-
-            workerJobs.attachReport(job.id, {
-              summary: `${result.workflowName} (${result.workflowId})`,
-              details: JSON.stringify(
-                {
-                  runId: result.runId,
-                  status: result.status,
-                  steps: result.steps.map((s) => ({
-                    id: s.id,
-                    title: s.title,
-                    workerId: s.workerId,
-                    status: s.status,
-                    durationMs: s.durationMs,
-                    warning: s.warning,
-                    error: s.error,
-                  })),
-                },
-                null,
-                2
-              ),
-            });
+            settleWorkflowJob(job.id, settled.result, settled.changes);
             return;
           }
 
@@ -534,82 +1205,55 @@ export function createTaskTools(context: OrchestratorContext): TaskTools {
               return;
             }
 
+            if (isWorkflowApprovalOp(op)) {
+              await runWorkflowApprovalOp(context, job.id, op, args.approval, sessionId);
+              return;
+            }
+
             const result = isMemoryOp(op)
               ? await runMemoryOp(context, op, args.memory)
-              : await runWorkerModelOp(context, op, args.worker, sessionId);
+              : isWorktreeOp(op)
+                ? await runWorktreeOp(job.id, op, args.worktree)
+                : op === "skills.lock"
+                  ? await runSkillsLockOp(context, args.skills)
+                  : isSkillsOp(op)
+                    ? await runSkillsInstallOp(context, args.skills)
+                    : await runWorkerModelOp(context, op, args.worker, sessionId);
             if (result.ok && result.response) workerJobs.setResult(job.id, { responseText: result.response });
             else workerJobs.setError(job.id, { error: result.error ?? "op failed" });
             return;
           }
 
-          const workerId = resolvedWorkerId;
-          if (!workerId) {
+          if (!resolvedWorkerId) {
             workerJobs.setError(job.id, { error: "Missing workerId." });
             return;
           }
 
-          const ensured = await ensureWorkerForTask(context, { workerId, autoSpawn, sessionId });
-          if (!ensured.ok) {
-            workerJobs.setError(job.id, { error: ensured.error ?? "failed to ensure worker" });
-            return;
-          }
-
-          let resolvedModelOverride: string | undefined;
-          if (args.model) {
-            const client = context.client;
-            if (!client) {
-              workerJobs.setError(job.id, { error: "OpenCode client not available; restart OpenCode." });
-              return;
-            }
-
-            const instance = context.workerPool.get(workerId);
-            const profile = instance?.profile ?? getProfile(workerId, context.profiles);
-            if (!profile) {
-              workerJobs.setError(job.id, { error: `Unknown worker "${workerId}".` });
-              return;
-            }
-
-            const [cfg, providersRes] = await Promise.all([
-              fetchOpencodeConfig(client, context.directory),
-              fetchProviders(client, context.directory),
-            ]);
-
-            const resolved = resolveWorkerModel({
-              profile,
-              overrideModelRef: args.model,
-              config: cfg,
-              providers: providersRes.providers,
-              providerDefaults: providersRes.defaults,
-            });
-
-            resolvedModelOverride = resolved.resolvedModel;
-
-            if (instance && modelPolicy === "sticky") {
-              instance.profile = { ...instance.profile, model: resolved.resolvedModel };
-              instance.modelRef = resolved.modelRef;
-              instance.modelPolicy = "sticky";
-              instance.modelResolution = resolved.reason;
-            }
-          }
-
-          const res = await sendToWorker(workerId, args.task, {
+          await runWorkerTask(context, job, {
+            workerId: resolvedWorkerId,
+            task: args.task,
+            autoSpawn,
+            sessionId,
+            timeoutMs,
             attachments: args.attachments,
-            timeout: timeoutMs,
-            jobId: job.id,
             from: args.from,
-            sessionId,
-            model: resolvedModelOverride,
+            model: args.model,
+            modelPolicy,
+            outputSchema: args.outputSchema,
+            schemaRetries: args.schemaRetries,
           });
-
-          if (res.success && res.response) workerJobs.setResult(job.id, { responseText: res.response });
-          else workerJobs.setError(job.id, { error: res.error ?? "unknown_error" });
         } catch (err) {
           workerJobs.setError(job.id, { error: err instanceof Error ? err.message : String(err) });
         }
       };
 
-      void run();
+      if (queued && resolvedWorkerId) {
+        scheduleWorkerJob(context, job, resolvedWorkerId, run);
+      } else {
+        void run();
+      }
 
+      const queuePosition = jobScheduler.position(job.id);
       return JSON.stringify(
         {
           taskId: job.id,
@@ -619,7 +1263,8 @@ export function createTaskTools(context: OrchestratorContext): TaskTools {
             : resolvedKind === "op"
               ? { op: args.op }
               : { workerId: resolvedWorkerId }),
-          status: "running",
+          status: job.status,
+          ...(queuePosition ? { queuePosition } : {}),
           next: "task_await",
         },
         null,
@@ -667,17 +1312,20 @@ export function createTaskTools(context: OrchestratorContext): TaskTools {
     async execute(args) {
       const ids = args.taskId ? [args.taskId] : args.taskIds ?? [];
       if (ids.length === 0) return "Missing taskId/taskIds.";
-      const results = ids.map((id) => workerJobs.get(id) ?? { id, status: "unknown" });
+      const results = ids.map((id) => {
+        const job = workerJobs.get(id);
+        return job ? withQueuePosition(job) : { id, status: "unknown" };
+      });
       return JSON.stringify(ids.length === 1 ? results[0] : results, null, 2);
     },
   });
 
   const taskList: ToolDefinition = tool({
     description:
-      "List tasks (default) or other orchestrator resources via view=workers|profiles|models|workflows|status|output.",
+      "List tasks (default) or other orchestrator resources via view=workers|profiles|models|workflows|runs|skills|usage|status|output.",
     args: {
       view: tool.schema
-        .enum(["tasks", "workers", "profiles", "models", "workflows", "status", "output"])
+        .enum(["tasks", "workers", "profiles", "models", "workflows", "runs", "skills", "usage", "status", "output"])
         .optional()
         .describe("What to list (default: tasks)"),
       workerId: tool.schema.string().optional().describe("Filter by worker id"),
@@ -692,6 +1340,10 @@ export function createTaskTools(context: OrchestratorContext): TaskTools {
         .optional()
         .describe("models view: explicit provider allowlist (overrides scope)"),
       query: tool.schema.string().optional().describe("models view: filter by substring"),
+      tag: tool.schema
+        .string()
+        .optional()
+        .describe("models view: rank candidates for a routing tag (e.g. node:fast) and explain each score"),
       format: tool.schema.enum(["markdown", "json"]).optional().describe("Output format (default: markdown)"),
     },
     async execute(args) {
@@ -748,9 +1400,143 @@ export function createTaskTools(context: OrchestratorContext): TaskTools {
         if (context.workflows?.enabled === false) return "Workflows are disabled. Enable workflows.enabled in orchestrator.json.";
         const workflows = listWorkflows();
         if (format === "json") return JSON.stringify(workflows, null, 2);
-        if (workflows.length === 0) return "No workflows registered.";
-        const rows = workflows.map((w) => [w.id, w.name, String(w.steps.length), w.description]);
-        return renderMarkdownTable(["ID", "Name", "Steps", "Description"], rows);
+        const errorLines = getWorkflowFileErrors().map((entry) => `- ${entry.path}: ${entry.error}`);
+        const errorBlock = errorLines.length > 0 ? ["", "Workflow file errors:", ...errorLines] : [];
+        if (workflows.length === 0) return ["No workflows registered.", ...errorBlock].join("\n");
+        const root = context.worktree ?? context.directory;
+        const describeSource = (w: (typeof workflows)[number]) => {
+          if (!w.sourcePath) return w.source ?? "builtin";
+          const path = w.source === "project" && isWithin(w.sourcePath, root) ? relative(root, w.sourcePath) : w.sourcePath;
+          return `${w.source} (${path})`;
+        };
+        const describeInputs = (w: (typeof workflows)[number]) =>
+          Object.entries(w.inputs ?? {})
+            .map(([name, input]) => {
+              const optional = input.default !== undefined || input.required === false;
+              return `${name}${optional ? "?" : ""}: ${input.type}`;
+            })
+            .join(", ");
+        const rows = workflows.map((w) => [
+          w.id,
+          w.name,
+          String(w.steps.length),
+          describeInputs(w),
+          describeSource(w),
+          w.description,
+        ]);
+        return [
+          renderMarkdownTable(["ID", "Name", "Steps", "Inputs", "Source", "Description"], rows),
+          ...errorBlock,
+        ].join("\n");
+      }
+
+      if (view === "runs") {
+        if (context.workflows?.enabled === false) return "Workflows are disabled. Enable workflows.enabled in orchestrator.json.";
+        const runs = listWorkflowRuns({ status: ["paused"] })
+          .slice(0, Math.max(1, args.limit ?? 20))
+          .map((run) => ({
+            runId: run.runId,
+            workflowId: run.workflowId,
+            workflowName: run.workflowName,
+            state: run.interruptedAt ? "interrupted" : run.pendingApprovals?.length ? "awaiting approval" : "paused",
+            pendingApprovals: run.pendingApprovals?.map((entry) => entry.stepId),
+            completedSteps: run.currentStepIndex,
+            totalSteps: getWorkflow(run.workflowId)?.steps.length,
+            lastStep: run.lastStepResult
+              ? { id: run.lastStepResult.id, status: run.lastStepResult.status, error: run.lastStepResult.error }
+              : undefined,
+            task: run.task,
+            startedAt: run.startedAt,
+            updatedAt: run.updatedAt,
+          }));
+        if (format === "json") return JSON.stringify(runs, null, 2);
+        if (runs.length === 0) return "No paused or interrupted workflow runs.";
+        const rows = runs.map((run) => [
+          run.runId,
+          run.workflowId,
+          run.state,
+          `${run.completedSteps}/${run.totalSteps ?? "?"}`,
+          run.lastStep ? `${run.lastStep.id} (${run.lastStep.status})` : "",
+          new Date(run.updatedAt).toISOString(),
+          run.task.slice(0, 60).replace(/\s+/g, " "),
+        ]);
+        return [
+          renderMarkdownTable(["Run", "Workflow", "State", "Steps", "Last Step", "Updated", "Task"], rows),
+          "",
+          'Resume with task_start({ kind: "workflow", task: "continue", continueRunId }) or abandon with task_cancel({ runId }).',
+          'Runs awaiting approval resume through task_start({ kind: "op", op: "workflow.approve" | "workflow.reject", approval: { runId, stepId } }).',
+        ].join("\n");
+      }
+
+      if (view === "skills") {
+        const root = context.worktree ?? context.directory;
+        const skills = await listSkills({ directory: context.directory, worktree: context.worktree, includeGlobal: true });
+        const statuses = getSkillLockStatuses(await readSkillsLock(root), skills);
+        const payload = { lockfile: getSkillsLockPath(root), policy: context.config.skills?.lock ?? "warn", skills: statuses };
+        if (format === "json") return JSON.stringify(payload, null, 2);
+        if (statuses.length === 0) return "No skills found.";
+        const rows = statuses.map((skill) => [
+          skill.name,
+          skill.version ?? "",
+          skill.hash ? skill.hash.replace(/^sha256:/, "").slice(0, 12) : "",
+          skill.status,
+          skill.workflows.join(", "),
+          (skill.drift ?? []).join("; "),
+        ]);
+        return [
+          renderMarkdownTable(["Skill", "Version", "Hash", "Lock", "Workflows", "Drift"], rows),
+          "",
+          `Lockfile: ${payload.lockfile} (policy: ${payload.policy})`,
+        ].join("\n");
+      }
+
+      if (view === "usage") {
+        const limit = Math.max(1, args.limit ?? 20);
+        const workers = usageLedger
+          .list("worker")
+          .filter((entry) => !args.workerId || entry.id === args.workerId)
+          .slice(0, limit);
+        const sessions = usageLedger.list("session", { limit });
+        const runs = usageLedger.list("run", { limit });
+        const jobs = usageLedger.list("job", { limit });
+        const total = usageLedger.total();
+        if (format === "json") return JSON.stringify({ total, workers, sessions, runs, jobs }, null, 2);
+        if (total.prompts === 0) return "No token usage recorded yet.";
+
+        const formatCost = (cost: number) => `$${cost.toFixed(4)}`;
+        const usageRows = (entries: UsageEntry[]) =>
+          entries.map((entry) => [
+            entry.id,
+            String(entry.prompts),
+            String(entry.usage.inputTokens),
+            String(entry.usage.outputTokens + entry.usage.reasoningTokens),
+            `${entry.usage.cacheReadTokens}/${entry.usage.cacheWriteTokens}`,
+            formatCost(entry.usage.cost),
+          ]);
+        const usageTable = (label: string, entries: UsageEntry[]) =>
+          entries.length
+            ? renderMarkdownTable([label, "Prompts", "Input", "Output", "Cache R/W", "Cost"], usageRows(entries))
+            : "(none)";
+
+        return [
+          "# Token Usage",
+          "",
+          `Total: ${total.prompts} prompts, ${total.usage.inputTokens} input / ${
+            total.usage.outputTokens + total.usage.reasoningTokens
+          } output tokens, ${formatCost(total.usage.cost)}`,
+          "",
+          "## Workers",
+          usageTable("Worker", workers),
+          "",
+          "## Sessions",
+          usageTable("Session", sessions),
+          "",
+          "## Workflow Runs",
+          usageTable("Run", runs),
+          "",
+          "## Tasks",
+          usageTable("Task", jobs),
+        ].join("\n");
       }
 
       if (view === "models") {
@@ -775,6 +1561,38 @@ export function createTaskTools(context: OrchestratorContext): TaskTools {
           );
         }
 
+        const tag = args.tag?.trim().replace(/^(?:node|auto):/i, "").toLowerCase();
+        if (tag) {
+          const routing = context.config.modelRouting;
+          const rule = getRoutingRule(tag, routing);
+          if (!rule) {
+            return `No routing rule for "node:${tag}"; it resolves to the default model. Add one under modelRouting.tags.`;
+          }
+          const ranked = rankModels(models, rule, routing).slice(0, Math.max(1, args.limit ?? 100));
+          const explained = ranked.map((r, index) => ({
+            rank: r.rejected.length === 0 ? index + 1 : undefined,
+            model: r.model.full,
+            score: r.score,
+            reasons: r.reasons,
+            rejected: r.rejected,
+          }));
+          if (format === "json") return JSON.stringify({ tag: `node:${tag}`, rule, candidates: explained }, null, 2);
+
+          const picked = explained[0]?.rank ? explained[0].model : undefined;
+          const rows = explained.map((c) => [
+            c.rank ? String(c.rank) : "-",
+            c.model,
+            String(c.score),
+            c.reasons.join(", ") || "-",
+            c.rejected.join("; ") || "-",
+          ]);
+          return [
+            picked ? `node:${tag} picks ${picked}.` : `No model satisfies node:${tag}; the default model is used if allowed.`,
+            "",
+            renderMarkdownTable(["#", "Model", "Score", "Score from", "Excluded because"], rows),
+          ].join("\n");
+        }
+
         models.sort((a, b) => a.full.localeCompare(b.full));
         const limited = models.slice(0, Math.max(1, args.limit ?? 100));
 
@@ -814,7 +1632,7 @@ export function createTaskTools(context: OrchestratorContext): TaskTools {
         const taskRows = tasks.map((t) => [
           t.id,
           t.workerId,
-          t.status,
+          formatJobStatus(t),
           new Date(t.startedAt).toISOString(),
           t.durationMs ? `${t.durationMs}` : "",
           (t.message ?? "").slice(0, 60).replace(/\s+/g, " "),
@@ -854,7 +1672,7 @@ export function createTaskTools(context: OrchestratorContext): TaskTools {
         const taskRows = tasks.map((t) => [
           t.id,
           t.workerId,
-          t.status,
+          formatJobStatus(t),
           new Date(t.startedAt).toISOString(),
           t.durationMs ? `${t.durationMs}` : "",
           (t.message ?? "").slice(0, 60).replace(/\s+/g, " "),
@@ -878,31 +1696,43 @@ export function createTaskTools(context: OrchestratorContext): TaskTools {
       // tasks (default)
       const limit = args.limit ?? 20;
       const tasks = workerJobs.list({ workerId: args.workerId, limit });
-      if (format === "json") return JSON.stringify(tasks, null, 2);
+      if (format === "json") return JSON.stringify(tasks.map(withQueuePosition), null, 2);
       if (tasks.length === 0) return "No tasks recorded yet.";
       const rows = tasks.map((t) => [
         t.id,
         t.workerId,
-        t.status,
+        formatJobStatus(t),
         new Date(t.startedAt).toISOString(),
         t.durationMs ? `${t.durationMs}` : "",
         (t.message ?? "").slice(0, 60).replace(/\s+/g, " "),
+        t.parentJobId ? `${t.parentJobId} (${t.delegationChain?.join(" → ") ?? "worker"})` : "",
       ]);
-      return renderMarkdownTable(["Task", "Worker", "Status", "Started", "ms", "Message"], rows);
+      return renderMarkdownTable(["Task", "Worker", "Status", "Started", "ms", "Message", "Delegated By"], rows);
     },
   });
 
   const taskCancel: ToolDefinition = tool({
-    description: "Cancel a running task (best-effort; may not stop underlying worker execution).",
+    description:
+      "Cancel a running task (best-effort; may not stop underlying worker execution), or abandon a paused workflow run via runId.",
     args: {
       taskId: tool.schema.string().optional().describe("Task id"),
       taskIds: tool.schema.array(tool.schema.string()).optional().describe("Multiple task ids"),
+      runId: tool.schema.string().optional().describe("Paused or interrupted workflow run to abandon (see task_list view=runs)"),
       reason: tool.schema.string().optional().describe("Optional cancel reason"),
     },
     async execute(args) {
+      if (args.runId) {
+        try {
+          const result = abandonWorkflowRun(args.runId, { reason: args.reason });
+          return `Abandoned workflow run "${result.runId}" (${result.workflowId})`;
+        } catch (err) {
+          return err instanceof Error ? err.message : String(err);
+        }
+      }
       const ids = args.taskId ? [args.taskId] : args.taskIds ?? [];
-      if (ids.length === 0) return "Missing taskId/taskIds.";
+      if (ids.length === 0) return "Missing taskId/taskIds/runId.";
       for (const id of ids) {
+        jobScheduler.remove(id);
         workerJobs.cancel(id, { reason: args.reason });
       }
       return ids.length === 1 ? `Canceled task "${ids[0]}"` : `Canceled ${ids.length} task(s)`;
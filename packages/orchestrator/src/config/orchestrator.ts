@@ -2,8 +2,15 @@ import { existsSync } from "node:fs";
 import { readFile } from "node:fs/promises";
 import { join } from "node:path";
 import type {
+  ModelCostCeiling,
+  ModelPreferenceWeights,
+  ModelProviderFilter,
+  ModelRequirements,
+  ModelRoutingConfig,
+  ModelRoutingRule,
   OrchestratorConfig,
   OrchestratorConfigFile,
+  SkillsConfig,
   WorkerBackend,
   WorkerExecution,
   WorkerKind,
@@ -39,6 +46,21 @@ export function resolveWorkerEntry(entry: unknown): WorkerProfile | undefined {
   const base = builtInProfiles[id];
   const merged: Record<string, unknown> = { ...(base ?? {}), ...entry };
 
+  if ("modelFallbacks" in merged) {
+    const modelFallbacks = asStringArray(merged.modelFallbacks);
+    if (!modelFallbacks) return undefined;
+    merged.modelFallbacks = modelFallbacks;
+  }
+
+  // `model: ["primary", "fallback", ...]` is shorthand for `model` + `modelFallbacks`.
+  if (Array.isArray(merged.model)) {
+    const chain = asStringArray(merged.model);
+    if (!chain || chain.length === 0) return undefined;
+    const fallbacks = [...chain.slice(1), ...((merged.modelFallbacks as string[] | undefined) ?? [])];
+    merged.model = chain[0];
+    merged.modelFallbacks = fallbacks.length > 0 ? fallbacks : undefined;
+  }
+
   if (
     typeof merged.id !== "string" ||
     typeof merged.name !== "string" ||
@@ -67,6 +89,33 @@ export function resolveWorkerEntry(entry: unknown): WorkerProfile | undefined {
     merged.requiredSkills = requiredSkills;
   }
 
+  if ("maxConcurrency" in merged) {
+    const maxConcurrency = merged.maxConcurrency;
+    if (typeof maxConcurrency !== "number" || !Number.isInteger(maxConcurrency) || maxConcurrency < 1) return undefined;
+  }
+
+  for (const key of ["minReplicas", "maxReplicas"] as const) {
+    if (!(key in merged)) continue;
+    const replicas = merged[key];
+    if (typeof replicas !== "number" || !Number.isInteger(replicas) || replicas < 1) return undefined;
+  }
+  if (
+    typeof merged.minReplicas === "number" &&
+    typeof merged.maxReplicas === "number" &&
+    merged.minReplicas > merged.maxReplicas
+  ) {
+    return undefined;
+  }
+
+  if ("isolation" in merged && merged.isolation !== "none" && merged.isolation !== "worktree") {
+    return undefined;
+  }
+
+  if ("replicaIdleTtlMs" in merged) {
+    const ttl = merged.replicaIdleTtlMs;
+    if (typeof ttl !== "number" || !Number.isFinite(ttl) || ttl < 0) return undefined;
+  }
+
   const entryBackend = "backend" in entry ? (entry as any).backend : undefined;
   if (entryBackend !== undefined && entryBackend !== "agent" && entryBackend !== "server") {
     return undefined;
@@ -133,6 +182,80 @@ function asConfigArray(value: unknown): Array<string | Record<string, unknown>>
   return out;
 }
 
+function parseWorkflowStepCondition(raw: unknown): Record<string, unknown> | undefined {
+  if (!isPlainObject(raw)) return undefined;
+  const condition: Record<string, unknown> = {};
+  if (typeof raw.step === "string") condition.step = raw.step;
+  if (
+    raw.section === "summary" ||
+    raw.section === "actions" ||
+    raw.section === "artifacts" ||
+    raw.section === "risks" ||
+    raw.section === "next" ||
+    raw.section === "response"
+  ) {
+    condition.section = raw.section;
+  }
+  if (typeof raw.matches === "string") condition.matches = raw.matches;
+  if (typeof raw.notMatches === "string") condition.notMatches = raw.notMatches;
+  if (typeof raw.empty === "boolean") condition.empty = raw.empty;
+  return condition;
+}
+
+const isWorkflowInputType = (value: unknown): value is string =>
+  value === "string" || value === "number" || value === "boolean";
+
+const isWorkflowInputValue = (value: unknown): boolean =>
+  typeof value === "string" || typeof value === "boolean" || (typeof value === "number" && Number.isFinite(value));
+
+function parseWorkflowInputs(raw: unknown): Record<string, unknown> | undefined {
+  if (!isPlainObject(raw)) return undefined;
+  const inputs: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    if (isWorkflowInputType(value)) {
+      inputs[name] = value;
+      continue;
+    }
+    if (!isPlainObject(value) || !isWorkflowInputType(value.type)) continue;
+    const input: Record<string, unknown> = { type: value.type };
+    if (typeof value.description === "string") input.description = value.description;
+    if (typeof value.required === "boolean") input.required = value.required;
+    if (isWorkflowInputValue(value.default)) input.default = value.default;
+    if (Array.isArray(value.enum)) {
+      const options = value.enum.filter(isWorkflowInputValue);
+      if (options.length > 0) input.enum = options;
+    }
+    inputs[name] = input;
+  }
+  return Object.keys(inputs).length > 0 ? inputs : undefined;
+}
+
+function parseWorkflowStepConfig(step: unknown): Record<string, unknown> | undefined {
+  if (!isPlainObject(step)) return undefined;
+  const id = typeof step.id === "string" ? step.id : undefined;
+  if (!id) return undefined;
+  const entry: Record<string, unknown> = { id };
+  if (typeof step.title === "string") entry.title = step.title;
+  if (typeof step.workerId === "string") entry.workerId = step.workerId;
+  if (typeof step.prompt === "string") entry.prompt = step.prompt;
+  if (typeof step.carry === "boolean") entry.carry = step.carry;
+  if (typeof step.timeoutMs === "number") entry.timeoutMs = step.timeoutMs;
+  const dependsOn = asStringArray(step.dependsOn);
+  if (dependsOn) entry.dependsOn = dependsOn;
+  const when = parseWorkflowStepCondition(step.when);
+  if (when) entry.when = when;
+  const repeatUntil = parseWorkflowStepCondition(step.repeatUntil);
+  if (repeatUntil) entry.repeatUntil = repeatUntil;
+  if (typeof step.repeatFrom === "string") entry.repeatFrom = step.repeatFrom;
+  if (typeof step.maxIterations === "number") entry.maxIterations = step.maxIterations;
+  if (typeof step.retries === "number" && step.retries >= 0) entry.retries = step.retries;
+  if (typeof step.backoffMs === "number" && step.backoffMs >= 0) entry.backoffMs = step.backoffMs;
+  if (typeof step.fallbackWorkerId === "string") entry.fallbackWorkerId = step.fallbackWorkerId;
+  if (typeof step.outputSchema === "string" || isPlainObject(step.outputSchema)) entry.outputSchema = step.outputSchema;
+  if (typeof step.requiresApproval === "boolean") entry.requiresApproval = step.requiresApproval;
+  return entry;
+}
+
 export function parseOrchestratorConfigFile(raw: unknown): Partial<OrchestratorConfigFile> {
   if (!isPlainObject(raw)) return {};
 
@@ -239,24 +362,13 @@ export function parseOrchestratorConfigFile(raw: unknown): Partial<OrchestratorC
           const name = typeof def.name === "string" ? def.name : undefined;
           const description = typeof def.description === "string" ? def.description : undefined;
           if (!Array.isArray(def.steps)) return undefined;
-          const steps = def.steps
-            .map((step: unknown) => {
-              if (!isPlainObject(step)) return undefined;
-              const stepId = typeof step.id === "string" ? step.id : undefined;
-              if (!stepId) return undefined;
-              const entry: Record<string, unknown> = { id: stepId };
-              if (typeof step.title === "string") entry.title = step.title;
-              if (typeof step.workerId === "string") entry.workerId = step.workerId;
-              if (typeof step.prompt === "string") entry.prompt = step.prompt;
-              if (typeof step.carry === "boolean") entry.carry = step.carry;
-              if (typeof step.timeoutMs === "number") entry.timeoutMs = step.timeoutMs;
-              return entry;
-            })
-            .filter(Boolean);
+          const steps = def.steps.map(parseWorkflowStepConfig).filter(Boolean);
           if (steps.length === 0) return undefined;
           const definition: Record<string, unknown> = { id, steps };
           if (name) definition.name = name;
           if (description) definition.description = description;
+          const inputs = parseWorkflowInputs(def.inputs);
+          if (inputs) definition.inputs = inputs;
           return definition;
         })
         .filter(Boolean);
@@ -308,20 +420,7 @@ export function parseOrchestratorConfigFile(raw: unknown): Partial<OrchestratorC
         roocode.perStepTimeoutMs = raw.workflows.roocodeBoomerang.perStepTimeoutMs;
       }
       if (Array.isArray(raw.workflows.roocodeBoomerang.steps)) {
-        const steps = raw.workflows.roocodeBoomerang.steps
-          .map((s: unknown) => {
-            if (!isPlainObject(s)) return undefined;
-            const id = typeof s.id === "string" ? s.id : undefined;
-            if (!id) return undefined;
-            const step: Record<string, unknown> = { id };
-            if (typeof s.title === "string") step.title = s.title;
-            if (typeof s.workerId === "string") step.workerId = s.workerId;
-            if (typeof s.prompt === "string") step.prompt = s.prompt;
-            if (typeof s.carry === "boolean") step.carry = s.carry;
-            if (typeof s.timeoutMs === "number") step.timeoutMs = s.timeoutMs;
-            return step;
-          })
-          .filter(Boolean);
+        const steps = raw.workflows.roocodeBoomerang.steps.map(parseWorkflowStepConfig).filter(Boolean);
         if (steps.length > 0) roocode.steps = steps;
       }
       workflows.roocodeBoomerang = roocode;
@@ -341,6 +440,25 @@ export function parseOrchestratorConfigFile(raw: unknown): Partial<OrchestratorC
       }
       security.workflows = workflows;
     }
+    if (isPlainObject(raw.security.budgets)) {
+      const budgets: Record<string, unknown> = {};
+      for (const key of ["perJob", "perRun", "perSession", "perDay"] as const) {
+        const limit = raw.security.budgets[key];
+        if (!isPlainObject(limit)) continue;
+        const parsed: Record<string, unknown> = {};
+        if (typeof limit.maxTokens === "number" && limit.maxTokens > 0) parsed.maxTokens = limit.maxTokens;
+        if (typeof limit.maxCost === "number" && limit.maxCost > 0) parsed.maxCost = limit.maxCost;
+        budgets[key] = parsed;
+      }
+      security.budgets = budgets;
+    }
+    if (isPlainObject(raw.security.delegation)) {
+      const delegation: Record<string, unknown> = {};
+      if (typeof raw.security.delegation.enabled === "boolean") delegation.enabled = raw.security.delegation.enabled;
+      const maxDepth = raw.security.delegation.maxDepth;
+      if (typeof maxDepth === "number" && Number.isInteger(maxDepth) && maxDepth >= 1) delegation.maxDepth = maxDepth;
+      security.delegation = delegation;
+    }
     partial.security = security as OrchestratorConfig["security"];
   }
 
@@ -350,6 +468,20 @@ export function parseOrchestratorConfigFile(raw: unknown): Partial<OrchestratorC
     if (typeof raw.memory.autoSpawn === "boolean") memory.autoSpawn = raw.memory.autoSpawn;
     if (typeof raw.memory.autoRecord === "boolean") memory.autoRecord = raw.memory.autoRecord;
     if (typeof raw.memory.autoInject === "boolean") memory.autoInject = raw.memory.autoInject;
+    if (raw.memory.backend === "auto" || raw.memory.backend === "neo4j" || raw.memory.backend === "local") {
+      memory.backend = raw.memory.backend;
+    }
+    if (typeof raw.memory.path === "string" && raw.memory.path.trim()) memory.path = raw.memory.path.trim();
+    if (isPlainObject(raw.memory.embeddings)) {
+      const embeddings: Record<string, unknown> = {};
+      const source = raw.memory.embeddings;
+      if (typeof source.provider === "string" && source.provider.trim()) embeddings.provider = source.provider.trim();
+      if (typeof source.model === "string") embeddings.model = source.model;
+      if (typeof source.dimensions === "number" && source.dimensions > 0) embeddings.dimensions = source.dimensions;
+      if (typeof source.baseUrl === "string") embeddings.baseUrl = source.baseUrl;
+      if (typeof source.apiKeyEnv === "string") embeddings.apiKeyEnv = source.apiKeyEnv;
+      memory.embeddings = embeddings;
+    }
     if (raw.memory.scope === "project" || raw.memory.scope === "global") memory.scope = raw.memory.scope;
     if (typeof raw.memory.maxChars === "number") memory.maxChars = raw.memory.maxChars;
 
@@ -384,6 +516,48 @@ export function parseOrchestratorConfigFile(raw: unknown): Partial<OrchestratorC
     partial.memory = memory as OrchestratorConfig["memory"];
   }
 
+  if (isPlainObject(raw.jobs)) {
+    const jobs: Record<string, unknown> = {};
+    if (typeof raw.jobs.persist === "boolean") jobs.persist = raw.jobs.persist;
+    if (typeof raw.jobs.maxJobs === "number") jobs.maxJobs = raw.jobs.maxJobs;
+    if (typeof raw.jobs.maxAgeMs === "number") jobs.maxAgeMs = raw.jobs.maxAgeMs;
+    partial.jobs = jobs as OrchestratorConfig["jobs"];
+  }
+
+  if (isPlainObject(raw.outputSchemas)) {
+    const outputSchemas: Record<string, Record<string, unknown>> = {};
+    for (const [name, schema] of Object.entries(raw.outputSchemas)) {
+      if (isPlainObject(schema)) outputSchemas[name] = schema;
+    }
+    partial.outputSchemas = outputSchemas;
+  }
+
+  if (isPlainObject(raw.modelRouting)) {
+    const modelRouting: ModelRoutingConfig = {};
+    const providers = parseModelProviderFilter(raw.modelRouting.providers);
+    if (providers) modelRouting.providers = providers;
+    const maxCost = parseModelCostCeiling(raw.modelRouting.maxCost);
+    if (maxCost) modelRouting.maxCost = maxCost;
+    if (isPlainObject(raw.modelRouting.tags)) {
+      const tags: Record<string, ModelRoutingRule> = {};
+      for (const [tag, value] of Object.entries(raw.modelRouting.tags)) {
+        const rule = parseModelRoutingRule(value);
+        if (rule) tags[tag.toLowerCase()] = rule;
+      }
+      modelRouting.tags = tags;
+    }
+    partial.modelRouting = modelRouting;
+  }
+
+  if (isPlainObject(raw.skills)) {
+    const skills: SkillsConfig = {};
+    const registries = asStringArray(raw.skills.registries);
+    if (registries) skills.registries = registries;
+    if (raw.skills.lock === "warn" || raw.skills.lock === "fail" || raw.skills.lock === "off") skills.lock = raw.skills.lock;
+    if (typeof raw.skills.autoLock === "boolean") skills.autoLock = raw.skills.autoLock;
+    partial.skills = skills;
+  }
+
   if (isPlainObject(raw.telemetry)) {
     const telemetry: Record<string, unknown> = {};
     if (typeof raw.telemetry.enabled === "boolean") telemetry.enabled = raw.telemetry.enabled;
@@ -395,6 +569,65 @@ export function parseOrchestratorConfigFile(raw: unknown): Partial<OrchestratorC
   return partial;
 }
 
+function parseModelProviderFilter(value: unknown): ModelProviderFilter | undefined {
+  if (!isPlainObject(value)) return undefined;
+  const filter: ModelProviderFilter = {};
+  const allow = asStringArray(value.allow);
+  const deny = asStringArray(value.deny);
+  if (allow) filter.allow = allow;
+  if (deny) filter.deny = deny;
+  return filter;
+}
+
+function parseModelCostCeiling(value: unknown): ModelCostCeiling | undefined {
+  if (!isPlainObject(value)) return undefined;
+  const ceiling: ModelCostCeiling = {};
+  if (typeof value.input === "number" && value.input >= 0) ceiling.input = value.input;
+  if (typeof value.output === "number" && value.output >= 0) ceiling.output = value.output;
+  return ceiling;
+}
+
+function parseWeights(value: unknown): Record<string, number> | undefined {
+  if (!isPlainObject(value)) return undefined;
+  const out: Record<string, number> = {};
+  for (const [key, weight] of Object.entries(value)) {
+    if (typeof weight === "number" && Number.isFinite(weight)) out[key] = weight;
+  }
+  return out;
+}
+
+function parseModelRoutingRule(value: unknown): ModelRoutingRule | undefined {
+  if (!isPlainObject(value)) return undefined;
+  const rule: ModelRoutingRule = {};
+  if (isPlainObject(value.require)) {
+    const require: ModelRequirements = {};
+    for (const key of ["image", "toolcall", "reasoning", "attachment"] as const) {
+      if (typeof value.require[key] === "boolean") require[key] = value.require[key];
+    }
+    if (typeof value.require.minContext === "number" && value.require.minContext > 0) {
+      require.minContext = value.require.minContext;
+    }
+    rule.require = require;
+  }
+  const maxCost = parseModelCostCeiling(value.maxCost);
+  if (maxCost) rule.maxCost = maxCost;
+  const providers = parseModelProviderFilter(value.providers);
+  if (providers) rule.providers = providers;
+  if (isPlainObject(value.prefer)) {
+    const prefer: ModelPreferenceWeights = {};
+    for (const key of ["toolcall", "reasoning", "image", "attachment", "context", "cost", "deprecated"] as const) {
+      const weight = value.prefer[key];
+      if (typeof weight === "number" && Number.isFinite(weight)) prefer[key] = weight;
+    }
+    const parsedProviders = parseWeights(value.prefer.providers);
+    const parsedPatterns = parseWeights(value.prefer.patterns);
+    if (parsedProviders) prefer.providers = parsedProviders;
+    if (parsedPatterns) prefer.patterns = parsedPatterns;
+    rule.prefer = prefer;
+  }
+  return rule;
+}
+
 function collectProfilesAndSpawn(input: OrchestratorConfigFile): {
   profiles: Record<string, WorkerProfile>;
   spawn: string[];
@@ -491,15 +724,15 @@ export async function loadOrchestratorConfig(input: {
       },
       roocodeBoomerang: {
         enabled: true,
-        maxSteps: 4,
+        maxSteps: 6,
         maxTaskChars: 12000,
         maxCarryChars: 24000,
         perStepTimeoutMs: 120_000,
       },
     },
     security: {
+      // No maxSteps default: unset, each workflow gets its own (4, or 6 for the boomerang).
       workflows: {
-        maxSteps: 4,
         maxTaskChars: 12000,
         maxCarryChars: 24000,
         perStepTimeoutMs: 120_000,
@@ -510,6 +743,7 @@ export async function loadOrchestratorConfig(input: {
       autoSpawn: true,
       autoRecord: true,
       autoInject: true,
+      backend: "auto",
       scope: "project",
       maxChars: 2000,
       summaries: {
@@ -533,6 +767,11 @@ export async function loadOrchestratorConfig(input: {
         maxGlobalEntries: 3,
       },
     },
+    jobs: {
+      persist: true,
+      maxJobs: 200,
+      maxAgeMs: 24 * 60 * 60 * 1000,
+    },
     telemetry: {
       enabled: false,
     },
@@ -599,6 +838,10 @@ export async function loadOrchestratorConfig(input: {
     workflows: (mergedFile.workflows ?? defaultsFile.workflows) as OrchestratorConfig["workflows"],
     security: (mergedFile.security ?? defaultsFile.security) as OrchestratorConfig["security"],
     memory: (mergedFile.memory ?? defaultsFile.memory) as OrchestratorConfig["memory"],
+    jobs: (mergedFile.jobs ?? defaultsFile.jobs) as OrchestratorConfig["jobs"],
+    outputSchemas: mergedFile.outputSchemas ?? {},
+    modelRouting: mergedFile.modelRouting,
+    skills: mergedFile.skills,
     telemetry: (mergedFile.telemetry ?? defaultsFile.telemetry) as OrchestratorConfig["telemetry"],
     profiles,
     spawn: spawnList,
@@ -87,13 +87,13 @@ export const builtInProfiles: Record<string, WorkerProfile> = {
     promptFile: "workers/explorer.md",
   },
 
-  // Memory specialist - maintains project/global memory graph (Neo4j) and advises on pruning
+  // Memory specialist - maintains project/global memory graph and advises on pruning
   memory: {
     id: "memory",
     name: "Memory Graph Curator",
     backend: "agent",
     model: "node",
-    purpose: "Maintain a Neo4j-backed memory graph (project + global) and advise on context pruning",
+    purpose: "Maintain the memory graph (project + global) and advise on context pruning",
     whenToUse:
       "When you want to record durable project knowledge, track decisions and entities over time, or decide what context can be safely pruned",
     supportsWeb: true,
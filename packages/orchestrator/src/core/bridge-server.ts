@@ -5,6 +5,11 @@ import { workerPool } from "./worker-pool";
 import { EventEmitter } from "node:events";
 import { onOrchestratorEvent, publishOrchestratorEvent, type OrchestratorEvent } from "./orchestrator-events";
 import { getWorkflowContextForWorker } from "../skills/context";
+import { getDelegationHandler } from "./delegation";
+import { workerJobs } from "./jobs";
+import { getWorkflowApprovalHandler } from "../workflows/approvals";
+import { isWakeupReason, resolveWakeupSession, wakeupLimiter } from "../ux/wakeup";
+import type { WakeupPayload } from "../types";
 
 // Stream event emitter for real-time worker output
 export const streamEmitter = new EventEmitter();
@@ -20,7 +25,10 @@ export type StreamChunk = {
 
 export type BridgeServer = {
   url: string;
+  /** Bearer token for worker calls; passed to every spawned worker */
   token: string;
+  /** Bearer token for operator calls (workflow approvals); never passed to workers */
+  adminToken: string;
   close(): Promise<void>;
 };
 
@@ -78,16 +86,29 @@ function resolveBridgePort(): number {
   return value;
 }
 
+/** Operator token from `OPENCODE_ORCH_ADMIN_TOKEN`, or a random one only this process knows. */
+function resolveAdminToken(workerToken: string): string {
+  const raw = process.env.OPENCODE_ORCH_ADMIN_TOKEN?.trim();
+  if (raw && raw !== workerToken) return raw;
+  return randomBytes(18).toString("base64url");
+}
+
 export async function startBridgeServer(): Promise<BridgeServer> {
   const token = randomBytes(18).toString("base64url");
+  const adminToken = resolveAdminToken(token);
   const port = resolveBridgePort();
   const host = "127.0.0.1";
   const server = createServer(async (req, res) => {
     const url = new URL(req.url ?? "/", "http://127.0.0.1");
     const auth = req.headers.authorization ?? "";
     const isWrite =
-      url.pathname === "/v1/stream/chunk" || (url.pathname === "/v1/events" && req.method === "POST");
+      url.pathname === "/v1/stream/chunk" ||
+      url.pathname === "/v1/wakeup" ||
+      url.pathname === "/v1/delegate" ||
+      (url.pathname === "/v1/events" && req.method === "POST");
     if (isWrite && auth !== `Bearer ${token}`) return unauthorized(res);
+    // Approvals gate a human review: the worker token must not decide them.
+    if (url.pathname === "/v1/workflows/approval" && auth !== `Bearer ${adminToken}`) return unauthorized(res);
 
     // Stream chunk endpoint - workers send text chunks here for real-time streaming
     if (url.pathname === "/v1/stream/chunk") {
@@ -122,6 +143,119 @@ export async function startBridgeServer(): Promise<BridgeServer> {
       return writeJson(res, 200, { ok: true, timestamp: streamChunk.timestamp });
     }
 
+    // Wakeup endpoint - workers ask for the orchestrator's attention on their own
+    if (url.pathname === "/v1/wakeup") {
+      if (req.method !== "POST") return methodNotAllowed(res);
+      const body = (await readJson(req)) as {
+        workerId?: string;
+        jobId?: string;
+        reason?: string;
+        summary?: string;
+        data?: unknown;
+      };
+
+      if (!body.workerId) return writeJson(res, 400, { error: "missing_workerId" });
+      if (!isWakeupReason(body.reason)) return writeJson(res, 400, { error: "invalid_reason" });
+      if (typeof body.jobId === "string" && body.jobId) {
+        // The job key picks the session to wake and the rate limit bucket, so it must be the caller's own job.
+        const job = workerJobs.get(body.jobId);
+        if (!job) return writeJson(res, 404, { error: "unknown_job" });
+        if (job.workerId !== body.workerId) return writeJson(res, 403, { error: "job_worker_mismatch" });
+      }
+
+      const payload: WakeupPayload = {
+        workerId: body.workerId,
+        ...(typeof body.jobId === "string" && body.jobId ? { jobId: body.jobId } : {}),
+        reason: body.reason,
+        ...(typeof body.summary === "string" ? { summary: body.summary.slice(0, 2000) } : {}),
+        ...(isRecord(body.data) ? { data: body.data } : {}),
+        timestamp: Date.now(),
+      };
+
+      const decision = wakeupLimiter.admit(payload);
+      if (!decision.ok) {
+        return writeJson(res, 429, { error: decision.reason, retryAfterMs: decision.retryAfterMs });
+      }
+
+      const instance = workerPool.get(payload.workerId);
+      if (instance) {
+        instance.lastActivity = new Date();
+      }
+
+      const sessionId = resolveWakeupSession(payload);
+      const event = publishOrchestratorEvent("orchestra.worker.wakeup", { ...payload, sessionId });
+      return writeJson(res, 200, { ok: true, id: event.id, routed: Boolean(sessionId), timestamp: event.timestamp });
+    }
+
+    // Delegation endpoint - a worker runs a task on a peer worker and waits for the reply
+    if (url.pathname === "/v1/delegate") {
+      if (req.method !== "POST") return methodNotAllowed(res);
+      const body = (await readJson(req)) as {
+        workerId?: string;
+        targetWorkerId?: string;
+        task?: string;
+        jobId?: string;
+        timeoutMs?: number;
+      };
+
+      if (!body.workerId) return writeJson(res, 400, { error: "missing_workerId" });
+      if (!body.targetWorkerId) return writeJson(res, 400, { error: "missing_targetWorkerId" });
+      if (typeof body.task !== "string" || !body.task.trim()) return writeJson(res, 400, { error: "missing_task" });
+
+      const handler = getDelegationHandler();
+      if (!handler) return writeJson(res, 503, { error: "delegation_unavailable" });
+
+      const instance = workerPool.get(body.workerId);
+      if (instance) {
+        instance.lastActivity = new Date();
+      }
+
+      const result = await handler({
+        fromWorkerId: body.workerId,
+        workerId: body.targetWorkerId,
+        task: body.task,
+        ...(typeof body.jobId === "string" && body.jobId ? { jobId: body.jobId } : {}),
+        ...(typeof body.timeoutMs === "number" && body.timeoutMs > 0 ? { timeoutMs: body.timeoutMs } : {}),
+      });
+      return writeJson(res, 200, result);
+    }
+
+    // Approval endpoint - approve or reject a workflow step waiting for review
+    if (url.pathname === "/v1/workflows/approval") {
+      if (req.method !== "POST") return methodNotAllowed(res);
+      const body = (await readJson(req)) as {
+        runId?: string;
+        stepId?: string;
+        decision?: string;
+        approver?: string;
+        comment?: string;
+        carry?: string;
+        instructions?: string;
+      };
+
+      if (!body.runId) return writeJson(res, 400, { error: "missing_runId" });
+      if (body.decision !== "approve" && body.decision !== "reject") {
+        return writeJson(res, 400, { error: "invalid_decision" });
+      }
+      if (typeof body.approver !== "string" || !body.approver.trim()) {
+        return writeJson(res, 400, { error: "missing_approver" });
+      }
+
+      const handler = getWorkflowApprovalHandler();
+      if (!handler) return writeJson(res, 503, { error: "approvals_unavailable" });
+
+      const outcome = await handler({
+        runId: body.runId,
+        ...(typeof body.stepId === "string" && body.stepId ? { stepId: body.stepId } : {}),
+        decision: body.decision === "approve" ? "approved" : "rejected",
+        approver: body.approver.trim(),
+        ...(typeof body.comment === "string" ? { comment: body.comment } : {}),
+        ...(typeof body.carry === "string" ? { carry: body.carry } : {}),
+        ...(typeof body.instructions === "string" ? { instructions: body.instructions } : {}),
+      });
+      return writeJson(res, outcome.ok ? 200 : 409, outcome);
+    }
+
     // SSE endpoint - clients subscribe to real-time worker output
     if (url.pathname === "/v1/stream") {
       if (req.method !== "GET") return methodNotAllowed(res);
@@ -223,6 +357,7 @@ export async function startBridgeServer(): Promise<BridgeServer> {
   return {
     url,
     token,
+    adminToken,
     close: async () => {
       await new Promise<void>((resolve) => server.close(() => resolve()));
     },
@@ -0,0 +1,75 @@
+import type { DelegationConfig } from "../types";
+import { type WorkerJob, workerJobs } from "./jobs";
+import { parseReplicaId } from "./worker-replicas";
+
+export const DEFAULT_MAX_DELEGATION_DEPTH = 3;
+
+export type DelegationRequest = {
+  /** Worker asking for help (may be a replica id like `coder#2`) */
+  fromWorkerId: string;
+  /** Peer worker that should run the task */
+  workerId: string;
+  task: string;
+  /** Job the delegating worker is running, when it knows it */
+  jobId?: string;
+  timeoutMs?: number;
+};
+
+export type DelegationResult =
+  | { ok: true; jobId: string; workerId: string; response: string; structured?: unknown }
+  | { ok: false; jobId?: string; error: string };
+
+export type DelegationHandler = (request: DelegationRequest) => Promise<DelegationResult>;
+
+/**
+ * Job the delegating worker is working on: the one it names, else its most
+ * recent active job (matched by worker or profile id).
+ */
+export function findDelegatingJob(fromWorkerId: string, jobId?: string): WorkerJob | undefined {
+  const named = jobId ? workerJobs.get(jobId) : undefined;
+  if (named) return named;
+  const profileId = parseReplicaId(fromWorkerId).profileId;
+  return workerJobs
+    .list({ status: "running", limit: 200 })
+    .find((job) => job.workerId === fromWorkerId || job.workerId === profileId);
+}
+
+/** Profile ids from the outermost delegating worker down to `fromWorkerId`. */
+export function buildDelegationChain(parent: WorkerJob | undefined, fromWorkerId: string): string[] {
+  return [...(parent?.delegationChain ?? []), parseReplicaId(fromWorkerId).profileId];
+}
+
+/** Why a delegation to `workerId` must be refused, or undefined when it may run. */
+export function checkDelegation(
+  chain: string[],
+  workerId: string,
+  config: DelegationConfig | undefined
+): string | undefined {
+  if (config?.enabled === false) {
+    return "Worker delegation is disabled (security.delegation.enabled=false).";
+  }
+  const target = parseReplicaId(workerId).profileId;
+  const path = [...chain, target].join(" → ");
+  if (chain.includes(target)) {
+    return `Delegation cycle: ${path}. Finish the work yourself or report back to the orchestrator.`;
+  }
+  const maxDepth = config?.maxDepth ?? DEFAULT_MAX_DELEGATION_DEPTH;
+  if (chain.length > maxDepth) {
+    return `Delegation depth limit (${maxDepth}) reached: ${path}.`;
+  }
+  return undefined;
+}
+
+let delegationHandler: DelegationHandler | undefined;
+
+/** Install the handler the bridge uses for `delegate_to_worker`. Returns an uninstall function. */
+export function setDelegationHandler(handler: DelegationHandler): () => void {
+  delegationHandler = handler;
+  return () => {
+    if (delegationHandler === handler) delegationHandler = undefined;
+  };
+}
+
+export function getDelegationHandler(): DelegationHandler | undefined {
+  return delegationHandler;
+}
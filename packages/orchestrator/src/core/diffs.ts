@@ -0,0 +1,81 @@
+import { copyFile, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { isAbsolute, join, resolve } from "node:path";
+import { runGit } from "../helpers/git";
+
+const MAX_DIFF_CHARS = 200_000;
+
+/** Files a job changed and the unified diff of those changes. */
+export type JobChanges = {
+  files: string[];
+  diff: string;
+  /** Set when the diff was cut at 200k characters */
+  diffTruncated?: boolean;
+};
+
+/** Working tree state (tracked and untracked, minus ignored files) stored as a git tree object. */
+export type WorkingTreeSnapshot = {
+  repo: string;
+  tree: string;
+};
+
+function limitDiff(files: string[], diff: string): JobChanges {
+  if (diff.length <= MAX_DIFF_CHARS) return { files, diff };
+  return { files, diff: diff.slice(0, MAX_DIFF_CHARS), diffTruncated: true };
+}
+
+/**
+ * Record the working tree of the repository containing `directory` without
+ * touching the user's index, stash or branches. Returns undefined outside git.
+ */
+export async function snapshotWorkingTree(directory: string): Promise<WorkingTreeSnapshot | undefined> {
+  let repo: string;
+  try {
+    repo = (await runGit(directory, ["rev-parse", "--show-toplevel"])).trim();
+  } catch {
+    return undefined;
+  }
+
+  const tmp = await mkdtemp(join(tmpdir(), "opencode-orch-snapshot-"));
+  const index = join(tmp, "index");
+  try {
+    // Start from the real index so unchanged files are not hashed again.
+    const realIndex = (await runGit(repo, ["rev-parse", "--git-path", "index"])).trim();
+    await copyFile(isAbsolute(realIndex) ? realIndex : resolve(repo, realIndex), index).catch(() => {});
+    const env = { GIT_INDEX_FILE: index };
+    await runGit(repo, ["add", "-A"], { env });
+    const tree = (await runGit(repo, ["write-tree"], { env })).trim();
+    return { repo, tree };
+  } finally {
+    await rm(tmp, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/** Changes between two snapshots (or commits/trees) of the same repository. */
+export async function diffCommits(repo: string, from: string, to: string): Promise<JobChanges> {
+  const files = (await runGit(repo, ["diff", "--name-only", from, to])).split("\n").filter(Boolean);
+  if (files.length === 0) return { files, diff: "" };
+  return limitDiff(files, await runGit(repo, ["diff", from, to]));
+}
+
+/** Changes made to the working tree since `before` was taken. */
+export async function diffSinceSnapshot(before: WorkingTreeSnapshot): Promise<JobChanges> {
+  const after = await snapshotWorkingTree(before.repo);
+  if (!after) return { files: [], diff: "" };
+  return diffCommits(before.repo, before.tree, after.tree);
+}
+
+/**
+ * Run `work` and report what it changed in the repository containing `directory`.
+ * Concurrent work in the same checkout shows up in each other's changes.
+ */
+export async function captureJobChanges<T>(
+  directory: string | undefined,
+  work: () => Promise<T>
+): Promise<{ result: T; changes?: JobChanges }> {
+  const before = directory ? await snapshotWorkingTree(directory).catch(() => undefined) : undefined;
+  const result = await work();
+  if (!before) return { result };
+  const changes = await diffSinceSnapshot(before).catch(() => undefined);
+  return changes ? { result, changes } : { result };
+}
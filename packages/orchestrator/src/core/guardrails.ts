@@ -1,4 +1,6 @@
+import type { BudgetConfig, BudgetLimit, TokenUsage } from "../types";
 import { workerJobs } from "./jobs";
+import { usageDayKey, usageLedger } from "./usage";
 
 const DEFAULT_PENDING_TASK_LIMIT = 5;
 
@@ -9,7 +11,7 @@ export function buildPendingTaskReminder(
   if (!sessionId) return undefined;
   const pending = workerJobs.list({
     sessionId,
-    status: "running",
+    status: ["running", "queued"],
     limit: options?.limit ?? DEFAULT_PENDING_TASK_LIMIT,
   });
   if (pending.length === 0) return undefined;
@@ -56,3 +58,115 @@ export function buildLegacyToolCorrectionHint(): string {
     "Use task_list if you need to recover a task id.",
   ].join("\n");
 }
+
+export type BudgetScope = "job" | "run" | "session" | "day";
+
+export type BudgetBreach = {
+  scope: BudgetScope;
+  /** Ledger id the budget applies to (job id, run id, session id, or day) */
+  id: string;
+  limit: "tokens" | "cost";
+  used: number;
+  max: number;
+  /** Estimated cost of the work that was refused, when it would have pushed usage past `max` */
+  estimated?: number;
+};
+
+/** Expected usage of work about to start (e.g. a prompt before it is sent). */
+export type BudgetEstimate = {
+  tokens: number;
+  /** USD; left out when the model's price is unknown */
+  cost?: number;
+};
+
+const budgetKeys: Record<BudgetScope, keyof BudgetConfig> = {
+  job: "perJob",
+  run: "perRun",
+  session: "perSession",
+  day: "perDay",
+};
+
+export function countBudgetTokens(usage: TokenUsage): number {
+  return (
+    usage.inputTokens + usage.outputTokens + usage.reasoningTokens + usage.cacheReadTokens + usage.cacheWriteTokens
+  );
+}
+
+/** A limit trips when it is used up, or when the estimated work would take usage past it. */
+function exceeds(used: number, estimate: number | undefined, max: number): boolean {
+  return used >= max || (!!estimate && used + estimate > max);
+}
+
+function checkBudgetLimit(
+  scope: BudgetScope,
+  id: string,
+  limit: BudgetLimit | undefined,
+  usage: TokenUsage | undefined,
+  estimate?: BudgetEstimate
+): BudgetBreach | undefined {
+  if (!limit || (!usage && !estimate)) return undefined;
+  const tokens = usage ? countBudgetTokens(usage) : 0;
+  const cost = usage?.cost ?? 0;
+  if (typeof limit.maxTokens === "number" && exceeds(tokens, estimate?.tokens, limit.maxTokens)) {
+    return {
+      scope,
+      id,
+      limit: "tokens",
+      used: tokens,
+      max: limit.maxTokens,
+      ...(tokens < limit.maxTokens && estimate ? { estimated: estimate.tokens } : {}),
+    };
+  }
+  if (typeof limit.maxCost === "number" && exceeds(cost, estimate?.cost, limit.maxCost)) {
+    return {
+      scope,
+      id,
+      limit: "cost",
+      used: cost,
+      max: limit.maxCost,
+      ...(cost < limit.maxCost && estimate?.cost ? { estimated: estimate.cost } : {}),
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Return the first budget for the given job/run/session (the daily budget is
+ * always checked) that is exhausted, or that `estimate` would push over its
+ * limit. Estimates are rough, so a prompt can still overshoot a little.
+ */
+export function findBudgetBreach(
+  budgets: BudgetConfig | undefined,
+  ids: { job?: string; run?: string; session?: string },
+  estimate?: BudgetEstimate
+): BudgetBreach | undefined {
+  if (!budgets) return undefined;
+  const scoped: Array<[BudgetScope, string | undefined]> = [
+    ["job", ids.job],
+    ["run", ids.run],
+    ["session", ids.session],
+    ["day", usageDayKey()],
+  ];
+  for (const [scope, id] of scoped) {
+    if (!id) continue;
+    const breach = checkBudgetLimit(scope, id, budgets[budgetKeys[scope]], usageLedger.get(scope, id)?.usage, estimate);
+    if (breach) return breach;
+  }
+  return undefined;
+}
+
+export function formatBudgetBreach(breach: BudgetBreach): string {
+  const label = breach.scope === "day" ? `daily budget (${breach.id})` : `${breach.scope} budget (${breach.id})`;
+  if (breach.estimated !== undefined) {
+    const amount =
+      breach.limit === "cost"
+        ? `$${breach.used.toFixed(4)} spent + ~$${breach.estimated.toFixed(4)} estimated > $${breach.max.toFixed(4)}`
+        : `${breach.used} used + ~${breach.estimated} estimated > ${breach.max} tokens`;
+    return `${label} would be exceeded: ${amount}`;
+  }
+  const amount =
+    breach.limit === "cost"
+      ? `$${breach.used.toFixed(4)} of $${breach.max.toFixed(4)} spent`
+      : `${breach.used} of ${breach.max} tokens used`;
+  return `${label} exhausted: ${amount}`;
+}
@@ -1,6 +1,18 @@
 import { randomUUID } from "node:crypto";
+import { existsSync } from "node:fs";
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { getUserConfigDir } from "../helpers/format";
+import { withFileLock } from "../helpers/fs";
+import { isSameProcessAlive, processStartedAt } from "../helpers/process";
+import type { ModelFailover } from "../models/fallback";
+import type { TokenUsage } from "../types";
+import type { PromptFit } from "../workers/prompt/budget";
+import type { JobChanges } from "./diffs";
+import { logger } from "./logger";
+import type { JobWorktree } from "./worktrees";
 
-export type WorkerJobStatus = "running" | "succeeded" | "failed" | "canceled";
+export type WorkerJobStatus = "queued" | "running" | "succeeded" | "failed" | "canceled";
 
 export type WorkerJobReport = {
   summary?: string;
@@ -15,34 +27,232 @@ export type WorkerJob = {
   message: string;
   sessionId?: string;
   requestedBy?: string;
+  /** Job of the worker that delegated this one through the bridge */
+  parentJobId?: string;
+  /** Profile ids of the workers that delegated down to this job, outermost first */
+  delegationChain?: string[];
+  /** PID of the orchestrator process that owns the job (used to detect orphans on replay) */
+  hostPid?: number;
+  /** Start time (Unix ms) of the owning process, so a reused PID is not mistaken for it */
+  hostStartedAt?: number;
   status: WorkerJobStatus;
+  /** Higher runs first when the job waits in a worker queue (default: 0) */
+  priority?: number;
+  /** Unix ms by which the job must finish; queued jobs past it fail without running */
+  deadline?: number;
+  /** When the job entered the queue (jobs that never queued omit it) */
+  queuedAt?: number;
+  /** When the job started running (creation time until a queued job starts) */
   startedAt: number;
   finishedAt?: number;
   durationMs?: number;
   responseText?: string;
+  /** Parsed response when the task was started with an output schema */
+  structured?: unknown;
+  /** Tokens and cost spent on the job */
+  usage?: TokenUsage;
+  /** Model that handled the job (provider/model or tag); a fallback after a failover */
+  model?: string;
+  /** Models of the worker's chain that failed with a provider error before `model` was tried */
+  modelFailovers?: ModelFailover[];
+  /** Prompt size against the model's context window, and what was done when it did not fit */
+  promptFit?: PromptFit;
   error?: string;
   report?: WorkerJobReport;
+  /** Git worktree the job ran in (profiles with `isolation: "worktree"`) */
+  worktree?: JobWorktree;
+  /** Files the job changed and their unified diff (jobs run inside a git repository) */
+  changes?: JobChanges;
 };
 
-const MAX_JOBS = 200;
-const MAX_JOB_AGE_MS = 24 * 60 * 60 * 1000;
+export type WorkerJobStoreOptions = {
+  /** Persist jobs to an append-only JSONL file (default: true) */
+  persist?: boolean;
+  /** Override the store location (default: <config>/opencode/orchestrator-jobs.jsonl) */
+  path?: string;
+  /** Maximum finished jobs to retain */
+  maxJobs?: number;
+  /** Maximum age of finished jobs (ms) */
+  maxAgeMs?: number;
+  /** How often jobs another live process is running are re-read from the store (default: 2s) */
+  foreignPollMs?: number;
+};
+
+const DEFAULT_MAX_JOBS = 200;
+const DEFAULT_MAX_JOB_AGE_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_FOREIGN_POLL_MS = 2_000;
+/** Lock attempts (each waits up to the lock timeout) before a job line is given up on */
+const STORE_LOCK_ATTEMPTS = 3;
+export const ORPHANED_JOB_ERROR = "orphaned: orchestrator process exited before the job finished";
+
+export function getDefaultJobStorePath(): string {
+  return join(getUserConfigDir(), "opencode", "orchestrator-jobs.jsonl");
+}
+
+function isWorkerJobRecord(value: unknown): value is WorkerJob {
+  if (!value || typeof value !== "object") return false;
+  const job = value as Record<string, unknown>;
+  return (
+    typeof job.id === "string" &&
+    typeof job.workerId === "string" &&
+    typeof job.message === "string" &&
+    typeof job.startedAt === "number" &&
+    (job.status === "queued" ||
+      job.status === "running" ||
+      job.status === "succeeded" ||
+      job.status === "failed" ||
+      job.status === "canceled")
+  );
+}
+
+export function isActiveJob(job: WorkerJob): boolean {
+  return job.status === "queued" || job.status === "running";
+}
+
+/** Latest snapshot of every job in a JSONL store; torn or corrupted lines are skipped. */
+async function readJobStore(path: string): Promise<Map<string, WorkerJob>> {
+  const jobs = new Map<string, WorkerJob>();
+  if (!existsSync(path)) return jobs;
+  const raw = await readFile(path, "utf8").catch(() => "");
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as unknown;
+      if (isWorkerJobRecord(parsed)) {
+        // Re-insert so the map keeps the order of each job's latest line.
+        jobs.delete(parsed.id);
+        jobs.set(parsed.id, parsed);
+      }
+    } catch {
+      // Skip torn or corrupted lines.
+    }
+  }
+  return jobs;
+}
+
+const isOwnJob = (job: WorkerJob): boolean => job.hostPid === process.pid && job.hostStartedAt === processStartedAt;
+
+/** Drop finished jobs past the age limit, then the oldest finished ones past the count limit. */
+function pruneJobs(
+  jobs: Map<string, WorkerJob>,
+  limits: { maxJobs: number; maxAgeMs: number },
+  keep: (id: string) => boolean = () => false
+): void {
+  const now = Date.now();
+  for (const [id, job] of jobs) {
+    if (isActiveJob(job)) continue;
+    const ageMs = now - (job.finishedAt ?? job.startedAt);
+    if (ageMs <= limits.maxAgeMs) continue;
+    if (keep(id)) continue;
+    jobs.delete(id);
+  }
+
+  if (jobs.size <= limits.maxJobs) return;
+  for (const [id, job] of jobs) {
+    if (jobs.size <= limits.maxJobs) break;
+    if (isActiveJob(job)) continue;
+    if (keep(id)) continue;
+    jobs.delete(id);
+  }
+}
 
 export class WorkerJobRegistry {
   private jobs = new Map<string, WorkerJob>();
   private waiters = new Map<string, Set<(job: WorkerJob) => void>>();
+  private maxJobs = DEFAULT_MAX_JOBS;
+  private maxAgeMs = DEFAULT_MAX_JOB_AGE_MS;
+  private storePath?: string;
+  private writeChain: Promise<void> = Promise.resolve();
+  private appendedSinceCompact = 0;
+  private foreignPollMs = DEFAULT_FOREIGN_POLL_MS;
+  private foreignPoll?: ReturnType<typeof setInterval>;
+
+  /**
+   * Load persisted jobs from disk and keep the store in sync from now on.
+   * Jobs still marked running by a process that is gone (or whose PID now belongs
+   * to another process) are failed as orphaned. Jobs another live process is running
+   * are re-read from the store until they settle, so `await` and `list` follow them.
+   */
+  async restore(options?: WorkerJobStoreOptions): Promise<number> {
+    if (typeof options?.maxJobs === "number" && options.maxJobs > 0) this.maxJobs = Math.floor(options.maxJobs);
+    if (typeof options?.maxAgeMs === "number" && options.maxAgeMs > 0) this.maxAgeMs = options.maxAgeMs;
+    if (typeof options?.foreignPollMs === "number" && options.foreignPollMs > 0) this.foreignPollMs = options.foreignPollMs;
+    if (options?.persist === false) {
+      this.storePath = undefined;
+      clearInterval(this.foreignPoll);
+      this.foreignPoll = undefined;
+      this.prune();
+      return 0;
+    }
+
+    const path = options?.path ?? getDefaultJobStorePath();
+    this.storePath = path;
 
-  create(input: { workerId: string; message: string; sessionId?: string; requestedBy?: string }): WorkerJob {
+    const replayed = await readJobStore(path);
+    const now = Date.now();
+    let restored = 0;
+    for (const job of replayed.values()) {
+      if (this.jobs.has(job.id)) continue;
+      const orphaned =
+        isActiveJob(job) &&
+        !(await isSameProcessAlive(job.hostPid, {
+          startedAt: job.hostStartedAt,
+          startedBefore: job.queuedAt ?? job.startedAt,
+        }));
+      if (orphaned) {
+        job.status = "failed";
+        job.error = ORPHANED_JOB_ERROR;
+        job.finishedAt = now;
+        job.durationMs = now - job.startedAt;
+      }
+      this.jobs.set(job.id, job);
+      restored += 1;
+    }
+
+    this.prune();
+    this.enqueueCompact();
+    await this.flush();
+    this.watchForeignJobs();
+    return restored;
+  }
+
+  /** Resolve once all pending store writes have completed. */
+  async flush(): Promise<void> {
+    await this.writeChain;
+  }
+
+  create(input: {
+    workerId: string;
+    message: string;
+    sessionId?: string;
+    requestedBy?: string;
+    parentJobId?: string;
+    delegationChain?: string[];
+    /** Create the job as queued; it runs once `start` is called */
+    queued?: boolean;
+    priority?: number;
+    deadline?: number;
+  }): WorkerJob {
     const id = randomUUID();
+    const now = Date.now();
     const job: WorkerJob = {
       id,
       workerId: input.workerId,
       message: input.message,
       ...(input.sessionId ? { sessionId: input.sessionId } : {}),
       ...(input.requestedBy ? { requestedBy: input.requestedBy } : {}),
-      status: "running",
-      startedAt: Date.now(),
+      ...(input.parentJobId ? { parentJobId: input.parentJobId } : {}),
+      ...(input.delegationChain?.length ? { delegationChain: input.delegationChain } : {}),
+      hostPid: process.pid,
+      hostStartedAt: processStartedAt,
+      status: input.queued ? "queued" : "running",
+      ...(typeof input.priority === "number" ? { priority: input.priority } : {}),
+      ...(typeof input.deadline === "number" ? { deadline: input.deadline } : {}),
+      ...(input.queued ? { queuedAt: now } : {}),
+      startedAt: now,
     };
     this.jobs.set(id, job);
+    this.persist(job);
     this.prune();
     return job;
   }
@@ -51,46 +261,67 @@ export class WorkerJobRegistry {
     return this.jobs.get(id);
   }
 
-  list(options?: { workerId?: string; sessionId?: string; status?: WorkerJobStatus; limit?: number }): WorkerJob[] {
+  /** Move a queued job to running. Returns false if it was canceled or failed while queued. */
+  start(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== "queued") return false;
+    job.status = "running";
+    job.startedAt = Date.now();
+    this.persist(job);
+    return true;
+  }
+
+  list(options?: {
+    workerId?: string;
+    sessionId?: string;
+    status?: WorkerJobStatus | WorkerJobStatus[];
+    limit?: number;
+  }): WorkerJob[] {
     const limit = Math.max(1, options?.limit ?? 50);
+    const statuses = options?.status ? [options.status].flat() : undefined;
     const arr = [...this.jobs.values()]
       .filter((j) => (options?.workerId ? j.workerId === options.workerId : true))
       .filter((j) => (options?.sessionId ? j.sessionId === options.sessionId : true))
-      .filter((j) => (options?.status ? j.status === options.status : true))
+      .filter((j) => (statuses ? statuses.includes(j.status) : true))
       .sort((a, b) => (b.startedAt - a.startedAt))
       .slice(0, limit);
     return arr;
   }
 
-  setResult(id: string, input: { responseText: string }): void {
+  setResult(id: string, input: { responseText: string; structured?: unknown; usage?: TokenUsage }): void {
     const job = this.jobs.get(id);
     if (!job || job.status !== "running") return;
     job.status = "succeeded";
     job.responseText = input.responseText;
+    if (input.structured !== undefined) job.structured = input.structured;
+    if (input.usage) job.usage = input.usage;
     job.finishedAt = Date.now();
     job.durationMs = job.finishedAt - job.startedAt;
+    this.persist(job);
     this.notify(id, job);
     this.prune();
   }
 
   setError(id: string, input: { error: string }): void {
     const job = this.jobs.get(id);
-    if (!job || job.status !== "running") return;
+    if (!job || !isActiveJob(job)) return;
     job.status = "failed";
     job.error = input.error;
     job.finishedAt = Date.now();
     job.durationMs = job.finishedAt - job.startedAt;
+    this.persist(job);
     this.notify(id, job);
     this.prune();
   }
 
   cancel(id: string, input?: { reason?: string }): void {
     const job = this.jobs.get(id);
-    if (!job || job.status !== "running") return;
+    if (!job || !isActiveJob(job)) return;
     job.status = "canceled";
     if (input?.reason) job.error = input.reason;
     job.finishedAt = Date.now();
     job.durationMs = job.finishedAt - job.startedAt;
+    this.persist(job);
     this.notify(id, job);
     this.prune();
   }
@@ -99,22 +330,50 @@ export class WorkerJobRegistry {
     const job = this.jobs.get(id);
     if (!job) return;
     job.report = { ...(job.report ?? {}), ...report };
+    this.persist(job);
     this.prune();
   }
 
+  /** Record the job's file changes; call before settling so task_await sees them. */
+  setChanges(id: string, changes: JobChanges): void {
+    const job = this.jobs.get(id);
+    if (!job) return;
+    job.changes = changes;
+    this.persist(job);
+  }
+
+  setModel(id: string, input: { model?: string; modelFailovers?: ModelFailover[]; promptFit?: PromptFit }): void {
+    const job = this.jobs.get(id);
+    if (!job) return;
+    if (input.model) job.model = input.model;
+    if (input.modelFailovers?.length) job.modelFailovers = input.modelFailovers;
+    if (input.promptFit) job.promptFit = input.promptFit;
+    this.persist(job);
+  }
+
+  setWorktree(id: string, worktree: JobWorktree): void {
+    const job = this.jobs.get(id);
+    if (!job) return;
+    job.worktree = worktree;
+    this.persist(job);
+  }
+
+  /** Wait for a job to settle; a non-finite `timeoutMs` waits as long as it takes. */
   async await(id: string, options?: { timeoutMs?: number }): Promise<WorkerJob> {
     const existing = this.jobs.get(id);
     if (!existing) throw new Error(`Unknown job "${id}"`);
-    if (existing.status !== "running") return existing;
+    if (!isActiveJob(existing)) return existing;
 
     const timeoutMs = options?.timeoutMs ?? 600_000;
     return await new Promise<WorkerJob>((resolve, reject) => {
-      const timer = setTimeout(() => {
-        this.offWaiter(id, onDone);
-        reject(new Error(`Timed out waiting for job "${id}" after ${timeoutMs}ms`));
-      }, timeoutMs);
+      const timer = Number.isFinite(timeoutMs)
+        ? setTimeout(() => {
+            this.offWaiter(id, onDone);
+            reject(new Error(`Timed out waiting for job "${id}" after ${timeoutMs}ms`));
+          }, timeoutMs)
+        : undefined;
       const onDone = (job: WorkerJob) => {
-        clearTimeout(timer);
+        if (timer) clearTimeout(timer);
         resolve(job);
       };
       this.onWaiter(id, onDone);
@@ -141,24 +400,111 @@ export class WorkerJobRegistry {
     set.forEach((cb) => cb(job));
   }
 
-  private prune() {
-    const now = Date.now();
-    for (const [id, job] of this.jobs) {
-      if (job.status === "running") continue;
-      const ageMs = now - (job.finishedAt ?? job.startedAt);
-      if (ageMs <= MAX_JOB_AGE_MS) continue;
-      if (this.waiters.has(id)) continue;
-      this.jobs.delete(id);
-    }
+  private persist(job: WorkerJob) {
+    const path = this.storePath;
+    if (!path) return;
+    const line = `${JSON.stringify(job)}\n`;
+    this.appendedSinceCompact += 1;
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await mkdir(dirname(path), { recursive: true }).catch(() => {});
+        // Never append outside the lock: a compaction may be renaming the file over it.
+        // The lock is taken over once stale, so a retry gets past a crashed holder.
+        for (let attempt = 1; ; attempt++) {
+          try {
+            await withFileLock(path, () => appendFile(path, line, "utf8"));
+            return;
+          } catch (err) {
+            if (attempt < STORE_LOCK_ATTEMPTS) continue;
+            logger.error(
+              `[jobs] could not record job ${job.id} (${job.status}) in ${path}: ${err instanceof Error ? err.message : String(err)}`
+            );
+            return;
+          }
+        }
+      })
+      .catch(() => {});
+    // Rewrite the log once it is dominated by superseded snapshots.
+    if (this.appendedSinceCompact > this.maxJobs * 4) this.enqueueCompact();
+  }
+
+  /**
+   * Rewrite the store with one line per job. Other orchestrator processes append to
+   * the same file, so it is re-read and merged under the store lock: their jobs keep
+   * their latest line unless this process failed them as orphaned.
+   */
+  private enqueueCompact() {
+    const path = this.storePath;
+    if (!path) return;
+    this.appendedSinceCompact = 0;
+    this.writeChain = this.writeChain
+      .then(() =>
+        withFileLock(path, async () => {
+          const merged = await readJobStore(path);
+          for (const job of this.jobs.values()) {
+            const stored = merged.get(job.id);
+            if (stored && !isOwnJob(job) && !(isActiveJob(stored) && !isActiveJob(job))) continue;
+            merged.set(job.id, job);
+          }
+          pruneJobs(merged, { maxJobs: this.maxJobs, maxAgeMs: this.maxAgeMs }, (id) => this.waiters.has(id));
+          const body = [...merged.values()].map((job) => `${JSON.stringify(job)}\n`).join("");
+          const tmp = `${path}.${process.pid}.tmp`;
+          await writeFile(tmp, body, "utf8");
+          await rename(tmp, path);
+        })
+      )
+      .catch(() => {});
+  }
+
+  /** Poll the store while jobs another process is running are still active here. */
+  private watchForeignJobs() {
+    if (this.foreignPoll || !this.storePath) return;
+    if (![...this.jobs.values()].some((job) => isActiveJob(job) && !isOwnJob(job))) return;
+    let polling = false;
+    this.foreignPoll = setInterval(() => {
+      if (polling) return;
+      polling = true;
+      void this.refreshForeignJobs().finally(() => {
+        polling = false;
+      });
+    }, this.foreignPollMs);
+    if (typeof this.foreignPoll === "object" && "unref" in this.foreignPoll) this.foreignPoll.unref();
+  }
 
-    if (this.jobs.size <= MAX_JOBS) return;
-    for (const [id, job] of this.jobs) {
-      if (this.jobs.size <= MAX_JOBS) break;
-      if (job.status === "running") continue;
-      if (this.waiters.has(id)) continue;
-      this.jobs.delete(id);
+  /** Adopt the stored outcome of other processes' jobs, and fail the ones whose process is gone. */
+  private async refreshForeignJobs(): Promise<void> {
+    const path = this.storePath;
+    const foreign = [...this.jobs.values()].filter((job) => isActiveJob(job) && !isOwnJob(job));
+    if (!path || foreign.length === 0) {
+      clearInterval(this.foreignPoll);
+      this.foreignPoll = undefined;
+      return;
+    }
+    const stored = await readJobStore(path);
+    for (const job of foreign) {
+      const latest = stored.get(job.id);
+      if (latest && !isActiveJob(latest)) {
+        this.jobs.set(job.id, latest);
+        this.notify(job.id, latest);
+        continue;
+      }
+      const hostAlive = await isSameProcessAlive(job.hostPid, {
+        startedAt: job.hostStartedAt,
+        startedBefore: job.queuedAt ?? job.startedAt,
+      });
+      if (hostAlive) continue;
+      job.status = "failed";
+      job.error = ORPHANED_JOB_ERROR;
+      job.finishedAt = Date.now();
+      job.durationMs = job.finishedAt - job.startedAt;
+      this.persist(job);
+      this.notify(job.id, job);
     }
   }
+
+  private prune() {
+    pruneJobs(this.jobs, { maxJobs: this.maxJobs, maxAgeMs: this.maxAgeMs }, (id) => this.waiters.has(id));
+  }
 }
 
 export const workerJobs = new WorkerJobRegistry();
@@ -1,17 +1,26 @@
 import { randomUUID } from "node:crypto";
 import { EventEmitter } from "node:events";
-import type { WorkerBackend, WorkerExecution, WorkerInstance, WorkerKind, WorkerStatus } from "../types";
+import type { JobQueueEntry } from "./scheduler";
+import type { PromptFit } from "../workers/prompt/budget";
+import { describeReplica } from "./worker-replicas";
+import type { TokenUsage, WakeupPayload, WorkerBackend, WorkerExecution, WorkerInstance, WorkerKind, WorkerStatus } from "../types";
 
 export const ORCHESTRATOR_EVENT_VERSION = 1 as const;
 
 export type OrchestratorEventType =
   | "orchestra.worker.status"
   | "orchestra.worker.stream"
+  | "orchestra.worker.wakeup"
   | "orchestra.workflow.started"
   | "orchestra.workflow.step"
+  | "orchestra.workflow.step.retry"
   | "orchestra.workflow.carry.trimmed"
+  | "orchestra.workflow.approval"
   | "orchestra.workflow.completed"
   | "orchestra.memory.written"
+  | "orchestra.budget.exceeded"
+  | "orchestra.job.queue"
+  | "orchestra.prompt.fit"
   | "orchestra.skill.load.started"
   | "orchestra.skill.load.completed"
   | "orchestra.skill.load.failed"
@@ -46,6 +55,9 @@ export type OrchestratorSkillPermissionEvent = {
 export type OrchestratorWorkerSnapshot = {
   id: string;
   name: string;
+  /** Profile id this worker replicates, for replicas after the first (e.g. `coder#2`) */
+  replicaOf?: string;
+  replicaIndex?: number;
   status: WorkerStatus;
   backend: WorkerBackend;
   kind?: WorkerKind;
@@ -76,6 +88,7 @@ export type OrchestratorWorkerSnapshot = {
       notes?: string;
     };
     durationMs?: number;
+    usage?: TokenUsage;
   };
 };
 
@@ -95,12 +108,17 @@ export type OrchestratorEventDataMap = {
       final?: boolean;
     };
   };
+  "orchestra.worker.wakeup": WakeupPayload & {
+    /** Orchestrator session the notice is injected into, when one owns the worker */
+    sessionId?: string;
+  };
   "orchestra.workflow.started": {
     runId: string;
     workflowId: string;
     workflowName?: string;
     task?: string;
     startedAt: number;
+    steps?: Array<{ id: string; title?: string; workerId: string; dependsOn: string[] }>;
   };
   "orchestra.workflow.step": {
     runId: string;
@@ -109,7 +127,11 @@ export type OrchestratorEventDataMap = {
     stepId: string;
     stepTitle?: string;
     workerId: string;
-    status: "success" | "error";
+    dependsOn?: string[];
+    status: "success" | "error" | "skipped";
+    iteration?: number;
+    /** Number of attempts made, present when the step was retried */
+    attempts?: number;
     startedAt: number;
     finishedAt: number;
     durationMs: number;
@@ -118,6 +140,27 @@ export type OrchestratorEventDataMap = {
     warning?: string;
     jobId?: string;
     error?: string;
+    /** Files the step changed (present when the run is in a git repository) */
+    files?: string[];
+    /** Unified diff of those files, cut at 20k characters */
+    diff?: string;
+    diffTruncated?: boolean;
+  };
+  "orchestra.workflow.step.retry": {
+    runId: string;
+    workflowId: string;
+    workflowName?: string;
+    stepId: string;
+    stepTitle?: string;
+    /** Worker whose attempt failed */
+    workerId: string;
+    /** Worker that receives the next attempt (the fallback on the last one) */
+    nextWorkerId: string;
+    iteration?: number;
+    attempt: number;
+    maxAttempts: number;
+    backoffMs: number;
+    error: string;
   };
   "orchestra.workflow.carry.trimmed": {
     runId: string;
@@ -129,6 +172,21 @@ export type OrchestratorEventDataMap = {
     droppedBlocks: number;
     truncatedSections: string[];
   };
+  "orchestra.workflow.approval": {
+    runId: string;
+    workflowId: string;
+    workflowName?: string;
+    stepId: string;
+    stepTitle?: string;
+    iteration?: number;
+    status: "pending" | "approved" | "rejected";
+    /** Carry the step hands downstream, so reviewers can edit it (pending only) */
+    carry?: string;
+    approver?: string;
+    comment?: string;
+    carryEdited?: boolean;
+    instructions?: string;
+  };
   "orchestra.workflow.completed": {
     runId: string;
     workflowId: string;
@@ -137,10 +195,14 @@ export type OrchestratorEventDataMap = {
     startedAt: number;
     finishedAt: number;
     durationMs: number;
-    steps: { total: number; success: number; error: number };
+    steps: { total: number; success: number; error: number; skipped?: number };
+    /** Tokens and cost across all steps, when workers reported usage */
+    usage?: TokenUsage;
+    /** Set when a paused run was abandoned instead of finishing */
+    abandoned?: boolean;
   };
   "orchestra.memory.written": {
-    action: "put" | "link";
+    action: "put" | "link" | "import" | "promote" | "rekey";
     scope: "project" | "global";
     projectId?: string;
     taskId?: string;
@@ -149,6 +211,32 @@ export type OrchestratorEventDataMap = {
     fromKey?: string;
     toKey?: string;
     relation?: string;
+    /** Bulk operations (import/promote/rekey) */
+    counts?: { created: number; overwritten: number; merged: number; skipped: number; links: number; deleted?: number };
+  };
+  "orchestra.budget.exceeded": {
+    scope: "job" | "run" | "session" | "day";
+    id: string;
+    limit: "tokens" | "cost";
+    used: number;
+    max: number;
+    /** Estimated usage of the refused work, when that estimate is what would have crossed the limit */
+    estimated?: number;
+    /** refused = task_start or a worker prompt was declined; paused = a workflow run stopped between steps */
+    action: "refused" | "paused";
+    message: string;
+    sessionId?: string;
+    runId?: string;
+    workflowId?: string;
+    workflowName?: string;
+  };
+  "orchestra.job.queue": {
+    /** Every running or queued job that went through the worker queue */
+    jobs: JobQueueEntry[];
+  };
+  "orchestra.prompt.fit": PromptFit & {
+    workerId: string;
+    jobId?: string;
   };
   "orchestra.skill.load.started": OrchestratorSkillLoadEvent;
   "orchestra.skill.load.completed": OrchestratorSkillLoadEvent;
@@ -190,6 +278,7 @@ export function serializeWorkerInstance(
   return {
     id: instance.profile.id,
     name: instance.profile.name,
+    ...describeReplica(instance.profile.id),
     status,
     backend: resolveWorkerBackend(instance.profile),
     kind: instance.kind ?? instance.profile.kind,
@@ -216,6 +305,7 @@ export function serializeWorkerInstance(
           response: instance.lastResult.response,
           report: instance.lastResult.report,
           durationMs: instance.lastResult.durationMs,
+          usage: instance.lastResult.usage,
         }
       : undefined,
   };
@@ -0,0 +1,202 @@
+import { workerJobs } from "./jobs";
+import { logger } from "./logger";
+import { publishOrchestratorEvent } from "./orchestrator-events";
+import { parseReplicaId, resolveReplicaLimits } from "./worker-replicas";
+import type { WorkerProfile } from "../types";
+
+export const DEFAULT_WORKER_CONCURRENCY = 1;
+
+/**
+ * Jobs a worker id may run at once: a profile id gets `maxConcurrency` on each
+ * replica it may scale to, an explicit replica id (`coder#2`) just its own.
+ */
+export function resolveWorkerConcurrency(workerId: string, profile?: WorkerProfile): number | undefined {
+  if (!profile) return undefined;
+  const replicas = parseReplicaId(workerId).index > 1 ? 1 : resolveReplicaLimits(profile).max;
+  return (profile.maxConcurrency ?? DEFAULT_WORKER_CONCURRENCY) * replicas;
+}
+
+type QueuedJob = {
+  jobId: string;
+  workerId: string;
+  priority: number;
+  deadline?: number;
+  queuedAt: number;
+  /** Concurrency limit of the target worker when the job was queued */
+  maxConcurrency: number;
+  start: () => Promise<void>;
+  deadlineTimer?: ReturnType<typeof setTimeout>;
+};
+
+export type JobQueueEntry = {
+  jobId: string;
+  workerId: string;
+  status: "queued" | "running";
+  /** 1-based position in the worker queue (queued jobs only) */
+  position?: number;
+  priority: number;
+  deadline?: number;
+  queuedAt: number;
+  message?: string;
+  /** Delegating job, for jobs a worker started on a peer */
+  parentJobId?: string;
+};
+
+/** Higher priority first, then the earliest deadline, then first in. */
+function compareQueuedJobs(a: QueuedJob, b: QueuedJob): number {
+  if (a.priority !== b.priority) return b.priority - a.priority;
+  const aDeadline = a.deadline ?? Number.POSITIVE_INFINITY;
+  const bDeadline = b.deadline ?? Number.POSITIVE_INFINITY;
+  if (aDeadline !== bDeadline) return aDeadline - bDeadline;
+  return a.queuedAt - b.queuedAt;
+}
+
+/**
+ * Per-worker job queue in front of `workerJobs`. Jobs wait as `queued` until
+ * their worker has a free slot (profile `maxConcurrency`), then run in
+ * priority order.
+ */
+export class JobScheduler {
+  private queues = new Map<string, QueuedJob[]>();
+  private running = new Map<string, Map<string, QueuedJob>>();
+
+  /**
+   * Queue a job created with `workerJobs.create({ queued: true })`. `start`
+   * runs once a slot frees up and must settle the job itself.
+   */
+  schedule(input: {
+    jobId: string;
+    workerId: string;
+    priority?: number;
+    deadline?: number;
+    maxConcurrency?: number;
+    start: () => Promise<void>;
+  }): void {
+    const entry: QueuedJob = {
+      jobId: input.jobId,
+      workerId: input.workerId,
+      priority: input.priority ?? 0,
+      deadline: input.deadline,
+      queuedAt: Date.now(),
+      maxConcurrency: Math.max(1, Math.floor(input.maxConcurrency ?? DEFAULT_WORKER_CONCURRENCY)),
+      start: input.start,
+    };
+    if (typeof entry.deadline === "number") {
+      const timer = setTimeout(() => this.expire(entry), Math.max(0, entry.deadline - Date.now()));
+      if (typeof timer === "object" && "unref" in timer) timer.unref();
+      entry.deadlineTimer = timer;
+    }
+
+    const queue = this.queues.get(entry.workerId) ?? [];
+    queue.push(entry);
+    queue.sort(compareQueuedJobs);
+    this.queues.set(entry.workerId, queue);
+    this.drain(entry.workerId);
+    this.publish();
+  }
+
+  /** 1-based queue position for a queued job, or undefined once it has started. */
+  position(jobId: string): number | undefined {
+    for (const queue of this.queues.values()) {
+      const index = queue.findIndex((entry) => entry.jobId === jobId);
+      if (index >= 0) return index + 1;
+    }
+    return undefined;
+  }
+
+  /** Drop a queued job (e.g. canceled). Running jobs are left alone. */
+  remove(jobId: string): boolean {
+    for (const [workerId, queue] of this.queues) {
+      const index = queue.findIndex((entry) => entry.jobId === jobId);
+      if (index < 0) continue;
+      const [entry] = queue.splice(index, 1);
+      if (entry?.deadlineTimer) clearTimeout(entry.deadlineTimer);
+      if (queue.length === 0) this.queues.delete(workerId);
+      this.publish();
+      return true;
+    }
+    return false;
+  }
+
+  list(workerId?: string): JobQueueEntry[] {
+    const entries: JobQueueEntry[] = [];
+    const workerIds = new Set([...this.running.keys(), ...this.queues.keys()]);
+    for (const id of workerIds) {
+      if (workerId && id !== workerId) continue;
+      for (const entry of this.running.get(id)?.values() ?? []) {
+        entries.push(this.toEntry(entry, "running"));
+      }
+      (this.queues.get(id) ?? []).forEach((entry, index) => {
+        entries.push(this.toEntry(entry, "queued", index + 1));
+      });
+    }
+    return entries;
+  }
+
+  /** Forget all queued and running bookkeeping (tests). */
+  clear(): void {
+    for (const queue of this.queues.values()) {
+      for (const entry of queue) if (entry.deadlineTimer) clearTimeout(entry.deadlineTimer);
+    }
+    this.queues.clear();
+    this.running.clear();
+  }
+
+  private toEntry(entry: QueuedJob, status: "queued" | "running", position?: number): JobQueueEntry {
+    const job = workerJobs.get(entry.jobId);
+    const message = job?.message;
+    return {
+      jobId: entry.jobId,
+      workerId: entry.workerId,
+      status,
+      ...(position ? { position } : {}),
+      priority: entry.priority,
+      ...(typeof entry.deadline === "number" ? { deadline: entry.deadline } : {}),
+      queuedAt: entry.queuedAt,
+      ...(message ? { message: message.slice(0, 200) } : {}),
+      ...(job?.parentJobId ? { parentJobId: job.parentJobId } : {}),
+    };
+  }
+
+  private drain(workerId: string) {
+    const queue = this.queues.get(workerId);
+    if (!queue) return;
+    const active = this.running.get(workerId) ?? new Map<string, QueuedJob>();
+    this.running.set(workerId, active);
+
+    while (queue.length > 0) {
+      const next = queue[0];
+      if (!next || active.size >= next.maxConcurrency) break;
+      queue.shift();
+      if (next.deadlineTimer) clearTimeout(next.deadlineTimer);
+      if (!workerJobs.start(next.jobId)) continue;
+      active.set(next.jobId, next);
+      void next
+        .start()
+        .catch((err) => {
+          workerJobs.setError(next.jobId, { error: err instanceof Error ? err.message : String(err) });
+        })
+        .finally(() => {
+          active.delete(next.jobId);
+          if (active.size === 0) this.running.delete(workerId);
+          this.drain(workerId);
+          this.publish();
+        });
+    }
+
+    if (queue.length === 0) this.queues.delete(workerId);
+    if (active.size === 0) this.running.delete(workerId);
+  }
+
+  private expire(entry: QueuedJob) {
+    if (!this.remove(entry.jobId)) return;
+    logger.warn(`[scheduler] job ${entry.jobId} for ${entry.workerId} passed its deadline while queued`);
+    workerJobs.setError(entry.jobId, { error: "deadline passed before the task could start" });
+  }
+
+  private publish() {
+    publishOrchestratorEvent("orchestra.job.queue", { jobs: this.list() });
+  }
+}
+
+export const jobScheduler = new JobScheduler();
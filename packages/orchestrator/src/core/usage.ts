@@ -0,0 +1,276 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { TokenUsage } from "../types";
+import { getUserConfigDir } from "../helpers/format";
+import { withFileLock, writeJsonAtomic } from "../helpers/fs";
+import { fetchProviders, flattenProviders, fullModelID, type ModelCatalogEntry } from "../models/catalog";
+import { logger } from "./logger";
+
+export type UsageScope = "job" | "worker" | "session" | "run" | "day";
+
+export type UsageEntry = {
+  scope: UsageScope;
+  id: string;
+  prompts: number;
+  usage: TokenUsage;
+  updatedAt: number;
+};
+
+const MAX_ENTRIES_PER_SCOPE = 200;
+const MAX_STORED_DAYS = 31;
+
+export function emptyUsage(): TokenUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    cost: 0,
+  };
+}
+
+/** Sum usage records; the model is kept only when every record used the same one. */
+export function sumUsage(items: Array<TokenUsage | undefined>): TokenUsage | undefined {
+  const present = items.filter((item): item is TokenUsage => Boolean(item));
+  if (present.length === 0) return undefined;
+  const total = emptyUsage();
+  for (const item of present) {
+    total.inputTokens += item.inputTokens;
+    total.outputTokens += item.outputTokens;
+    total.reasoningTokens += item.reasoningTokens;
+    total.cacheReadTokens += item.cacheReadTokens;
+    total.cacheWriteTokens += item.cacheWriteTokens;
+    total.cost += item.cost;
+  }
+  const models = new Set(present.map((item) => item.model));
+  if (models.size === 1 && present[0].model) total.model = present[0].model;
+  return total;
+}
+
+/** Catalog prices are USD per million tokens; reasoning tokens bill at the output rate. */
+export function computeUsageCost(usage: TokenUsage, pricing: ModelCatalogEntry["cost"]): number {
+  return (
+    (usage.inputTokens * (pricing.input ?? 0) +
+      (usage.outputTokens + usage.reasoningTokens) * (pricing.output ?? 0) +
+      usage.cacheReadTokens * (pricing.cache?.read ?? 0) +
+      usage.cacheWriteTokens * (pricing.cache?.write ?? 0)) /
+    1_000_000
+  );
+}
+
+const pricingCache = new Map<string, ModelCatalogEntry["cost"]>();
+let pricingLoad: Promise<void> | undefined;
+let pricingLoadedAt = 0;
+/** Refresh prices this often, so catalog changes are picked up. */
+const PRICING_TTL_MS = 60 * 60_000;
+/** A model missing from the catalog is looked up again after this long (e.g. a provider added since). */
+const PRICING_MISS_RETRY_MS = 60_000;
+
+async function loadPricing(client: any, directory: string): Promise<void> {
+  const { providers } = await fetchProviders(client, directory);
+  for (const entry of flattenProviders(providers)) {
+    pricingCache.set(entry.full, entry.cost);
+  }
+}
+
+function isPricingStale(model: string): boolean {
+  const age = Date.now() - pricingLoadedAt;
+  return age >= (pricingCache.has(model) ? PRICING_TTL_MS : PRICING_MISS_RETRY_MS);
+}
+
+/**
+ * Price a usage record from the model catalog. The catalog is refetched hourly,
+ * and at most once a minute while a model is missing from it; models without
+ * catalog pricing keep the cost reported by OpenCode.
+ */
+export async function priceUsage(
+  usage: TokenUsage,
+  input: { client?: any; directory: string }
+): Promise<TokenUsage> {
+  if (!usage.model) return usage;
+  if (input.client && !pricingLoad && isPricingStale(usage.model)) {
+    pricingLoad = loadPricing(input.client, input.directory)
+      .catch((err) => {
+        logger.debug(`[usage] failed to load model pricing: ${err instanceof Error ? err.message : String(err)}`);
+      })
+      .finally(() => {
+        pricingLoadedAt = Date.now();
+        pricingLoad = undefined;
+      });
+  }
+  await pricingLoad;
+  const pricing = pricingCache.get(usage.model);
+  if (!pricing) return usage;
+  const cost = computeUsageCost(usage, pricing);
+  return cost > 0 ? { ...usage, cost } : usage;
+}
+
+/** Input cost of `tokens` prompt tokens on `model`, when its catalog price has been loaded. */
+export function estimateInputCost(model: string | undefined, tokens: number): number | undefined {
+  const pricing = model ? pricingCache.get(model) : undefined;
+  if (!pricing?.input) return undefined;
+  return (tokens * pricing.input) / 1_000_000;
+}
+
+/** Ledger id for the local calendar day, e.g. "2026-01-31". */
+export function usageDayKey(now = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+export function toUsageModel(providerID: unknown, modelID: unknown): string | undefined {
+  return typeof providerID === "string" && typeof modelID === "string" && providerID && modelID
+    ? fullModelID(providerID, modelID)
+    : undefined;
+}
+
+export class UsageLedger {
+  private entries = new Map<UsageScope, Map<string, UsageEntry>>();
+
+  /** Add usage to every scope id provided (e.g. the worker, its job, and the caller session). */
+  record(scopes: Partial<Record<UsageScope, string | undefined>>, usage: TokenUsage, options?: { prompts?: number }) {
+    const prompts = options?.prompts ?? 1;
+    for (const [scope, id] of Object.entries(scopes) as Array<[UsageScope, string | undefined]>) {
+      if (!id) continue;
+      const bucket = this.entries.get(scope) ?? new Map<string, UsageEntry>();
+      this.entries.set(scope, bucket);
+      const existing = bucket.get(id);
+      bucket.delete(id);
+      bucket.set(id, {
+        scope,
+        id,
+        prompts: (existing?.prompts ?? 0) + prompts,
+        usage: sumUsage([existing?.usage, usage]) ?? emptyUsage(),
+        updatedAt: Date.now(),
+      });
+      while (bucket.size > MAX_ENTRIES_PER_SCOPE) {
+        const oldest = bucket.keys().next().value;
+        if (oldest === undefined) break;
+        bucket.delete(oldest);
+      }
+    }
+  }
+
+  /** Replace an entry with a total loaded from elsewhere (e.g. the daily usage file). */
+  set(entry: UsageEntry) {
+    const bucket = this.entries.get(entry.scope) ?? new Map<string, UsageEntry>();
+    this.entries.set(entry.scope, bucket);
+    bucket.delete(entry.id);
+    bucket.set(entry.id, entry);
+  }
+
+  get(scope: UsageScope, id: string): UsageEntry | undefined {
+    return this.entries.get(scope)?.get(id);
+  }
+
+  /** Most recently updated first. */
+  list(scope: UsageScope, options?: { limit?: number }): UsageEntry[] {
+    const entries = [...(this.entries.get(scope)?.values() ?? [])].reverse();
+    return typeof options?.limit === "number" ? entries.slice(0, options.limit) : entries;
+  }
+
+  total(): UsageEntry {
+    const workers = this.list("worker");
+    return {
+      scope: "worker",
+      id: "total",
+      prompts: workers.reduce((sum, entry) => sum + entry.prompts, 0),
+      usage: sumUsage(workers.map((entry) => entry.usage)) ?? emptyUsage(),
+      updatedAt: Math.max(0, ...workers.map((entry) => entry.updatedAt)),
+    };
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
+
+export const usageLedger = new UsageLedger();
+
+type StoredDayUsage = { prompts: number; usage: TokenUsage; updatedAt: number };
+
+export function getDefaultUsageStorePath(): string {
+  return join(getUserConfigDir(), "opencode", "orchestrator-usage.json");
+}
+
+let dailyUsagePath: string | undefined;
+let dailyUsageWrite: Promise<void> = Promise.resolve();
+
+async function readDailyUsage(path: string): Promise<Record<string, StoredDayUsage>> {
+  try {
+    const raw = JSON.parse(await readFile(path, "utf8")) as { days?: unknown };
+    return raw.days && typeof raw.days === "object" ? (raw.days as Record<string, StoredDayUsage>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Load today's total from disk and keep daily totals there from now on, so
+ * `perDay` budgets survive restarts and count every OpenCode process.
+ */
+export async function restoreDailyUsage(options?: { path?: string; persist?: boolean }): Promise<void> {
+  dailyUsagePath = options?.persist === false ? undefined : (options?.path ?? getDefaultUsageStorePath());
+  if (!dailyUsagePath) return;
+  const day = usageDayKey();
+  const stored = (await readDailyUsage(dailyUsagePath))[day];
+  if (stored) usageLedger.set({ scope: "day", id: day, ...stored });
+}
+
+/**
+ * Add usage to the day's total on disk, then adopt that total (which includes
+ * other processes). The read-modify-write holds the store's file lock so
+ * concurrent processes do not overwrite each other's increments.
+ */
+function persistDailyUsage(day: string, usage: TokenUsage, prompts: number): Promise<void> {
+  const path = dailyUsagePath;
+  if (!path) return Promise.resolve();
+  dailyUsageWrite = dailyUsageWrite
+    .then(() =>
+      withFileLock(path, async () => {
+        const days = await readDailyUsage(path);
+        const existing = days[day];
+        const next: StoredDayUsage = {
+          prompts: (existing?.prompts ?? 0) + prompts,
+          usage: sumUsage([existing?.usage, usage]) ?? emptyUsage(),
+          updatedAt: Date.now(),
+        };
+        days[day] = next;
+        const kept = Object.keys(days).sort().slice(-MAX_STORED_DAYS);
+        await writeJsonAtomic(path, { days: Object.fromEntries(kept.map((key) => [key, days[key]])) }, {
+          tmpPrefix: "opencode-orch-usage",
+        });
+        usageLedger.set({ scope: "day", id: day, ...next });
+      })
+    )
+    .catch((err) => {
+      logger.debug(`[usage] failed to persist daily usage: ${err instanceof Error ? err.message : String(err)}`);
+    });
+  return dailyUsageWrite;
+}
+
+/**
+ * Price a worker prompt's usage and add it to the worker, job, session, and
+ * daily totals. Never throws: accounting must not fail the task.
+ */
+export async function recordWorkerUsage(input: {
+  client?: any;
+  directory: string;
+  workerId: string;
+  jobId?: string;
+  sessionId?: string;
+  usage?: TokenUsage;
+  prompts?: number;
+}): Promise<TokenUsage | undefined> {
+  if (!input.usage) return undefined;
+  const priced = await priceUsage(input.usage, { client: input.client, directory: input.directory }).catch(
+    () => input.usage as TokenUsage
+  );
+  const day = usageDayKey();
+  usageLedger.record({ worker: input.workerId, job: input.jobId, session: input.sessionId, day }, priced, {
+    prompts: input.prompts,
+  });
+  await persistDailyUsage(day, priced, input.prompts ?? 1);
+  return priced;
+}
@@ -20,7 +20,9 @@ import { join } from "node:path";
 import { writeJsonAtomic } from "../helpers/fs";
 import { getUserConfigDir } from "../helpers/format";
 import { isProcessAlive } from "../helpers/process";
+import { logger } from "./logger";
 import { publishErrorEvent, publishWorkerStatusEvent } from "./orchestrator-events";
+import { describeReplica, parseReplicaId, replicaProfile, replicaWorkerId, resolveReplicaLimits } from "./worker-replicas";
 import { fetchOpencodeConfig, fetchProviders } from "../models/catalog";
 import { resolveWorkerModel } from "../models/resolve";
 
@@ -75,6 +77,9 @@ export type DeviceRegistryWorkerEntry = {
   lastError?: string;
   model?: string;
   modelPolicy?: "dynamic" | "sticky";
+  /** Profile id this worker replicates (replicas after the first, e.g. `coder#2`) */
+  replicaOf?: string;
+  replicaIndex?: number;
 };
 
 export type DeviceRegistrySessionEntry = {
@@ -141,7 +146,7 @@ export async function upsertWorkerEntry(
 ): Promise<void> {
   const file = await readRegistryFile(path);
   const now = Date.now();
-  const next: DeviceRegistryWorkerEntry = { kind: "worker", updatedAt: now, ...entry };
+  const next: DeviceRegistryWorkerEntry = { kind: "worker", updatedAt: now, ...describeReplica(entry.workerId), ...entry };
   const idx = file.entries.findIndex(
     (e) =>
       e.kind === "worker" &&
@@ -213,6 +218,15 @@ export class WorkerPool {
   // Orchestrator instance ID (for device registry)
   private instanceId = "";
 
+  // Tasks in flight per worker id (least-busy replica selection)
+  private taskLoad: Map<string, number> = new Map();
+
+  // Replica spawns started by acquire(), keyed by replica id
+  private replicaSpawns: Map<string, Promise<WorkerInstance>> = new Map();
+
+  // Idle timers for replicas above minReplicas
+  private reapTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
   // ==========================================================================
   // Lifecycle
   // ==========================================================================
@@ -405,6 +419,126 @@ export class WorkerPool {
     }
   }
 
+  // ==========================================================================
+  // Replicas
+  // ==========================================================================
+
+  /** Running replicas of a profile (the profile id itself plus `id#N`), lowest index first. */
+  listReplicas(profileId: string): WorkerInstance[] {
+    return Array.from(this.workers.values())
+      .filter((w) => parseReplicaId(w.profile.id).profileId === profileId)
+      .sort((a, b) => parseReplicaId(a.profile.id).index - parseReplicaId(b.profile.id).index);
+  }
+
+  /** Tasks currently reserved on a worker through acquire(). */
+  getLoad(workerId: string): number {
+    return this.taskLoad.get(workerId) ?? 0;
+  }
+
+  /**
+   * Reserve the least busy replica of a profile for one task. When every
+   * replica already runs `maxConcurrency` tasks and fewer than `maxReplicas`
+   * exist, another replica is spawned through `spawnFn`. Call `release` once
+   * the task settles; replicas above `minReplicas` are stopped after
+   * `replicaIdleTtlMs` without tasks.
+   */
+  async acquire(
+    profile: WorkerProfile,
+    spawnFn: (profile: WorkerProfile) => Promise<WorkerInstance>
+  ): Promise<{ instance: WorkerInstance; spawned: boolean; release: () => void }> {
+    const limits = resolveReplicaLimits(profile);
+    const slots = Math.max(1, Math.floor(profile.maxConcurrency ?? 1));
+    const candidates = new Set<string>();
+    for (const w of this.listReplicas(profile.id)) {
+      if (w.status !== "stopped") candidates.add(w.profile.id);
+    }
+    for (const id of this.replicaSpawns.keys()) {
+      if (parseReplicaId(id).profileId === profile.id) candidates.add(id);
+    }
+
+    const statusRank = (id: string) => {
+      const status = this.workers.get(id)?.status;
+      return status === "ready" ? 0 : status === "busy" ? 1 : 2;
+    };
+    const [leastBusy] = [...candidates].sort(
+      (a, b) =>
+        this.getLoad(a) - this.getLoad(b) ||
+        statusRank(a) - statusRank(b) ||
+        parseReplicaId(a).index - parseReplicaId(b).index
+    );
+
+    let targetId = leastBusy;
+    if (!leastBusy || (this.getLoad(leastBusy) >= slots && candidates.size < limits.max)) {
+      for (let index = 1; index <= limits.max; index++) {
+        const id = replicaWorkerId(profile.id, index);
+        if (!candidates.has(id)) {
+          targetId = id;
+          break;
+        }
+      }
+    }
+    if (!targetId) targetId = profile.id;
+
+    const id = targetId;
+    this.taskLoad.set(id, this.getLoad(id) + 1);
+    const timer = this.reapTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.reapTimers.delete(id);
+    }
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      const load = this.getLoad(id) - 1;
+      if (load > 0) {
+        this.taskLoad.set(id, load);
+        return;
+      }
+      this.taskLoad.delete(id);
+      this.scheduleReap(id, limits);
+    };
+
+    const existing = this.workers.get(id);
+    if (existing && existing.status !== "stopped") {
+      return { instance: existing, spawned: false, release };
+    }
+
+    let pending = this.replicaSpawns.get(id);
+    const spawned = !pending;
+    if (!pending) {
+      const index = parseReplicaId(id).index;
+      if (index > 1) logger.info(`[pool] scaling ${profile.id} up to replica ${id}`);
+      const spawn = spawnFn(replicaProfile(profile, index));
+      pending = spawn;
+      const cleanup = () => {
+        if (this.replicaSpawns.get(id) === spawn) this.replicaSpawns.delete(id);
+      };
+      spawn.then(cleanup, cleanup);
+      this.replicaSpawns.set(id, spawn);
+    }
+
+    try {
+      return { instance: await pending, spawned, release };
+    } catch (err) {
+      release();
+      throw err;
+    }
+  }
+
+  private scheduleReap(workerId: string, limits: { min: number; idleTtlMs: number }): void {
+    if (parseReplicaId(workerId).index <= limits.min) return;
+    const timer = setTimeout(() => {
+      this.reapTimers.delete(workerId);
+      const instance = this.workers.get(workerId);
+      if (!instance || this.getLoad(workerId) > 0 || instance.status === "busy") return;
+      logger.info(`[pool] reaping idle replica ${workerId}`);
+      void this.stop(workerId);
+    }, limits.idleTtlMs);
+    if (typeof timer === "object" && "unref" in timer) timer.unref();
+    this.reapTimers.set(workerId, timer);
+  }
+
   // ==========================================================================
   // Registration
   // ==========================================================================
@@ -530,6 +664,13 @@ export class WorkerPool {
     return [...(this.sessionWorkers.get(sessionId) ?? new Set<string>())];
   }
 
+  getSessionForWorker(workerId: string): string | undefined {
+    for (const [sessionId, ids] of this.sessionWorkers) {
+      if (ids.has(workerId)) return sessionId;
+    }
+    return undefined;
+  }
+
   clearSessionOwnership(sessionId: string): void {
     this.sessionWorkers.delete(sessionId);
   }
@@ -561,6 +702,7 @@ export class WorkerPool {
         lastError: instance.error,
         model: instance.profile.model,
         modelPolicy: instance.modelPolicy ?? "dynamic",
+        ...describeReplica(instance.profile.id),
       };
 
       const idx = file.entries.findIndex(
@@ -663,6 +805,7 @@ export class WorkerPool {
     return Array.from(this.workers.values()).map((w) => ({
       id: w.profile.id,
       name: w.profile.name,
+      ...describeReplica(w.profile.id),
       modelRef: w.modelRef ?? w.profile.model,
       model: w.profile.model,
       modelPolicy: w.modelPolicy ?? "dynamic",
@@ -689,6 +832,7 @@ export class WorkerPool {
             durationMs: w.lastResult.durationMs,
             response: w.lastResult.response,
             report: w.lastResult.report,
+            usage: w.lastResult.usage,
           }
         : undefined,
     }));
@@ -715,6 +859,10 @@ export class WorkerPool {
     this.workers.clear();
     this.sessionWorkers.clear();
     this.inFlightSpawns.clear();
+    for (const timer of this.reapTimers.values()) clearTimeout(timer);
+    this.reapTimers.clear();
+    this.taskLoad.clear();
+    this.replicaSpawns.clear();
   }
 
   async stop(workerId: string): Promise<boolean> {
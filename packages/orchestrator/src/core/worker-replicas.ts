@@ -0,0 +1,37 @@
+import type { WorkerProfile } from "../types";
+
+export const DEFAULT_REPLICA_IDLE_TTL_MS = 5 * 60_000;
+
+/** Worker id of a replica: the first keeps the profile id, later ones are `coder#2`, `coder#3`, ... */
+export function replicaWorkerId(profileId: string, index: number): string {
+  return index <= 1 ? profileId : `${profileId}#${index}`;
+}
+
+/** Split a worker id into its profile id and 1-based replica index. */
+export function parseReplicaId(workerId: string): { profileId: string; index: number } {
+  const match = /^(.+)#(\d+)$/.exec(workerId);
+  const index = match ? Number(match[2]) : 1;
+  return match && index > 1 ? { profileId: match[1], index } : { profileId: workerId, index: 1 };
+}
+
+/** Replica fields for snapshots and device registry entries (empty for the first replica). */
+export function describeReplica(workerId: string): { replicaOf?: string; replicaIndex?: number } {
+  const { profileId, index } = parseReplicaId(workerId);
+  return index > 1 ? { replicaOf: profileId, replicaIndex: index } : {};
+}
+
+/** Replica bounds for a profile. Only server workers scale; agent workers stay single. */
+export function resolveReplicaLimits(profile: WorkerProfile): { min: number; max: number; idleTtlMs: number } {
+  const idleTtlMs = Math.max(0, profile.replicaIdleTtlMs ?? DEFAULT_REPLICA_IDLE_TTL_MS);
+  const isServer = profile.kind === "server" || (profile.kind === undefined && profile.backend !== "agent");
+  if (!isServer) return { min: 1, max: 1, idleTtlMs };
+  const max = Math.max(1, Math.floor(profile.maxReplicas ?? 1));
+  const min = Math.min(max, Math.max(1, Math.floor(profile.minReplicas ?? 1)));
+  return { min, max, idleTtlMs };
+}
+
+/** Profile used to spawn replica `index`: its own id and name, and never the fixed port. */
+export function replicaProfile(profile: WorkerProfile, index: number): WorkerProfile {
+  if (index <= 1) return profile;
+  return { ...profile, id: replicaWorkerId(profile.id, index), name: `${profile.name} #${index}`, port: undefined };
+}
@@ -0,0 +1,210 @@
+import { existsSync } from "node:fs";
+import { basename, dirname, isAbsolute, join, relative, resolve } from "node:path";
+import { runGit as git } from "../helpers/git";
+import { diffCommits, type JobChanges } from "./diffs";
+
+/** Branch prefix for job worktrees; stale cleanup only touches these. */
+export const WORKTREE_BRANCH_PREFIX = "orchestra/";
+const WORKTREE_DIR_NAME = "orchestra-worktrees";
+const FALLBACK_AUTHOR = ["-c", "user.name=opencode-orchestrator", "-c", "user.email=orchestrator@localhost"];
+
+/**
+ * active = a job is running in the checkout; ready = changes are committed on the
+ * branch and wait for worktree.merge/cherry-pick/discard; empty = the job changed nothing.
+ */
+export type JobWorktreeState = "active" | "ready" | "empty" | "merged" | "cherry-picked" | "discarded";
+export type JobWorktreeAction = "merge" | "cherry-pick" | "discard";
+
+export type JobWorktree = {
+  /** Repository root the worktree was created from (where merges land) */
+  repo: string;
+  /** Worktree checkout; removed once the job finishes */
+  path: string;
+  /** Directory inside the checkout that matches the session directory */
+  directory: string;
+  /** Scratch branch holding the job's changes */
+  branch: string;
+  /** Commit the branch started from */
+  base: string;
+  state: JobWorktreeState;
+  /** Tip of the branch after the job's changes were committed */
+  commit?: string;
+  /** Files changed between base and commit (the diff is kept on the job as `changes`) */
+  files?: string[];
+  updatedAt: number;
+};
+
+const activeWorktrees = new Set<string>();
+
+async function hasCommitIdentity(cwd: string): Promise<boolean> {
+  const email = await git(cwd, ["config", "user.email"]).catch(() => "");
+  return email.trim().length > 0;
+}
+
+/** Whether a checkout is in use by a job of this process. */
+export function isWorktreeActive(path: string): boolean {
+  return activeWorktrees.has(resolve(path));
+}
+
+/**
+ * Create a worktree for `ownerId` (a job id) on a fresh `orchestra/<ownerId>` branch
+ * from the current HEAD of the repository containing `directory`.
+ */
+export async function createJobWorktree(directory: string, ownerId: string): Promise<JobWorktree> {
+  let repo: string;
+  try {
+    repo = (await git(directory, ["rev-parse", "--show-toplevel"])).trim();
+  } catch (err) {
+    throw new Error(
+      `Worktree isolation needs a git repository at ${directory}: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+  const base = (await git(repo, ["rev-parse", "HEAD"])).trim();
+  const commonDir = (await git(repo, ["rev-parse", "--git-common-dir"])).trim();
+  const path = join(isAbsolute(commonDir) ? commonDir : resolve(repo, commonDir), WORKTREE_DIR_NAME, ownerId);
+  const branch = `${WORKTREE_BRANCH_PREFIX}${ownerId}`;
+
+  await git(repo, ["worktree", "add", "-b", branch, path, base]);
+  activeWorktrees.add(resolve(path));
+
+  const subdir = relative(repo, resolve(directory));
+  return {
+    repo,
+    path,
+    directory: subdir && !subdir.startsWith("..") ? join(path, subdir) : path,
+    branch,
+    base,
+    state: "active",
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Commit whatever the job left in its checkout onto the scratch branch, diff it
+ * against the base and remove the checkout. A branch without changes is deleted.
+ */
+export async function finalizeJobWorktree(
+  worktree: JobWorktree,
+  message: string
+): Promise<{ worktree: JobWorktree; changes: JobChanges }> {
+  const next: JobWorktree = { ...worktree, updatedAt: Date.now() };
+  try {
+    if (existsSync(worktree.path)) {
+      await git(worktree.path, ["add", "-A"]);
+      const staged = (await git(worktree.path, ["diff", "--cached", "--name-only"])).trim();
+      if (staged) {
+        const identity = (await hasCommitIdentity(worktree.path)) ? [] : FALLBACK_AUTHOR;
+        await git(worktree.path, [...identity, "commit", "--no-verify", "-q", "-m", message]);
+      }
+    }
+
+    const commit = (await git(worktree.repo, ["rev-parse", worktree.branch])).trim();
+    const changes = await diffCommits(worktree.repo, worktree.base, commit);
+
+    await removeCheckout(worktree);
+    if (changes.files.length === 0) {
+      await git(worktree.repo, ["branch", "-D", worktree.branch]).catch(() => "");
+      return { worktree: { ...next, state: "empty", files: [] }, changes };
+    }
+    return { worktree: { ...next, state: "ready", commit, files: changes.files }, changes };
+  } finally {
+    activeWorktrees.delete(resolve(worktree.path));
+  }
+}
+
+async function removeCheckout(worktree: JobWorktree): Promise<void> {
+  if (existsSync(worktree.path)) {
+    await git(worktree.repo, ["worktree", "remove", "--force", worktree.path]);
+  }
+  await git(worktree.repo, ["worktree", "prune"]).catch(() => "");
+}
+
+/**
+ * Bring a finished job's branch into the repository (merge or cherry-pick its
+ * commits onto the current branch) or drop it. The scratch branch is deleted after.
+ */
+export async function applyJobWorktree(worktree: JobWorktree, action: JobWorktreeAction): Promise<JobWorktree> {
+  if (worktree.state === "active") {
+    throw new Error(`Worktree ${worktree.branch} is still in use by a running job.`);
+  }
+  if (worktree.state !== "ready" && !(worktree.state === "empty" && action === "discard")) {
+    throw new Error(`Worktree ${worktree.branch} is ${worktree.state}; nothing to ${action}.`);
+  }
+
+  if (action === "merge") {
+    const identity = (await hasCommitIdentity(worktree.repo)) ? [] : FALLBACK_AUTHOR;
+    try {
+      await git(worktree.repo, [...identity, "merge", "--no-ff", "--no-edit", worktree.branch]);
+    } catch (err) {
+      await git(worktree.repo, ["merge", "--abort"]).catch(() => "");
+      throw err;
+    }
+  } else if (action === "cherry-pick") {
+    const identity = (await hasCommitIdentity(worktree.repo)) ? [] : FALLBACK_AUTHOR;
+    try {
+      await git(worktree.repo, [...identity, "cherry-pick", `${worktree.base}..${worktree.branch}`]);
+    } catch (err) {
+      await git(worktree.repo, ["cherry-pick", "--abort"]).catch(() => "");
+      throw err;
+    }
+  }
+
+  await removeCheckout(worktree).catch(() => {});
+  await git(worktree.repo, ["branch", "-D", worktree.branch]).catch(() => "");
+  return {
+    ...worktree,
+    state: action === "merge" ? "merged" : action === "cherry-pick" ? "cherry-picked" : "discarded",
+    updatedAt: Date.now(),
+  };
+}
+
+/** Job worktree checkouts (`orchestra/*` branches) registered in the repository containing `directory`. */
+export async function listJobWorktreeCheckouts(directory: string): Promise<Array<{ path: string; branch: string }>> {
+  const raw = await git(directory, ["worktree", "list", "--porcelain"]);
+  const entries: Array<{ path: string; branch: string }> = [];
+  for (const block of raw.split("\n\n")) {
+    const path = block.match(/^worktree (.+)$/m)?.[1];
+    const ref = block.match(/^branch refs\/heads\/(.+)$/m)?.[1];
+    if (!path || !ref?.startsWith(WORKTREE_BRANCH_PREFIX)) continue;
+    if (basename(dirname(path)) !== WORKTREE_DIR_NAME) continue;
+    entries.push({ path, branch: ref });
+  }
+  return entries;
+}
+
+/**
+ * Remove job checkouts nobody uses anymore (e.g. left behind by a crash). Leftover
+ * changes are committed onto the scratch branch first so nothing is lost; the
+ * branch stays for worktree.merge/cherry-pick/discard.
+ */
+export async function cleanupStaleWorktrees(
+  directory: string,
+  isInUse: (checkout: { path: string; branch: string }) => boolean
+): Promise<Array<{ ownerId: string; worktree: JobWorktree; changes: JobChanges }>> {
+  const checkouts = await listJobWorktreeCheckouts(directory).catch(() => []);
+  const cleaned: Array<{ ownerId: string; worktree: JobWorktree; changes: JobChanges }> = [];
+  for (const checkout of checkouts) {
+    if (isWorktreeActive(checkout.path) || isInUse(checkout)) continue;
+    try {
+      const repo = (await git(directory, ["rev-parse", "--show-toplevel"])).trim();
+      const base = (await git(repo, ["merge-base", "HEAD", checkout.branch])).trim();
+      const ownerId = checkout.branch.slice(WORKTREE_BRANCH_PREFIX.length);
+      const finalized = await finalizeJobWorktree(
+        {
+          repo,
+          path: checkout.path,
+          directory: checkout.path,
+          branch: checkout.branch,
+          base,
+          state: "active",
+          updatedAt: Date.now(),
+        },
+        `orchestra: leftover changes from ${ownerId}`
+      );
+      cleaned.push({ ownerId, ...finalized });
+    } catch {
+      // Leave checkouts that git cannot process for the next cleanup.
+    }
+  }
+  return cleaned;
+}
@@ -1,4 +1,4 @@
-import { mkdir, rename, unlink, writeFile } from "node:fs/promises";
+import { mkdir, open, rename, stat, unlink, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { dirname, join } from "node:path";
 
@@ -19,3 +19,40 @@ export async function writeJsonAtomic(path: string, data: unknown, options?: Wri
     await unlink(tmp).catch(() => {});
   });
 }
+
+type FileLockOptions = {
+  /** Give up after waiting this long for the lock (default: 5s) */
+  timeoutMs?: number;
+  /** Take over a lock file older than this; its holder is assumed dead (default: 10s) */
+  staleMs?: number;
+};
+
+/** Run `fn` while holding `<path>.lock`, an exclusive lock shared by every process that uses the same path. */
+export async function withFileLock<T>(path: string, fn: () => Promise<T>, options?: FileLockOptions): Promise<T> {
+  const lockPath = `${path}.lock`;
+  const timeoutMs = options?.timeoutMs ?? 5_000;
+  const staleMs = options?.staleMs ?? 10_000;
+  const deadline = Date.now() + timeoutMs;
+  await mkdir(dirname(path), { recursive: true }).catch(() => {});
+  for (;;) {
+    try {
+      const handle = await open(lockPath, "wx");
+      await handle.writeFile(String(process.pid)).finally(() => handle.close());
+      break;
+    } catch (err: any) {
+      if (err?.code !== "EEXIST") throw err;
+      const lockedAt = await stat(lockPath).then((s) => s.mtimeMs, () => undefined);
+      if (lockedAt !== undefined && Date.now() - lockedAt > staleMs) {
+        await unlink(lockPath).catch(() => {});
+        continue;
+      }
+      if (Date.now() > deadline) throw new Error(`Timed out waiting for lock ${lockPath}`);
+      await new Promise((resolve) => setTimeout(resolve, 25));
+    }
+  }
+  try {
+    return await fn();
+  } finally {
+    await unlink(lockPath).catch(() => {});
+  }
+}
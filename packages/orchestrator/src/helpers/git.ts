@@ -0,0 +1,19 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
+
+/** Run git in `cwd` and return stdout; failures throw with git's stderr. */
+export async function runGit(cwd: string, args: string[], options?: { env?: Record<string, string> }): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd,
+      maxBuffer: 64 * 1024 * 1024,
+      ...(options?.env ? { env: { ...process.env, ...options.env } } : {}),
+    });
+    return stdout;
+  } catch (err: any) {
+    const detail = typeof err?.stderr === "string" && err.stderr.trim() ? err.stderr.trim() : err?.message;
+    throw new Error(`git ${args[0]} failed: ${detail ?? String(err)}`);
+  }
+}
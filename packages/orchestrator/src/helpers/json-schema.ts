@@ -0,0 +1,142 @@
+import type { JsonSchema } from "../types";
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Resolve a local `#/definitions/...` (or `#/$defs/...`) reference against the root schema. */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | undefined {
+  if (!ref.startsWith("#/")) return undefined;
+  let current: unknown = root;
+  for (const segment of ref.slice(2).split("/")) {
+    if (!isPlainObject(current)) return undefined;
+    current = current[segment.replace(/~1/g, "/").replace(/~0/g, "~")];
+  }
+  return isPlainObject(current) ? (current as JsonSchema) : undefined;
+}
+
+/**
+ * Validate a value against the commonly used subset of JSON Schema:
+ * type, enum, const, properties, required, additionalProperties, items,
+ * min/max for strings, numbers and arrays, anyOf/oneOf/allOf and local $refs.
+ * Returns a list of problems (empty when the value matches).
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = "$", root: JsonSchema = schema): string[] {
+  if (typeof schema.$ref === "string") {
+    const target = resolveRef(root, schema.$ref);
+    if (!target) return [`${path}: cannot resolve ${schema.$ref}`];
+    return validateJsonSchema(value, target, path, root);
+  }
+
+  const errors: string[] = [];
+
+  const types = Array.isArray(schema.type) ? schema.type : typeof schema.type === "string" ? [schema.type] : [];
+  if (types.length > 0 && !types.some((type) => typeof type === "string" && matchesType(value, type))) {
+    return [`${path}: expected ${types.join(" | ")}, got ${typeOf(value)}`];
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => sameValue(option, value))) {
+    errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if ("const" in schema && !sameValue(schema.const, value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      errors.push(`${path}: less than ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      errors.push(`${path}: greater than ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path}: fewer than ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${path}: more than ${schema.maxItems} items`);
+    }
+    if (isPlainObject(schema.items)) {
+      const items = schema.items;
+      value.forEach((item, index) => {
+        errors.push(...validateJsonSchema(item, items, `${path}[${index}]`, root));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = isPlainObject(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (typeof key === "string" && !(key in value)) errors.push(`${path}.${key}: is required`);
+      }
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      const propertySchema = properties[key];
+      if (isPlainObject(propertySchema)) {
+        errors.push(...validateJsonSchema(entry, propertySchema, `${path}.${key}`, root));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (isPlainObject(schema.additionalProperties)) {
+        errors.push(...validateJsonSchema(entry, schema.additionalProperties, `${path}.${key}`, root));
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf) {
+      if (isPlainObject(sub)) errors.push(...validateJsonSchema(value, sub, path, root));
+    }
+  }
+  const anyOf = Array.isArray(schema.anyOf) ? schema.anyOf : undefined;
+  if (anyOf && !anyOf.some((sub) => isPlainObject(sub) && validateJsonSchema(value, sub, path, root).length === 0)) {
+    errors.push(`${path}: does not match any allowed schema`);
+  }
+  const oneOf = Array.isArray(schema.oneOf) ? schema.oneOf : undefined;
+  if (oneOf) {
+    const matches = oneOf.filter((sub) => isPlainObject(sub) && validateJsonSchema(value, sub, path, root).length === 0);
+    if (matches.length !== 1) errors.push(`${path}: must match exactly one allowed schema`);
+  }
+
+  return errors;
+}
+
+/** Resolve an inline schema or the name of one configured under `outputSchemas`. */
+export function resolveOutputSchema(
+  ref: string | JsonSchema | undefined,
+  schemas: Record<string, JsonSchema> | undefined
+): JsonSchema | undefined {
+  if (ref === undefined) return undefined;
+  if (typeof ref !== "string") return ref;
+  const schema = schemas?.[ref];
+  if (!schema) throw new Error(`Unknown output schema "${ref}". Define it under outputSchemas in orchestrator.json.`);
+  return schema;
+}
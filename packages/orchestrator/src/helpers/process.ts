@@ -1,3 +1,9 @@
+import { execFile } from "node:child_process";
+import { readFile } from "node:fs/promises";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
+
 type IsProcessAliveOptions = {
   treatEpermAsAlive?: boolean;
 };
@@ -13,3 +19,53 @@ export function isProcessAlive(pid: number, options?: IsProcessAliveOptions): bo
     return false;
   }
 }
+
+/** Unix ms at which this process started. */
+export const processStartedAt = Math.round(Date.now() - process.uptime() * 1000);
+
+/**
+ * Unix ms at which `pid` started, or undefined when it cannot be determined.
+ * Compare against a recorded start time to tell a live process from a reused PID.
+ */
+export async function getProcessStartTime(pid: number): Promise<number | undefined> {
+  if (!Number.isFinite(pid) || pid <= 0) return undefined;
+  if (pid === process.pid) return processStartedAt;
+
+  if (process.platform === "linux") {
+    const [stat, uptime] = await Promise.all([
+      readFile(`/proc/${pid}/stat`, "utf8").catch(() => ""),
+      readFile("/proc/uptime", "utf8").catch(() => ""),
+    ]);
+    // Field 22 (starttime, in clock ticks since boot) follows the parenthesised command name.
+    const ticks = Number(stat.slice(stat.lastIndexOf(")") + 2).split(" ")[19]);
+    const upSeconds = Number(uptime.split(" ")[0]);
+    if (Number.isFinite(ticks) && Number.isFinite(upSeconds) && stat) {
+      return Math.round(Date.now() - (upSeconds - ticks / 100) * 1000);
+    }
+  }
+
+  const { stdout } = await execFileAsync("ps", ["-o", "lstart=", "-p", String(pid)]).catch(() => ({ stdout: "" }));
+  const startedAt = Date.parse(String(stdout).trim());
+  return Number.isFinite(startedAt) ? startedAt : undefined;
+}
+
+/** Clock skew allowed between a recorded process start time and the one read back from the OS */
+const START_TIME_TOLERANCE_MS = 5_000;
+
+/**
+ * Whether `pid` is alive and is still the process that started at `startedAt` (Unix ms),
+ * not another one that reused the PID. Records without a start time pass `startedBefore`:
+ * the process must have started by then. Alive when the start time cannot be read; a
+ * record without a PID never is.
+ */
+export async function isSameProcessAlive(
+  pid: number | undefined,
+  host: { startedAt?: number; startedBefore?: number }
+): Promise<boolean> {
+  if (!pid || !isProcessAlive(pid)) return false;
+  const startedAt = await getProcessStartTime(pid);
+  if (startedAt === undefined) return true;
+  if (typeof host.startedAt === "number") return Math.abs(startedAt - host.startedAt) <= START_TIME_TOLERANCE_MS;
+  if (typeof host.startedBefore === "number") return startedAt <= host.startedBefore + START_TIME_TOLERANCE_MS;
+  return true;
+}
@@ -13,7 +13,7 @@ import {
   setWorkflowConfig,
   setWorktree,
 } from "./command";
-import { spawnWorkers, stopWorker } from "./workers/spawner";
+import { cleanupDeadWorkers, spawnWorkers, stopWorker } from "./workers/spawner";
 import type { WorkerInstance } from "./types";
 import type { Config } from "@opencode-ai/sdk";
 import { createIdleNotifier } from "./ux/idle-notification";
@@ -21,17 +21,24 @@ import { createPruningTransform } from "./ux/pruning";
 import { hasImages } from "./vision/analyzer";
 
 import { resolveModelRef } from "./models/catalog";
+import { setModelRoutingConfig } from "./models/routing";
 import { ensureRuntime, shutdownAllWorkers } from "./core/runtime";
 import { setLoggerConfig } from "./core/logger";
-import { loadWorkflows } from "./workflows";
+import { loadWorkflows, startWorkflowFiles } from "./workflows";
+import { restoreWorkflowRuns } from "./workflows/runs";
+import { setWorkflowApprovalHandler } from "./workflows/approvals";
+import { createWorkflowApprovalHandler } from "./workflows/runner";
 import { initTelemetry, flushTelemetry, trackSpawn } from "./core/telemetry";
 import { buildPassthroughSystemPrompt, clearPassthrough, getPassthrough, isPassthroughExitMessage } from "./core/passthrough";
+import { resolveMemoryStore } from "./memory/backend";
 import { buildMemoryInjection } from "./memory/inject";
 import { loadPromptFile } from "./prompts/load";
 import { createOrchestratorContext } from "./context/orchestrator-context";
 import { createWorkflowTriggers } from "./workflows/triggers";
 import { startEventPublisher } from "./ux/event-publisher";
-import { injectSessionNotice } from "./ux/wakeup";
+import { injectSessionNotice, startWakeupInjector } from "./ux/wakeup";
+import { setDelegationHandler } from "./core/delegation";
+import { delegateWorkerTask } from "./command/tasks";
 import {
   buildSkillCompletedPayload,
   buildSkillPermissionPayload,
@@ -41,6 +48,7 @@ import {
 import { getWorkflowContextForSession } from "./skills/context";
 import { publishOrchestratorEvent } from "./core/orchestrator-events";
 import { workerJobs } from "./core/jobs";
+import { restoreDailyUsage } from "./core/usage";
 import { buildLegacyToolCorrectionHint, buildPendingTaskReminder, needsLegacyToolCorrection } from "./core/guardrails";
 import {
   buildDefaultOrchestratorPluginToolOverrides,
@@ -58,6 +66,15 @@ export const OrchestratorPlugin: Plugin = async (ctx) => {
     worktree: ctx.worktree || undefined,
   });
 
+  // Replay persisted jobs so task_await/task_peek survive restarts.
+  await workerJobs.restore(config.jobs).catch(() => {});
+  // Daily usage lives on disk so perDay budgets survive restarts.
+  await restoreDailyUsage().catch(() => {});
+  // Reload this project's paused workflow runs so continueRunId works after a restart.
+  await restoreWorkflowRuns({ project: { directory: ctx.directory, projectId: ctx.project.id } }).catch(() => {});
+  // Commit and remove job worktrees left behind by a previous process.
+  void cleanupDeadWorkers({ directory: ctx.directory }).catch(() => {});
+
   // Ensure the orchestrator runtime is online (bridge + cleanup handlers).
   const runtime = await ensureRuntime();
 
@@ -71,7 +88,12 @@ export const OrchestratorPlugin: Plugin = async (ctx) => {
   setLoggerConfig({ enabled: true });
   setWorkflowConfig(config.workflows);
   setSecurityConfig(config.security);
+  setModelRoutingConfig(config.modelRouting);
   loadWorkflows(config);
+  const stopWorkflowFiles = await startWorkflowFiles(config, {
+    directory: ctx.directory,
+    worktree: ctx.worktree || undefined,
+  }).catch(() => () => {});
 
   const orchestratorContext = createOrchestratorContext({
     directory: ctx.directory,
@@ -99,6 +121,9 @@ export const OrchestratorPlugin: Plugin = async (ctx) => {
     }
   };
   const stopEventPublisher = startEventPublisher(showToast);
+  const stopWakeupInjector = startWakeupInjector(orchestratorContext);
+  const stopDelegation = setDelegationHandler((request) => delegateWorkerTask(orchestratorContext, request));
+  const stopApprovals = setWorkflowApprovalHandler(createWorkflowApprovalHandler(orchestratorContext));
 
   const visionTimeoutMs = (() => {
     const raw = process.env.OPENCODE_VISION_TIMEOUT_MS;
@@ -220,6 +245,7 @@ export const OrchestratorPlugin: Plugin = async (ctx) => {
   };
   const orchestratorAgentName = config.agent?.name ?? "orchestrator";
   const skillCalls = new Map<string, { startedAt: number; args?: unknown }>();
+  const lastUserMessages = new Map<string, string>();
 
   const resolveSkillContext = (sessionId: string) => {
     const workerIds = workerPool.getWorkersForSession(sessionId);
@@ -457,12 +483,18 @@ export const OrchestratorPlugin: Plugin = async (ctx) => {
         if (reminder) output.system.push(reminder);
       }
 
-      if (config.memory?.enabled !== false && config.memory?.autoInject !== false) {
+      const memoryStore =
+        config.memory?.enabled !== false && config.memory?.autoInject !== false
+          ? resolveMemoryStore(config.memory)
+          : undefined;
+      if (memoryStore) {
         const injected = await buildMemoryInjection({
           enabled: true,
+          store: memoryStore,
           scope: (config.memory?.scope ?? "project") as any,
           projectId: ctx.project.id,
           sessionId,
+          query: sessionId ? lastUserMessages.get(sessionId) : undefined,
           inject: config.memory?.inject,
         }).catch(() => undefined);
         if (injected) output.system.push(injected);
@@ -477,6 +509,18 @@ export const OrchestratorPlugin: Plugin = async (ctx) => {
       await pruneTransform(input as any, output as any);
     },
     "chat.message": async (input, output) => {
+      const userText = (Array.isArray(output.parts) ? output.parts : [])
+        .filter((p: any) => p?.type === "text" && typeof p.text === "string" && !p.synthetic)
+        .map((p: any) => p.text)
+        .join("\n")
+        .trim();
+      if (output.message?.role === "user" && userText) {
+        // Keeps memory injection relevant to what the user just asked.
+        lastUserMessages.delete(input.sessionID);
+        lastUserMessages.set(input.sessionID, userText.slice(0, 4000));
+        if (lastUserMessages.size > 200) lastUserMessages.delete(lastUserMessages.keys().next().value as string);
+      }
+
       // Passthrough auto-exit (server-side): if the user issues an exit command, disable passthrough for this session.
       const role = typeof (input as any)?.role === "string" ? String((input as any).role) : undefined;
       if (role === "user") {
@@ -542,6 +586,10 @@ export const OrchestratorPlugin: Plugin = async (ctx) => {
         workerPool.off("spawn", onWorkerUpdate);
         workerPool.off("stop", onWorkerRemove);
         stopEventPublisher();
+        stopWakeupInjector();
+        stopDelegation();
+        stopApprovals();
+        stopWorkflowFiles();
         await shutdownAllWorkers().catch(() => {});
         await flushTelemetry().catch(() => {});
       }
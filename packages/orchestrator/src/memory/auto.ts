@@ -1,9 +1,13 @@
-import type { MemoryScope } from "./graph";
-import { getMemoryByKey, linkMemory, trimGlobalMessageProjects, trimMemoryByKeyPrefix, upsertMemory } from "./graph";
-import { loadNeo4jConfigFromEnv, type Neo4jConfig } from "./neo4j";
+import { resolveMemoryStore } from "./backend";
+import { createNeo4jMemoryStore } from "./graph";
+import type { Neo4jConfig } from "./neo4j";
+import type { MemoryScope, MemoryStore } from "./store";
 import { appendRollingSummary, normalizeForMemory } from "./text";
 
 export type MessageMemoryInput = {
+  /** Where to record (default: the store picked by `memory.backend: "auto"`) */
+  store?: MemoryStore;
+  /** Shortcut for a Neo4j store */
   cfg?: Neo4jConfig;
   text: string;
   sessionId?: string;
@@ -31,8 +35,8 @@ function clamp(n: number, min: number, max: number): number {
 }
 
 export async function recordMessageMemory(input: MessageMemoryInput): Promise<void> {
-  const cfg = input.cfg ?? loadNeo4jConfigFromEnv();
-  if (!cfg) {
+  const store = input.store ?? (input.cfg ? createNeo4jMemoryStore(input.cfg) : resolveMemoryStore());
+  if (!store) {
     return;
   }
 
@@ -53,8 +57,7 @@ export async function recordMessageMemory(input: MessageMemoryInput): Promise<vo
   const tags = ["message", role, `session:${session}`, `user:${userId}`];
   if (projectId) tags.push(`project:${projectId}`);
 
-  await upsertMemory({
-    cfg,
+  await store.upsert({
     scope: input.scope,
     projectId: input.scope === "project" ? input.projectId : undefined,
     key,
@@ -65,8 +68,7 @@ export async function recordMessageMemory(input: MessageMemoryInput): Promise<vo
   const projectKey = projectId ? `project:${projectId}` : undefined;
   const userKey = `user:${userId}`;
 
-  await upsertMemory({
-    cfg,
+  await store.upsert({
     scope: input.scope,
     projectId: input.scope === "project" ? projectId : undefined,
     key: userKey,
@@ -75,8 +77,7 @@ export async function recordMessageMemory(input: MessageMemoryInput): Promise<vo
   }).catch(() => {});
 
   // Also keep a lightweight global index of known users/projects for cross-project retrieval.
-  await upsertMemory({
-    cfg,
+  await store.upsert({
     scope: "global",
     key: userKey,
     value: `User ${userId}`,
@@ -84,8 +85,7 @@ export async function recordMessageMemory(input: MessageMemoryInput): Promise<vo
   }).catch(() => {});
 
   if (projectKey) {
-    await upsertMemory({
-      cfg,
+    await store.upsert({
       scope: input.scope === "project" ? "project" : "global",
       ...(input.scope === "project" ? { projectId } : {}),
       key: projectKey,
@@ -93,8 +93,7 @@ export async function recordMessageMemory(input: MessageMemoryInput): Promise<vo
       tags: ["project"],
     }).catch(() => {});
 
-    await upsertMemory({
-      cfg,
+    await store.upsert({
       scope: "global",
       key: projectKey,
       value: `Project ${projectId}`,
@@ -102,8 +101,7 @@ export async function recordMessageMemory(input: MessageMemoryInput): Promise<vo
     }).catch(() => {});
   }
 
-  await linkMemory({
-    cfg,
+  await store.link({
     scope: input.scope,
     projectId: input.scope === "project" ? projectId : undefined,
     fromKey: key,
@@ -112,8 +110,7 @@ export async function recordMessageMemory(input: MessageMemoryInput): Promise<vo
   }).catch(() => {});
 
   if (projectKey) {
-    await linkMemory({
-      cfg,
+    await store.link({
       scope: input.scope,
       projectId: input.scope === "project" ? projectId : undefined,
       fromKey: key,
@@ -131,10 +128,9 @@ export async function recordMessageMemory(input: MessageMemoryInput): Promise<vo
     const globalProjectSummaryKey = `summary:project:${projectId}`;
 
     if (input.scope === "project") {
-      const prev = await getMemoryByKey({ cfg, scope: "project", projectId, key: "summary:project" }).catch(() => undefined);
+      const prev = await store.get({ scope: "project", projectId, key: "summary:project" }).catch(() => undefined);
       const next = appendRollingSummary(prev?.value, entry, projectMaxChars);
-      await upsertMemory({
-        cfg,
+      await store.upsert({
         scope: "project",
         projectId,
         key: "summary:project",
@@ -144,10 +140,9 @@ export async function recordMessageMemory(input: MessageMemoryInput): Promise<vo
 
       const sessionMaxChars = clamp(input.summaries?.sessionMaxChars ?? 2000, 200, 20000);
       const sessionKey = `summary:session:${session}`;
-      const prevSession = await getMemoryByKey({ cfg, scope: "project", projectId, key: sessionKey }).catch(() => undefined);
+      const prevSession = await store.get({ scope: "project", projectId, key: sessionKey }).catch(() => undefined);
       const nextSession = appendRollingSummary(prevSession?.value, entry, sessionMaxChars);
-      await upsertMemory({
-        cfg,
+      await store.upsert({
         scope: "project",
         projectId,
         key: sessionKey,
@@ -157,10 +152,9 @@ export async function recordMessageMemory(input: MessageMemoryInput): Promise<vo
     }
 
     // Always update a global per-project summary for cross-project retrieval.
-    const prevGlobal = await getMemoryByKey({ cfg, scope: "global", key: globalProjectSummaryKey }).catch(() => undefined);
+    const prevGlobal = await store.get({ scope: "global", key: globalProjectSummaryKey }).catch(() => undefined);
     const nextGlobal = appendRollingSummary(prevGlobal?.value, entry, projectMaxChars);
-    await upsertMemory({
-      cfg,
+    await store.upsert({
       scope: "global",
       key: globalProjectSummaryKey,
       value: nextGlobal,
@@ -184,8 +178,7 @@ export async function recordMessageMemory(input: MessageMemoryInput): Promise<vo
       input.scope === "global"
         ? `message:${projectId ?? "unknown"}:${session}:`
         : `message:${session}:`;
-    await trimMemoryByKeyPrefix({
-      cfg,
+    await store.trim({
       scope: input.scope,
       projectId: input.scope === "project" ? projectId : undefined,
       keyPrefix: prefix,
@@ -195,8 +188,7 @@ export async function recordMessageMemory(input: MessageMemoryInput): Promise<vo
 
   if (projectLimit !== undefined && projectId) {
     const prefix = input.scope === "global" ? `message:${projectId}:` : "message:";
-    await trimMemoryByKeyPrefix({
-      cfg,
+    await store.trim({
       scope: input.scope,
       projectId: input.scope === "project" ? projectId : undefined,
       keyPrefix: prefix,
@@ -205,10 +197,10 @@ export async function recordMessageMemory(input: MessageMemoryInput): Promise<vo
   }
 
   if (input.scope === "global" && globalLimit !== undefined) {
-    await trimMemoryByKeyPrefix({ cfg, scope: "global", keyPrefix: "message:", keepLatest: globalLimit }).catch(() => {});
+    await store.trim({ scope: "global", keyPrefix: "message:", keepLatest: globalLimit }).catch(() => {});
   }
 
   if (input.scope === "global" && projectsLimit !== undefined) {
-    await trimGlobalMessageProjects({ cfg, keepProjects: projectsLimit }).catch(() => {});
+    await store.trimGlobalMessageProjects({ keepProjects: projectsLimit }).catch(() => {});
   }
 }
@@ -0,0 +1,76 @@
+import { join } from "node:path";
+import { getUserConfigDir } from "../helpers/format";
+import type { MemoryConfig } from "../types";
+import { resolveMemoryEmbedder, type MemoryEmbedder } from "./embeddings";
+import { createNeo4jMemoryStore } from "./graph";
+import { LocalMemoryStore } from "./local-store";
+import { loadNeo4jConfigFromEnv } from "./neo4j";
+import type { MemoryEmbedding, MemoryStore } from "./store";
+
+export const NEO4J_NOT_CONFIGURED =
+  "Neo4j is not configured. Set env vars: OPENCODE_NEO4J_URI, OPENCODE_NEO4J_USERNAME, OPENCODE_NEO4J_PASSWORD (and optional OPENCODE_NEO4J_DATABASE).";
+
+export function getDefaultMemoryStorePath(): string {
+  return join(getUserConfigDir(), "opencode", "orchestrator-memory.json");
+}
+
+const localStores = new Map<string, LocalMemoryStore>();
+
+/**
+ * Compute a vector for every write and for search queries. Embedding failures
+ * (e.g. an unreachable API) never block a write; the entry is stored without a vector.
+ */
+export function withMemoryEmbeddings(store: MemoryStore, embedder: MemoryEmbedder): MemoryStore {
+  const embed = async (text: string): Promise<Partial<MemoryEmbedding>> => {
+    const [embedding] = await embedder.embed([text]).catch(() => []);
+    return embedding && embedding.length > 0 ? { embedding, embeddingModel: embedder.id } : {};
+  };
+  return {
+    backend: store.backend,
+    upsert: async (input) =>
+      store.upsert(
+        // Imported entries keep their vector when it came from the same embedder.
+        input.embedding && input.embeddingModel === embedder.id
+          ? input
+          : { ...input, ...(await embed(`${input.key}\n${input.value}`)) }
+      ),
+    link: (input) => store.link(input),
+    get: (input) => store.get(input),
+    search: (input) => store.search(input),
+    searchRelevant: async (input) => store.searchRelevant({ ...input, ...(await embed(input.query)) }),
+    recent: (input) => store.recent(input),
+    dump: (input) => store.dump(input),
+    delete: (input) => store.delete(input),
+    trim: (input) => store.trim(input),
+    trimGlobalMessageProjects: (input) => store.trimGlobalMessageProjects(input),
+  };
+}
+
+/**
+ * Pick the memory store for `memory.backend`, with vectors when `memory.embeddings`
+ * is set. Returns undefined only when Neo4j is requested explicitly but not configured.
+ */
+export function resolveMemoryStore(
+  config?: Pick<MemoryConfig, "backend" | "path" | "embeddings">
+): MemoryStore | undefined {
+  const store = resolveBaseMemoryStore(config);
+  const embedder = store ? resolveMemoryEmbedder(config?.embeddings) : undefined;
+  return store && embedder ? withMemoryEmbeddings(store, embedder) : store;
+}
+
+function resolveBaseMemoryStore(config?: Pick<MemoryConfig, "backend" | "path">): MemoryStore | undefined {
+  const backend = config?.backend ?? "auto";
+  if (backend !== "local") {
+    const cfg = loadNeo4jConfigFromEnv();
+    if (cfg) return createNeo4jMemoryStore(cfg);
+    if (backend === "neo4j") return undefined;
+  }
+
+  const path = config?.path ?? getDefaultMemoryStorePath();
+  let store = localStores.get(path);
+  if (!store) {
+    store = new LocalMemoryStore(path);
+    localStores.set(path, store);
+  }
+  return store;
+}
@@ -0,0 +1,134 @@
+import { logger } from "../core/logger";
+import type { MemoryEmbeddingsConfig } from "../types";
+
+/** Turns memory text into vectors for similarity search. */
+export interface MemoryEmbedder {
+  /** Stored next to each vector; vectors from different embedders are never compared */
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type MemoryEmbedderFactory = (config: MemoryEmbeddingsConfig) => MemoryEmbedder;
+
+const DEFAULT_HASH_DIMENSIONS = 256;
+
+// Words too common to say anything about relevance.
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by can could did do does for from had has have how i if in is it its me my no not of on " +
+    "or our should so than that the their them then there these they this to us was we were what when where which who " +
+    "why will with would you your"
+  ).split(" ")
+);
+
+/** Lowercased words (letters/digits, 2+ chars) without stopwords. */
+export function tokenizeMemoryText(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.filter((word) => word.length >= 2 && !STOPWORDS.has(word));
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Offline, deterministic embedder: words and their character trigrams are hashed
+ * into a fixed-size signed vector, so related spellings ("migrate", "migration")
+ * land close together. Good enough for tests and for setups without an embedding API.
+ */
+export function createHashingEmbedder(dimensions = DEFAULT_HASH_DIMENSIONS): MemoryEmbedder {
+  const size = Math.max(16, Math.floor(dimensions));
+  const add = (vector: number[], feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    const index = hash % size;
+    vector[index] = (vector[index] ?? 0) + (hash & 0x80000000 ? -weight : weight);
+  };
+  return {
+    id: `hash-${size}`,
+    embed: async (texts) =>
+      texts.map((text) => {
+        const vector = new Array<number>(size).fill(0);
+        for (const word of tokenizeMemoryText(text)) {
+          add(vector, `w:${word}`, 1);
+          const padded = `#${word}#`;
+          for (let i = 0; i + 3 <= padded.length; i++) add(vector, `t:${padded.slice(i, i + 3)}`, 0.5);
+        }
+        const norm = Math.hypot(...vector);
+        // Four decimals keep stored vectors small without changing the ranking.
+        return norm === 0 ? vector : vector.map((value) => Math.round((value / norm) * 10_000) / 10_000);
+      }),
+  };
+}
+
+/** Embedder for any OpenAI-compatible `/embeddings` endpoint (OpenAI, Ollama, LM Studio, ...). */
+export function createOpenAIEmbedder(config: MemoryEmbeddingsConfig): MemoryEmbedder {
+  const model = config.model ?? "text-embedding-3-small";
+  const baseUrl = (config.baseUrl ?? "https://api.openai.com/v1").replace(/\/+$/, "");
+  const apiKey = process.env[config.apiKeyEnv ?? "OPENAI_API_KEY"];
+  return {
+    id: `openai:${model}${config.dimensions ? `:${config.dimensions}` : ""}`,
+    embed: async (texts) => {
+      const res = await fetch(`${baseUrl}/embeddings`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          ...(apiKey ? { authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          input: texts,
+          ...(config.dimensions ? { dimensions: config.dimensions } : {}),
+        }),
+      });
+      if (!res.ok) throw new Error(`Embedding request failed (${res.status}): ${await res.text()}`);
+      const body = (await res.json()) as { data?: Array<{ index?: number; embedding?: number[] }> };
+      const data = [...(body.data ?? [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+      if (data.length !== texts.length) throw new Error("Embedding response does not match the request.");
+      return data.map((item) => item.embedding ?? []);
+    },
+  };
+}
+
+const embedderFactories = new Map<string, MemoryEmbedderFactory>([
+  ["hash", (config) => createHashingEmbedder(config.dimensions)],
+  ["openai", createOpenAIEmbedder],
+]);
+
+/** Make a custom provider available as `memory.embeddings.provider`. */
+export function registerMemoryEmbedder(provider: string, factory: MemoryEmbedderFactory): void {
+  embedderFactories.set(provider, factory);
+}
+
+/** The embedder for `memory.embeddings`, or undefined when embeddings are off. */
+export function resolveMemoryEmbedder(config?: MemoryEmbeddingsConfig): MemoryEmbedder | undefined {
+  const provider = config?.provider ?? "none";
+  if (provider === "none") return undefined;
+  const factory = embedderFactories.get(provider);
+  if (!factory) {
+    logger.warn(`[memory] unknown embeddings provider "${provider}"; vector search is off`);
+    return undefined;
+  }
+  return factory(config ?? {});
+}
+
+/** Cosine similarity of two vectors; 0 when they cannot be compared. */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
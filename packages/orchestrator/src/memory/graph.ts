@@ -1,24 +1,20 @@
 import type { RecordShape } from "neo4j-driver";
 import type { Neo4jConfig } from "./neo4j";
 import { withNeo4jSession } from "./neo4j";
+import { tokenizeMemoryText } from "./embeddings";
+import { rankMemory, type RankableMemory } from "./ranking";
+import {
+  clampMemoryLimit,
+  requireProjectId,
+  type MemoryEmbedding,
+  type MemoryLink,
+  type MemoryMatch,
+  type MemoryNode,
+  type MemoryScope,
+  type MemoryStore,
+} from "./store";
 
-export type MemoryScope = "global" | "project";
-
-export type MemoryNode = {
-  scope: MemoryScope;
-  projectId?: string;
-  key: string;
-  value: string;
-  tags: string[];
-  createdAt?: number;
-  updatedAt?: number;
-};
-
-function requireProjectId(scope: MemoryScope, projectId: string | undefined): string | undefined {
-  if (scope !== "project") return undefined;
-  if (!projectId) throw new Error("projectId is required for project scope");
-  return projectId;
-}
+export type { MemoryNode, MemoryScope };
 
 function normalizeTags(tags: unknown): string[] {
   if (!Array.isArray(tags)) return [];
@@ -39,6 +35,17 @@ function toNode(record: RecordShape): MemoryNode {
   };
 }
 
+/** Like toNode, plus the stored vector (only used for ranking). */
+function toRankable(record: RecordShape): RankableMemory {
+  const p = (record as any).get("n")?.properties ?? {};
+  const node: RankableMemory = toNode(record);
+  if (Array.isArray(p.embedding) && typeof p.embeddingModel === "string") {
+    node.embedding = p.embedding.map(Number);
+    node.embeddingModel = p.embeddingModel;
+  }
+  return node;
+}
+
 export async function upsertMemory(input: {
   cfg: Neo4jConfig;
   scope: MemoryScope;
@@ -46,7 +53,9 @@ export async function upsertMemory(input: {
   key: string;
   value: string;
   tags?: string[];
-}): Promise<MemoryNode> {
+  createdAt?: number;
+  updatedAt?: number;
+} & Partial<MemoryEmbedding>): Promise<MemoryNode> {
   const scope = input.scope;
   const projectId = requireProjectId(scope, input.projectId);
 
@@ -57,10 +66,12 @@ export async function upsertMemory(input: {
     const res = await session.run(
       `
 MERGE (n:Memory ${mergePattern})
-ON CREATE SET n.createdAt = timestamp()
+ON CREATE SET n.createdAt = coalesce($createdAt, timestamp())
 SET n.value = $value,
     n.tags = $tags,
-    n.updatedAt = timestamp()
+    n.embedding = $embedding,
+    n.embeddingModel = $embeddingModel,
+    n.updatedAt = coalesce($updatedAt, timestamp())
 RETURN n
       `.trim(),
       {
@@ -69,6 +80,10 @@ RETURN n
         key: input.key,
         value: input.value,
         tags: input.tags ?? [],
+        embedding: input.embedding && input.embeddingModel ? input.embedding : null,
+        embeddingModel: input.embedding && input.embeddingModel ? input.embeddingModel : null,
+        createdAt: input.createdAt ?? null,
+        updatedAt: input.updatedAt ?? null,
       }
     );
     const rec = res.records?.[0];
@@ -151,7 +166,7 @@ export async function searchMemory(input: {
 }): Promise<MemoryNode[]> {
   const scope = input.scope;
   const projectId = requireProjectId(scope, input.projectId);
-  const limit = Math.floor(Math.max(1, Math.min(50, input.limit ?? 10)));
+  const limit = clampMemoryLimit(input.limit);
 
   return await withNeo4jSession(input.cfg, async (session) => {
     const matchPattern = scope === "project"
@@ -178,6 +193,65 @@ LIMIT toInteger($limit)
   });
 }
 
+/**
+ * Hybrid search: candidates are entries matching any query word plus the most
+ * recent entries of the scope; they are ranked in process (see rankMemory).
+ */
+export async function searchMemoryRelevant(input: {
+  cfg: Neo4jConfig;
+  scope: MemoryScope;
+  projectId?: string;
+  query: string;
+  limit?: number;
+} & Partial<MemoryEmbedding>): Promise<MemoryMatch[]> {
+  const scope = input.scope;
+  const projectId = requireProjectId(scope, input.projectId);
+  const terms = [...new Set(tokenizeMemoryText(input.query))];
+
+  const candidates = await withNeo4jSession(input.cfg, async (session) => {
+    const matchPattern = scope === "project"
+      ? `{ scope: $scope, projectId: $projectId }`
+      : `{ scope: $scope }`;
+    const params = { scope, ...(scope === "project" ? { projectId } : {}), terms };
+    const byKeyword = terms.length > 0
+      ? await session.run(
+          `
+MATCH (n:Memory ${matchPattern})
+WHERE any(t IN $terms WHERE toLower(n.key) CONTAINS t
+   OR toLower(n.value) CONTAINS t
+   OR any(tag IN coalesce(n.tags, []) WHERE toLower(tag) CONTAINS t))
+RETURN n
+ORDER BY n.updatedAt DESC
+LIMIT 200
+          `.trim(),
+          params
+        )
+      : undefined;
+    const byRecency = await session.run(
+      `
+MATCH (n:Memory ${matchPattern})
+RETURN n
+ORDER BY n.updatedAt DESC
+LIMIT 500
+      `.trim(),
+      params
+    );
+    const nodes = new Map<string, RankableMemory>();
+    for (const record of [...(byKeyword?.records ?? []), ...byRecency.records]) {
+      const node = toRankable(record as any);
+      nodes.set(node.key, node);
+    }
+    return [...nodes.values()];
+  });
+
+  return rankMemory(candidates, {
+    query: input.query,
+    embedding: input.embedding,
+    embeddingModel: input.embeddingModel,
+    limit: clampMemoryLimit(input.limit),
+  });
+}
+
 export async function recentMemory(input: {
   cfg: Neo4jConfig;
   scope: MemoryScope;
@@ -186,7 +260,7 @@ export async function recentMemory(input: {
 }): Promise<MemoryNode[]> {
   const scope = input.scope;
   const projectId = requireProjectId(scope, input.projectId);
-  const limit = Math.floor(Math.max(1, Math.min(50, input.limit ?? 10)));
+  const limit = clampMemoryLimit(input.limit);
 
   return await withNeo4jSession(input.cfg, async (session) => {
     const matchPattern = scope === "project"
@@ -209,6 +283,77 @@ LIMIT toInteger($limit)
   });
 }
 
+export async function dumpMemory(input: {
+  cfg: Neo4jConfig;
+  scope: MemoryScope;
+  projectId?: string;
+}): Promise<{ nodes: RankableMemory[]; links: MemoryLink[] }> {
+  const scope = input.scope;
+  const projectId = requireProjectId(scope, input.projectId);
+
+  return await withNeo4jSession(input.cfg, async (session) => {
+    const matchPattern = scope === "project"
+      ? `{ scope: $scope, projectId: $projectId }`
+      : `{ scope: $scope }`;
+    const params = { scope, ...(scope === "project" ? { projectId } : {}) };
+    const nodes = await session.run(
+      `
+MATCH (n:Memory ${matchPattern})
+RETURN n
+ORDER BY n.updatedAt DESC
+      `.trim(),
+      params
+    );
+    const links = await session.run(
+      `
+MATCH (a:Memory ${matchPattern})-[r:RELATES_TO]->(b:Memory ${matchPattern})
+RETURN a.key AS fromKey, b.key AS toKey, r.type AS type, r.updatedAt AS updatedAt
+      `.trim(),
+      params
+    );
+    return {
+      nodes: nodes.records.map((r) => toRankable(r as any)),
+      links: links.records.map((r: any) => ({
+        scope,
+        ...(projectId ? { projectId } : {}),
+        fromKey: String(r.get("fromKey")),
+        toKey: String(r.get("toKey")),
+        type: String(r.get("type") ?? "relates_to"),
+        ...(typeof r.get("updatedAt") === "number" ? { updatedAt: r.get("updatedAt") as number } : {}),
+      })),
+    };
+  });
+}
+
+export async function deleteMemory(input: {
+  cfg: Neo4jConfig;
+  scope: MemoryScope;
+  projectId?: string;
+  keys: string[];
+}): Promise<{ deleted: number }> {
+  const scope = input.scope;
+  const projectId = requireProjectId(scope, input.projectId);
+
+  const deleted = await withNeo4jSession(input.cfg, async (session) => {
+    const matchPattern = scope === "project"
+      ? `{ scope: $scope, projectId: $projectId }`
+      : `{ scope: $scope }`;
+    const res = await session.run(
+      `
+MATCH (n:Memory ${matchPattern})
+WHERE n.key IN $keys
+WITH collect(n) AS nodes
+FOREACH (x IN nodes | DETACH DELETE x)
+RETURN size(nodes) AS deleted
+      `.trim(),
+      { scope, ...(scope === "project" ? { projectId } : {}), keys: input.keys }
+    );
+    const rec = res.records?.[0] as any;
+    return rec ? (rec.get("deleted") as number) : 0;
+  });
+  return { deleted };
+}
+
 export async function trimMemoryByKeyPrefix(input: {
   cfg: Neo4jConfig;
   scope: MemoryScope;
@@ -312,3 +457,20 @@ RETURN size(toDrop) AS projectsDropped, size(toDelete) AS messagesDeleted
     };
   });
 }
+
+/** Memory store backed by the Neo4j graph (`memory.backend: "neo4j"`). */
+export function createNeo4jMemoryStore(cfg: Neo4jConfig): MemoryStore {
+  return {
+    backend: "neo4j",
+    upsert: (input) => upsertMemory({ ...input, cfg }),
+    link: (input) => linkMemory({ ...input, cfg }),
+    get: (input) => getMemoryByKey({ ...input, cfg }),
+    search: (input) => searchMemory({ ...input, cfg }),
+    searchRelevant: (input) => searchMemoryRelevant({ ...input, cfg }),
+    recent: (input) => recentMemory({ ...input, cfg }),
+    dump: (input) => dumpMemory({ ...input, cfg }),
+    delete: (input) => deleteMemory({ ...input, cfg }),
+    trim: (input) => trimMemoryByKeyPrefix({ ...input, cfg }),
+    trimGlobalMessageProjects: (input) => trimGlobalMessageProjects({ ...input, cfg }),
+  };
+}
@@ -1,5 +1,7 @@
-import { getMemoryByKey, recentMemory, type MemoryNode, type MemoryScope } from "./graph";
-import { loadNeo4jConfigFromEnv, type Neo4jConfig } from "./neo4j";
+import { resolveMemoryStore } from "./backend";
+import { createNeo4jMemoryStore } from "./graph";
+import type { Neo4jConfig } from "./neo4j";
+import type { MemoryNode, MemoryScope, MemoryStore } from "./store";
 import { shortenWithMarker } from "./text";
 
 function clamp(n: number, min: number, max: number): number {
@@ -30,10 +32,13 @@ function renderEntry(node: MemoryNode): string {
 
 export async function buildMemoryInjection(input: {
   enabled: boolean;
+  store?: MemoryStore;
   cfg?: Neo4jConfig;
   scope: MemoryScope;
   projectId?: string;
   sessionId?: string;
+  /** Current user message; notes relevant to it are picked before the most recent ones */
+  query?: string;
   inject?: {
     maxChars?: number;
     maxEntries?: number;
@@ -45,8 +50,8 @@ export async function buildMemoryInjection(input: {
   };
 }): Promise<string | undefined> {
   if (!input.enabled) return undefined;
-  const cfg = input.cfg ?? loadNeo4jConfigFromEnv();
-  if (!cfg) return undefined;
+  const store = input.store ?? (input.cfg ? createNeo4jMemoryStore(input.cfg) : resolveMemoryStore());
+  if (!store) return undefined;
 
   const maxChars = clamp(input.inject?.maxChars ?? 2000, 200, 20000);
   const maxEntries = clamp(input.inject?.maxEntries ?? 8, 0, 50);
@@ -71,7 +76,7 @@ export async function buildMemoryInjection(input: {
   const sessionSummaryKey = sessionId ? `summary:session:${sessionId}` : undefined;
 
   if (includeProjectSummary && projectSummaryKey) {
-    const node = await getMemoryByKey({ cfg, scope, projectId: scope === "project" ? projectId : undefined, key: projectSummaryKey }).catch(() => undefined);
+    const node = await store.get({ scope, projectId: scope === "project" ? projectId : undefined, key: projectSummaryKey }).catch(() => undefined);
     if (node?.value?.trim()) {
       lines.push("### Project");
       lines.push(shorten(node.value.trim(), clamp(Math.floor(maxChars * 0.5), 200, 6000)));
@@ -80,7 +85,7 @@ export async function buildMemoryInjection(input: {
   }
 
   if (includeSessionSummary && scope === "project" && projectId && sessionSummaryKey) {
-    const node = await getMemoryByKey({ cfg, scope: "project", projectId, key: sessionSummaryKey }).catch(() => undefined);
+    const node = await store.get({ scope: "project", projectId, key: sessionSummaryKey }).catch(() => undefined);
     if (node?.value?.trim()) {
       lines.push("### Session");
       lines.push(shorten(node.value.trim(), clamp(Math.floor(maxChars * 0.35), 200, 4000)));
@@ -88,8 +93,14 @@ export async function buildMemoryInjection(input: {
     }
   }
 
+  const query = input.query?.trim();
   const gather = async (scopeToRead: MemoryScope, projectIdToRead: string | undefined, limit: number): Promise<MemoryNode[]> => {
-    const nodes = await recentMemory({ cfg, scope: scopeToRead, projectId: projectIdToRead, limit }).catch(() => []);
+    const relevant = query
+      ? await store.searchRelevant({ scope: scopeToRead, projectId: projectIdToRead, query, limit }).catch(() => [])
+      : [];
+    const recent = await store.recent({ scope: scopeToRead, projectId: projectIdToRead, limit }).catch(() => []);
+    const seen = new Set(relevant.map((n) => n.key));
+    const nodes = [...relevant, ...recent.filter((n) => !seen.has(n.key))];
     const filtered = nodes.filter((n) => {
       if (!includeMessages && isMessageLike(n)) return false;
       if (isAutoScaffold(n)) return false;
@@ -0,0 +1,302 @@
+import { mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { rankMemory, type RankableMemory } from "./ranking";
+import {
+  clampMemoryLimit,
+  requireProjectId,
+  type MemoryEmbedding,
+  type MemoryLink,
+  type MemoryMatch,
+  type MemoryNode,
+  type MemoryScope,
+  type MemoryStore,
+} from "./store";
+
+type LocalMemoryFile = {
+  version: 1;
+  nodes: RankableMemory[];
+  links: MemoryLink[];
+};
+
+function entryId(scope: MemoryScope, projectId: string | undefined, key: string): string {
+  return scope === "project" ? `project\u0000${projectId ?? ""}\u0000${key}` : `global\u0000${key}`;
+}
+
+function inScope(entry: { scope: MemoryScope; projectId?: string }, scope: MemoryScope, projectId?: string): boolean {
+  return entry.scope === scope && (scope !== "project" || entry.projectId === projectId);
+}
+
+function byNewest(a: MemoryNode, b: MemoryNode): number {
+  return (b.updatedAt ?? 0) - (a.updatedAt ?? 0);
+}
+
+/** Public copy of a stored entry (without its vector). */
+function copyNode(node: RankableMemory): MemoryNode {
+  const { embedding: _embedding, embeddingModel: _embeddingModel, ...rest } = node;
+  return { ...rest, tags: [...node.tags] };
+}
+
+/**
+ * Zero-dependency memory store (`memory.backend: "local"`): every entry and link
+ * lives in one JSON file that is rewritten atomically after each change. The file
+ * is re-read when another process changed it, so parallel sessions share memory.
+ */
+export class LocalMemoryStore implements MemoryStore {
+  readonly backend = "local" as const;
+  private nodes = new Map<string, RankableMemory>();
+  private links: MemoryLink[] = [];
+  private loadedMtimeMs: number | undefined;
+  private lastStamp = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly path: string) {}
+
+  async upsert(input: {
+    scope: MemoryScope;
+    projectId?: string;
+    key: string;
+    value: string;
+    tags?: string[];
+    createdAt?: number;
+    updatedAt?: number;
+  } & Partial<MemoryEmbedding>): Promise<MemoryNode> {
+    const projectId = requireProjectId(input.scope, input.projectId);
+    return this.exclusive(async () => {
+      await this.load();
+      const id = entryId(input.scope, projectId, input.key);
+      const now = input.updatedAt ?? this.stamp();
+      const node: RankableMemory = {
+        scope: input.scope,
+        ...(projectId ? { projectId } : {}),
+        key: input.key,
+        value: input.value,
+        tags: [...(input.tags ?? [])],
+        createdAt: this.nodes.get(id)?.createdAt ?? input.createdAt ?? now,
+        updatedAt: now,
+        ...(input.embedding && input.embeddingModel
+          ? { embedding: input.embedding, embeddingModel: input.embeddingModel }
+          : {}),
+      };
+      this.nodes.set(id, node);
+      await this.save();
+      return copyNode(node);
+    });
+  }
+
+  async link(input: {
+    scope: MemoryScope;
+    projectId?: string;
+    fromKey: string;
+    toKey: string;
+    type?: string;
+  }): Promise<{ ok: true }> {
+    const projectId = requireProjectId(input.scope, input.projectId);
+    const type = input.type ?? "relates_to";
+    return this.exclusive(async () => {
+      await this.load();
+      const from = this.nodes.has(entryId(input.scope, projectId, input.fromKey));
+      const to = this.nodes.has(entryId(input.scope, projectId, input.toKey));
+      if (!from || !to) return { ok: true };
+
+      const existing = this.links.find(
+        (link) =>
+          inScope(link, input.scope, projectId) &&
+          link.fromKey === input.fromKey &&
+          link.toKey === input.toKey &&
+          link.type === type
+      );
+      if (existing) existing.updatedAt = this.stamp();
+      else {
+        this.links.push({
+          scope: input.scope,
+          ...(projectId ? { projectId } : {}),
+          fromKey: input.fromKey,
+          toKey: input.toKey,
+          type,
+          updatedAt: this.stamp(),
+        });
+      }
+      await this.save();
+      return { ok: true };
+    });
+  }
+
+  async get(input: { scope: MemoryScope; projectId?: string; key: string }): Promise<MemoryNode | undefined> {
+    const projectId = requireProjectId(input.scope, input.projectId);
+    return this.exclusive(async () => {
+      await this.load();
+      const node = this.nodes.get(entryId(input.scope, projectId, input.key));
+      return node ? copyNode(node) : undefined;
+    });
+  }
+
+  async search(input: { scope: MemoryScope; projectId?: string; query: string; limit?: number }): Promise<MemoryNode[]> {
+    const projectId = requireProjectId(input.scope, input.projectId);
+    const q = input.query.toLowerCase();
+    const matches = (node: MemoryNode) =>
+      node.key.toLowerCase().includes(q) ||
+      node.value.toLowerCase().includes(q) ||
+      node.tags.some((tag) => tag.toLowerCase().includes(q));
+    return this.exclusive(async () => {
+      await this.load();
+      return this.select(input.scope, projectId, matches).slice(0, clampMemoryLimit(input.limit)).map(copyNode);
+    });
+  }
+
+  async searchRelevant(
+    input: { scope: MemoryScope; projectId?: string; query: string; limit?: number } & Partial<MemoryEmbedding>
+  ): Promise<MemoryMatch[]> {
+    const projectId = requireProjectId(input.scope, input.projectId);
+    return this.exclusive(async () => {
+      await this.load();
+      return rankMemory(this.select(input.scope, projectId, () => true), {
+        query: input.query,
+        embedding: input.embedding,
+        embeddingModel: input.embeddingModel,
+        limit: clampMemoryLimit(input.limit),
+      });
+    });
+  }
+
+  async recent(input: { scope: MemoryScope; projectId?: string; limit?: number }): Promise<MemoryNode[]> {
+    const projectId = requireProjectId(input.scope, input.projectId);
+    return this.exclusive(async () => {
+      await this.load();
+      return this.select(input.scope, projectId, () => true)
+        .slice(0, clampMemoryLimit(input.limit))
+        .map(copyNode);
+    });
+  }
+
+  async dump(input: {
+    scope: MemoryScope;
+    projectId?: string;
+  }): Promise<{ nodes: RankableMemory[]; links: MemoryLink[] }> {
+    const projectId = requireProjectId(input.scope, input.projectId);
+    return this.exclusive(async () => {
+      await this.load();
+      return {
+        nodes: this.select(input.scope, projectId, () => true).map((node) => ({ ...node, tags: [...node.tags] })),
+        links: this.links.filter((link) => inScope(link, input.scope, projectId)).map((link) => ({ ...link })),
+      };
+    });
+  }
+
+  async delete(input: { scope: MemoryScope; projectId?: string; keys: string[] }): Promise<{ deleted: number }> {
+    const projectId = requireProjectId(input.scope, input.projectId);
+    const keys = new Set(input.keys);
+    return this.exclusive(async () => {
+      await this.load();
+      const doomed = this.select(input.scope, projectId, (node) => keys.has(node.key));
+      if (doomed.length === 0) return { deleted: 0 };
+      this.remove(doomed);
+      await this.save();
+      return { deleted: doomed.length };
+    });
+  }
+
+  async trim(input: {
+    scope: MemoryScope;
+    projectId?: string;
+    keyPrefix: string;
+    keepLatest: number;
+  }): Promise<{ deleted: number }> {
+    const projectId = requireProjectId(input.scope, input.projectId);
+    const keepLatest = Math.max(0, Math.floor(input.keepLatest));
+    return this.exclusive(async () => {
+      await this.load();
+      const doomed = this.select(input.scope, projectId, (node) => node.key.startsWith(input.keyPrefix)).slice(
+        keepLatest
+      );
+      if (doomed.length === 0) return { deleted: 0 };
+      this.remove(doomed);
+      await this.save();
+      return { deleted: doomed.length };
+    });
+  }
+
+  async trimGlobalMessageProjects(input: {
+    keepProjects: number;
+  }): Promise<{ projectsDropped: number; messagesDeleted: number }> {
+    const keepProjects = Math.max(0, Math.floor(input.keepProjects));
+    if (keepProjects <= 0) {
+      const { deleted } = await this.trim({ scope: "global", keyPrefix: "message:", keepLatest: 0 });
+      return { projectsDropped: 0, messagesDeleted: deleted };
+    }
+
+    return this.exclusive(async () => {
+      await this.load();
+      const messages = this.select("global", undefined, (node) => node.key.startsWith("message:"));
+      // Newest first, so the first time a project shows up is its latest activity.
+      const projects = [...new Set(messages.map((node) => node.key.split(":")[1] ?? ""))];
+      const toDrop = new Set(projects.slice(keepProjects));
+      const doomed = messages.filter((node) => toDrop.has(node.key.split(":")[1] ?? ""));
+      if (doomed.length > 0) {
+        this.remove(doomed);
+        await this.save();
+      }
+      return { projectsDropped: toDrop.size, messagesDeleted: doomed.length };
+    });
+  }
+
+  private select(scope: MemoryScope, projectId: string | undefined, filter: (node: RankableMemory) => boolean) {
+    return [...this.nodes.values()].filter((node) => inScope(node, scope, projectId) && filter(node)).sort(byNewest);
+  }
+
+  /** Delete entries together with their links. */
+  private remove(nodes: MemoryNode[]) {
+    const ids = new Set(nodes.map((node) => entryId(node.scope, node.projectId, node.key)));
+    for (const id of ids) this.nodes.delete(id);
+    this.links = this.links.filter(
+      (link) =>
+        !ids.has(entryId(link.scope, link.projectId, link.fromKey)) &&
+        !ids.has(entryId(link.scope, link.projectId, link.toKey))
+    );
+  }
+
+  /** Timestamps never repeat so "newest first" is stable for entries written in the same millisecond. */
+  private stamp(): number {
+    this.lastStamp = Math.max(Date.now(), this.lastStamp + 1);
+    return this.lastStamp;
+  }
+
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(fn);
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  private async load(): Promise<void> {
+    const mtimeMs = await stat(this.path).then(
+      (info) => info.mtimeMs,
+      () => undefined
+    );
+    if (mtimeMs === undefined || mtimeMs === this.loadedMtimeMs) return;
+
+    const raw = await readFile(this.path, "utf8");
+    let parsed: Partial<LocalMemoryFile>;
+    try {
+      parsed = JSON.parse(raw) as Partial<LocalMemoryFile>;
+    } catch (err) {
+      throw new Error(`Memory store ${this.path} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    this.nodes = new Map();
+    for (const node of Array.isArray(parsed.nodes) ? parsed.nodes : []) {
+      if (!node || typeof node.key !== "string" || (node.scope !== "global" && node.scope !== "project")) continue;
+      const tags = Array.isArray(node.tags) ? node.tags.filter((tag) => typeof tag === "string") : [];
+      this.nodes.set(entryId(node.scope, node.projectId, node.key), { ...node, value: String(node.value ?? ""), tags });
+      this.lastStamp = Math.max(this.lastStamp, node.updatedAt ?? 0);
+    }
+    this.links = Array.isArray(parsed.links) ? parsed.links : [];
+    this.loadedMtimeMs = mtimeMs;
+  }
+
+  private async save(): Promise<void> {
+    const body: LocalMemoryFile = { version: 1, nodes: [...this.nodes.values()], links: this.links };
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    await writeFile(tmp, `${JSON.stringify(body)}\n`, "utf8");
+    await rename(tmp, this.path);
+    this.loadedMtimeMs = (await stat(this.path)).mtimeMs;
+  }
+}
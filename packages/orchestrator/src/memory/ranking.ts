@@ -0,0 +1,49 @@
+import { cosineSimilarity, tokenizeMemoryText } from "./embeddings";
+import type { MemoryEmbedding, MemoryMatch, MemoryNode } from "./store";
+
+const WEIGHTS = { keyword: 0.45, vector: 0.45, recency: 0.1 };
+const RECENCY_HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000;
+/** Entries below this similarity only count as relevant when a keyword matches. */
+const MIN_VECTOR_SIMILARITY = 0.2;
+
+export type RankableMemory = MemoryNode & Partial<MemoryEmbedding>;
+
+function keywordScore(node: MemoryNode, query: string, terms: string[]): number {
+  const haystack = `${node.key}\n${node.value}\n${node.tags.join(" ")}`.toLowerCase();
+  const phrase = query.trim().toLowerCase();
+  if (phrase && haystack.includes(phrase)) return 1;
+  if (terms.length === 0) return 0;
+  return terms.filter((term) => haystack.includes(term)).length / terms.length;
+}
+
+/**
+ * Rank candidate entries for `query`. Keyword overlap and vector similarity carry
+ * most of the weight; recency (7-day half-life) breaks ties between similar entries.
+ * Entries with neither a keyword hit nor a close vector are left out.
+ */
+export function rankMemory(
+  candidates: RankableMemory[],
+  input: { query: string; limit: number; now?: number } & Partial<MemoryEmbedding>
+): MemoryMatch[] {
+  const now = input.now ?? Date.now();
+  const terms = [...new Set(tokenizeMemoryText(input.query))];
+  const matches: MemoryMatch[] = [];
+  for (const candidate of candidates) {
+    const { embedding, embeddingModel, ...node } = candidate;
+    const keyword = keywordScore(node, input.query, terms);
+    const vector =
+      input.embedding && embedding && embeddingModel === input.embeddingModel
+        ? Math.max(0, cosineSimilarity(input.embedding, embedding))
+        : undefined;
+    if (keyword === 0 && (vector ?? 0) < MIN_VECTOR_SIMILARITY) continue;
+
+    const recency = 0.5 ** (Math.max(0, now - (node.updatedAt ?? 0)) / RECENCY_HALF_LIFE_MS);
+    const score = WEIGHTS.keyword * keyword + WEIGHTS.vector * (vector ?? 0) + WEIGHTS.recency * recency;
+    matches.push({
+      ...node,
+      score: Math.round(score * 1000) / 1000,
+      scores: { keyword, recency, ...(vector !== undefined ? { vector } : {}) },
+    });
+  }
+  return matches.sort((a, b) => b.score - a.score || (b.updatedAt ?? 0) - (a.updatedAt ?? 0)).slice(0, input.limit);
+}
@@ -0,0 +1,83 @@
+export type MemoryScope = "global" | "project";
+
+export type MemoryNode = {
+  scope: MemoryScope;
+  projectId?: string;
+  key: string;
+  value: string;
+  tags: string[];
+  createdAt?: number;
+  updatedAt?: number;
+};
+
+/** Vector stored with an entry, tagged with the embedder that produced it. */
+export type MemoryEmbedding = {
+  embedding: number[];
+  embeddingModel: string;
+};
+
+/** Relationship between two entries of the same scope. */
+export type MemoryLink = {
+  scope: MemoryScope;
+  projectId?: string;
+  fromKey: string;
+  toKey: string;
+  type: string;
+  updatedAt?: number;
+};
+
+/** An entry ranked by `searchRelevant`; `score` is the weighted sum of the parts in `scores` (0-1). */
+export type MemoryMatch = MemoryNode & {
+  score: number;
+  scores: { keyword: number; recency: number; vector?: number };
+};
+
+type ScopeInput = { scope: MemoryScope; projectId?: string };
+
+/** Storage used by memory recording, injection and the `memory.*` task ops. */
+export interface MemoryStore {
+  readonly backend: "neo4j" | "local";
+  /**
+   * Writing without `embedding` drops a previously stored vector. `createdAt`/`updatedAt`
+   * keep the timestamps of imported entries (createdAt only applies to new entries).
+   */
+  upsert(
+    input: ScopeInput & {
+      key: string;
+      value: string;
+      tags?: string[];
+      createdAt?: number;
+      updatedAt?: number;
+    } & Partial<MemoryEmbedding>
+  ): Promise<MemoryNode>;
+  /** Relate two existing entries; missing entries are ignored. */
+  link(input: ScopeInput & { fromKey: string; toKey: string; type?: string }): Promise<{ ok: true }>;
+  get(input: ScopeInput & { key: string }): Promise<MemoryNode | undefined>;
+  /** Case-insensitive match on key, value or tags, newest first. */
+  search(input: ScopeInput & { query: string; limit?: number }): Promise<MemoryNode[]>;
+  /** Hybrid ranking of keyword, recency and (with `embedding`) vector similarity, best first. */
+  searchRelevant(
+    input: ScopeInput & { query: string; limit?: number } & Partial<MemoryEmbedding>
+  ): Promise<MemoryMatch[]>;
+  recent(input: ScopeInput & { limit?: number }): Promise<MemoryNode[]>;
+  /** Every entry (with its vector) and link of a scope. */
+  dump(input: ScopeInput): Promise<{ nodes: Array<MemoryNode & Partial<MemoryEmbedding>>; links: MemoryLink[] }>;
+  /** Delete entries and their links. */
+  delete(input: ScopeInput & { keys: string[] }): Promise<{ deleted: number }>;
+  /** Delete entries whose key starts with `keyPrefix`, keeping the `keepLatest` newest. */
+  trim(input: ScopeInput & { keyPrefix: string; keepLatest: number }): Promise<{ deleted: number }>;
+  /** Drop global `message:<projectId>:*` entries of all but the `keepProjects` most recently active projects. */
+  trimGlobalMessageProjects(input: {
+    keepProjects: number;
+  }): Promise<{ projectsDropped: number; messagesDeleted: number }>;
+}
+
+export function requireProjectId(scope: MemoryScope, projectId: string | undefined): string | undefined {
+  if (scope !== "project") return undefined;
+  if (!projectId) throw new Error("projectId is required for project scope");
+  return projectId;
+}
+
+export function clampMemoryLimit(limit: number | undefined): number {
+  return Math.floor(Math.max(1, Math.min(50, limit ?? 10)));
+}
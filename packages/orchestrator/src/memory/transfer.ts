@@ -0,0 +1,258 @@
+import type { MemoryEmbedding, MemoryLink, MemoryNode, MemoryScope, MemoryStore } from "./store";
+
+/** What to do when an imported entry's key already exists in the target scope. */
+export type MemoryConflictPolicy = "skip" | "overwrite" | "merge-tags";
+
+export const MEMORY_EXPORT_VERSION = 1;
+
+type ExportedNode = MemoryNode & Partial<MemoryEmbedding>;
+
+export type MemoryExport = {
+  nodes: ExportedNode[];
+  links: MemoryLink[];
+};
+
+export type MemoryTransferResult = {
+  created: number;
+  overwritten: number;
+  merged: number;
+  skipped: number;
+  links: number;
+  /** Source entries removed after a re-key */
+  deleted?: number;
+};
+
+/** Entries and links of the given scopes (project scope needs `projectId`). */
+export async function exportMemory(
+  store: MemoryStore,
+  input: { projectId?: string; scopes: MemoryScope[] }
+): Promise<MemoryExport> {
+  const out: MemoryExport = { nodes: [], links: [] };
+  for (const scope of input.scopes) {
+    const dump = await store.dump({ scope, projectId: scope === "project" ? input.projectId : undefined });
+    out.nodes.push(...dump.nodes);
+    out.links.push(...dump.links);
+  }
+  return out;
+}
+
+/**
+ * Portable JSONL: a header line, then one `{"type":"node",...}` line per entry
+ * and one `{"type":"link",...,"relation":...}` line per link.
+ */
+export function serializeMemoryExport(data: MemoryExport, meta?: { projectId?: string }): string {
+  const lines = [
+    JSON.stringify({
+      type: "header",
+      version: MEMORY_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      ...(meta?.projectId ? { projectId: meta.projectId } : {}),
+    }),
+    ...data.nodes.map((node) => JSON.stringify({ type: "node", ...node })),
+    ...data.links.map(({ type: relation, ...link }) => JSON.stringify({ type: "link", ...link, relation })),
+  ];
+  return `${lines.join("\n")}\n`;
+}
+
+export function parseMemoryExport(text: string): MemoryExport {
+  const out: MemoryExport = { nodes: [], links: [] };
+  const lines = text.split("\n");
+  for (const [index, line] of lines.entries()) {
+    if (!line.trim()) continue;
+    let record: Record<string, unknown>;
+    try {
+      record = JSON.parse(line) as Record<string, unknown>;
+    } catch {
+      throw new Error(`Invalid memory export: line ${index + 1} is not JSON.`);
+    }
+    const { type, ...rest } = record;
+    const scope = rest.scope;
+    if (type === "header") {
+      if (typeof rest.version === "number" && rest.version > MEMORY_EXPORT_VERSION) {
+        throw new Error(`Memory export version ${rest.version} is newer than this orchestrator supports.`);
+      }
+      continue;
+    }
+    if (scope !== "project" && scope !== "global") {
+      throw new Error(`Invalid memory export: line ${index + 1} has no valid scope.`);
+    }
+    if (type === "node" && typeof rest.key === "string" && typeof rest.value === "string") {
+      const tags = Array.isArray(rest.tags) ? rest.tags.filter((tag): tag is string => typeof tag === "string") : [];
+      out.nodes.push({ ...(rest as ExportedNode), tags });
+    } else if (type === "link" && typeof rest.fromKey === "string" && typeof rest.toKey === "string") {
+      const { relation, ...link } = rest;
+      out.links.push({ ...(link as MemoryLink), type: typeof relation === "string" ? relation : "relates_to" });
+    } else {
+      throw new Error(`Invalid memory export: line ${index + 1} is not a node or link.`);
+    }
+  }
+  return out;
+}
+
+function emptyResult(): MemoryTransferResult {
+  return { created: 0, overwritten: 0, merged: 0, skipped: 0, links: 0 };
+}
+
+/**
+ * Write entries and links into the store. `target` maps each source entry to its
+ * destination scope/project (and optionally a new key); links follow their entries.
+ */
+async function writeEntries(
+  store: MemoryStore,
+  data: MemoryExport,
+  options: {
+    onConflict: MemoryConflictPolicy;
+    target: (entry: { scope: MemoryScope; projectId?: string }) => { scope: MemoryScope; projectId?: string };
+    rename?: (key: string) => string;
+    retag?: (tags: string[]) => string[];
+  }
+): Promise<MemoryTransferResult> {
+  const result = emptyResult();
+  const rename = options.rename ?? ((key: string) => key);
+  const retag = options.retag ?? ((tags: string[]) => tags);
+
+  for (const node of data.nodes) {
+    const target = options.target(node);
+    const key = rename(node.key);
+    const tags = retag(node.tags);
+    const existing = await store.get({ ...target, key });
+    if (existing && options.onConflict === "skip") {
+      result.skipped += 1;
+      continue;
+    }
+    if (existing && options.onConflict === "merge-tags") {
+      await store.upsert({ ...target, key, value: existing.value, tags: [...new Set([...existing.tags, ...tags])] });
+      result.merged += 1;
+      continue;
+    }
+    await store.upsert({
+      ...target,
+      key,
+      value: node.value,
+      tags,
+      createdAt: node.createdAt,
+      updatedAt: node.updatedAt,
+      ...(node.embedding && node.embeddingModel
+        ? { embedding: node.embedding, embeddingModel: node.embeddingModel }
+        : {}),
+    });
+    if (existing) result.overwritten += 1;
+    else result.created += 1;
+  }
+
+  for (const link of data.links) {
+    await store.link({ ...options.target(link), fromKey: rename(link.fromKey), toKey: rename(link.toKey), type: link.type });
+    result.links += 1;
+  }
+  return result;
+}
+
+/** Import an export; project entries land in `projectId`, whatever project they came from. */
+export async function importMemory(
+  store: MemoryStore,
+  data: MemoryExport,
+  input: { projectId?: string; onConflict?: MemoryConflictPolicy }
+): Promise<MemoryTransferResult> {
+  if (!input.projectId && data.nodes.some((node) => node.scope === "project")) {
+    throw new Error("projectId is required to import project memories");
+  }
+  return writeEntries(store, data, {
+    onConflict: input.onConflict ?? "skip",
+    target: (entry) =>
+      entry.scope === "project" ? { scope: "project", projectId: input.projectId } : { scope: "global" },
+  });
+}
+
+/**
+ * Copy project entries (picked by `keys` and/or `keyPrefix`) to global scope,
+ * together with the links between them. Copies are tagged `project:<projectId>`.
+ */
+export async function promoteMemory(
+  store: MemoryStore,
+  input: { projectId: string; keys?: string[]; keyPrefix?: string; onConflict?: MemoryConflictPolicy }
+): Promise<MemoryTransferResult> {
+  const keys = new Set(input.keys ?? []);
+  const prefix = input.keyPrefix;
+  if (keys.size === 0 && !prefix) throw new Error("Select memories to promote with keys or keyPrefix.");
+
+  const source = await store.dump({ scope: "project", projectId: input.projectId });
+  const selected = source.nodes.filter((node) => keys.has(node.key) || (prefix ? node.key.startsWith(prefix) : false));
+  const selectedKeys = new Set(selected.map((node) => node.key));
+  const projectTag = `project:${input.projectId}`;
+  return writeEntries(
+    store,
+    {
+      nodes: selected,
+      links: source.links.filter((link) => selectedKeys.has(link.fromKey) && selectedKeys.has(link.toKey)),
+    },
+    {
+      onConflict: input.onConflict ?? "skip",
+      target: () => ({ scope: "global" }),
+      retag: (tags) => (tags.includes(projectTag) ? tags : [...tags, projectTag]),
+    }
+  );
+}
+
+/**
+ * Move memories recorded under an old projectId (e.g. after the repo moved) to a new
+ * one: project entries change project, and global keys and tags that embed the id
+ * (`summary:project:<id>`, `project:<id>`, `message:<id>:...`) are renamed.
+ */
+export async function rekeyMemory(
+  store: MemoryStore,
+  input: { fromProjectId: string; toProjectId: string; onConflict?: MemoryConflictPolicy }
+): Promise<MemoryTransferResult> {
+  const from = input.fromProjectId;
+  const to = input.toProjectId;
+  if (from === to) throw new Error("fromProjectId and toProjectId are the same.");
+  const onConflict = input.onConflict ?? "skip";
+
+  const rename = (key: string) => {
+    if (key === `project:${from}`) return `project:${to}`;
+    if (key === `summary:project:${from}`) return `summary:project:${to}`;
+    if (key.startsWith(`message:${from}:`)) return `message:${to}:${key.slice(`message:${from}:`.length)}`;
+    return key;
+  };
+  const retag = (tags: string[]) => tags.map((tag) => (tag === `project:${from}` ? `project:${to}` : tag));
+
+  const project = await store.dump({ scope: "project", projectId: from });
+  const moved = await writeEntries(store, project, {
+    onConflict,
+    target: () => ({ scope: "project", projectId: to }),
+    rename,
+    retag,
+  });
+  const removed = await store.delete({ scope: "project", projectId: from, keys: project.nodes.map((node) => node.key) });
+
+  const global = await store.dump({ scope: "global" });
+  const renamed = global.nodes.filter((node) => rename(node.key) !== node.key);
+  const renamedKeys = new Set(renamed.map((node) => node.key));
+  const renamedResult = await writeEntries(
+    store,
+    {
+      nodes: renamed,
+      links: global.links.filter((link) => renamedKeys.has(link.fromKey) || renamedKeys.has(link.toKey)),
+    },
+    { onConflict, target: () => ({ scope: "global" }), rename, retag }
+  );
+  // Entries that only carry the old id in a tag are the same entry; rewrite them in place.
+  const retagged = global.nodes.filter(
+    (node) => !renamedKeys.has(node.key) && node.tags.includes(`project:${from}`)
+  );
+  const retaggedResult = await writeEntries(
+    store,
+    { nodes: retagged, links: [] },
+    { onConflict: "overwrite", target: () => ({ scope: "global" }), retag }
+  );
+  const removedGlobal = await store.delete({ scope: "global", keys: [...renamedKeys] });
+
+  const total = emptyResult();
+  for (const part of [moved, renamedResult, retaggedResult]) {
+    total.created += part.created;
+    total.overwritten += part.overwritten;
+    total.merged += part.merged;
+    total.skipped += part.skipped;
+    total.links += part.links;
+  }
+  return { ...total, deleted: removed.deleted + removedGlobal.deleted };
+}
@@ -256,52 +256,6 @@ export function resolveModelRef(
   return { error: `Model "${raw}" not found. Run task_list({ view: "models" }) to see available models.` };
 }
 
-export function pickVisionModel(models: ModelCatalogEntry[]): ModelCatalogEntry | undefined {
-  const score = (m: ModelCatalogEntry): number => {
-    let s = 0;
-    if (m.status === "deprecated") s -= 50;
-    if (m.capabilities.toolcall) s += 10;
-    if (m.capabilities.attachment) s += 10;
-    if (m.capabilities.input?.image) s += 100;
-    if (/\bvision\b/i.test(m.name) || /\bvision\b/i.test(m.modelID)) s += 20;
-    if (/\bglm\b/i.test(m.modelID) && /4\\.6v/i.test(m.modelID)) s += 15;
-    s += Math.min(Math.floor((m.limit?.context ?? 0) / 32000), 10);
-    return s;
-  };
-
-  const candidates = models
-    .filter((m) => m.capabilities?.attachment || m.capabilities?.input?.image)
-    .sort((a, b) => score(b) - score(a));
-  return candidates[0];
-}
-
-export function pickFastModel(models: ModelCatalogEntry[]): ModelCatalogEntry | undefined {
-  const score = (m: ModelCatalogEntry): number => {
-    let s = 0;
-    if (m.status === "deprecated") s -= 50;
-    if (m.capabilities.toolcall) s += 5;
-    if (/(mini|small|flash|fast|haiku)/i.test(m.modelID) || /(mini|small|flash|fast|haiku)/i.test(m.name)) s += 10;
-    if ((m.cost?.input ?? 0) > 0) s -= Math.min(m.cost.input, 5);
-    if ((m.limit?.context ?? 0) > 0) s += Math.min(Math.floor(m.limit.context / 64000), 3);
-    return s;
-  };
-  return [...models].sort((a, b) => score(b) - score(a))[0];
-}
-
-export function pickDocsModel(models: ModelCatalogEntry[]): ModelCatalogEntry | undefined {
-  const score = (m: ModelCatalogEntry): number => {
-    let s = 0;
-    if (m.status === "deprecated") s -= 50;
-    if (m.capabilities.toolcall) s += 10;
-    if (m.capabilities.reasoning) s += 3;
-    if (/minimax/i.test(m.modelID) || /minimax/i.test(m.name)) s += 8;
-    if (/m2/i.test(m.modelID) || /m2/i.test(m.name)) s += 3;
-    s += Math.min(Math.floor((m.limit?.context ?? 0) / 64000), 10);
-    return s;
-  };
-  return [...models].sort((a, b) => score(b) - score(a))[0];
-}
-
 export async function fetchOpencodeConfig(client: any, directory: string): Promise<Config | undefined> {
   const res = await client.config.get({ query: { directory } }).catch(() => undefined);
   return res?.data as Config | undefined;
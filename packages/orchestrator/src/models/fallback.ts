@@ -0,0 +1,58 @@
+import type { WorkerProfile } from "../types";
+
+/** Provider failures that another model in the chain may not have. */
+export type ModelErrorKind = "rate_limit" | "overloaded" | "server" | "auth" | "unavailable" | "network";
+
+/** A model in the chain that failed before another one answered. */
+export type ModelFailover = {
+  model: string;
+  kind: ModelErrorKind;
+  error: string;
+};
+
+const STATUS_KINDS: Array<[(status: number) => boolean, ModelErrorKind]> = [
+  [(status) => status === 429, "rate_limit"],
+  [(status) => status === 529 || status === 503, "overloaded"],
+  [(status) => status >= 500 && status < 600, "server"],
+  [(status) => status === 401 || status === 403, "auth"],
+  [(status) => status === 404, "unavailable"],
+];
+
+const MESSAGE_KINDS: Array<[RegExp, ModelErrorKind]> = [
+  [/rate[ _-]?limit|too many requests|quota|\b429\b/i, "rate_limit"],
+  [/overloaded|capacity|\b529\b|\b503\b|service unavailable/i, "overloaded"],
+  [/internal server error|bad gateway|gateway timeout|upstream|\b50[0-4]\b/i, "server"],
+  [/invalid api key|unauthori[sz]ed|authentication|ProviderAuthError|\b401\b/i, "auth"],
+  [/model (?:not found|.*does not exist|.*not available)|no such model/i, "unavailable"],
+  [/ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|socket hang up|fetch failed|network error/i, "network"],
+];
+
+/**
+ * Classify a failed prompt. Only provider-side failures are classified; errors
+ * caused by the task itself (timeouts, schema mismatches, bad input) return undefined
+ * because the next model would fail the same way.
+ */
+export function classifyModelError(error: unknown): ModelErrorKind | undefined {
+  if (!error) return undefined;
+  const record = typeof error === "object" ? (error as Record<string, unknown>) : undefined;
+  const data = record?.data && typeof record.data === "object" ? (record.data as Record<string, unknown>) : undefined;
+  const status = [record?.statusCode, record?.status, data?.statusCode].find((value) => typeof value === "number");
+  if (typeof status === "number") {
+    const match = STATUS_KINDS.find(([test]) => test(status));
+    if (match) return match[1];
+  }
+  if (record?.name === "ProviderAuthError") return "auth";
+
+  const message =
+    typeof error === "string"
+      ? error
+      : [record?.message, data?.message].filter((value): value is string => typeof value === "string").join(" ");
+  if (/timed out|output schema/i.test(message)) return undefined;
+  return MESSAGE_KINDS.find(([pattern]) => pattern.test(message))?.[1];
+}
+
+/** The profile's models in the order they are tried: `model`, then `modelFallbacks`. */
+export function getModelChain(profile: Pick<WorkerProfile, "model" | "modelFallbacks">): string[] {
+  const chain = [profile.model, ...(profile.modelFallbacks ?? [])].map((model) => model.trim()).filter(Boolean);
+  return [...new Set(chain)];
+}
@@ -1,13 +1,7 @@
 import type { Config, Provider } from "@opencode-ai/sdk";
-import type { WorkerProfile } from "../types";
-import {
-  filterProviders,
-  flattenProviders,
-  pickDocsModel,
-  pickFastModel,
-  pickVisionModel,
-  resolveModelRef,
-} from "./catalog";
+import type { ModelRoutingConfig, WorkerProfile } from "../types";
+import { filterProviders, flattenProviders, resolveModelRef } from "./catalog";
+import { checkModelPolicy, getModelRoutingConfig, getRoutingRule, pickRoutedModel } from "./routing";
 
 export type WorkerModelResolution = {
   resolvedModel: string;
@@ -21,6 +15,8 @@ export type ResolveWorkerModelInput = {
   config?: Config;
   providers: Provider[];
   providerDefaults?: Record<string, string>;
+  /** Routing policy (default: the configured `modelRouting`) */
+  routing?: ModelRoutingConfig;
 };
 
 export type ResolveFallbackModelInput = {
@@ -43,6 +39,12 @@ export function resolveWorkerModel(input: ResolveWorkerModelInput): WorkerModelR
   const providersAll = input.providers;
   const providersUsable = filterProviders(providersAll, "configured");
   const catalog = flattenProviders(providersUsable);
+  const routing = input.routing ?? getModelRoutingConfig();
+  // Violations of the global provider/cost limits; models missing from the catalog are not checked.
+  const policyViolations = (full: string, rule?: Parameters<typeof checkModelPolicy>[2]) => {
+    const entry = flattenProviders(providersAll).find((m) => m.full === full);
+    return entry ? checkModelPolicy(entry, routing, rule) : [];
+  };
   const fallbackModel = resolveFallbackModel({
     config: input.config,
     providers: providersAll,
@@ -52,24 +54,17 @@ export function resolveWorkerModel(input: ResolveWorkerModelInput): WorkerModelR
   const isNodeTag = modelRef.startsWith("auto") || modelRef.startsWith("node");
   if (isNodeTag) {
     const isVision = input.profile.supportsVision || /(?:auto|node):vision/i.test(modelRef);
-    const isDocs = /(?:auto|node):docs/i.test(modelRef);
-    const isFast = /(?:auto|node):fast/i.test(modelRef);
+    const tag = isVision ? "vision" : (modelRef.split(":")[1] ?? "").trim().toLowerCase();
+    const rule = getRoutingRule(tag, routing);
 
-    if (isFast && input.config?.small_model) {
+    if (tag === "fast" && input.config?.small_model) {
       const resolvedSmall = resolveModelRef(input.config.small_model, providersAll);
-      if (!("error" in resolvedSmall)) {
+      if (!("error" in resolvedSmall) && policyViolations(resolvedSmall.full, rule).length === 0) {
         return { resolvedModel: resolvedSmall.full, modelRef, reason: `auto-selected from small_model (${modelRef})` };
       }
     }
 
-    const picked = isVision
-      ? pickVisionModel(catalog)
-      : isDocs
-        ? pickDocsModel(catalog)
-        : isFast
-          ? pickFastModel(catalog)
-          : undefined;
-
+    const picked = rule ? pickRoutedModel(catalog, tag, routing) : undefined;
     if (picked) {
       return { resolvedModel: picked.full, modelRef, reason: `auto-selected from configured models (${modelRef})` };
     }
@@ -77,10 +72,18 @@ export function resolveWorkerModel(input: ResolveWorkerModelInput): WorkerModelR
     if (isVision) {
       throw new Error(
         `No vision-capable models found for "${input.profile.id}" (model tag: "${modelRef}"). ` +
-          `Configure a vision model in OpenCode or set the profile model explicitly.`
+          `Configure a vision model in OpenCode, relax modelRouting, or set the profile model explicitly.`
       );
     }
 
+    const fallbackViolations = policyViolations(fallbackModel);
+    if (fallbackViolations.length > 0) {
+      throw new Error(
+        `No model matches "${modelRef}" for "${input.profile.id}", and the default model "${fallbackModel}" ` +
+          `is not allowed by modelRouting (${fallbackViolations.join("; ")}). ` +
+          `Run task_list({ view: "models", tag: "${modelRef}" }) to see why.`
+      );
+    }
     return { resolvedModel: fallbackModel, modelRef, reason: `fallback to default model (${modelRef})` };
   }
 
@@ -90,6 +93,13 @@ export function resolveWorkerModel(input: ResolveWorkerModelInput): WorkerModelR
     throw new Error(`Invalid model for profile "${input.profile.id}": ${resolved.error}${suffix}`);
   }
 
+  const violations = policyViolations(resolved.full);
+  if (violations.length > 0) {
+    throw new Error(
+      `Model "${resolved.full}" for profile "${input.profile.id}" is not allowed by modelRouting: ${violations.join("; ")}`
+    );
+  }
+
   const reason = resolved.full === modelRef ? "configured" : `resolved from ${modelRef}`;
   return { resolvedModel: resolved.full, modelRef, reason };
 }
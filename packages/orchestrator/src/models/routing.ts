@@ -0,0 +1,187 @@
+import type {
+  ModelCostCeiling,
+  ModelPreferenceWeights,
+  ModelProviderFilter,
+  ModelRoutingConfig,
+  ModelRoutingRule,
+} from "../types";
+import type { ModelCatalogEntry } from "./catalog";
+
+/** Built-in rules for `node:vision`, `node:fast` and `node:docs`; `modelRouting.tags` is merged into them. */
+export const DEFAULT_MODEL_ROUTES: Record<string, ModelRoutingRule> = {
+  vision: {
+    require: { image: true },
+    prefer: {
+      deprecated: -50,
+      image: 100,
+      toolcall: 10,
+      attachment: 10,
+      context: 3,
+      patterns: { "\\bvision\\b": 20 },
+    },
+  },
+  fast: {
+    prefer: {
+      deprecated: -50,
+      toolcall: 5,
+      context: 1.5,
+      cost: -0.25,
+      patterns: { "mini|small|flash|fast|haiku": 10 },
+    },
+  },
+  docs: {
+    prefer: {
+      deprecated: -50,
+      toolcall: 10,
+      reasoning: 3,
+      context: 1.5,
+      patterns: { minimax: 8, m2: 3 },
+    },
+  },
+};
+
+export type RankedModel = {
+  model: ModelCatalogEntry;
+  score: number;
+  /** Score contributions, e.g. `toolcall +10` */
+  reasons: string[];
+  /** Why the model cannot be picked; empty when it can */
+  rejected: string[];
+};
+
+let routingConfig: ModelRoutingConfig | undefined;
+
+/** Policy used when callers of `resolveWorkerModel` pass none (set from config at startup). */
+export function setModelRoutingConfig(config: ModelRoutingConfig | undefined): void {
+  routingConfig = config;
+}
+
+export function getModelRoutingConfig(): ModelRoutingConfig | undefined {
+  return routingConfig;
+}
+
+/** The rule for a tag: the built-in one with the configured fields merged in. */
+export function getRoutingRule(tag: string, config?: ModelRoutingConfig): ModelRoutingRule | undefined {
+  const base = DEFAULT_MODEL_ROUTES[tag];
+  const custom = config?.tags?.[tag];
+  if (!base && !custom) return undefined;
+  return {
+    require: { ...base?.require, ...custom?.require },
+    maxCost: custom?.maxCost ?? base?.maxCost,
+    providers: custom?.providers ?? base?.providers,
+    prefer: {
+      ...base?.prefer,
+      ...custom?.prefer,
+      providers: { ...base?.prefer?.providers, ...custom?.prefer?.providers },
+      patterns: { ...base?.prefer?.patterns, ...custom?.prefer?.patterns },
+    },
+  };
+}
+
+const sameId = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+function checkProviders(model: ModelCatalogEntry, filter: ModelProviderFilter | undefined, out: string[]) {
+  if (filter?.allow && !filter.allow.some((id) => sameId(id, model.providerID))) {
+    out.push(`provider ${model.providerID} not allowed`);
+  }
+  if (filter?.deny?.some((id) => sameId(id, model.providerID))) out.push(`provider ${model.providerID} denied`);
+}
+
+function checkCost(model: ModelCatalogEntry, ceiling: ModelCostCeiling | undefined, out: string[]) {
+  const input = model.cost?.input ?? 0;
+  const output = model.cost?.output ?? 0;
+  if (ceiling?.input !== undefined && input > ceiling.input) out.push(`input $${input}/M > $${ceiling.input}/M`);
+  if (ceiling?.output !== undefined && output > ceiling.output) out.push(`output $${output}/M > $${ceiling.output}/M`);
+}
+
+/**
+ * Reasons the model may not be used under the global limits of `config` and,
+ * when given, a tag rule. Unknown prices (0) never exceed a ceiling.
+ */
+export function checkModelPolicy(
+  model: ModelCatalogEntry,
+  config?: ModelRoutingConfig,
+  rule?: ModelRoutingRule
+): string[] {
+  const out: string[] = [];
+  checkProviders(model, config?.providers, out);
+  checkProviders(model, rule?.providers, out);
+  checkCost(model, config?.maxCost, out);
+  checkCost(model, rule?.maxCost, out);
+
+  const caps = model.capabilities;
+  const require = rule?.require;
+  if (require?.image && !(caps?.input?.image || caps?.attachment)) out.push("no image input");
+  if (require?.toolcall && !caps?.toolcall) out.push("no tool calls");
+  if (require?.reasoning && !caps?.reasoning) out.push("no reasoning");
+  if (require?.attachment && !caps?.attachment) out.push("no attachments");
+  const context = model.limit?.context ?? 0;
+  if (require?.minContext && context < require.minContext) out.push(`context ${context} < ${require.minContext}`);
+  return out;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function scoreModel(model: ModelCatalogEntry, prefer: ModelPreferenceWeights | undefined) {
+  let score = 0;
+  const reasons: string[] = [];
+  const add = (points: number | undefined, label: string) => {
+    if (!points) return;
+    score += points;
+    reasons.push(`${label} ${points > 0 ? "+" : ""}${round(points)}`);
+  };
+
+  const caps = model.capabilities;
+  if (model.status === "deprecated") add(prefer?.deprecated, "deprecated");
+  if (caps?.toolcall) add(prefer?.toolcall, "toolcall");
+  if (caps?.reasoning) add(prefer?.reasoning, "reasoning");
+  if (caps?.input?.image) add(prefer?.image, "image");
+  if (caps?.attachment) add(prefer?.attachment, "attachment");
+  const context = model.limit?.context ?? 0;
+  if (prefer?.context && context > 0) add((Math.min(context, 1_000_000) / 100_000) * prefer.context, `context ${context}`);
+  const price = (model.cost?.input ?? 0) + (model.cost?.output ?? 0);
+  if (prefer?.cost && price > 0) add(price * prefer.cost, `cost $${round(price)}/M`);
+  for (const [provider, points] of Object.entries(prefer?.providers ?? {})) {
+    if (sameId(provider, model.providerID)) add(points, `provider ${provider}`);
+  }
+  for (const [pattern, points] of Object.entries(prefer?.patterns ?? {})) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, "i");
+    } catch {
+      continue;
+    }
+    if (regex.test(model.modelID) || regex.test(model.name)) add(points, `/${pattern}/`);
+  }
+  return { score: round(score), reasons };
+}
+
+/** Every candidate with its score and exclusions; eligible models first, best first. */
+export function rankModels(
+  models: ModelCatalogEntry[],
+  rule: ModelRoutingRule | undefined,
+  config?: ModelRoutingConfig
+): RankedModel[] {
+  const ranked = models.map((model) => ({
+    model,
+    ...scoreModel(model, rule?.prefer),
+    rejected: checkModelPolicy(model, config, rule),
+  }));
+  // Stable sort: equal scores keep the provider catalog order.
+  return ranked.sort((a, b) => {
+    const eligible = Number(a.rejected.length > 0) - Number(b.rejected.length > 0);
+    return eligible !== 0 ? eligible : b.score - a.score;
+  });
+}
+
+/** Best eligible model for a tag, or undefined when the tag has no rule or nothing qualifies. */
+export function pickRoutedModel(
+  models: ModelCatalogEntry[],
+  tag: string,
+  config?: ModelRoutingConfig
+): ModelCatalogEntry | undefined {
+  const rule = getRoutingRule(tag, config);
+  if (!rule) return undefined;
+  const best = rankModels(models, rule, config)[0];
+  return best && best.rejected.length === 0 ? best.model : undefined;
+}
@@ -1,5 +1,6 @@
+import { createHash } from "node:crypto";
 import { existsSync, type Dirent } from "node:fs";
-import { readdir } from "node:fs/promises";
+import { readdir, readFile } from "node:fs/promises";
 import { dirname, join, relative, resolve, sep } from "node:path";
 import { homedir } from "node:os";
 
@@ -17,6 +18,8 @@ export type SkillEntry = {
   skillPath: string;
   source: SkillSource;
   root: string;
+  /** sha256 over the skill folder's files (see `hashSkillDir`) */
+  hash: string;
 };
 
 export type SkillDiscoveryOptions = {
@@ -27,13 +30,13 @@ export type SkillDiscoveryOptions = {
   includeGlobal?: boolean;
 };
 
-const isWithin = (child: string, parent: string): boolean => {
+export const isWithin = (child: string, parent: string): boolean => {
   const rel = relative(parent, child);
   if (!rel) return true;
   return !rel.startsWith(`..${sep}`) && rel !== ".." && !rel.startsWith("../");
 };
 
-const walkUp = (start: string, stop: string): string[] => {
+export const walkUp = (start: string, stop: string): string[] => {
   const paths: string[] = [];
   let current = start;
   while (true) {
@@ -83,6 +86,34 @@ export const getSkillSearchRoots = (options: SkillDiscoveryOptions): SkillSearch
   return roots;
 };
 
+const listSkillFiles = async (dir: string, prefix = ""): Promise<string[]> => {
+  const dirents = await readdir(join(dir, prefix), { withFileTypes: true, encoding: "utf8" });
+  const files: string[] = [];
+  for (const dirent of dirents) {
+    // Dotfiles (.DS_Store, .git) are editor and VCS noise, not skill content.
+    if (dirent.name.startsWith(".")) continue;
+    const path = prefix ? `${prefix}/${dirent.name}` : dirent.name;
+    if (dirent.isDirectory()) files.push(...(await listSkillFiles(dir, path)));
+    else if (dirent.isFile()) files.push(path);
+  }
+  return files;
+};
+
+/**
+ * Content hash of a skill folder: every file's relative path and bytes, in path order.
+ * Independent of where the folder lives, so a copied skill hashes the same.
+ */
+export const hashSkillDir = async (skillDir: string): Promise<string> => {
+  const hash = createHash("sha256");
+  const files = (await listSkillFiles(skillDir)).sort();
+  for (const file of files) {
+    hash.update(`${file}\0`);
+    hash.update(await readFile(join(skillDir, file)));
+    hash.update("\0");
+  }
+  return `sha256:${hash.digest("hex")}`;
+};
+
 export const discoverSkills = async (options: SkillDiscoveryOptions): Promise<SkillEntry[]> => {
   const roots = getSkillSearchRoots(options);
   const entries: SkillEntry[] = [];
@@ -106,6 +137,7 @@ export const discoverSkills = async (options: SkillDiscoveryOptions): Promise<Sk
         skillPath,
         source: root.source,
         root: root.root,
+        hash: await hashSkillDir(skillDir),
       });
     }
   }
@@ -0,0 +1,59 @@
+import { readFile } from "node:fs/promises";
+
+export type SkillFrontmatter = {
+  name?: string;
+  description?: string;
+  /** Author-declared version (e.g. `1.2.0`), recorded in `skills.lock.json` */
+  version?: string;
+  /** Skills this one needs, from `dependencies:` (inline `[a, b]`, `a, b`, or a `- a` list) */
+  dependencies?: string[];
+};
+
+const unquote = (value: string): string => value.trim().replace(/^"(.+)"$/, "$1").replace(/^'(.+)'$/, "$1");
+
+const parseList = (value: string): string[] =>
+  value
+    .replace(/^\[/, "")
+    .replace(/\]$/, "")
+    .split(",")
+    .map(unquote)
+    .filter(Boolean);
+
+export const parseSkillFrontmatter = (content: string): SkillFrontmatter | undefined => {
+  if (!content.startsWith("---")) return undefined;
+  const end = content.indexOf("\n---", 3);
+  if (end === -1) return undefined;
+  const block = content.slice(3, end).trim();
+  const out: SkillFrontmatter = {};
+  let listKey: string | undefined;
+  for (const line of block.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+    if (listKey && trimmed.startsWith("- ")) {
+      if (listKey === "dependencies") out.dependencies = [...(out.dependencies ?? []), unquote(trimmed.slice(2))];
+      continue;
+    }
+    listKey = undefined;
+    const match = trimmed.match(/^([a-zA-Z0-9_-]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+    const key = match[1];
+    const value = unquote(match[2]);
+    if (key === "name") out.name = value;
+    if (key === "description") out.description = value;
+    if (key === "version" && value) out.version = value;
+    if (key === "dependencies") {
+      if (value) out.dependencies = parseList(value);
+      else listKey = key;
+    }
+  }
+  return out;
+};
+
+export const loadSkillFrontmatter = async (skillPath: string): Promise<SkillFrontmatter | undefined> => {
+  try {
+    const content = await readFile(skillPath, "utf8");
+    return parseSkillFrontmatter(content);
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,181 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { writeJsonAtomic } from "../helpers/fs";
+import type { SkillSource } from "./discovery";
+import type { SkillDescriptor } from "./preflight";
+
+export const SKILLS_LOCK_FILE = "skills.lock.json";
+
+export type SkillLockEntry = {
+  version?: string;
+  hash: string;
+  source?: SkillSource;
+};
+
+export type WorkflowSkillsLock = {
+  /** Required skills and their dependencies, by name */
+  skills: Record<string, SkillLockEntry>;
+};
+
+export type SkillsLock = {
+  lockfileVersion: 1;
+  workflows: Record<string, WorkflowSkillsLock>;
+};
+
+export type SkillLockDrift = {
+  name: string;
+  /** `version`: the version changed; `hash`: same version, different content; `unlocked`: not in the lock */
+  kind: "version" | "hash" | "unlocked";
+  locked?: SkillLockEntry;
+  current: { version?: string; hash?: string };
+};
+
+/** Lock state of one skill across every workflow in the lockfile. */
+export type SkillLockStatus = {
+  name: string;
+  version?: string;
+  hash?: string;
+  source?: SkillSource;
+  /** `missing`: locked, but no longer found on disk */
+  status: "locked" | "drift" | "unlocked" | "missing";
+  /** Workflows whose lock entry includes this skill */
+  workflows: string[];
+  drift?: string[];
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const shortHash = (hash?: string): string => (hash ? hash.replace(/^sha256:/, "").slice(0, 12) : "none");
+
+export const emptySkillsLock = (): SkillsLock => ({ lockfileVersion: 1, workflows: {} });
+
+export function getSkillsLockPath(root: string): string {
+  return join(root, SKILLS_LOCK_FILE);
+}
+
+function parseLockEntry(value: unknown): SkillLockEntry | undefined {
+  if (!isRecord(value) || typeof value.hash !== "string") return undefined;
+  return {
+    hash: value.hash,
+    ...(typeof value.version === "string" ? { version: value.version } : {}),
+    ...(typeof value.source === "string" ? { source: value.source as SkillSource } : {}),
+  };
+}
+
+/** Read `<root>/skills.lock.json`; a missing file is an empty lock, an unreadable one is an error. */
+export async function readSkillsLock(root: string): Promise<SkillsLock> {
+  const path = getSkillsLockPath(root);
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch {
+    return emptySkillsLock();
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid ${SKILLS_LOCK_FILE} at ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const lock = emptySkillsLock();
+  const workflows = isRecord(raw) && isRecord(raw.workflows) ? raw.workflows : {};
+  for (const [workflowId, value] of Object.entries(workflows)) {
+    if (!isRecord(value) || !isRecord(value.skills)) continue;
+    const skills: Record<string, SkillLockEntry> = {};
+    for (const [name, entry] of Object.entries(value.skills)) {
+      const parsed = parseLockEntry(entry);
+      if (parsed) skills[name] = parsed;
+    }
+    lock.workflows[workflowId] = { skills };
+  }
+  return lock;
+}
+
+const sortKeys = <T>(record: Record<string, T>): Record<string, T> =>
+  Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+
+/** Keys are sorted so the file diffs cleanly. */
+export async function writeSkillsLock(root: string, lock: SkillsLock): Promise<void> {
+  const workflows = Object.fromEntries(
+    Object.entries(sortKeys(lock.workflows)).map(([id, entry]) => [id, { skills: sortKeys(entry.skills) }])
+  );
+  await writeJsonAtomic(getSkillsLockPath(root), { lockfileVersion: 1, workflows }, { tmpPrefix: "opencode-orch-skills-lock" });
+}
+
+/** Replace a workflow's entry with the skills preflight resolved (skills that were not found are left out). */
+export function lockWorkflowSkills(lock: SkillsLock, workflowId: string, skills: SkillDescriptor[]): SkillsLock {
+  const entries: Record<string, SkillLockEntry> = {};
+  for (const skill of skills) {
+    if (!skill.hash) continue;
+    entries[skill.name] = {
+      ...(skill.version ? { version: skill.version } : {}),
+      hash: skill.hash,
+      ...(skill.source ? { source: skill.source } : {}),
+    };
+  }
+  return { ...lock, workflows: { ...lock.workflows, [workflowId]: { skills: entries } } };
+}
+
+/** Differences between a workflow's lock entry and the skills found now. Skills that were not found are preflight errors, not drift. */
+export function checkWorkflowSkillsLock(locked: WorkflowSkillsLock, skills: SkillDescriptor[]): SkillLockDrift[] {
+  const drift: SkillLockDrift[] = [];
+  for (const skill of skills) {
+    if (!skill.hash) continue;
+    const current = { version: skill.version, hash: skill.hash };
+    const entry = locked.skills[skill.name];
+    if (!entry) drift.push({ name: skill.name, kind: "unlocked", current });
+    else if (entry.version !== skill.version) drift.push({ name: skill.name, kind: "version", locked: entry, current });
+    else if (entry.hash !== skill.hash) drift.push({ name: skill.name, kind: "hash", locked: entry, current });
+  }
+  return drift;
+}
+
+export function describeSkillDrift(drift: SkillLockDrift): string {
+  if (drift.kind === "unlocked") return `skill "${drift.name}" is not in the lock`;
+  if (drift.kind === "version") {
+    return `skill "${drift.name}" is version ${drift.current.version ?? "(none)"}, locked at ${drift.locked?.version ?? "(none)"}`;
+  }
+  return `skill "${drift.name}" changed since it was locked (${shortHash(drift.locked?.hash)} -> ${shortHash(drift.current.hash)})`;
+}
+
+/**
+ * Lock state of every discovered skill and every locked one. A skill is `drift`
+ * when any workflow locked it at a different version or hash.
+ */
+export function getSkillLockStatuses(lock: SkillsLock, skills: SkillDescriptor[]): SkillLockStatus[] {
+  const byName = new Map<string, SkillDescriptor>();
+  for (const skill of skills) {
+    if (!byName.has(skill.name)) byName.set(skill.name, skill);
+  }
+  const statuses = new Map<string, SkillLockStatus>();
+  for (const skill of byName.values()) {
+    statuses.set(skill.name, {
+      name: skill.name,
+      ...(skill.version ? { version: skill.version } : {}),
+      ...(skill.hash ? { hash: skill.hash } : {}),
+      ...(skill.source ? { source: skill.source } : {}),
+      status: "unlocked",
+      workflows: [],
+    });
+  }
+
+  for (const [workflowId, locked] of Object.entries(lock.workflows)) {
+    for (const name of Object.keys(locked.skills)) {
+      const status = statuses.get(name) ?? { name, status: "missing" as const, workflows: [] };
+      status.workflows.push(workflowId);
+      statuses.set(name, status);
+      const skill = byName.get(name);
+      if (!skill) continue;
+      const drift = checkWorkflowSkillsLock({ skills: { [name]: locked.skills[name] } }, [skill]);
+      if (drift.length > 0) {
+        status.status = "drift";
+        status.drift = [...(status.drift ?? []), `${workflowId}: ${describeSkillDrift(drift[0])}`];
+      } else if (status.status === "unlocked") {
+        status.status = "locked";
+      }
+    }
+  }
+
+  return [...statuses.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -1,5 +1,6 @@
-import { readFile } from "node:fs/promises";
-import { discoverSkills, type SkillEntry, type SkillSource } from "./discovery";
+import { discoverSkills, type SkillSource } from "./discovery";
+import { loadSkillFrontmatter } from "./frontmatter";
+import { loadSkillRegistry, type SkillRegistryEntry } from "./registry";
 import { validateSkillDefinition } from "./validate";
 import { loadOpenCodeConfig } from "../config/opencode";
 import type { OrchestratorContext } from "../context/orchestrator-context";
@@ -17,13 +18,28 @@ export type SkillDescriptor = {
   status: SkillStatus;
   permission?: SkillPermission;
   description?: string;
+  /** `version` frontmatter field */
+  version?: string;
+  /** Content hash of the skill folder */
+  hash?: string;
+  /** Skills named in the `dependencies` frontmatter field */
+  dependencies?: string[];
+  /** Skills that depend on this one (only for skills pulled in as dependencies) */
+  requiredBy?: string[];
+  /** Missing, but a configured skill registry has it */
+  installable?: boolean;
   errors?: string[];
 };
 
 export type SkillPreflightResult = {
   ok: boolean;
+  /** Required skills and their dependencies, dependencies first */
   skills: SkillDescriptor[];
   errors: string[];
+  /** Missing skills the registries can provide, in install order */
+  install?: string[];
+  /** Dependency cycles, each as a path that ends where it starts */
+  cycles?: string[][];
 };
 
 export type SkillRequirement = {
@@ -32,8 +48,6 @@ export type SkillRequirement = {
   stepId?: string;
 };
 
-type Frontmatter = { name?: string; description?: string };
-
 const isRecord = (value: unknown): value is Record<string, unknown> =>
   !!value && typeof value === "object" && !Array.isArray(value);
 
@@ -47,34 +61,6 @@ const matchPattern = (pattern: string, name: string): boolean => {
   return new RegExp(`^${escaped}$`).test(name);
 };
 
-const parseFrontmatter = (content: string): Frontmatter | undefined => {
-  if (!content.startsWith("---")) return undefined;
-  const end = content.indexOf("\n---", 3);
-  if (end === -1) return undefined;
-  const block = content.slice(3, end).trim();
-  const out: Frontmatter = {};
-  for (const line of block.split("\n")) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith("#")) continue;
-    const match = trimmed.match(/^([a-zA-Z0-9_-]+)\s*:\s*(.*)$/);
-    if (!match) continue;
-    const key = match[1];
-    const value = match[2].replace(/^"(.+)"$/, "$1").replace(/^'(.+)'$/, "$1");
-    if (key === "name") out.name = value;
-    if (key === "description") out.description = value;
-  }
-  return out;
-};
-
-const loadFrontmatter = async (entry: SkillEntry): Promise<Frontmatter | undefined> => {
-  try {
-    const content = await readFile(entry.skillPath, "utf8");
-    return parseFrontmatter(content);
-  } catch {
-    return undefined;
-  }
-};
-
 export async function loadSkillConfig(context: Pick<OrchestratorContext, "client" | "directory">): Promise<Record<string, unknown>> {
   if (context.client?.config?.get) {
     try {
@@ -141,7 +127,7 @@ export async function listSkills(input: {
 
   const results: SkillDescriptor[] = [];
   for (const entry of entries) {
-    const frontmatter = await loadFrontmatter(entry);
+    const frontmatter = await loadSkillFrontmatter(entry.skillPath);
     const errors: string[] = [];
     if (!frontmatter) errors.push("missing frontmatter");
     const declaredName = frontmatter?.name ?? entry.name;
@@ -159,12 +145,51 @@ export async function listSkills(input: {
       path: entry.skillPath,
       status: errors.length === 0 ? "ok" : "invalid",
       description,
+      ...(frontmatter?.version ? { version: frontmatter.version } : {}),
+      hash: entry.hash,
+      ...(frontmatter?.dependencies?.length ? { dependencies: frontmatter.dependencies } : {}),
       errors: errors.length > 0 ? errors : undefined,
     });
   }
   return results;
 }
 
+/**
+ * Walk the dependency graph from `roots`. `order` lists every reachable skill
+ * with its dependencies before it; skills without known dependencies are leaves.
+ */
+export function resolveSkillDependencies(
+  roots: string[],
+  getDependencies: (name: string) => string[] | undefined
+): { order: string[]; requiredBy: Map<string, string[]>; cycles: string[][] } {
+  const order: string[] = [];
+  const requiredBy = new Map<string, string[]>();
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (name: string) => {
+    if (done.has(name)) return;
+    const index = stack.indexOf(name);
+    if (index !== -1) {
+      cycles.push([...stack.slice(index), name]);
+      return;
+    }
+    stack.push(name);
+    for (const dependency of getDependencies(name) ?? []) {
+      const parents = requiredBy.get(dependency) ?? [];
+      if (!parents.includes(name)) requiredBy.set(dependency, [...parents, name]);
+      visit(dependency);
+    }
+    stack.pop();
+    done.add(name);
+    order.push(name);
+  };
+
+  for (const root of roots) visit(root);
+  return { order, requiredBy, cycles };
+}
+
 export async function validateSkills(input: {
   requiredSkills: string[];
   directory: string;
@@ -172,6 +197,8 @@ export async function validateSkills(input: {
   includeGlobal?: boolean;
   permissionMap?: Record<string, SkillPermission>;
   toolEnabled?: boolean;
+  /** Skill registries (directories or JSON indexes) that can provide missing skills */
+  registries?: string[];
 }): Promise<SkillPreflightResult> {
   const required = [...new Set(input.requiredSkills)].filter(Boolean);
   if (required.length === 0) {
@@ -187,42 +214,63 @@ export async function validateSkills(input: {
   for (const entry of discovered) {
     if (!byName.has(entry.name)) byName.set(entry.name, entry);
   }
+  const registry = input.registries?.length
+    ? await loadSkillRegistry(input.registries, input.directory)
+    : new Map<string, SkillRegistryEntry>();
+  const graph = resolveSkillDependencies(
+    required,
+    (name) => byName.get(name)?.dependencies ?? registry.get(name)?.dependencies
+  );
 
   const skills: SkillDescriptor[] = [];
   const errors: string[] = [];
+  const install: string[] = [];
   const toolEnabled = input.toolEnabled ?? true;
 
-  for (const name of required) {
+  for (const name of graph.order) {
     const permission = resolveSkillPermission(name, input.permissionMap);
+    const parents = required.includes(name) ? undefined : graph.requiredBy.get(name);
+    const via = parents ? ` (required by ${parents.join(", ")})` : "";
+    const requiredBy = parents ? { requiredBy: parents } : {};
     if (!toolEnabled) {
-      skills.push({ name, status: "disabled", permission });
+      skills.push({ name, status: "disabled", permission, ...requiredBy });
       errors.push(`skill tool disabled for "${name}"`);
       continue;
     }
 
     const entry = byName.get(name);
     if (!entry) {
-      skills.push({ name, status: "missing", permission });
-      errors.push(`missing skill "${name}"`);
+      const source = registry.get(name);
+      skills.push({ name, status: "missing", permission, ...requiredBy, ...(source ? { installable: true } : {}) });
+      errors.push(`missing skill "${name}"${via}${source ? ` (installable from ${source.registry})` : ""}`);
+      if (source) install.push(name);
       continue;
     }
 
     if (entry.status === "invalid") {
-      skills.push({ ...entry, status: "invalid", permission });
-      errors.push(`invalid skill "${name}"`);
+      skills.push({ ...entry, status: "invalid", permission, ...requiredBy });
+      errors.push(`invalid skill "${name}"${via}`);
       continue;
     }
 
     if (permission === "deny") {
-      skills.push({ ...entry, status: "deny", permission });
-      errors.push(`permission denied for "${name}"`);
+      skills.push({ ...entry, status: "deny", permission, ...requiredBy });
+      errors.push(`permission denied for "${name}"${via}`);
       continue;
     }
 
-    skills.push({ ...entry, status: permission === "ask" ? "ask" : "ok", permission });
+    skills.push({ ...entry, status: permission === "ask" ? "ask" : "ok", permission, ...requiredBy });
   }
 
-  return { ok: errors.length === 0, skills, errors };
+  for (const cycle of graph.cycles) errors.push(`skill dependency cycle: ${cycle.join(" -> ")}`);
+
+  return {
+    ok: errors.length === 0,
+    skills,
+    errors,
+    ...(install.length > 0 ? { install } : {}),
+    ...(graph.cycles.length > 0 ? { cycles: graph.cycles } : {}),
+  };
 }
 
 export function collectWorkflowSkillRequirements(
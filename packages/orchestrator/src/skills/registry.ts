@@ -0,0 +1,169 @@
+import { execFile } from "node:child_process";
+import { existsSync, type Dirent } from "node:fs";
+import { cp, mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { homedir, tmpdir } from "node:os";
+import { dirname, isAbsolute, join, resolve } from "node:path";
+import { promisify } from "node:util";
+import { loadSkillFrontmatter } from "./frontmatter";
+import { validateSkillName } from "./validate";
+
+const execFileAsync = promisify(execFile);
+
+export type SkillRegistryEntry = {
+  name: string;
+  description?: string;
+  dependencies: string[];
+  kind: "directory" | "tarball";
+  /** Skill folder (directory registries) or archive (index registries) */
+  path: string;
+  /** Registry the skill was found in, as configured */
+  registry: string;
+};
+
+export type SkillInstallResult = {
+  installed: Array<{ name: string; path: string; registry: string }>;
+  /** Already present in `.opencode/skill/` and left alone */
+  skipped: string[];
+  /** Not in any registry */
+  missing: string[];
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === "string" && item.trim() !== "") : [];
+
+export function resolveRegistryPath(registry: string, baseDir: string): string {
+  if (registry === "~" || registry.startsWith("~/")) return join(homedir(), registry.slice(1));
+  return isAbsolute(registry) ? registry : resolve(baseDir, registry);
+}
+
+async function readDirectoryRegistry(root: string, registry: string): Promise<SkillRegistryEntry[]> {
+  let dirents: Dirent[];
+  try {
+    dirents = await readdir(root, { withFileTypes: true, encoding: "utf8" });
+  } catch {
+    return [];
+  }
+  const entries: SkillRegistryEntry[] = [];
+  for (const dirent of dirents) {
+    if (!dirent.isDirectory()) continue;
+    const skillDir = join(root, dirent.name);
+    const skillPath = join(skillDir, "SKILL.md");
+    if (!existsSync(skillPath)) continue;
+    const frontmatter = await loadSkillFrontmatter(skillPath);
+    entries.push({
+      name: dirent.name,
+      description: frontmatter?.description,
+      dependencies: frontmatter?.dependencies ?? [],
+      kind: "directory",
+      path: skillDir,
+      registry,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Index registries are JSON files mapping skill names to archives relative to the index:
+ * `{ "skills": { "docs-research": { "tarball": "docs-research.tgz", "dependencies": ["web-fetch"] } } }`.
+ */
+async function readIndexRegistry(indexPath: string, registry: string): Promise<SkillRegistryEntry[]> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(indexPath, "utf8"));
+  } catch {
+    return [];
+  }
+  const skills = isRecord(raw) && isRecord(raw.skills) ? raw.skills : {};
+  const entries: SkillRegistryEntry[] = [];
+  for (const [name, value] of Object.entries(skills)) {
+    if (!isRecord(value) || typeof value.tarball !== "string") continue;
+    entries.push({
+      name,
+      description: typeof value.description === "string" ? value.description : undefined,
+      dependencies: toStringList(value.dependencies),
+      kind: "tarball",
+      path: resolve(dirname(indexPath), value.tarball),
+      registry,
+    });
+  }
+  return entries;
+}
+
+/** Skills available from the configured registries; the first registry that has a name wins. */
+export async function loadSkillRegistry(registries: string[], baseDir: string): Promise<Map<string, SkillRegistryEntry>> {
+  const out = new Map<string, SkillRegistryEntry>();
+  for (const registry of registries) {
+    const path = resolveRegistryPath(registry, baseDir);
+    const entries = path.endsWith(".json")
+      ? await readIndexRegistry(path, registry)
+      : await readDirectoryRegistry(path, registry);
+    for (const entry of entries) {
+      if (!out.has(entry.name)) out.set(entry.name, entry);
+    }
+  }
+  return out;
+}
+
+/** The extracted folder holding SKILL.md: the archive root or its only top-level directory. */
+async function findExtractedSkillDir(root: string): Promise<string | undefined> {
+  if (existsSync(join(root, "SKILL.md"))) return root;
+  const dirents = await readdir(root, { withFileTypes: true, encoding: "utf8" });
+  const dirs = dirents.filter((dirent) => dirent.isDirectory());
+  if (dirs.length !== 1) return undefined;
+  const nested = join(root, dirs[0].name);
+  return existsSync(join(nested, "SKILL.md")) ? nested : undefined;
+}
+
+async function installEntry(entry: SkillRegistryEntry, target: string): Promise<void> {
+  if (entry.kind === "directory") {
+    await cp(entry.path, target, { recursive: true });
+    return;
+  }
+  const scratch = await mkdtemp(join(tmpdir(), "orchestra-skill-"));
+  try {
+    await execFileAsync("tar", ["-xzf", entry.path, "-C", scratch]);
+    const source = await findExtractedSkillDir(scratch);
+    if (!source) throw new Error(`Archive ${entry.path} has no SKILL.md at its root or in a single top-level folder.`);
+    await cp(source, target, { recursive: true });
+  } finally {
+    await rm(scratch, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Copy skills from the registry into `<directory>/.opencode/skill/<name>`.
+ * Existing skill folders are skipped unless `overwrite` is set.
+ */
+export async function installSkills(input: {
+  names: string[];
+  registry: Map<string, SkillRegistryEntry>;
+  directory: string;
+  overwrite?: boolean;
+}): Promise<SkillInstallResult> {
+  const result: SkillInstallResult = { installed: [], skipped: [], missing: [] };
+  for (const name of [...new Set(input.names)]) {
+    const entry = input.registry.get(name);
+    if (!entry) {
+      result.missing.push(name);
+      continue;
+    }
+    // The name becomes a folder under .opencode/skill, so it must be a valid skill name.
+    const nameError = validateSkillName(name);
+    if (nameError) throw new Error(`Cannot install skill "${name}": ${nameError}`);
+
+    const target = join(input.directory, ".opencode", "skill", name);
+    if (existsSync(target)) {
+      if (!input.overwrite) {
+        result.skipped.push(name);
+        continue;
+      }
+      await rm(target, { recursive: true, force: true });
+    }
+    await installEntry(entry, target);
+    result.installed.push({ name, path: target, registry: entry.registry });
+  }
+  return result;
+}
@@ -6,6 +6,19 @@ export type WorkerStatus = "starting" | "ready" | "busy" | "error" | "stopped";
 export type WorkerBackend = "agent" | "server";
 export type WorkerKind = "server" | "agent" | "subagent";
 export type WorkerExecution = "foreground" | "background";
+export type WorkerIsolation = "none" | "worktree";
+
+/** Token counts and estimated cost (USD) for one or more prompts. */
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  cost: number;
+  /** Model that produced the tokens (provider/model), when known */
+  model?: string;
+};
 
 export interface WorkerProfile {
   /** Unique identifier for this worker */
@@ -20,6 +33,11 @@ export interface WorkerProfile {
   execution?: WorkerExecution;
   /** Model to use (e.g., "openrouter/meta-llama/llama-3.2-11b-vision-instruct", "anthropic/claude-sonnet-4") */
   model: string;
+  /**
+   * Models tried in order when `model` fails with a provider error (rate limit, 5xx, outage).
+   * Config may give `model` as a list instead; its first entry becomes `model`.
+   */
+  modelFallbacks?: string[];
   /** Provider ID */
   providerID?: string;
   /** What this worker specializes in */
@@ -46,6 +64,16 @@ export interface WorkerProfile {
   requiredSkills?: string[];
   /** Whether to inject repo context on auto-launch (for docs worker) */
   injectRepoContext?: boolean;
+  /** Tasks this worker runs at once; further task_start calls wait in its queue (default: 1) */
+  maxConcurrency?: number;
+  /** Replicas kept running once spawned; idle replicas above this are reaped (default: 1) */
+  minReplicas?: number;
+  /** Upper bound on `opencode serve` replicas spawned under load, e.g. `coder#2` (default: 1) */
+  maxReplicas?: number;
+  /** Idle time before a replica above `minReplicas` is stopped (default: 300000) */
+  replicaIdleTtlMs?: number;
+  /** `worktree` runs each job (and workflow runs using this worker) in its own git worktree on a scratch branch (default: none) */
+  isolation?: WorkerIsolation;
 }
 
 export interface WorkerInstance {
@@ -85,6 +113,8 @@ export interface WorkerInstance {
       notes?: string;
     };
     durationMs?: number;
+    /** Tokens and cost spent producing the result */
+    usage?: TokenUsage;
   };
   /** How the worker model was resolved */
   modelResolution?: string;
@@ -92,6 +122,8 @@ export interface WorkerInstance {
   modelRef?: string;
   /** Model override policy for this worker */
   modelPolicy?: "dynamic" | "sticky";
+  /** Estimated tokens of the bootstrap prompt sent when the session was created */
+  bootstrapTokens?: number;
 }
 
 export interface Registry {
@@ -112,6 +144,25 @@ export type WorkflowSecurityConfig = {
   perStepTimeoutMs?: number;
 };
 
+export type WorkflowHandoffSectionName = "summary" | "actions" | "artifacts" | "risks" | "next";
+
+/** Predicate over a step's output; every field that is set must hold. */
+export type WorkflowStepCondition = {
+  /** Step whose output is checked (default: last dependency for `when`, the step itself for `repeatUntil`) */
+  step?: string;
+  /** Handoff section to check, or "response" for the full text (default: "response") */
+  section?: WorkflowHandoffSectionName | "response";
+  /** Case-insensitive regex that must match */
+  matches?: string;
+  /** Case-insensitive regex that must not match */
+  notMatches?: string;
+  /** Require the checked text to be empty (true) or non-empty (false) */
+  empty?: boolean;
+};
+
+/** A JSON Schema document (validated with the subset in helpers/json-schema). */
+export type JsonSchema = Record<string, unknown>;
+
 export type WorkflowStepConfig = {
   id: string;
   title?: string;
@@ -120,12 +171,48 @@ export type WorkflowStepConfig = {
   carry?: boolean;
   timeoutMs?: number;
   requiredSkills?: string[];
+  /** Step ids this step waits for (default: the previous step) */
+  dependsOn?: string[];
+  /** Skip the step unless this condition holds */
+  when?: WorkflowStepCondition;
+  /** Re-run the loop ending at this step until the condition holds */
+  repeatUntil?: WorkflowStepCondition;
+  /** First step of the loop (default: this step) */
+  repeatFrom?: string;
+  /** Maximum loop iterations, including the first pass (default: 3) */
+  maxIterations?: number;
+  /** Extra attempts on the step's worker after a failed send (default: 0) */
+  retries?: number;
+  /** Delay before the first retry, doubled on each further attempt (default: 0) */
+  backoffMs?: number;
+  /** Worker that gets one last attempt once retries are exhausted */
+  fallbackWorkerId?: string;
+  /** JSON Schema (or the name of one in `outputSchemas`) the response must match */
+  outputSchema?: string | JsonSchema;
+  /** Pause after the step succeeds until someone approves or rejects its output */
+  requiresApproval?: boolean;
+};
+
+export type WorkflowInputType = "string" | "number" | "boolean";
+
+export type WorkflowInputValue = string | number | boolean;
+
+export type WorkflowInputDefinition = {
+  type: WorkflowInputType;
+  description?: string;
+  /** Inputs without a default are required unless this is false */
+  required?: boolean;
+  default?: WorkflowInputValue;
+  /** Allowed values */
+  enum?: WorkflowInputValue[];
 };
 
 export type WorkflowDefinitionConfig = {
   id: string;
   name?: string;
   description?: string;
+  /** Typed inputs passed via task_start `inputs`; a bare type name is shorthand for `{ type }` */
+  inputs?: Record<string, WorkflowInputType | WorkflowInputDefinition>;
   steps: WorkflowStepConfig[];
 };
 
@@ -161,12 +248,61 @@ export type WorkflowsConfig = {
   };
 };
 
+export type BudgetLimit = {
+  /** Max tokens (input, output, reasoning and cache) */
+  maxTokens?: number;
+  /** Max spend in USD */
+  maxCost?: number;
+};
+
+export type BudgetConfig = {
+  /** Per task_start task (a workflow task counts every step it runs) */
+  perJob?: BudgetLimit;
+  /** Per workflow run, across pauses and resumes */
+  perRun?: BudgetLimit;
+  /** Per OpenCode session that starts tasks */
+  perSession?: BudgetLimit;
+  /** Per local calendar day */
+  perDay?: BudgetLimit;
+};
+
+export type DelegationConfig = {
+  /** Let server workers start tasks on peer workers (default: true) */
+  enabled?: boolean;
+  /** Longest chain of worker-to-worker delegations (default: 3) */
+  maxDepth?: number;
+};
+
 export type SecurityConfig = {
   workflows?: WorkflowSecurityConfig;
+  budgets?: BudgetConfig;
+  delegation?: DelegationConfig;
+};
+
+/** `auto` uses Neo4j when the OPENCODE_NEO4J_* env vars are set and the local file store otherwise. */
+export type MemoryBackend = "auto" | "neo4j" | "local";
+
+export type MemoryEmbeddingsConfig = {
+  /** `none` (default), `hash` (offline, deterministic), `openai` (OpenAI-compatible API) or a registered provider */
+  provider?: string;
+  /** Embedding model (openai: default `text-embedding-3-small`) */
+  model?: string;
+  /** Vector size (hash: default 256; openai: passed through when set) */
+  dimensions?: number;
+  /** API base URL (openai: default `https://api.openai.com/v1`) */
+  baseUrl?: string;
+  /** Env var holding the API key (openai: default `OPENAI_API_KEY`) */
+  apiKeyEnv?: string;
 };
 
 export type MemoryConfig = {
   enabled?: boolean;
+  /** Where memory is stored (default: `auto`) */
+  backend?: MemoryBackend;
+  /** Local store file (default: <config>/opencode/orchestrator-memory.json) */
+  path?: string;
+  /** Store vectors with entries so search and injection also match paraphrases */
+  embeddings?: MemoryEmbeddingsConfig;
   autoSpawn?: boolean;
   autoRecord?: boolean;
   /** Inject memory into the system prompt for each message */
@@ -199,6 +335,33 @@ export type MemoryConfig = {
   };
 };
 
+export type JobsConfig = {
+  /** Persist task/job records to disk so they survive restarts (default: true) */
+  persist?: boolean;
+  /** Maximum finished jobs to retain (default: 200) */
+  maxJobs?: number;
+  /** Maximum age of finished jobs before they are pruned (ms, default: 24h) */
+  maxAgeMs?: number;
+};
+
+export type SkillsConfig = {
+  /**
+   * Where missing skills can be installed from: directories of skill folders, or JSON
+   * indexes of skill archives. Relative paths resolve against the project directory.
+   */
+  registries?: string[];
+  /**
+   * What workflow preflight does when skills differ from `skills.lock.json`:
+   * `warn` (default) logs the drift, `fail` stops the run, `off` neither checks nor writes the lock.
+   */
+  lock?: "warn" | "fail" | "off";
+  /**
+   * Record a workflow's skills in `skills.lock.json` on its first run (default: false).
+   * Otherwise the run result says the workflow is unlocked, and the `skills.lock` op locks it.
+   */
+  autoLock?: boolean;
+};
+
 export type TelemetryConfig = {
   enabled?: boolean;
   /** PostHog API key (or set POSTHOG_API_KEY env var) */
@@ -207,6 +370,63 @@ export type TelemetryConfig = {
   host?: string;
 };
 
+/** Capabilities a model must have to be picked. */
+export type ModelRequirements = {
+  /** Image input (models that accept file attachments count) */
+  image?: boolean;
+  toolcall?: boolean;
+  reasoning?: boolean;
+  attachment?: boolean;
+  /** Minimum context window (tokens) */
+  minContext?: number;
+};
+
+/** Price ceilings in USD per million tokens. */
+export type ModelCostCeiling = {
+  input?: number;
+  output?: number;
+};
+
+export type ModelProviderFilter = {
+  /** Only these providers may be picked */
+  allow?: string[];
+  /** These providers are never picked */
+  deny?: string[];
+};
+
+/** Points added to a candidate's score; negative weights penalize. */
+export type ModelPreferenceWeights = {
+  toolcall?: number;
+  reasoning?: number;
+  image?: number;
+  attachment?: number;
+  /** Per 100k tokens of context window, counted up to 1M */
+  context?: number;
+  /** Per USD of input + output price per million tokens */
+  cost?: number;
+  deprecated?: number;
+  /** Added when the provider id matches */
+  providers?: Record<string, number>;
+  /** Added when the regex (case-insensitive) matches the model id or name */
+  patterns?: Record<string, number>;
+};
+
+export type ModelRoutingRule = {
+  require?: ModelRequirements;
+  maxCost?: ModelCostCeiling;
+  providers?: ModelProviderFilter;
+  prefer?: ModelPreferenceWeights;
+};
+
+export type ModelRoutingConfig = {
+  /** Providers allowed/denied for every model the orchestrator resolves */
+  providers?: ModelProviderFilter;
+  /** Price ceiling for every model the orchestrator resolves */
+  maxCost?: ModelCostCeiling;
+  /** Rules for `node:<tag>` tags; merged field by field into the built-in `vision`, `fast` and `docs` rules */
+  tags?: Record<string, ModelRoutingRule>;
+};
+
 export interface OrchestratorConfig {
   /** Base port to start assigning from */
   basePort: number;
@@ -292,6 +512,14 @@ export interface OrchestratorConfig {
   security?: SecurityConfig;
   /** Memory graph settings */
   memory?: MemoryConfig;
+  /** Job registry persistence and retention */
+  jobs?: JobsConfig;
+  /** Named JSON Schemas for structured worker output */
+  outputSchemas?: Record<string, JsonSchema>;
+  /** How `node:<tag>` model tags pick a model, plus provider and cost limits for every model */
+  modelRouting?: ModelRoutingConfig;
+  /** Skill registries and the `skills.lock.json` policy used by workflow preflight */
+  skills?: SkillsConfig;
   /** Telemetry settings (PostHog) */
   telemetry?: TelemetryConfig;
 }
@@ -310,6 +538,10 @@ export type OrchestratorConfigFile = {
   workflows?: OrchestratorConfig["workflows"];
   security?: OrchestratorConfig["security"];
   memory?: OrchestratorConfig["memory"];
+  jobs?: OrchestratorConfig["jobs"];
+  outputSchemas?: OrchestratorConfig["outputSchemas"];
+  modelRouting?: OrchestratorConfig["modelRouting"];
+  skills?: OrchestratorConfig["skills"];
   telemetry?: OrchestratorConfig["telemetry"];
   /** Profiles available to spawn (overrides/custom). Strings reference built-ins. */
   profiles?: Array<string | WorkerProfile>;
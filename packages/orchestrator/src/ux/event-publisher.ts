@@ -26,6 +26,31 @@ export function startEventPublisher(showToast: ToastFn): () => void {
       return;
     }
 
+    if (event.type === "orchestra.workflow.approval") {
+      const data = event.data as Record<string, unknown>;
+      if (data.status !== "pending") return;
+      const step = typeof data.stepTitle === "string" ? data.stepTitle : String(data.stepId ?? "step");
+      const name = typeof data.workflowName === "string" ? data.workflowName : String(data.workflowId ?? "workflow");
+      void showToast(`Workflow "${name}": "${step}" is waiting for approval`, "warning");
+      return;
+    }
+
+    if (event.type === "orchestra.worker.wakeup") {
+      const data = event.data as Record<string, unknown>;
+      if (data.reason !== "needs_attention" && data.reason !== "error") return;
+      const workerId = typeof data.workerId === "string" ? data.workerId : "worker";
+      const label = data.reason === "error" ? "reported an error" : "needs attention";
+      void showToast(`Worker "${workerId}" ${label}`, "warning");
+      return;
+    }
+
+    if (event.type === "orchestra.budget.exceeded") {
+      const data = event.data as Record<string, unknown>;
+      const message = typeof data.message === "string" ? data.message : "Budget exceeded";
+      void showToast(message, "warning");
+      return;
+    }
+
     if (event.type === "orchestra.memory.written") {
       const data = event.data as Record<string, unknown>;
       if (data.action !== "put") return;
@@ -39,6 +39,21 @@ function clampText(input: string, maxChars: number): { text: string; truncated:
   return { text: input.slice(0, Math.max(0, maxChars)) + "\n\n...(truncated)\n", truncated: true };
 }
 
+/** Current git branch of `directory`, or undefined outside a git repo. */
+export function getGitBranch(directory: string): string | undefined {
+  try {
+    return (
+      execSync("git rev-parse --abbrev-ref HEAD", {
+        cwd: directory,
+        encoding: "utf8",
+        stdio: ["pipe", "pipe", "pipe"],
+      }).trim() || undefined
+    );
+  } catch {
+    return undefined;
+  }
+}
+
 function getGitInfo(directory: string): RepoContext["git"] | undefined {
   try {
     const branch = execSync("git rev-parse --abbrev-ref HEAD", {
@@ -253,11 +268,12 @@ export async function getRepoContext(options: {
  * Get repo context formatted for worker prompt injection.
  * Returns undefined if no context can be gathered.
  */
-export async function getRepoContextForWorker(directory: string): Promise<string | undefined> {
+export async function getRepoContextForWorker(directory: string, maxChars = 12000): Promise<string | undefined> {
+  const maxTotalChars = Math.min(12000, maxChars);
   const context = await getRepoContext({
     directory,
-    maxReadmeChars: 6000,
-    maxTotalChars: 12000,
+    maxReadmeChars: Math.floor(maxTotalChars / 2),
+    maxTotalChars,
   });
 
   if (!context) return undefined;
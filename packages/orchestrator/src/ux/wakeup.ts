@@ -1,4 +1,119 @@
 import type { OrchestratorContext } from "../context/orchestrator-context";
+import { workerJobs } from "../core/jobs";
+import { onOrchestratorEvent, type OrchestratorEvent } from "../core/orchestrator-events";
+import { workerPool } from "../core/worker-pool";
+import type { WakeupPayload } from "../types";
+
+export const WAKEUP_REASONS = ["result_ready", "needs_attention", "error", "progress", "custom"] as const;
+
+/** Wakeups allowed per job in each window. */
+export const WAKEUP_RATE_LIMIT = { max: 5, windowMs: 60_000 };
+
+/** Wakeups allowed per worker in each window, across all of its jobs. */
+export const WORKER_WAKEUP_RATE_LIMIT = { max: 10, windowMs: 60_000 };
+
+type WakeupRateLimit = { max: number; windowMs: number };
+type WakeupEntry = { at: number; fingerprint: string };
+
+const MAX_TRACKED_WAKEUP_KEYS = 500;
+
+export type WakeupDecision =
+  | { ok: true }
+  | { ok: false; reason: "duplicate" | "rate_limited"; retryAfterMs: number };
+
+export function isWakeupReason(value: unknown): value is WakeupPayload["reason"] {
+  return typeof value === "string" && (WAKEUP_REASONS as readonly string[]).includes(value);
+}
+
+/**
+ * Gate for worker wakeups. Every wakeup counts toward its worker's limit, and
+ * toward its job's limit when it names one. A repeat of the same reason and
+ * summary inside the window (per job, or per worker without a job) is dropped
+ * as a duplicate.
+ */
+export class WakeupLimiter {
+  private history = new Map<string, WakeupEntry[]>();
+  private limit: WakeupRateLimit;
+  private workerLimit: WakeupRateLimit;
+
+  constructor(limit = WAKEUP_RATE_LIMIT, workerLimit = WORKER_WAKEUP_RATE_LIMIT) {
+    this.limit = limit;
+    this.workerLimit = workerLimit;
+  }
+
+  admit(payload: Pick<WakeupPayload, "workerId" | "jobId" | "reason" | "summary">, now = Date.now()): WakeupDecision {
+    const fingerprint = `${payload.reason}\n${payload.summary?.trim() ?? ""}`;
+    const workerKey = `worker:${payload.workerId}`;
+    const jobKey = payload.jobId ? `job:${payload.jobId}` : undefined;
+    const workerRecent = this.recent(workerKey, this.workerLimit, now);
+    const jobRecent = jobKey ? this.recent(jobKey, this.limit, now) : undefined;
+
+    const scoped = jobRecent ?? workerRecent;
+    const previous = scoped.find((entry) => entry.fingerprint === fingerprint);
+    if (previous) {
+      const windowMs = jobRecent ? this.limit.windowMs : this.workerLimit.windowMs;
+      return { ok: false, reason: "duplicate", retryAfterMs: windowMs - (now - previous.at) };
+    }
+    if (jobRecent && jobRecent.length >= this.limit.max) {
+      return { ok: false, reason: "rate_limited", retryAfterMs: this.limit.windowMs - (now - jobRecent[0].at) };
+    }
+    if (workerRecent.length >= this.workerLimit.max) {
+      return { ok: false, reason: "rate_limited", retryAfterMs: this.workerLimit.windowMs - (now - workerRecent[0].at) };
+    }
+
+    workerRecent.push({ at: now, fingerprint });
+    this.history.set(workerKey, workerRecent);
+    if (jobKey && jobRecent) {
+      jobRecent.push({ at: now, fingerprint });
+      this.history.set(jobKey, jobRecent);
+    }
+    while (this.history.size > MAX_TRACKED_WAKEUP_KEYS) {
+      const oldest = this.history.keys().next().value;
+      if (oldest === undefined) break;
+      this.history.delete(oldest);
+    }
+    return { ok: true };
+  }
+
+  clear() {
+    this.history.clear();
+  }
+
+  /** Entries of `key` inside the window; the key moves to the back so the oldest keys are evicted first. */
+  private recent(key: string, limit: WakeupRateLimit, now: number): WakeupEntry[] {
+    const recent = (this.history.get(key) ?? []).filter((entry) => now - entry.at < limit.windowMs);
+    this.history.delete(key);
+    if (recent.length > 0) this.history.set(key, recent);
+    return recent;
+  }
+}
+
+export const wakeupLimiter = new WakeupLimiter();
+
+/** Session that should hear from a worker: the job's caller, then the worker's parent or owner. */
+export function resolveWakeupSession(payload: Pick<WakeupPayload, "workerId" | "jobId">): string | undefined {
+  const job = payload.jobId ? workerJobs.get(payload.jobId) : undefined;
+  if (job?.sessionId) return job.sessionId;
+  const instance = workerPool.get(payload.workerId);
+  return instance?.parentSessionId ?? workerPool.getSessionForWorker(payload.workerId);
+}
+
+export function formatWakeupNotice(payload: WakeupPayload): string {
+  const headers: Record<WakeupPayload["reason"], string> = {
+    result_ready: "**[WORKER RESULT READY]**",
+    needs_attention: "**[WORKER NEEDS ATTENTION]**",
+    error: "**[WORKER ERROR]**",
+    progress: "**[WORKER PROGRESS]**",
+    custom: "**[WORKER WAKEUP]**",
+  };
+  const lines = [headers[payload.reason], "", `> **Worker:** ${payload.workerId}`];
+  if (payload.jobId) lines.push(`> **Task ID:** \`${payload.jobId}\``);
+  if (payload.summary?.trim()) lines.push("", payload.summary.trim());
+  if (payload.jobId && payload.reason === "result_ready") {
+    lines.push("", "```", `task_await({ taskId: "${payload.jobId}" })`, "```");
+  }
+  return lines.join("\n");
+}
 
 export async function injectSessionNotice(
   context: OrchestratorContext,
@@ -17,3 +132,13 @@ export async function injectSessionNotice(
     // Ignore injection failures (session may have ended, etc.)
   }
 }
+
+/** Inject `orchestra.worker.wakeup` events into the session that owns the worker. */
+export function startWakeupInjector(context: OrchestratorContext): () => void {
+  return onOrchestratorEvent((event) => {
+    if (event.type !== "orchestra.worker.wakeup") return;
+    const { sessionId, ...payload } = (event as OrchestratorEvent<"orchestra.worker.wakeup">).data;
+    if (!sessionId) return;
+    void injectSessionNotice(context, sessionId, formatWakeupNotice(payload));
+  });
+}
@@ -1,7 +1,9 @@
 import type { WorkerInstance, WorkerProfile } from "../../types";
 import { workerPool, type SpawnOptions } from "../../core/worker-pool";
 import { publishErrorEvent } from "../../core/orchestrator-events";
-import { sendWorkerPrompt, type SendToWorkerOptions } from "../send";
+import { getModelErrorKind, sendWorkerPrompt, type SendToWorkerOptions, type SendToWorkerResult } from "../send";
+import { recordWorkerUsage } from "../../core/usage";
+import { estimateTokens, getModelContextLimit } from "../prompt/budget";
 import { buildWorkerBootstrapPrompt } from "../prompt/worker-prompt";
 import { isFullModelID } from "../../models/catalog";
 import { hydrateProfileModelsFromOpencode } from "../../models/hydrate";
@@ -81,7 +83,9 @@ export async function spawnAgentWorker(
     const bootstrapPrompt = await buildWorkerBootstrapPrompt({
       profile: resolvedProfile,
       directory: spawnOptions.directory,
+      contextLimit: await getModelContextLimit(spawnOptions.client, spawnOptions.directory, resolvedProfile.model),
     });
+    instance.bootstrapTokens = estimateTokens(bootstrapPrompt);
 
     await spawnOptions.client.session
       .prompt({
@@ -106,7 +110,7 @@ export async function sendToAgentWorker(
   workerId: string,
   message: string,
   options?: SendToWorkerOptions & { client?: any; directory?: string }
-): Promise<{ success: boolean; response?: string; warning?: string; error?: string }> {
+): Promise<SendToWorkerResult> {
   const instance = workerPool.get(workerId);
 
   if (!instance) {
@@ -151,7 +155,7 @@ export async function sendToAgentWorker(
   try {
     const startedAt = Date.now();
     const warning = instance.warning;
-    const directory = instance.directory ?? options?.directory ?? process.cwd();
+    const directory = options?.directory ?? instance.directory ?? process.cwd();
     const overrideRequested = typeof options?.model === "string" && options.model.trim().length > 0;
     let modelOverride = (options?.model ?? instance.profile.model).trim();
     let resolutionReason = instance.modelResolution;
@@ -171,19 +175,33 @@ export async function sendToAgentWorker(
     if (!overrideRequested && resolutionReason) {
       instance.modelResolution = resolutionReason;
     }
-    const responseText = await sendWorkerPrompt({
+    const { response: responseText, structured, usage: rawUsage, prompts, fit } = await sendWorkerPrompt({
       client,
       sessionId,
       directory,
       workerId,
       message,
       model: modelOverride,
+      bootstrapTokens: instance.bootstrapTokens,
+      sections: options?.promptSections,
+      allowModelSwitch: !overrideRequested,
       attachments: options?.attachments,
       timeoutMs: options?.timeout ?? 600_000,
       jobId: options?.jobId,
       from: options?.from,
       allowStreaming: false,
       debugLabel: "[agent-backend]",
+      outputSchema: options?.outputSchema,
+      schemaRetries: options?.schemaRetries,
+    });
+    const usage = await recordWorkerUsage({
+      client: client,
+      directory: directory,
+      workerId,
+      jobId: options?.jobId,
+      sessionId: options?.sessionId,
+      usage: rawUsage,
+      prompts,
     });
 
     workerPool.updateStatus(workerId, "ready");
@@ -198,9 +216,18 @@ export async function sendToAgentWorker(
       response: responseText,
       report: instance.lastResult?.report,
       durationMs,
+      ...(usage ? { usage } : {}),
     };
 
-    return { success: true, response: responseText, ...(warning ? { warning } : {}) };
+    return {
+      success: true,
+      response: responseText,
+      ...(structured !== undefined ? { structured } : {}),
+      ...(usage ? { usage } : {}),
+      model: fit?.action === "switched" ? fit.model : modelOverride,
+      ...(fit ? { promptFit: fit } : {}),
+      ...(warning ? { warning } : {}),
+    };
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
     const isSdkError = Boolean((error as any)?.isSdkError);
@@ -210,7 +237,8 @@ export async function sendToAgentWorker(
       ? `Last request failed: ${errorMsg}`
       : instance.warning ?? `Last request failed: ${errorMsg}`;
     publishErrorEvent({ message: errorMsg, source: "worker", workerId });
-    return { success: false, error: errorMsg };
+    const errorKind = getModelErrorKind(error);
+    return { success: false, error: errorMsg, ...(errorKind ? { errorKind } : {}) };
   }
 }
 
@@ -15,7 +15,9 @@ import { publishErrorEvent } from "../../core/orchestrator-events";
 import { logger } from "../../core/logger";
 import { hydrateProfileModelsFromOpencode } from "../../models/hydrate";
 import { ensureRuntime, registerWorkerInDeviceRegistry } from "../../core/runtime";
-import { sendWorkerPrompt, type SendToWorkerOptions } from "../send";
+import { getModelErrorKind, sendWorkerPrompt, type SendToWorkerOptions, type SendToWorkerResult } from "../send";
+import { recordWorkerUsage } from "../../core/usage";
+import { estimateTokens, getModelContextLimit } from "../prompt/budget";
 import { buildWorkerBootstrapPrompt } from "../prompt/worker-prompt";
 import { spawnOpencodeServe, resolveWorkerBridgePluginSpecifier } from "../spawn/spawn-opencode";
 import { checkWorkerBridgeTools, isProcessAlive } from "../spawn/readiness";
@@ -112,6 +114,8 @@ async function _spawnWorkerCore(
       env: {
         OPENCODE_ORCH_BRIDGE_URL: rt.bridge.url,
         OPENCODE_ORCH_BRIDGE_TOKEN: rt.bridge.token,
+        // Workers must not inherit the operator token and approve their own steps.
+        OPENCODE_ORCH_ADMIN_TOKEN: undefined,
         OPENCODE_ORCH_INSTANCE_ID: rt.instanceId,
         OPENCODE_ORCH_WORKER_ID: resolvedProfile.id,
       },
@@ -195,7 +199,9 @@ async function _spawnWorkerCore(
     const bootstrapPrompt = await buildWorkerBootstrapPrompt({
       profile: resolvedProfile,
       directory: options.directory,
+      contextLimit: await getModelContextLimit(client, options.directory, resolvedProfile.model),
     });
+    instance.bootstrapTokens = estimateTokens(bootstrapPrompt);
 
     await client.session
       .prompt({
@@ -345,7 +351,7 @@ export async function sendToServerWorker(
   workerId: string,
   message: string,
   options?: SendToWorkerOptions
-): Promise<{ success: boolean; response?: string; warning?: string; error?: string }> {
+): Promise<SendToWorkerResult> {
   const instance = workerPool.get(workerId);
 
   if (!instance) {
@@ -377,20 +383,36 @@ export async function sendToServerWorker(
   try {
     const startedAt = Date.now();
     const warning = instance.warning;
+    const directory = options?.directory ?? instance.directory ?? process.cwd();
 
-    const responseText = await sendWorkerPrompt({
+    const { response: responseText, structured, usage: rawUsage, prompts, fit } = await sendWorkerPrompt({
       client: instance.client,
       sessionId: instance.sessionId,
-      directory: instance.directory ?? process.cwd(),
+      directory,
       workerId,
       message,
       model: options?.model,
+      defaultModel: instance.profile.model,
+      bootstrapTokens: instance.bootstrapTokens,
+      sections: options?.promptSections,
+      allowModelSwitch: !options?.model,
       attachments: options?.attachments,
       timeoutMs: options?.timeout ?? 600_000,
       jobId: options?.jobId,
       from: options?.from,
       allowStreaming: true,
       debugLabel: "[spawner]",
+      outputSchema: options?.outputSchema,
+      schemaRetries: options?.schemaRetries,
+    });
+    const usage = await recordWorkerUsage({
+      client: instance.client,
+      directory,
+      workerId,
+      jobId: options?.jobId,
+      sessionId: options?.sessionId,
+      usage: rawUsage,
+      prompts,
     });
 
     workerPool.updateStatus(workerId, "ready");
@@ -404,6 +426,7 @@ export async function sendToServerWorker(
       response: responseText,
       report: instance.lastResult?.report,
       durationMs,
+      ...(usage ? { usage } : {}),
     };
     if (typeof instance.pid === "number") {
       await registerWorkerInDeviceRegistry({
@@ -419,7 +442,15 @@ export async function sendToServerWorker(
       });
     }
 
-    return { success: true, response: responseText, ...(warning ? { warning } : {}) };
+    return {
+      success: true,
+      response: responseText,
+      ...(structured !== undefined ? { structured } : {}),
+      ...(usage ? { usage } : {}),
+      model: fit?.action === "switched" ? fit.model : options?.model ?? instance.profile.model,
+      ...(fit ? { promptFit: fit } : {}),
+      ...(warning ? { warning } : {}),
+    };
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
     const isSdkError = Boolean((error as any)?.isSdkError);
@@ -429,7 +460,8 @@ export async function sendToServerWorker(
       ? `Last request failed: ${errorMsg}`
       : instance.warning ?? `Last request failed: ${errorMsg}`;
     publishErrorEvent({ message: errorMsg, source: "worker", workerId });
-    return { success: false, error: errorMsg };
+    const errorKind = getModelErrorKind(error);
+    return { success: false, error: errorMsg, ...(errorKind ? { errorKind } : {}) };
   }
 }
 
@@ -0,0 +1,197 @@
+import { fetchProviders, flattenProviders, isFullModelID, type ModelCatalogEntry } from "../../models/catalog";
+import { checkModelPolicy, getModelRoutingConfig } from "../../models/routing";
+import type { WorkerAttachment } from "./attachments";
+
+/** What was done about a prompt's size: sent as-is, moved to a larger model, shortened, or sent oversized. */
+export type PromptFitAction = "fits" | "switched" | "compressed" | "overflow";
+
+export type PromptFit = {
+  action: PromptFitAction;
+  /** Model the prompt was sent to */
+  model: string;
+  /** Model the prompt was meant for, when it was switched */
+  fromModel?: string;
+  /** Context window of `model` (tokens) */
+  contextLimit: number;
+  /** Tokens kept free for the reply */
+  reserveTokens: number;
+  /** Estimated prompt tokens, including the worker's bootstrap prompt */
+  estimatedTokens: number;
+  /** Estimate after compression */
+  compressedTokens?: number;
+  /** Names of the sections that were shortened (e.g. `carry`) */
+  compressed?: string[];
+};
+
+/** A part of the message that may be shortened when the prompt does not fit. */
+export type PromptSection = {
+  name: string;
+  text: string;
+};
+
+/** Rough tokens per image part; providers bill 1-2k for a typical screenshot. */
+const IMAGE_TOKENS = 1600;
+const DEFAULT_REPLY_TOKENS = 4096;
+const MIN_SECTION_CHARS = 400;
+const CATALOG_TTL_MS = 60_000;
+
+/** ~4 characters per token; good enough to tell a 20k prompt from a 200k one. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimatePromptTokens(input: {
+  message: string;
+  attachments?: WorkerAttachment[];
+  bootstrapTokens?: number;
+}): number {
+  const images = (input.attachments ?? []).filter((attachment) => attachment.type === "image").length;
+  return estimateTokens(input.message) + images * IMAGE_TOKENS + (input.bootstrapTokens ?? 0);
+}
+
+/** Tokens left for the reply: the model's output limit, at most a quarter of the window. */
+function replyReserve(model: ModelCatalogEntry, contextLimit: number): number {
+  return Math.min(model.limit?.output || DEFAULT_REPLY_TOKENS, Math.floor(contextLimit / 4));
+}
+
+const catalogs = new WeakMap<object, { at: number; entries: ModelCatalogEntry[] }>();
+
+/** The provider catalog seen by `client`, cached briefly so every prompt does not refetch it. */
+async function loadCatalog(client: any, directory: string): Promise<ModelCatalogEntry[]> {
+  if (!client || typeof client !== "object" || typeof client.config?.providers !== "function") return [];
+  const cached = catalogs.get(client);
+  if (cached && Date.now() - cached.at < CATALOG_TTL_MS) return cached.entries;
+  const entries = await fetchProviders(client, directory)
+    .then((res) => flattenProviders(res.providers))
+    .catch(() => []);
+  catalogs.set(client, { at: Date.now(), entries });
+  return entries;
+}
+
+/** Context window of a `provider/model`, when the catalog knows it. */
+export async function getModelContextLimit(client: any, directory: string, model: string | undefined): Promise<number | undefined> {
+  if (!model || !isFullModelID(model)) return undefined;
+  const entries = await loadCatalog(client, directory);
+  return entries.find((entry) => entry.full === model)?.limit?.context || undefined;
+}
+
+/**
+ * A model whose window holds `promptTokens` and that can do what the current one
+ * does (tool calls, image input when images are attached). Same provider first,
+ * then cheapest, then the smallest window that fits.
+ */
+export function findLargerContextModel(
+  entries: ModelCatalogEntry[],
+  current: ModelCatalogEntry,
+  promptTokens: number,
+  options?: { images?: boolean }
+): ModelCatalogEntry | undefined {
+  const routing = getModelRoutingConfig();
+  const price = (entry: ModelCatalogEntry) => (entry.cost?.input ?? 0) + (entry.cost?.output ?? 0);
+  const candidates = entries.filter((entry) => {
+    const context = entry.limit?.context ?? 0;
+    if (entry.full === current.full || entry.status === "deprecated") return false;
+    if (promptTokens + replyReserve(entry, context) > context) return false;
+    if (current.capabilities?.toolcall && !entry.capabilities?.toolcall) return false;
+    if (options?.images && !(entry.capabilities?.input?.image || entry.capabilities?.attachment)) return false;
+    return checkModelPolicy(entry, routing).length === 0;
+  });
+  return candidates.sort(
+    (a, b) =>
+      Number(b.providerID === current.providerID) - Number(a.providerID === current.providerID) ||
+      price(a) - price(b) ||
+      (a.limit?.context ?? 0) - (b.limit?.context ?? 0)
+  )[0];
+}
+
+function shortenMiddle(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const marker = `\n...(${text.length - maxChars} chars omitted to fit the model's context window)...\n`;
+  const keep = Math.max(0, maxChars - marker.length);
+  const head = Math.ceil(keep * 0.6);
+  return `${text.slice(0, head)}${marker}${text.slice(text.length - (keep - head))}`;
+}
+
+/**
+ * Shorten the sections found in `message` by `excessTokens` overall, each in
+ * proportion to its size. The start and end of a section are kept.
+ */
+export function compressPromptSections(
+  message: string,
+  sections: PromptSection[],
+  excessTokens: number
+): { message: string; compressed: string[] } {
+  const present = sections.filter((section) => section.text.length > MIN_SECTION_CHARS && message.includes(section.text));
+  const total = present.reduce((sum, section) => sum + section.text.length, 0);
+  if (total === 0 || excessTokens <= 0) return { message, compressed: [] };
+
+  const cutChars = excessTokens * 4;
+  let next = message;
+  const compressed: string[] = [];
+  for (const section of present) {
+    const share = Math.ceil((cutChars * section.text.length) / total);
+    const target = Math.max(MIN_SECTION_CHARS, section.text.length - share);
+    if (target >= section.text.length) continue;
+    next = next.replace(section.text, () => shortenMiddle(section.text, target));
+    compressed.push(section.name);
+  }
+  return { message: next, compressed };
+}
+
+/**
+ * Check the prompt against the context window of `model` before it is sent.
+ * When it does not fit, switch to a larger-context model (if allowed), else
+ * shorten the compressible sections. Returns no decision when the window is unknown.
+ */
+export async function fitWorkerPrompt(input: {
+  client: any;
+  directory: string;
+  model?: string;
+  message: string;
+  attachments?: WorkerAttachment[];
+  sections?: PromptSection[];
+  bootstrapTokens?: number;
+  allowModelSwitch?: boolean;
+}): Promise<{ message: string; fit?: PromptFit }> {
+  const entries = input.model && isFullModelID(input.model) ? await loadCatalog(input.client, input.directory) : [];
+  const current = entries.find((entry) => entry.full === input.model);
+  const contextLimit = current?.limit?.context ?? 0;
+  if (!current || contextLimit <= 0) return { message: input.message };
+
+  const reserveTokens = replyReserve(current, contextLimit);
+  const estimatedTokens = estimatePromptTokens(input);
+  const fit = { model: current.full, contextLimit, reserveTokens, estimatedTokens };
+  if (estimatedTokens + reserveTokens <= contextLimit) return { message: input.message, fit: { action: "fits", ...fit } };
+
+  if (input.allowModelSwitch) {
+    const images = input.attachments?.some((attachment) => attachment.type === "image");
+    const larger = findLargerContextModel(entries, current, estimatedTokens, { images });
+    if (larger) {
+      return {
+        message: input.message,
+        fit: {
+          ...fit,
+          action: "switched",
+          model: larger.full,
+          fromModel: current.full,
+          contextLimit: larger.limit.context,
+          reserveTokens: replyReserve(larger, larger.limit.context),
+        },
+      };
+    }
+  }
+
+  const excess = estimatedTokens + reserveTokens - contextLimit;
+  const { message, compressed } = compressPromptSections(input.message, input.sections ?? [], excess);
+  if (compressed.length === 0) return { message, fit: { action: "overflow", ...fit } };
+  const compressedTokens = estimatePromptTokens({ ...input, message });
+  return {
+    message,
+    fit: {
+      action: compressedTokens + reserveTokens <= contextLimit ? "compressed" : "overflow",
+      ...fit,
+      compressedTokens,
+      compressed,
+    },
+  };
+}
@@ -1,4 +1,7 @@
 import { logger } from "../../core/logger";
+import { validateJsonSchema } from "../../helpers/json-schema";
+import { toUsageModel } from "../../core/usage";
+import type { JsonSchema, TokenUsage } from "../../types";
 
 export function extractTextFromPromptResponse(data: unknown): { text: string; debug?: string } {
   const asObj = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null;
@@ -25,6 +28,24 @@ export function extractTextFromPromptResponse(data: unknown): { text: string; de
   return { text, debug };
 }
 
+/** Read token counts from the assistant message info returned by `session.prompt`. */
+export function extractUsageFromPromptResponse(data: any): TokenUsage | undefined {
+  const info = data?.info ?? data?.message?.info;
+  const tokens = info?.tokens;
+  if (!tokens || typeof tokens !== "object") return undefined;
+  const count = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : 0);
+  const model = toUsageModel(info.providerID, info.modelID);
+  return {
+    inputTokens: count(tokens.input),
+    outputTokens: count(tokens.output),
+    reasoningTokens: count(tokens.reasoning),
+    cacheReadTokens: count(tokens.cache?.read),
+    cacheWriteTokens: count(tokens.cache?.write),
+    cost: count(info.cost),
+    ...(model ? { model } : {}),
+  };
+}
+
 export function extractStreamChunks(value: any): string {
   const parts = Array.isArray(value?.parts)
     ? value.parts
@@ -143,3 +164,47 @@ export async function extractWorkerResponse(input: {
 
   return responseText;
 }
+
+function parseJsonCandidate(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/** Pull a JSON value out of a worker reply: raw JSON, a fenced block, or the outermost {...} / [...] span. */
+export function extractJsonFromText(text: string): { ok: true; value: unknown } | { ok: false } {
+  const trimmed = text.trim();
+  const direct = parseJsonCandidate(trimmed);
+  if (direct.ok) return direct;
+
+  const fence = trimmed.match(/```(?:json)?\s*\n([\s\S]*?)\n?```/i);
+  if (fence) {
+    const fenced = parseJsonCandidate(fence[1].trim());
+    if (fenced.ok) return fenced;
+  }
+
+  for (const [open, close] of [
+    ["{", "}"],
+    ["[", "]"],
+  ] as const) {
+    const start = trimmed.indexOf(open);
+    const end = trimmed.lastIndexOf(close);
+    if (start >= 0 && end > start) {
+      const span = parseJsonCandidate(trimmed.slice(start, end + 1));
+      if (span.ok) return span;
+    }
+  }
+  return { ok: false };
+}
+
+export function parseStructuredResponse(
+  text: string,
+  schema: JsonSchema
+): { ok: true; value: unknown } | { ok: false; errors: string[] } {
+  const extracted = extractJsonFromText(text);
+  if (!extracted.ok) return { ok: false, errors: ["response is not valid JSON"] };
+  const errors = validateJsonSchema(extracted.value, schema);
+  return errors.length === 0 ? { ok: true, value: extracted.value } : { ok: false, errors };
+}
@@ -1,4 +1,13 @@
 export type { WorkerAttachment } from "./attachments";
 export { buildPromptParts, normalizeBase64Image, prepareWorkerAttachments } from "./attachments";
-export { extractTextFromPromptResponse, extractStreamChunks, extractWorkerResponse } from "./extract";
+export type { PromptFit, PromptFitAction, PromptSection } from "./budget";
+export { compressPromptSections, estimatePromptTokens, estimateTokens, fitWorkerPrompt } from "./budget";
+export {
+  extractJsonFromText,
+  extractStreamChunks,
+  extractTextFromPromptResponse,
+  extractUsageFromPromptResponse,
+  extractWorkerResponse,
+  parseStructuredResponse,
+} from "./extract";
 export { buildWorkerBootstrapPrompt } from "./worker-prompt";
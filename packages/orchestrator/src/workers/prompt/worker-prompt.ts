@@ -13,9 +13,14 @@ async function resolveProfilePrompt(profile: WorkerProfile): Promise<string | un
   }
 }
 
+/** Share of the model's context window the injected repo context may take. */
+const REPO_CONTEXT_SHARE = 0.1;
+
 export async function buildWorkerBootstrapPrompt(input: {
   profile: WorkerProfile;
   directory?: string;
+  /** Context window of the worker's model; small windows get a shorter repo context */
+  contextLimit?: number;
 }): Promise<string> {
   const { profile, directory } = input;
   const resolvedKind = profile.kind ?? (profile.backend === "server" ? "server" : "agent");
@@ -23,7 +28,8 @@ export async function buildWorkerBootstrapPrompt(input: {
 
   let repoContextSection = "";
   if (profile.injectRepoContext && directory) {
-    const repoContext = await getRepoContextForWorker(directory).catch(() => undefined);
+    const maxChars = input.contextLimit ? Math.floor(input.contextLimit * REPO_CONTEXT_SHARE * 4) : undefined;
+    const repoContext = await getRepoContextForWorker(directory, maxChars).catch(() => undefined);
     if (repoContext) {
       repoContextSection = `\n\n${repoContext}\n`;
     }
@@ -48,7 +54,15 @@ export async function buildWorkerBootstrapPrompt(input: {
       `   - Each chunk is immediately shown to the user as you work\n` +
       `   - Set final=true on the last chunk to indicate completion\n` +
       `   - Include jobId if one was provided\n` +
-      `   - Example: stream_chunk({ chunk: "Analyzing the image...", jobId: "abc123" })\n`
+      `   - Example: stream_chunk({ chunk: "Analyzing the image...", jobId: "abc123" })\n` +
+      `2. **wakeup_orchestrator** - Get the orchestrator's attention on your own\n` +
+      `   - reason: "result_ready", "needs_attention", "error", "progress" or "custom"\n` +
+      `   - Send one wakeup per real change; repeats for the same job are dropped\n` +
+      `   - Example: wakeup_orchestrator({ reason: "needs_attention", summary: "Which API version?", jobId: "abc123" })\n` +
+      `3. **delegate_to_worker** - Hand a self-contained subtask to a peer worker and wait for its reply\n` +
+      `   - Include your jobId so the delegation is tracked under your task\n` +
+      `   - Delegating back to a worker already in the chain is refused\n` +
+      `   - Example: delegate_to_worker({ workerId: "architect", task: "Review this interface: ...", jobId: "abc123" })\n`
     : `## Communication Tools Available\n\n` +
       `No streaming tools are available in this worker backend.\n`;
 
@@ -1,6 +1,13 @@
 import { buildPromptParts, prepareWorkerAttachments, type WorkerAttachment } from "./prompt/attachments";
-import { extractWorkerResponse } from "./prompt/extract";
+import { fitWorkerPrompt, type PromptFit, type PromptSection } from "./prompt/budget";
+import { extractUsageFromPromptResponse, extractWorkerResponse, parseStructuredResponse } from "./prompt/extract";
+import { logger } from "../core/logger";
+import { publishOrchestratorEvent } from "../core/orchestrator-events";
+import { sumUsage } from "../core/usage";
 import { isFullModelID, parseFullModelID } from "../models/catalog";
+import { classifyModelError, type ModelErrorKind, type ModelFailover } from "../models/fallback";
+import type { BudgetConfig, JsonSchema, TokenUsage } from "../types";
+import type { BudgetBreach } from "../core/guardrails";
 
 export type SendToWorkerOptions = {
   attachments?: WorkerAttachment[];
@@ -12,13 +19,65 @@ export type SendToWorkerOptions = {
   sessionId?: string;
   /** Per-message model override (provider/model) */
   model?: string;
+  /** JSON Schema the reply must match; the parsed value is returned as `structured` */
+  outputSchema?: JsonSchema;
+  /** Follow-up prompts asking the worker to fix a reply that fails the schema (default: 1) */
+  schemaRetries?: number;
+  /** Run the prompt in this directory instead of the worker's own (e.g. a job worktree) */
+  directory?: string;
+  /** Parts of the message that may be shortened when the prompt exceeds the model's context window */
+  promptSections?: PromptSection[];
+  /**
+   * Budgets to check before the prompt is sent, against its estimated size.
+   * `job`/`run` name the ledger entries to check (the session and day come from `sessionId` and the date).
+   */
+  budget?: { limits?: BudgetConfig; job?: string; run?: string };
 };
 
+export type SendToWorkerResult = {
+  success: boolean;
+  response?: string;
+  structured?: unknown;
+  /** Tokens and cost across every prompt sent for this message */
+  usage?: TokenUsage;
+  /** Model the message was sent to (provider/model or tag), when known */
+  model?: string;
+  /** Earlier models in the profile's chain that failed with a provider error */
+  modelFailovers?: ModelFailover[];
+  /** How the prompt's size was checked against the model's context window */
+  promptFit?: PromptFit;
+  warning?: string;
+  error?: string;
+  /** Set when the failure came from the model provider (rate limit, outage, ...) */
+  errorKind?: ModelErrorKind;
+  /** Set when the prompt was refused before sending because its estimate would exceed a budget */
+  budgetExceeded?: BudgetBreach;
+};
+
+const DEFAULT_SCHEMA_RETRIES = 1;
+
+/** Error for a failed prompt; provider failures carry `modelErrorKind` so callers can fail over. */
+function toPromptError(source: any): Error {
+  const msg =
+    source?.data?.message ?? source?.message ?? (typeof source === "string" ? source : JSON.stringify(source));
+  const err = new Error(msg);
+  (err as any).isSdkError = true;
+  const kind = classifyModelError(source);
+  if (kind) (err as any).modelErrorKind = kind;
+  return err;
+}
+
+/** Provider error kind of a failed send (see `toPromptError`). */
+export function getModelErrorKind(error: unknown): ModelErrorKind | undefined {
+  return (error as any)?.modelErrorKind ?? classifyModelError(error);
+}
+
 export function buildWorkerTaskText(input: {
   message: string;
   jobId?: string;
   from?: string;
   allowStreaming?: boolean;
+  outputSchema?: JsonSchema;
 }): string {
   const sourceFrom = input.from ?? "orchestrator";
   const jobIdStr = input.jobId ?? "none";
@@ -49,6 +108,14 @@ export function buildWorkerTaskText(input: {
       `</orchestrator-sync>`;
   }
 
+  if (input.outputSchema) {
+    taskText +=
+      `\n\n<output-schema>\n` +
+      `Reply with a single JSON value that matches this JSON Schema. Do not add prose around it.\n` +
+      `${JSON.stringify(input.outputSchema, null, 2)}\n` +
+      `</output-schema>`;
+  }
+
   return taskText;
 }
 
@@ -66,13 +133,35 @@ export async function sendWorkerPrompt(input: {
   agent?: string;
   model?: string;
   debugLabel?: string;
-}): Promise<string> {
-  const taskText = buildWorkerTaskText({
-    message: input.message,
-    jobId: input.jobId,
-    from: input.from,
-    allowStreaming: input.allowStreaming,
+  outputSchema?: JsonSchema;
+  schemaRetries?: number;
+  /** Model the session answers with when `model` is unset, for the context-window check */
+  defaultModel?: string;
+  /** Estimated tokens of the worker's bootstrap prompt, already in the session */
+  bootstrapTokens?: number;
+  /** Sections of `message` that may be shortened to fit the context window */
+  sections?: PromptSection[];
+  /** Move the prompt to a larger-context model when it does not fit (default: false) */
+  allowModelSwitch?: boolean;
+}): Promise<{ response: string; structured?: unknown; usage?: TokenUsage; prompts: number; fit?: PromptFit }> {
+  const { message: taskText, fit } = await fitWorkerPrompt({
+    client: input.client,
+    directory: input.directory,
+    model: input.model ?? input.defaultModel,
+    message: buildWorkerTaskText({
+      message: input.message,
+      jobId: input.jobId,
+      from: input.from,
+      allowStreaming: input.allowStreaming,
+      outputSchema: input.outputSchema,
+    }),
+    attachments: input.attachments,
+    sections: input.sections,
+    bootstrapTokens: input.bootstrapTokens,
+    allowModelSwitch: input.allowModelSwitch,
   });
+  if (fit && fit.action !== "fits") reportPromptFit(input.workerId, input.jobId, fit);
+  const model = fit?.action === "switched" ? fit.model : input.model;
 
   const prepared = await prepareWorkerAttachments({
     attachments: input.attachments,
@@ -80,11 +169,10 @@ export async function sendWorkerPrompt(input: {
     workerId: input.workerId,
   });
 
-  try {
-    const parts = await buildPromptParts({ message: taskText, attachments: prepared.attachments });
-
+  const timeoutMs = input.timeoutMs ?? 600_000;
+  const usages: Array<TokenUsage | undefined> = [];
+  const prompt = async (parts: any[]): Promise<string> => {
     const abort = new AbortController();
-    const timeoutMs = input.timeoutMs ?? 600_000;
     const timer = setTimeout(() => abort.abort(new Error("worker prompt timed out")), timeoutMs);
 
     const result = await input.client.session
@@ -93,7 +181,7 @@ export async function sendWorkerPrompt(input: {
         body: buildWorkerPromptBody({
           parts: parts as any,
           agent: input.agent,
-          model: input.model,
+          model,
         }),
         query: { directory: input.directory },
         signal: abort.signal as any,
@@ -101,17 +189,13 @@ export async function sendWorkerPrompt(input: {
       .finally(() => clearTimeout(timer));
 
     const sdkError: any = (result as any)?.error;
-    if (sdkError) {
-      const msg =
-        sdkError?.data?.message ??
-        sdkError?.message ??
-        (typeof sdkError === "string" ? sdkError : JSON.stringify(sdkError));
-      const err = new Error(msg);
-      (err as any).isSdkError = true;
-      throw err;
-    }
+    if (sdkError) throw toPromptError(sdkError);
 
     const promptData = result.data as any;
+    // The provider failed after the prompt was accepted (e.g. rate limit mid-task).
+    const messageError = promptData?.info?.error;
+    if (messageError && classifyModelError(messageError)) throw toPromptError(messageError);
+    usages.push(extractUsageFromPromptResponse(promptData));
     return await extractWorkerResponse({
       client: input.client,
       sessionId: input.sessionId,
@@ -120,11 +204,48 @@ export async function sendWorkerPrompt(input: {
       timeoutMs,
       debugLabel: input.debugLabel,
     });
+  };
+
+  try {
+    const parts = await buildPromptParts({ message: taskText, attachments: prepared.attachments });
+    let response = await prompt(parts);
+    if (!input.outputSchema) return { response, usage: sumUsage(usages), prompts: usages.length, fit };
+
+    const retries = Math.max(0, input.schemaRetries ?? DEFAULT_SCHEMA_RETRIES);
+    for (let attempt = 0; ; attempt += 1) {
+      const parsed = parseStructuredResponse(response, input.outputSchema);
+      if (parsed.ok) return { response, structured: parsed.value, usage: sumUsage(usages), prompts: usages.length, fit };
+      if (attempt >= retries) {
+        throw new Error(`Worker response did not match the output schema: ${parsed.errors.slice(0, 5).join("; ")}`);
+      }
+      // Ask the same session to correct its reply; the schema is already in its context.
+      response = await prompt([
+        {
+          type: "text",
+          text:
+            `Your previous reply did not match the required JSON Schema:\n` +
+            parsed.errors.map((error) => `- ${error}`).join("\n") +
+            `\n\nReply again with only the corrected JSON value.`,
+        },
+      ]);
+    }
   } finally {
     await prepared.cleanup();
   }
 }
 
+function reportPromptFit(workerId: string, jobId: string | undefined, fit: PromptFit): void {
+  const size = `~${fit.estimatedTokens} prompt tokens`;
+  const message =
+    fit.action === "switched"
+      ? `${size} do not fit ${fit.fromModel}; sending to ${fit.model} (${fit.contextLimit}-token window)`
+      : `${size} + ${fit.reserveTokens} for the reply exceed the ${fit.contextLimit}-token window of ${fit.model}; ` +
+        (fit.compressed ? `shortened ${fit.compressed.join(", ")} to ~${fit.compressedTokens} tokens` : "") +
+        (fit.action === "overflow" ? `${fit.compressed ? "; " : ""}sending anyway` : "");
+  logger.warn(`[prompt] ${workerId}: ${message}`);
+  publishOrchestratorEvent("orchestra.prompt.fit", { workerId, ...(jobId ? { jobId } : {}), ...fit });
+}
+
 export function buildWorkerPromptBody(input: {
   parts: any[];
   agent?: string;
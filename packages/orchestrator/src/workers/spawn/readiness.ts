@@ -1,6 +1,6 @@
 import type { createOpencodeClient } from "@opencode-ai/sdk";
 
-const workerBridgeToolIds = ["stream_chunk"] as const;
+const workerBridgeToolIds = ["stream_chunk", "wakeup_orchestrator", "delegate_to_worker"] as const;
 
 export async function checkWorkerBridgeTools(
   client: ReturnType<typeof createOpencodeClient>,
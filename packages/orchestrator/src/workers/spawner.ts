@@ -4,7 +4,12 @@
 
 import type { WorkerBackend, WorkerInstance, WorkerProfile } from "../types";
 import { workerPool, type SpawnOptions } from "../core/worker-pool";
-import { publishErrorEvent } from "../core/orchestrator-events";
+import { publishErrorEvent, publishOrchestratorEvent } from "../core/orchestrator-events";
+import { findBudgetBreach, formatBudgetBreach } from "../core/guardrails";
+import { estimateInputCost } from "../core/usage";
+import { isActiveJob, workerJobs } from "../core/jobs";
+import { cleanupStaleWorktrees } from "../core/worktrees";
+import { listWorkflowRuns } from "../workflows/runs";
 import { spawnAgentWorker, sendToAgentWorker, stopAgentWorker } from "./backends/agent";
 import {
   spawnServerWorker,
@@ -14,8 +19,12 @@ import {
   listReusableServerWorkers,
   cleanupDeadServerWorkers,
 } from "./backends/server";
-import type { SendToWorkerOptions } from "./send";
+import type { SendToWorkerOptions, SendToWorkerResult } from "./send";
+import { estimatePromptTokens } from "./prompt/budget";
 import { isFullModelID } from "../models/catalog";
+import { getModelChain, type ModelFailover } from "../models/fallback";
+import { hydrateProfileModelsFromOpencode } from "../models/hydrate";
+import { logger } from "../core/logger";
 
 function resolveWorkerBackend(profile: WorkerProfile): WorkerBackend {
   if (profile.kind === "server") return "server";
@@ -55,11 +64,43 @@ export async function stopWorker(workerId: string): Promise<boolean> {
   return stopServerWorker(workerId);
 }
 
+/** Refuse a prompt whose estimated size would take a budget past its limit. */
+function checkSendBudget(
+  instance: WorkerInstance,
+  message: string,
+  model: string | undefined,
+  options: SendToWorkerOptions | undefined
+): SendToWorkerResult | undefined {
+  const limits = options?.budget?.limits;
+  if (!limits) return undefined;
+  const tokens = estimatePromptTokens({
+    message,
+    attachments: options?.attachments,
+    bootstrapTokens: instance.bootstrapTokens,
+  });
+  const cost = estimateInputCost(model ?? instance.profile.model, tokens);
+  const breach = findBudgetBreach(
+    limits,
+    { job: options?.budget?.job, run: options?.budget?.run, session: options?.sessionId },
+    { tokens, ...(cost !== undefined ? { cost } : {}) }
+  );
+  if (!breach) return undefined;
+  const error = `Budget exceeded: ${formatBudgetBreach(breach)}. Raise security.budgets in orchestrator.json to send this prompt.`;
+  publishOrchestratorEvent("orchestra.budget.exceeded", {
+    ...breach,
+    action: "refused",
+    message: error,
+    sessionId: options?.sessionId,
+    runId: options?.budget?.run,
+  });
+  return { success: false, error, budgetExceeded: breach };
+}
+
 export async function sendToWorker(
   workerId: string,
   message: string,
   options?: SendToWorkerOptions & { client?: any; directory?: string }
-): Promise<{ success: boolean; response?: string; warning?: string; error?: string }> {
+): Promise<SendToWorkerResult> {
   const instance = workerPool.get(workerId);
   if (!instance) {
     publishErrorEvent({ message: `Worker "${workerId}" not found`, source: "worker", workerId });
@@ -71,10 +112,48 @@ export async function sendToWorker(
     options?.model ??
     (stickyModel && (backend === "agent" || isFullModelID(stickyModel)) ? stickyModel : undefined);
   const nextOptions = resolvedModel ? { ...(options ?? {}), model: resolvedModel } : options;
-  if (backend === "agent") {
-    return sendToAgentWorker(workerId, message, nextOptions);
+  const refused = checkSendBudget(instance, message, resolvedModel, options);
+  if (refused) return refused;
+  const send = (sendOptions: typeof options) =>
+    backend === "agent"
+      ? sendToAgentWorker(workerId, message, sendOptions)
+      : sendToServerWorker(workerId, message, sendOptions);
+
+  let result = await send(nextOptions);
+  // An explicit per-message model is honored as-is; only the profile's chain fails over.
+  if (result.success || !result.errorKind || options?.model) return result;
+
+  const modelFailovers: ModelFailover[] = [];
+  let failedModel = result.model ?? instance.profile.model;
+  for (const ref of getModelChain(instance.profile).slice(1)) {
+    if (!result.errorKind) break;
+    modelFailovers.push({ model: failedModel, kind: result.errorKind, error: result.error ?? "unknown_error" });
+    logger.warn(`[spawner] ${workerId}: ${failedModel} failed (${result.errorKind}); retrying on ${ref}`);
+    let model: string;
+    try {
+      model = await resolveChainModel(instance, ref, options?.directory ?? instance.directory ?? process.cwd());
+    } catch (err) {
+      failedModel = ref;
+      result = { success: false, error: err instanceof Error ? err.message : String(err), errorKind: "unavailable" };
+      continue;
+    }
+    result = await send({ ...(options ?? {}), model });
+    failedModel = result.model ?? model;
+    if (result.success) break;
   }
-  return sendToServerWorker(workerId, message, nextOptions);
+  return modelFailovers.length > 0 ? { ...result, modelFailovers } : result;
+}
+
+/** Agent workers resolve model tags themselves; server workers need `provider/model`. */
+async function resolveChainModel(instance: WorkerInstance, ref: string, directory: string): Promise<string> {
+  if (isFullModelID(ref) || resolveWorkerBackend(instance.profile) === "agent") return ref;
+  if (!instance.client) throw new Error(`Cannot resolve fallback model "${ref}" without a worker client.`);
+  const { profiles } = await hydrateProfileModelsFromOpencode({
+    client: instance.client,
+    directory,
+    profiles: { [instance.profile.id]: { ...instance.profile, model: ref } },
+  });
+  return profiles[instance.profile.id]?.model ?? ref;
 }
 
 export async function spawnWorkers(
@@ -122,6 +201,27 @@ export async function listReusableWorkers() {
   return listReusableServerWorkers();
 }
 
-export async function cleanupDeadWorkers() {
-  return cleanupDeadServerWorkers();
+/**
+ * Drop registry entries of dead worker processes and, when `directory` is set,
+ * job worktrees that no running job or paused workflow run still uses.
+ */
+export async function cleanupDeadWorkers(options?: { directory?: string }): Promise<{ workers: number; worktrees: number }> {
+  const workers = await cleanupDeadServerWorkers();
+  if (!options?.directory) return { workers, worktrees: 0 };
+
+  const inUse = new Set<string>();
+  for (const job of workerJobs.list({ limit: Number.MAX_SAFE_INTEGER })) {
+    if (job.worktree && isActiveJob(job)) inUse.add(job.worktree.path);
+  }
+  for (const run of listWorkflowRuns({ status: ["running", "paused"] })) {
+    if (run.worktree) inUse.add(run.worktree.path);
+  }
+
+  const cleaned = await cleanupStaleWorktrees(options.directory, (checkout) => inUse.has(checkout.path));
+  for (const { ownerId, worktree, changes } of cleaned) {
+    if (!workerJobs.get(ownerId)) continue;
+    workerJobs.setWorktree(ownerId, worktree);
+    workerJobs.setChanges(ownerId, changes);
+  }
+  return { workers, worktrees: cleaned.length };
 }
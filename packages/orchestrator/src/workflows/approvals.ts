@@ -0,0 +1,147 @@
+import { logger } from "../core/logger";
+import { publishOrchestratorEvent } from "../core/orchestrator-events";
+import { collectCompletedStepIds } from "./engine";
+import { getWorkflowRun, saveWorkflowRun, type WorkflowRunState } from "./runs";
+import type { WorkflowPendingApproval, WorkflowStepApproval, WorkflowStepResult } from "./types";
+
+export type WorkflowApprovalDecision = {
+  runId: string;
+  /** Step to decide on; may be omitted while the run waits on a single step */
+  stepId?: string;
+  decision: "approved" | "rejected";
+  approver: string;
+  comment?: string;
+  /** Replacement carry for downstream steps (approvals only) */
+  carry?: string;
+  /** Amended instructions the step is retried with (rejections only) */
+  instructions?: string;
+};
+
+export type WorkflowApprovalOutcome =
+  | { ok: true; runId: string; stepId: string; decision: "approved" | "rejected"; resumed: boolean }
+  | { ok: false; error: string };
+
+export type WorkflowApprovalHandler = (decision: WorkflowApprovalDecision) => Promise<WorkflowApprovalOutcome>;
+
+function describePending(pending: WorkflowPendingApproval[]): string {
+  return pending.map((entry) => `"${entry.stepId}"`).join(", ");
+}
+
+/** Error shown when a run waiting for approval is continued without a decision. */
+export function formatPendingApprovalError(run: Pick<WorkflowRunState, "runId" | "pendingApprovals">): string {
+  return (
+    `Workflow run "${run.runId}" is waiting for approval of step ${describePending(run.pendingApprovals ?? [])}. ` +
+    `Decide with task_start({ kind: "op", op: "workflow.approve" or "workflow.reject", approval: { runId: "${run.runId}" } }).`
+  );
+}
+
+/** Mark a settled step as waiting for approval and announce it with its carry. */
+export function requestWorkflowApproval(run: WorkflowRunState, step: WorkflowStepResult): void {
+  const pending: WorkflowPendingApproval = {
+    stepId: step.id,
+    stepTitle: step.title,
+    ...(step.iteration ? { iteration: step.iteration } : {}),
+    requestedAt: Date.now(),
+  };
+  run.pendingApprovals = [...(run.pendingApprovals ?? []).filter((entry) => entry.stepId !== step.id), pending];
+  publishOrchestratorEvent("orchestra.workflow.approval", {
+    runId: run.runId,
+    workflowId: run.workflowId,
+    workflowName: run.workflowName,
+    stepId: step.id,
+    stepTitle: step.title,
+    ...(step.iteration ? { iteration: step.iteration } : {}),
+    status: "pending",
+    carry: run.carryByStep[step.id] ?? "",
+  });
+}
+
+/**
+ * Record a decision on a step waiting for approval. Approving can replace the
+ * step's carry; rejecting marks the step for another run with the amended
+ * instructions. The run stays paused until it is continued.
+ */
+export function recordWorkflowApproval(input: WorkflowApprovalDecision): {
+  run: WorkflowRunState;
+  stepId: string;
+  approval: WorkflowStepApproval;
+} {
+  const run = getWorkflowRun(input.runId);
+  if (!run) throw new Error(`Unknown workflow run "${input.runId}".`);
+  const pending = run.pendingApprovals ?? [];
+  if (run.status !== "paused" || pending.length === 0) {
+    throw new Error(`Workflow run "${input.runId}" is not waiting for an approval.`);
+  }
+  const target = input.stepId
+    ? pending.find((entry) => entry.stepId === input.stepId)
+    : pending.length === 1
+      ? pending[0]
+      : undefined;
+  if (!target) {
+    throw new Error(
+      input.stepId
+        ? `Step "${input.stepId}" of workflow run "${input.runId}" is not waiting for approval (waiting: ${describePending(pending)}).`
+        : `Workflow run "${input.runId}" is waiting on several steps (${describePending(pending)}); pass stepId.`
+    );
+  }
+
+  const approved = input.decision === "approved";
+  const comment = input.comment?.trim();
+  const instructions = input.instructions?.trim();
+  const approval: WorkflowStepApproval = {
+    decision: input.decision,
+    approver: input.approver,
+    ...(comment ? { comment } : {}),
+    ...(approved && typeof input.carry === "string" ? { carryEdited: true } : {}),
+    ...(!approved && instructions ? { instructions } : {}),
+    decidedAt: Date.now(),
+  };
+
+  const result = [...run.steps].reverse().find((step) => step.id === target.stepId && step.status === "success");
+  if (result) result.approval = approval;
+  run.pendingApprovals = pending.filter((entry) => entry !== target);
+  if (approved && typeof input.carry === "string") {
+    run.carryByStep[target.stepId] = input.carry;
+    run.carry = input.carry;
+  }
+  if (!approved) {
+    const next = { ...run.stepInstructions };
+    if (instructions) next[target.stepId] = instructions;
+    else delete next[target.stepId];
+    run.stepInstructions = next;
+    run.currentStepIndex = collectCompletedStepIds(run.steps, run.iterations).size;
+  }
+  run.updatedAt = approval.decidedAt;
+  saveWorkflowRun(run);
+
+  logger.info(`[workflow] run=${run.runId} step=${target.stepId} ${approval.decision} by ${approval.approver}`);
+  publishOrchestratorEvent("orchestra.workflow.approval", {
+    runId: run.runId,
+    workflowId: run.workflowId,
+    workflowName: run.workflowName,
+    stepId: target.stepId,
+    stepTitle: target.stepTitle,
+    ...(target.iteration ? { iteration: target.iteration } : {}),
+    status: approval.decision,
+    approver: approval.approver,
+    ...(approval.comment ? { comment: approval.comment } : {}),
+    ...(approval.carryEdited ? { carryEdited: true } : {}),
+    ...(approval.instructions ? { instructions: approval.instructions } : {}),
+  });
+
+  return { run, stepId: target.stepId, approval };
+}
+
+let approvalHandler: WorkflowApprovalHandler | undefined;
+
+/** Install the handler the bridge uses for approval decisions. Returns an uninstall function. */
+export function setWorkflowApprovalHandler(handler: WorkflowApprovalHandler): () => void {
+  approvalHandler = handler;
+  return () => {
+    if (approvalHandler === handler) approvalHandler = undefined;
+  };
+}
+
+export function getWorkflowApprovalHandler(): WorkflowApprovalHandler | undefined {
+  return approvalHandler;
+}
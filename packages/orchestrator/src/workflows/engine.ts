@@ -1,14 +1,24 @@
 import { randomUUID } from "node:crypto";
+import type { JsonSchema, TokenUsage } from "../types";
 import type {
   WorkflowDefinition,
+  WorkflowInputDefinition,
+  WorkflowInputValue,
   WorkflowRunInput,
   WorkflowRunResult,
+  WorkflowStepCondition,
   WorkflowStepDefinition,
+  WorkflowStepAttempt,
   WorkflowStepResult,
+  WorkflowTemplateContext,
 } from "./types";
+import type { JobChanges } from "../core/diffs";
+import type { BudgetBreach } from "../core/guardrails";
 import { publishOrchestratorEvent } from "../core/orchestrator-events";
 import { logger } from "../core/logger";
+import { sumUsage } from "../core/usage";
 import { expandPromptSnippets } from "../prompts/load";
+import type { PromptSection } from "../workers/prompt/budget";
 
 const workflows = new Map<string, WorkflowDefinition>();
 
@@ -17,14 +27,36 @@ export type WorkflowRunDependencies = {
   sendToWorker: (
     workerId: string,
     message: string,
-    options: { attachments?: WorkflowRunInput["attachments"]; timeoutMs: number }
-  ) => Promise<{ success: boolean; response?: string; warning?: string; error?: string }>;
+    options: {
+      attachments?: WorkflowRunInput["attachments"];
+      timeoutMs: number;
+      /** Step output schema: inline JSON Schema or a name from `outputSchemas` */
+      outputSchema?: string | JsonSchema;
+      /** Parts of the prompt that may be shortened to fit the model's context window */
+      promptSections?: PromptSection[];
+    }
+  ) => Promise<{
+    success: boolean;
+    response?: string;
+    structured?: unknown;
+    usage?: TokenUsage;
+    warning?: string;
+    error?: string;
+    /** Files the worker changed while handling the message */
+    changes?: JobChanges;
+    /** The prompt was refused before sending because it would exceed a budget */
+    budgetExceeded?: BudgetBreach;
+  }>;
 };
 
 export function registerWorkflow(def: WorkflowDefinition) {
   workflows.set(def.id, def);
 }
 
+export function unregisterWorkflow(id: string): boolean {
+  return workflows.delete(id);
+}
+
 export function listWorkflows(): WorkflowDefinition[] {
   return [...workflows.values()].sort((a, b) => a.id.localeCompare(b.id));
 }
@@ -34,11 +66,430 @@ export function getWorkflow(id: string): WorkflowDefinition | undefined {
 }
 
 function applyTemplate(template: string, vars: Record<string, string>): string {
-  let out = template;
-  for (const [key, value] of Object.entries(vars)) {
-    out = out.replaceAll(`{${key}}`, value);
+  // Single pass so substituted values (worker output, task text) are never re-expanded.
+  return template.replace(/\{([A-Za-z0-9_.-]+)\}/g, (match, key: string) =>
+    Object.hasOwn(vars, key) ? vars[key] : match
+  );
+}
+
+const stepReferenceRegex = /\{steps\.([A-Za-z0-9_-]+)\.[A-Za-z]+\}/g;
+const inputReferenceRegex = /\{inputs\.([A-Za-z0-9_.-]+)\}/g;
+const inputNameRegex = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Resolve each step's dependencies: explicit `dependsOn`, otherwise the previous step.
+ * Workflows without any `dependsOn` therefore keep their sequential behavior.
+ */
+export function resolveStepDependencies(workflow: WorkflowDefinition): Map<string, string[]> {
+  const dependencies = new Map<string, string[]>();
+  workflow.steps.forEach((step, index) => {
+    if (Array.isArray(step.dependsOn)) {
+      dependencies.set(step.id, [...new Set(step.dependsOn)]);
+      return;
+    }
+    const previous = workflow.steps[index - 1];
+    dependencies.set(step.id, previous ? [previous.id] : []);
+  });
+  return dependencies;
+}
+
+function collectAncestors(stepId: string, dependencies: Map<string, string[]>): Set<string> {
+  const ancestors = new Set<string>();
+  const pending = [...(dependencies.get(stepId) ?? [])];
+  while (pending.length > 0) {
+    const next = pending.pop() as string;
+    if (ancestors.has(next)) continue;
+    ancestors.add(next);
+    pending.push(...(dependencies.get(next) ?? []));
+  }
+  return ancestors;
+}
+
+function validateCondition(workflowId: string, stepId: string, condition: WorkflowStepCondition): void {
+  for (const pattern of [condition.matches, condition.notMatches]) {
+    if (pattern === undefined) continue;
+    try {
+      new RegExp(pattern, "i");
+    } catch {
+      throw new Error(`Step "${stepId}" in workflow "${workflowId}" has an invalid condition pattern: ${pattern}`);
+    }
+  }
+}
+
+function describeInputValue(value: unknown): string {
+  return typeof value === "string" ? `"${value}"` : JSON.stringify(value) ?? String(value);
+}
+
+/** Coerce a supplied value to the input's type, or return why it does not fit. */
+function coerceInputValue(
+  name: string,
+  definition: WorkflowInputDefinition,
+  value: unknown
+): { value: WorkflowInputValue } | { error: string } {
+  let coerced: unknown = value;
+  if (typeof value === "string" && definition.type === "number" && value.trim() !== "") coerced = Number(value);
+  if (typeof value === "string" && definition.type === "boolean") {
+    if (value === "true") coerced = true;
+    if (value === "false") coerced = false;
+  }
+  const matches =
+    definition.type === "number"
+      ? typeof coerced === "number" && Number.isFinite(coerced)
+      : definition.type === "boolean"
+        ? typeof coerced === "boolean"
+        : typeof coerced === "string";
+  if (!matches) return { error: `"${name}" must be a ${definition.type} (got ${describeInputValue(value)})` };
+  const typed = coerced as WorkflowInputValue;
+  if (definition.enum && !definition.enum.includes(typed)) {
+    return { error: `"${name}" must be one of ${definition.enum.map(describeInputValue).join(", ")} (got ${describeInputValue(value)})` };
+  }
+  return { value: typed };
+}
+
+function validateInputDefinitions(workflow: WorkflowDefinition): void {
+  for (const [name, definition] of Object.entries(workflow.inputs ?? {})) {
+    if (!inputNameRegex.test(name)) {
+      throw new Error(`Workflow "${workflow.id}" has an invalid input name "${name}" (use letters, digits, "_" or "-").`);
+    }
+    if (definition.default !== undefined) {
+      const checked = coerceInputValue(name, definition, definition.default);
+      if ("error" in checked) throw new Error(`Workflow "${workflow.id}" has an invalid default: ${checked.error}.`);
+    }
+  }
+  for (const step of workflow.steps) {
+    for (const match of step.prompt.matchAll(inputReferenceRegex)) {
+      const ref = match[1] ?? "";
+      if (!workflow.inputs || !Object.hasOwn(workflow.inputs, ref)) {
+        throw new Error(`Step "${step.id}" in workflow "${workflow.id}" references "${match[0]}" but the workflow declares no input "${ref}".`);
+      }
+    }
+  }
+}
+
+/**
+ * Check supplied values against the workflow's declared inputs: unknown names,
+ * missing required inputs, wrong types and values outside `enum` all fail.
+ * Strings are coerced to numbers/booleans; defaults fill the gaps.
+ */
+export function resolveWorkflowInputs(
+  workflow: WorkflowDefinition,
+  supplied: Record<string, unknown> | undefined
+): Record<string, WorkflowInputValue> {
+  const declared = workflow.inputs ?? {};
+  const resolved: Record<string, WorkflowInputValue> = {};
+  const problems: string[] = [];
+
+  for (const name of Object.keys(supplied ?? {})) {
+    if (!Object.hasOwn(declared, name)) problems.push(`unknown input "${name}"`);
+  }
+  for (const [name, definition] of Object.entries(declared)) {
+    const value = supplied?.[name];
+    if (value === undefined || value === null) {
+      if (definition.default !== undefined) resolved[name] = definition.default;
+      else if (definition.required !== false) problems.push(`missing required input "${name}" (${definition.type})`);
+      continue;
+    }
+    const checked = coerceInputValue(name, definition, value);
+    if ("error" in checked) problems.push(checked.error);
+    else resolved[name] = checked.value;
+  }
+
+  if (problems.length > 0) {
+    const accepted = Object.entries(declared).map(([name, definition]) => `${name}: ${definition.type}`);
+    const hint = accepted.length > 0 ? ` Accepted inputs: ${accepted.join(", ")}.` : " It declares no inputs.";
+    throw new Error(`Invalid inputs for workflow "${workflow.id}": ${problems.join("; ")}.${hint}`);
+  }
+  return resolved;
+}
+
+export function validateWorkflowGraph(workflow: WorkflowDefinition): void {
+  validateInputDefinitions(workflow);
+
+  const ids = new Set<string>();
+  for (const step of workflow.steps) {
+    if (ids.has(step.id)) {
+      throw new Error(`Workflow "${workflow.id}" has duplicate step id "${step.id}".`);
+    }
+    ids.add(step.id);
+  }
+
+  const dependencies = resolveStepDependencies(workflow);
+  for (const [stepId, dependsOn] of dependencies) {
+    for (const dep of dependsOn) {
+      if (dep === stepId) throw new Error(`Step "${stepId}" in workflow "${workflow.id}" depends on itself.`);
+      if (!ids.has(dep)) {
+        throw new Error(`Step "${stepId}" in workflow "${workflow.id}" depends on unknown step "${dep}".`);
+      }
+    }
+  }
+
+  const remaining = new Map([...dependencies].map(([id, dependsOn]) => [id, dependsOn]));
+  let progressed = true;
+  while (remaining.size > 0 && progressed) {
+    progressed = false;
+    for (const [id, dependsOn] of remaining) {
+      if (dependsOn.some((dep) => remaining.has(dep))) continue;
+      remaining.delete(id);
+      progressed = true;
+    }
+  }
+  if (remaining.size > 0) {
+    throw new Error(`Workflow "${workflow.id}" has a dependency cycle between steps: ${[...remaining.keys()].join(", ")}.`);
+  }
+
+  for (const step of workflow.steps) {
+    const ancestors = collectAncestors(step.id, dependencies);
+    if (step.when) {
+      const source = step.when.step ?? dependencies.get(step.id)?.at(-1);
+      if (!source || !ancestors.has(source)) {
+        throw new Error(`Step "${step.id}" in workflow "${workflow.id}" has a "when" condition without an upstream step to check.`);
+      }
+      validateCondition(workflow.id, step.id, step.when);
+    }
+    if (step.repeatUntil) {
+      const source = step.repeatUntil.step ?? step.id;
+      const from = step.repeatFrom ?? step.id;
+      if (source !== step.id && !ancestors.has(source)) {
+        throw new Error(`Step "${step.id}" in workflow "${workflow.id}" repeats until a step that is not upstream ("${source}").`);
+      }
+      if (from !== step.id && !ancestors.has(from)) {
+        throw new Error(`Step "${step.id}" in workflow "${workflow.id}" repeats from a step that is not upstream ("${from}").`);
+      }
+      validateCondition(workflow.id, step.id, step.repeatUntil);
+    }
+    for (const match of step.prompt.matchAll(stepReferenceRegex)) {
+      const ref = match[1] ?? "";
+      if (!ancestors.has(ref)) {
+        throw new Error(`Step "${step.id}" in workflow "${workflow.id}" references "${match[0]}" but does not depend on "${ref}".`);
+      }
+    }
+  }
+}
+
+/** Step graph summary published with workflow events so UIs can render the DAG. */
+export function describeWorkflowGraph(
+  workflow: WorkflowDefinition
+): Array<{ id: string; title: string; workerId: string; dependsOn: string[] }> {
+  const dependencies = resolveStepDependencies(workflow);
+  return workflow.steps.map((step) => ({
+    id: step.id,
+    title: step.title,
+    workerId: step.workerId,
+    dependsOn: dependencies.get(step.id) ?? [],
+  }));
+}
+
+/** Output that can feed downstream steps: not failed and not rejected by an approver. */
+function isUsableStepResult(step: WorkflowStepResult): boolean {
+  return step.status !== "error" && step.approval?.decision !== "rejected";
+}
+
+/** Steps settled (succeeded or skipped) in their current loop iteration. */
+export function collectCompletedStepIds(
+  steps: WorkflowStepResult[],
+  iterations: Record<string, number> = {}
+): Set<string> {
+  return new Set(
+    steps
+      .filter((step) => isUsableStepResult(step) && (step.iteration ?? 1) === (iterations[step.id] ?? 1))
+      .map((step) => step.id)
+  );
+}
+
+export function collectStepOutputs(steps: WorkflowStepResult[]): Record<string, string> {
+  const outputs: Record<string, string> = {};
+  for (const step of steps) {
+    if (isUsableStepResult(step)) outputs[step.id] = step.response ?? "";
+  }
+  return outputs;
+}
+
+/** Changes recorded by each usable step, keyed by step id. */
+export function collectStepChanges(steps: WorkflowStepResult[]): Record<string, JobChanges> {
+  const changes: Record<string, JobChanges> = {};
+  for (const step of steps) {
+    if (isUsableStepResult(step) && step.changes) changes[step.id] = step.changes;
+  }
+  return changes;
+}
+
+export function countStepExecutions(steps: WorkflowStepResult[]): number {
+  return steps.filter((step) => step.status !== "skipped").length;
+}
+
+/**
+ * Steps whose dependencies have all succeeded. At most one step per worker is
+ * selected, and none for a worker that a `running` step holds, so a worker never
+ * receives two prompts at once.
+ */
+export function selectRunnableSteps(
+  workflow: WorkflowDefinition,
+  dependencies: Map<string, string[]>,
+  completed: Set<string>,
+  running: Set<string> = new Set()
+): WorkflowStepDefinition[] {
+  const claimedWorkers = new Set(workflow.steps.filter((step) => running.has(step.id)).map((step) => step.workerId));
+  const runnable: WorkflowStepDefinition[] = [];
+  for (const step of workflow.steps) {
+    if (completed.has(step.id) || running.has(step.id)) continue;
+    const dependsOn = dependencies.get(step.id) ?? [];
+    if (!dependsOn.every((dep) => completed.has(dep))) continue;
+    if (claimedWorkers.has(step.workerId)) continue;
+    claimedWorkers.add(step.workerId);
+    runnable.push(step);
+  }
+  return runnable;
+}
+
+export type ScheduledStep<T> = {
+  step: WorkflowStepDefinition;
+  stepIndex: number;
+  startedAt: number;
+  outcome: PromiseSettledResult<T>;
+  /** Steps still running when this one settled */
+  running: number;
+};
+
+/**
+ * Run a workflow's steps as a DAG: each step starts as soon as the steps it
+ * depends on have completed and its worker is free, not when its whole wave is
+ * done. `settle` handles each step as it finishes (a step that threw settles as
+ * rejected) and returns false to stop starting new steps; steps already running
+ * still settle. Resolves once nothing is running and nothing more can start.
+ */
+export async function scheduleWorkflowSteps<T>(input: {
+  workflow: WorkflowDefinition;
+  dependencies: Map<string, string[]>;
+  completed: () => Set<string>;
+  /** Checked before steps are started; returning false stops the schedule */
+  canStart?: () => boolean;
+  start: (step: WorkflowStepDefinition, stepIndex: number) => Promise<T>;
+  settle: (settled: ScheduledStep<T>) => Promise<boolean> | boolean;
+}): Promise<void> {
+  const running = new Map<string, Promise<Omit<ScheduledStep<T>, "running">>>();
+  let starting = true;
+  for (;;) {
+    const runnable = starting
+      ? selectRunnableSteps(input.workflow, input.dependencies, input.completed(), new Set(running.keys()))
+      : [];
+    if (runnable.length > 0 && input.canStart && !input.canStart()) starting = false;
+    else {
+      for (const step of runnable) {
+        const stepIndex = input.workflow.steps.indexOf(step);
+        const startedAt = Date.now();
+        const settled = Promise.allSettled([Promise.resolve().then(() => input.start(step, stepIndex))]).then(
+          ([outcome]) => ({ step, stepIndex, startedAt, outcome })
+        );
+        running.set(step.id, settled);
+      }
+    }
+    if (running.size === 0) return;
+
+    const settled = await Promise.race(running.values());
+    running.delete(settled.step.id);
+    if (!(await input.settle({ ...settled, running: running.size }))) starting = false;
+  }
+}
+
+/** Step result for a step whose execution threw instead of returning a result. */
+export function toFailedStepResult(step: WorkflowStepDefinition, startedAt: number, err: unknown, iteration?: number): WorkflowStepResult {
+  const finishedAt = Date.now();
+  return {
+    id: step.id,
+    title: step.title,
+    workerId: step.workerId,
+    status: "error",
+    error: err instanceof Error ? err.message : String(err),
+    ...(iteration && iteration > 1 ? { iteration } : {}),
+    startedAt,
+    finishedAt,
+    durationMs: finishedAt - startedAt,
+  };
+}
+
+const DEFAULT_MAX_ITERATIONS = 3;
+
+export function evaluateStepCondition(condition: WorkflowStepCondition, output: string): boolean {
+  const section = condition.section ?? "response";
+  const text = (
+    section === "response" ? output : extractHandoffSections(output)[normalizeSectionName(section) ?? "Summary"]
+  ).trim();
+  if (condition.empty !== undefined && condition.empty !== (text.length === 0)) return false;
+  if (condition.matches !== undefined && !new RegExp(condition.matches, "i").test(text)) return false;
+  if (condition.notMatches !== undefined && new RegExp(condition.notMatches, "i").test(text)) return false;
+  return true;
+}
+
+/** Steps re-run by a loop: `from`, `to`, and every step on a dependency path between them. */
+function resolveLoopRange(workflow: WorkflowDefinition, dependencies: Map<string, string[]>, from: string, to: string): string[] {
+  const toAncestors = collectAncestors(to, dependencies);
+  return workflow.steps
+    .filter((step) => {
+      if (step.id === from || step.id === to) return true;
+      return toAncestors.has(step.id) && collectAncestors(step.id, dependencies).has(from);
+    })
+    .map((step) => step.id);
+}
+
+/**
+ * Decide whether a settled step closes a loop iteration. Returns the step ids
+ * to run again, or a warning when the loop has to stop before its condition holds.
+ */
+export function planStepRepeat(input: {
+  workflow: WorkflowDefinition;
+  dependencies: Map<string, string[]>;
+  step: WorkflowStepDefinition;
+  stepOutputs: Record<string, string>;
+  iterations: Record<string, number>;
+  executions: number;
+  maxSteps: number;
+}): { restart: string[]; warning?: string } {
+  const { step } = input;
+  if (!step.repeatUntil) return { restart: [] };
+  const source = step.repeatUntil.step ?? step.id;
+  if (evaluateStepCondition(step.repeatUntil, input.stepOutputs[source] ?? "")) return { restart: [] };
+
+  const iteration = input.iterations[step.id] ?? 1;
+  const maxIterations = Math.max(1, step.maxIterations ?? DEFAULT_MAX_ITERATIONS);
+  if (iteration >= maxIterations) {
+    return { restart: [], warning: `repeatUntil not met after ${iteration} iteration(s) (maxIterations=${maxIterations})` };
+  }
+
+  const restart = resolveLoopRange(input.workflow, input.dependencies, step.repeatFrom ?? step.id, step.id);
+  if (input.executions + restart.length > input.maxSteps) {
+    return { restart: [], warning: `repeatUntil not met; another iteration would exceed maxSteps=${input.maxSteps}` };
+  }
+  return { restart };
+}
+
+/** Advance the iteration counter of every step in a loop so it becomes runnable again. */
+export function restartSteps(iterations: Record<string, number>, stepIds: string[]): void {
+  for (const id of stepIds) {
+    iterations[id] = (iterations[id] ?? 1) + 1;
   }
-  return out;
+}
+
+/**
+ * Incoming carry for a step: its dependencies, plus the tail of any loop that
+ * re-entered it so the next pass sees the previous iteration's output.
+ */
+export function resolveStepCarry(
+  workflow: WorkflowDefinition,
+  dependencies: Map<string, string[]>,
+  step: WorkflowStepDefinition,
+  iterations: Record<string, number>,
+  carryByStep: Record<string, string>,
+  maxChars: number
+): string {
+  const sources = [...(dependencies.get(step.id) ?? [])];
+  if ((iterations[step.id] ?? 1) > 1) {
+    for (const tail of workflow.steps) {
+      if (tail.repeatUntil && (tail.repeatFrom ?? tail.id) === step.id && !sources.includes(tail.id)) {
+        sources.push(tail.id);
+      }
+    }
+  }
+  return mergeDependencyCarry(sources, carryByStep, maxChars);
 }
 
 const handoffSections = ["Summary", "Actions", "Artifacts", "Risks", "Next"] as const;
@@ -211,14 +662,88 @@ function appendCarry(
   };
 }
 
+/** Combine the carry of every upstream step (deduplicated, oldest blocks dropped first). */
+export function mergeDependencyCarry(
+  dependsOn: string[],
+  carryByStep: Record<string, string>,
+  maxChars: number
+): string {
+  if (dependsOn.length === 0) return "";
+  if (dependsOn.length === 1) return carryByStep[dependsOn[0]] ?? "";
+  const blocks: string[] = [];
+  for (const dep of dependsOn) {
+    for (const block of splitCarryBlocks(carryByStep[dep] ?? "")) {
+      if (!blocks.includes(block)) blocks.push(block);
+    }
+  }
+  return appendCarry(blocks.join("\n\n"), "", maxChars).text;
+}
+
+function buildStepOutputVars(
+  outputs: Record<string, string>,
+  changes: Record<string, JobChanges>,
+  dependsOn: string[]
+): Record<string, string> {
+  const vars: Record<string, string> = {};
+  for (const [stepId, response] of Object.entries(outputs)) {
+    const sections = extractHandoffSections(response);
+    vars[`steps.${stepId}.response`] = response;
+    for (const section of handoffSections) {
+      vars[`steps.${stepId}.${section.toLowerCase()}`] = sections[section];
+    }
+    vars[`steps.${stepId}.diff`] = changes[stepId]?.diff ?? "";
+    vars[`steps.${stepId}.files`] = changes[stepId]?.files.join("\n") ?? "";
+  }
+  // `{diff}`: what the steps this one depends on changed.
+  vars.diff = dependsOn
+    .map((stepId) => changes[stepId]?.diff ?? "")
+    .filter((diff) => diff.length > 0)
+    .join("\n");
+  return vars;
+}
+
 function truncateResponse(text: string, maxChars = 1200): { value: string; truncated: boolean } {
   if (text.length <= maxChars) return { value: text, truncated: false };
   return { value: text.slice(0, maxChars), truncated: true };
 }
 
-async function buildStepPrompt(step: WorkflowStepDefinition, task: string, carry: string): Promise<string> {
-  const base = applyTemplate(step.prompt, { task, carry });
-  return await expandPromptSnippets(base);
+/** Step event fields for the files a step changed (diff capped like responses, but larger). */
+function describeChanges(changes: JobChanges): { files: string[]; diff?: string; diffTruncated?: boolean } {
+  if (changes.files.length === 0) return { files: [] };
+  const preview = truncateResponse(changes.diff, 20_000);
+  return {
+    files: changes.files,
+    diff: preview.value,
+    ...(preview.truncated || changes.diffTruncated ? { diffTruncated: true } : {}),
+  };
+}
+
+/** `{inputs.<name>}`, `{project.id}` and `{git.branch}`; unset values render as empty strings. */
+function buildRunVars(
+  workflow: WorkflowDefinition,
+  inputs: Record<string, WorkflowInputValue> | undefined,
+  context: WorkflowTemplateContext | undefined
+): Record<string, string> {
+  const vars: Record<string, string> = {
+    "project.id": context?.projectId ?? "",
+    "git.branch": context?.gitBranch ?? "",
+  };
+  for (const name of Object.keys(workflow.inputs ?? {})) {
+    const value = inputs?.[name];
+    vars[`inputs.${name}`] = value === undefined ? "" : String(value);
+  }
+  return vars;
+}
+
+async function buildStepPrompt(
+  step: WorkflowStepDefinition,
+  vars: Record<string, string>,
+  instructions?: string
+): Promise<string> {
+  const base = applyTemplate(step.prompt, vars);
+  const prompt = await expandPromptSnippets(base);
+  if (!instructions?.trim()) return prompt;
+  return `${prompt}\n\n## Reviewer instructions\nYour previous output for this step was rejected. Redo it following these instructions:\n${instructions.trim()}`;
 }
 
 function resolveStepTimeout(step: WorkflowStepDefinition, limits: WorkflowRunInput["limits"]): number {
@@ -232,7 +757,11 @@ function resolveStepTimeout(step: WorkflowStepDefinition, limits: WorkflowRunInp
   return Math.min(requested, limits.perStepTimeoutMs);
 }
 
-export function validateWorkflowInput(input: WorkflowRunInput, workflow: WorkflowDefinition): void {
+/** Check limits, the step graph and the inputs; returns the resolved input values. */
+export function validateWorkflowInput(
+  input: WorkflowRunInput,
+  workflow: WorkflowDefinition
+): Record<string, WorkflowInputValue> {
   if (input.task.length > input.limits.maxTaskChars) {
     throw new Error(`Task exceeds maxTaskChars (${input.limits.maxTaskChars}).`);
   }
@@ -240,6 +769,22 @@ export function validateWorkflowInput(input: WorkflowRunInput, workflow: Workflo
   if (workflow.steps.length > input.limits.maxSteps) {
     throw new Error(`Workflow has ${workflow.steps.length} steps (maxSteps=${input.limits.maxSteps}).`);
   }
+
+  validateWorkflowGraph(workflow);
+  return resolveWorkflowInputs(workflow, input.inputs);
+}
+
+/** Workers to try in order: the step's worker once per attempt, then the fallback. */
+function resolveStepAttemptWorkers(step: WorkflowStepDefinition): string[] {
+  const retries = Math.max(0, Math.floor(step.retries ?? 0));
+  const workers = Array.from({ length: retries + 1 }, () => step.workerId);
+  if (step.fallbackWorkerId && step.fallbackWorkerId !== step.workerId) workers.push(step.fallbackWorkerId);
+  return workers;
+}
+
+function resolveRetryBackoff(step: WorkflowStepDefinition, failedAttempt: number): number {
+  const base = Math.max(0, step.backoffMs ?? 0);
+  return base * 2 ** (failedAttempt - 1);
 }
 
 export async function executeWorkflowStep(
@@ -249,20 +794,133 @@ export async function executeWorkflowStep(
     stepIndex: number;
     task: string;
     carry: string;
+    stepOutputs?: Record<string, string>;
+    /** Files changed by completed steps, for `{steps.<id>.diff}` and `{diff}` */
+    stepChanges?: Record<string, JobChanges>;
+    /** Resolved values of the workflow's declared inputs */
+    inputs?: Record<string, WorkflowInputValue>;
+    context?: WorkflowTemplateContext;
+    iteration?: number;
     autoSpawn: boolean;
     limits: WorkflowRunInput["limits"];
     attachments?: WorkflowRunInput["attachments"];
+    /** Amended instructions from a rejected approval, appended to the prompt */
+    instructions?: string;
   },
   deps: WorkflowRunDependencies
-): Promise<{ step: WorkflowStepResult; response?: string; carry: string }> {
+): Promise<{ step: WorkflowStepResult; response?: string; carry: string; budgetExceeded?: BudgetBreach }> {
   const step = input.workflow.steps[input.stepIndex];
+  const dependsOn = resolveStepDependencies(input.workflow).get(step.id) ?? [];
+  const iteration = input.iteration && input.iteration > 1 ? { iteration: input.iteration } : {};
   const stepStarted = Date.now();
-  const workerId = await deps.resolveWorker(step.workerId, input.autoSpawn);
-  const prompt = await buildStepPrompt(step, input.task, input.carry);
-  const res = await deps.sendToWorker(workerId, prompt, {
-    attachments: input.stepIndex === 0 ? input.attachments : undefined,
-    timeoutMs: resolveStepTimeout(step, input.limits),
-  });
+
+  if (step.when) {
+    const source = step.when.step ?? dependsOn[dependsOn.length - 1] ?? "";
+    if (!evaluateStepCondition(step.when, input.stepOutputs?.[source] ?? "")) {
+      const result: WorkflowStepResult = {
+        id: step.id,
+        title: step.title,
+        workerId: step.workerId,
+        status: "skipped",
+        ...iteration,
+        startedAt: stepStarted,
+        finishedAt: stepStarted,
+        durationMs: 0,
+      };
+      publishOrchestratorEvent("orchestra.workflow.step", {
+        runId: input.runId,
+        workflowId: input.workflow.id,
+        workflowName: input.workflow.name,
+        stepId: step.id,
+        stepTitle: step.title,
+        workerId: step.workerId,
+        dependsOn,
+        status: "skipped",
+        ...iteration,
+        startedAt: stepStarted,
+        finishedAt: stepStarted,
+        durationMs: 0,
+      });
+      return { step: result, carry: input.carry };
+    }
+  }
+
+  const prompt = await buildStepPrompt(
+    step,
+    {
+      ...buildStepOutputVars(input.stepOutputs ?? {}, input.stepChanges ?? {}, dependsOn),
+      ...buildRunVars(input.workflow, input.inputs, input.context),
+      task: input.task,
+      carry: input.carry,
+    },
+    input.instructions
+  );
+  const attemptWorkers = resolveStepAttemptWorkers(step);
+  const attempts: WorkflowStepAttempt[] = [];
+  let workerId = step.workerId;
+  let res: Awaited<ReturnType<WorkflowRunDependencies["sendToWorker"]>> = { success: false };
+  const attemptUsage: Array<TokenUsage | undefined> = [];
+
+  for (const [index, attemptWorkerId] of attemptWorkers.entries()) {
+    const attempt = index + 1;
+    const isLastAttempt = attempt === attemptWorkers.length;
+    const attemptStarted = Date.now();
+    try {
+      workerId = await deps.resolveWorker(attemptWorkerId, input.autoSpawn);
+      res = await deps.sendToWorker(workerId, prompt, {
+        // Attachments go to root steps only; downstream steps see them through carry.
+        attachments: dependsOn.length === 0 ? input.attachments : undefined,
+        timeoutMs: resolveStepTimeout(step, input.limits),
+        ...(step.outputSchema ? { outputSchema: step.outputSchema } : {}),
+        ...(input.carry ? { promptSections: [{ name: "carry", text: input.carry }] } : {}),
+      });
+    } catch (err) {
+      // Without attempts left, spawn/send failures keep failing the run as before.
+      if (isLastAttempt) throw err;
+      workerId = attemptWorkerId;
+      res = { success: false, error: err instanceof Error ? err.message : String(err) };
+    }
+    attemptUsage.push(res.usage);
+    const attemptFinished = Date.now();
+    attempts.push({
+      attempt,
+      workerId,
+      status: res.success ? "success" : "error",
+      ...(res.success ? {} : { error: res.error ?? "unknown_error" }),
+      startedAt: attemptStarted,
+      finishedAt: attemptFinished,
+      durationMs: attemptFinished - attemptStarted,
+    });
+    // Another attempt or fallback worker would be refused by the same budget.
+    if (res.success || res.budgetExceeded || isLastAttempt) break;
+
+    const backoffMs = resolveRetryBackoff(step, attempt);
+    const nextWorkerId = attemptWorkers[index + 1] ?? attemptWorkerId;
+    logger.warn(
+      `[workflow] retrying run=${input.runId} step=${step.id} attempt=${attempt + 1}/${attemptWorkers.length} worker=${nextWorkerId}: ${res.error ?? "unknown_error"}`
+    );
+    publishOrchestratorEvent("orchestra.workflow.step.retry", {
+      runId: input.runId,
+      workflowId: input.workflow.id,
+      workflowName: input.workflow.name,
+      stepId: step.id,
+      stepTitle: step.title,
+      workerId,
+      nextWorkerId,
+      ...iteration,
+      attempt: attempt + 1,
+      maxAttempts: attemptWorkers.length,
+      backoffMs,
+      error: res.error ?? "unknown_error",
+    });
+    if (backoffMs > 0) await new Promise((resolve) => setTimeout(resolve, backoffMs));
+  }
+
+  const attemptLog = attempts.length > 1 ? { attempts } : {};
+  const usage = sumUsage(attemptUsage);
+  const usageLog = usage ? { usage } : {};
+  const changesLog = res.changes ? { changes: res.changes } : {};
+  const changesEvent = res.changes ? describeChanges(res.changes) : {};
   const stepFinished = Date.now();
   if (!res.success) {
     const result: WorkflowStepResult = {
@@ -270,7 +928,11 @@ export async function executeWorkflowStep(
       title: step.title,
       workerId,
       status: "error",
+      ...iteration,
       error: res.error ?? "unknown_error",
+      ...attemptLog,
+      ...usageLog,
+      ...changesLog,
       startedAt: stepStarted,
       finishedAt: stepFinished,
       durationMs: stepFinished - stepStarted,
@@ -282,13 +944,17 @@ export async function executeWorkflowStep(
       stepId: step.id,
       stepTitle: step.title,
       workerId,
+      dependsOn,
       status: "error",
+      ...iteration,
+      ...(attempts.length > 1 ? { attempts: attempts.length } : {}),
       startedAt: stepStarted,
       finishedAt: stepFinished,
       durationMs: stepFinished - stepStarted,
       error: res.error ?? "unknown_error",
+      ...changesEvent,
     });
-    return { step: result, carry: input.carry };
+    return { step: result, carry: input.carry, ...(res.budgetExceeded ? { budgetExceeded: res.budgetExceeded } : {}) };
   }
 
   const response = res.response ?? "";
@@ -298,8 +964,13 @@ export async function executeWorkflowStep(
     title: step.title,
     workerId,
     status: "success",
+    ...iteration,
     response,
+    ...(res.structured !== undefined ? { structured: res.structured } : {}),
     ...(res.warning ? { warning: res.warning } : {}),
+    ...attemptLog,
+    ...usageLog,
+    ...changesLog,
     startedAt: stepStarted,
     finishedAt: stepFinished,
     durationMs: stepFinished - stepStarted,
@@ -311,13 +982,17 @@ export async function executeWorkflowStep(
     stepId: step.id,
     stepTitle: step.title,
     workerId,
+    dependsOn,
     status: "success",
+    ...iteration,
+    ...(attempts.length > 1 ? { attempts: attempts.length } : {}),
     startedAt: stepStarted,
     finishedAt: stepFinished,
     durationMs: stepFinished - stepStarted,
     response: preview.value,
     responseTruncated: preview.truncated,
     ...(res.warning ? { warning: res.warning } : {}),
+    ...changesEvent,
   });
 
   if (step.carry) {
@@ -361,7 +1036,7 @@ export async function runWorkflow(
     throw new Error(`Unknown workflow "${input.workflowId}".`);
   }
 
-  validateWorkflowInput(input, workflow);
+  const inputs = validateWorkflowInput(input, workflow);
 
   const runId = randomUUID();
   const startedAt = Date.now();
@@ -371,36 +1046,70 @@ export async function runWorkflow(
     workflowName: workflow.name,
     task: input.task,
     startedAt,
+    steps: describeWorkflowGraph(workflow),
   });
 
+  const dependencies = resolveStepDependencies(workflow);
   const steps: WorkflowRunResult["steps"] = [];
-  let carry = "";
-  let status: WorkflowRunResult["status"] = "running";
+  const carryByStep: Record<string, string> = {};
+  const iterations: Record<string, number> = {};
+  let failed = false;
 
-  for (let i = 0; i < workflow.steps.length; i++) {
-    const executed = await executeWorkflowStep(
-      {
-        runId,
+  await scheduleWorkflowSteps({
+    workflow,
+    dependencies,
+    completed: () => collectCompletedStepIds(steps, iterations),
+    start: (step, stepIndex) =>
+      executeWorkflowStep(
+        {
+          runId,
+          workflow,
+          stepIndex,
+          task: input.task,
+          carry: resolveStepCarry(workflow, dependencies, step, iterations, carryByStep, input.limits.maxCarryChars),
+          stepOutputs: collectStepOutputs(steps),
+          stepChanges: collectStepChanges(steps),
+          inputs,
+          context: input.context,
+          iteration: iterations[step.id],
+          autoSpawn: input.autoSpawn ?? true,
+          limits: input.limits,
+          attachments: input.attachments,
+        },
+        deps
+      ),
+    settle: ({ step, startedAt, outcome }) => {
+      const result =
+        outcome.status === "fulfilled"
+          ? outcome.value.step
+          : toFailedStepResult(step, startedAt, outcome.reason, iterations[step.id]);
+      steps.push(result);
+      if (result.status === "error") {
+        failed = true;
+        return false;
+      }
+      if (outcome.status === "fulfilled") carryByStep[result.id] = outcome.value.carry;
+
+      const repeat = planStepRepeat({
         workflow,
-        stepIndex: i,
-        task: input.task,
-        carry,
-        autoSpawn: input.autoSpawn ?? true,
-        limits: input.limits,
-        attachments: input.attachments,
-      },
-      deps
-    );
-    steps.push(executed.step);
-    if (executed.step.status === "error") {
-      status = "error";
-      break;
-    }
-    carry = executed.carry;
-  }
+        dependencies,
+        step,
+        stepOutputs: collectStepOutputs(steps),
+        iterations,
+        executions: countStepExecutions(steps),
+        maxSteps: input.limits.maxSteps,
+      });
+      if (repeat.warning) {
+        result.warning = result.warning ? `${result.warning}; ${repeat.warning}` : repeat.warning;
+      }
+      restartSteps(iterations, repeat.restart);
+      return true;
+    },
+  });
 
   const finishedAt = Date.now();
   const errorCount = steps.filter((step) => step.status === "error").length;
+  const skippedCount = steps.filter((step) => step.status === "skipped").length;
   publishOrchestratorEvent("orchestra.workflow.completed", {
     runId,
     workflowId: workflow.id,
@@ -409,18 +1118,24 @@ export async function runWorkflow(
     startedAt,
     finishedAt,
     durationMs: finishedAt - startedAt,
-    steps: { total: steps.length, success: steps.length - errorCount, error: errorCount },
+    steps: {
+      total: steps.length,
+      success: steps.length - errorCount - skippedCount,
+      error: errorCount,
+      skipped: skippedCount,
+    },
   });
 
   return {
     runId,
     workflowId: workflow.id,
     workflowName: workflow.name,
-    status: status === "error" ? "error" : "success",
+    status: failed ? "error" : "success",
     startedAt,
     finishedAt,
-    currentStepIndex: Math.min(steps.length, workflow.steps.length),
+    currentStepIndex: collectCompletedStepIds(steps, iterations).size,
     steps,
     lastStepResult: steps[steps.length - 1],
+    ...(Object.keys(inputs).length > 0 ? { inputs } : {}),
   };
 }
@@ -0,0 +1,165 @@
+import { type Dirent, type FSWatcher, watch } from "node:fs";
+import { readdir, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { extname, join, resolve } from "node:path";
+import workflowFileSchema from "../../schema/workflow.schema.json";
+import { validateJsonSchema } from "../helpers/json-schema";
+import { isWithin, walkUp } from "../skills/discovery";
+import type { JsonSchema, WorkflowDefinitionConfig } from "../types";
+
+export type WorkflowFileSource = "project" | "global";
+
+export type WorkflowSearchRoot = {
+  root: string;
+  source: WorkflowFileSource;
+};
+
+export type WorkflowFileEntry = {
+  path: string;
+  source: WorkflowFileSource;
+  root: string;
+};
+
+export type WorkflowFileOptions = {
+  directory: string;
+  worktree?: string;
+  xdgConfigHome?: string;
+  includeGlobal?: boolean;
+};
+
+export type WorkflowFileError = {
+  path: string;
+  error: string;
+};
+
+export type LoadedWorkflowFile = WorkflowFileEntry & {
+  definition: WorkflowDefinitionConfig;
+};
+
+const WORKFLOW_FILE_EXTENSIONS = new Set([".yaml", ".yml", ".json"]);
+
+/** Workflow directories, nearest first: `.opencode/workflows` from the directory up to the worktree, then global. */
+export const getWorkflowSearchRoots = (options: WorkflowFileOptions): WorkflowSearchRoot[] => {
+  const directory = resolve(options.directory);
+  const worktree = resolve(options.worktree ?? options.directory);
+  const stop = isWithin(directory, worktree) ? worktree : directory;
+  const roots: WorkflowSearchRoot[] = walkUp(directory, stop).map((current) => ({
+    root: join(current, ".opencode", "workflows"),
+    source: "project",
+  }));
+
+  if (options.includeGlobal !== false) {
+    const configHome = options.xdgConfigHome ?? process.env.XDG_CONFIG_HOME ?? join(homedir(), ".config");
+    roots.push({ root: join(configHome, "opencode", "workflows"), source: "global" });
+  }
+
+  return roots;
+};
+
+export const discoverWorkflowFiles = async (options: WorkflowFileOptions): Promise<WorkflowFileEntry[]> => {
+  const entries: WorkflowFileEntry[] = [];
+
+  for (const root of getWorkflowSearchRoots(options)) {
+    let dirents: Dirent[];
+    try {
+      dirents = await readdir(root.root, { withFileTypes: true, encoding: "utf8" });
+    } catch {
+      continue;
+    }
+
+    const files = dirents
+      .filter((dirent) => dirent.isFile() && WORKFLOW_FILE_EXTENSIONS.has(extname(dirent.name).toLowerCase()))
+      .map((dirent) => dirent.name)
+      .sort((a, b) => a.localeCompare(b));
+    for (const name of files) {
+      entries.push({ path: join(root.root, name), source: root.source, root: root.root });
+    }
+  }
+
+  return entries;
+};
+
+const parseYaml = (content: string): unknown => {
+  if (typeof Bun === "undefined" || !Bun.YAML) {
+    throw new Error("YAML workflow files need the Bun runtime; use a .json file instead.");
+  }
+  return Bun.YAML.parse(content);
+};
+
+/** Parse a workflow file and validate it against `schema/workflow.schema.json`. */
+export function parseWorkflowFile(path: string, content: string): WorkflowDefinitionConfig {
+  let raw: unknown;
+  try {
+    raw = extname(path).toLowerCase() === ".json" ? JSON.parse(content) : parseYaml(content);
+  } catch (err) {
+    throw new Error(`Cannot parse ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const errors = validateJsonSchema(raw, workflowFileSchema as JsonSchema);
+  if (errors.length > 0) throw new Error(`Invalid workflow ${path}: ${errors.join("; ")}`);
+  const { $schema: _schema, ...definition } = raw as WorkflowDefinitionConfig & { $schema?: string };
+  return definition;
+}
+
+/**
+ * Read every workflow file. When two files declare the same id the nearest one
+ * wins (project over global) and the other is reported as an error.
+ */
+export async function loadWorkflowFiles(
+  options: WorkflowFileOptions
+): Promise<{ workflows: LoadedWorkflowFile[]; errors: WorkflowFileError[] }> {
+  const workflows: LoadedWorkflowFile[] = [];
+  const errors: WorkflowFileError[] = [];
+  const byId = new Map<string, LoadedWorkflowFile>();
+
+  for (const entry of await discoverWorkflowFiles(options)) {
+    try {
+      const definition = parseWorkflowFile(entry.path, await readFile(entry.path, "utf8"));
+      const existing = byId.get(definition.id);
+      if (existing) {
+        errors.push({ path: entry.path, error: `Workflow "${definition.id}" is already defined in ${existing.path}` });
+        continue;
+      }
+      const loaded = { ...entry, definition };
+      byId.set(definition.id, loaded);
+      workflows.push(loaded);
+    } catch (err) {
+      errors.push({ path: entry.path, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  return { workflows, errors };
+}
+
+/**
+ * Watch the workflow directories that exist and call `onChange` (debounced)
+ * when a file in them is added, edited or removed. Returns a stop function.
+ */
+export function watchWorkflowRoots(options: WorkflowFileOptions, onChange: () => void, debounceMs = 100): () => void {
+  const watchers: FSWatcher[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const schedule = (filename: string | null) => {
+    if (filename && !WORKFLOW_FILE_EXTENSIONS.has(extname(filename).toLowerCase())) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = undefined;
+      onChange();
+    }, debounceMs);
+    timer.unref?.();
+  };
+
+  for (const root of getWorkflowSearchRoots(options)) {
+    try {
+      const watcher = watch(root.root, { persistent: false }, (_event, filename) => schedule(filename));
+      watcher.on("error", () => watcher.close());
+      watchers.push(watcher);
+    } catch {
+      // Directory does not exist (yet).
+    }
+  }
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    for (const watcher of watchers) watcher.close();
+  };
+}
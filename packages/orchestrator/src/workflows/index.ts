@@ -1,13 +1,19 @@
 import type { OrchestratorConfig } from "../types";
-import { registerWorkflow } from "./engine";
+import { getWorkflow, registerWorkflow, unregisterWorkflow, validateWorkflowGraph } from "./engine";
 import { buildRooCodeBoomerangWorkflow } from "./roocode-boomerang";
 import { buildVisionWorkflow } from "./builtins/vision";
 import { buildMemoryWorkflow } from "./builtins/memory";
-import type { WorkflowDefinition, WorkflowStepDefinition } from "./types";
+import { loadWorkflowFiles, watchWorkflowRoots, type WorkflowFileError, type WorkflowFileOptions } from "./files";
+import type { WorkflowDefinition, WorkflowInputDefinition, WorkflowStepDefinition } from "./types";
 import type { WorkflowDefinitionConfig, WorkflowStepConfig } from "../types";
 import { asStringArray } from "../helpers/format";
+import { logger } from "../core/logger";
 
 let loaded = false;
+let fileWorkflowIds: string[] = [];
+let fileErrors: WorkflowFileError[] = [];
+/** Builtin or config workflows replaced by a file with the same id, restored when the file goes away */
+const shadowedWorkflows = new Map<string, WorkflowDefinition>();
 
 export function loadWorkflows(config: OrchestratorConfig) {
   if (loaded) return;
@@ -15,26 +21,86 @@ export function loadWorkflows(config: OrchestratorConfig) {
 
   if (config.workflows?.enabled === false) return;
 
-  registerWorkflow(buildVisionWorkflow());
-  registerWorkflow(buildMemoryWorkflow());
+  registerWorkflow({ ...buildVisionWorkflow(), source: "builtin" });
+  registerWorkflow({ ...buildMemoryWorkflow(), source: "builtin" });
 
   const roocode = config.workflows?.roocodeBoomerang;
   if (roocode?.enabled !== false) {
-    registerWorkflow(buildRooCodeBoomerangWorkflow(roocode?.steps));
+    registerWorkflow({ ...buildRooCodeBoomerangWorkflow(roocode?.steps), source: "builtin" });
   }
 
   for (const def of config.workflows?.definitions ?? []) {
     const resolved = resolveWorkflowDefinition(def);
-    if (resolved) registerWorkflow(resolved);
+    if (resolved) registerWorkflow({ ...resolved, source: "config" });
   }
 }
 
+/**
+ * Re-read `.opencode/workflows/*.{yaml,json}` (project and global) and swap the
+ * file workflows in the registry. A file replaces a builtin or config workflow
+ * with the same id until it is removed.
+ */
+export async function reloadWorkflowFiles(
+  options: WorkflowFileOptions
+): Promise<{ loaded: WorkflowDefinition[]; errors: WorkflowFileError[] }> {
+  const { workflows, errors } = await loadWorkflowFiles(options);
+  const definitions: WorkflowDefinition[] = [];
+  for (const file of workflows) {
+    const resolved = resolveWorkflowDefinition(file.definition);
+    if (!resolved) {
+      errors.push({ path: file.path, error: `Workflow "${file.definition.id}" has no usable steps` });
+      continue;
+    }
+    try {
+      validateWorkflowGraph(resolved);
+    } catch (err) {
+      errors.push({ path: file.path, error: err instanceof Error ? err.message : String(err) });
+      continue;
+    }
+    definitions.push({ ...resolved, source: file.source, sourcePath: file.path });
+  }
+
+  for (const id of fileWorkflowIds) {
+    const shadowed = shadowedWorkflows.get(id);
+    if (shadowed) registerWorkflow(shadowed);
+    else unregisterWorkflow(id);
+  }
+  shadowedWorkflows.clear();
+  for (const definition of definitions) {
+    const existing = getWorkflow(definition.id);
+    if (existing) shadowedWorkflows.set(definition.id, existing);
+    registerWorkflow(definition);
+  }
+  fileWorkflowIds = definitions.map((definition) => definition.id);
+  fileErrors = errors;
+
+  for (const error of errors) logger.warn(`[workflow] ${error.path}: ${error.error}`);
+  return { loaded: definitions, errors };
+}
+
+/** Problems found in workflow files during the last reload. */
+export function getWorkflowFileErrors(): WorkflowFileError[] {
+  return fileErrors;
+}
+
+/** Load workflow files once, then reload them whenever a watched directory changes. Returns a stop function. */
+export async function startWorkflowFiles(config: OrchestratorConfig, options: WorkflowFileOptions): Promise<() => void> {
+  if (config.workflows?.enabled === false) return () => {};
+  await reloadWorkflowFiles(options);
+  return watchWorkflowRoots(options, () => {
+    void reloadWorkflowFiles(options)
+      .then(({ loaded }) => logger.info(`[workflow] reloaded ${loaded.length} workflow file(s)`))
+      .catch((err) => logger.warn(`[workflow] reload failed: ${err instanceof Error ? err.message : String(err)}`));
+  });
+}
+
 function resolveStepConfig(step: WorkflowStepConfig): WorkflowStepDefinition | undefined {
   const id = step.id;
   if (!id) return undefined;
   const workerId = step.workerId ?? "coder";
   const prompt = step.prompt ?? "Task:\n{task}";
   const requiredSkills = step.requiredSkills ? asStringArray(step.requiredSkills) ?? [] : [];
+  const dependsOn = step.dependsOn ? asStringArray(step.dependsOn) : undefined;
   return {
     id,
     title: step.title ?? id,
@@ -43,18 +109,38 @@ function resolveStepConfig(step: WorkflowStepConfig): WorkflowStepDefinition | u
     carry: typeof step.carry === "boolean" ? step.carry : false,
     timeoutMs: typeof step.timeoutMs === "number" ? step.timeoutMs : undefined,
     ...(requiredSkills.length > 0 ? { requiredSkills } : {}),
+    ...(dependsOn ? { dependsOn } : {}),
+    ...(step.when ? { when: step.when } : {}),
+    ...(step.repeatUntil ? { repeatUntil: step.repeatUntil } : {}),
+    ...(step.repeatFrom ? { repeatFrom: step.repeatFrom } : {}),
+    ...(typeof step.maxIterations === "number" ? { maxIterations: step.maxIterations } : {}),
+    ...(typeof step.retries === "number" ? { retries: step.retries } : {}),
+    ...(typeof step.backoffMs === "number" ? { backoffMs: step.backoffMs } : {}),
+    ...(step.fallbackWorkerId ? { fallbackWorkerId: step.fallbackWorkerId } : {}),
+    ...(step.outputSchema ? { outputSchema: step.outputSchema } : {}),
+    ...(step.requiresApproval === true ? { requiresApproval: true } : {}),
   };
 }
 
+function resolveInputsConfig(
+  inputs: WorkflowDefinitionConfig["inputs"]
+): Record<string, WorkflowInputDefinition> | undefined {
+  if (!inputs) return undefined;
+  const entries = Object.entries(inputs).map(([name, input]) => [name, typeof input === "string" ? { type: input } : input]);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
 function resolveWorkflowDefinition(def: WorkflowDefinitionConfig): WorkflowDefinition | undefined {
   if (!def || typeof def.id !== "string") return undefined;
   if (!Array.isArray(def.steps) || def.steps.length === 0) return undefined;
   const steps = def.steps.map(resolveStepConfig).filter(Boolean) as WorkflowStepDefinition[];
   if (steps.length === 0) return undefined;
+  const inputs = resolveInputsConfig(def.inputs);
   return {
     id: def.id,
     name: def.name ?? def.id,
     description: def.description ?? "",
+    ...(inputs ? { inputs } : {}),
     steps,
   };
 }
@@ -1,6 +1,14 @@
-import type { WorkflowDefinition, WorkflowStepDefinition } from "./types";
+import type { WorkflowDefinition, WorkflowStepCondition, WorkflowStepDefinition } from "./types";
 import type { WorkflowStepConfig } from "../types";
 
+/** Step executions for plan, implement, and two review/fix passes */
+export const ROOCODE_BOOMERANG_MAX_STEPS = 6;
+
+/** Empty or "None" (the handoff schema's placeholder), optionally as a bullet */
+const noRisksPattern = "^(?:[-*]\\s*)?(?:none\\.?)?$";
+const reviewIsClean: WorkflowStepCondition = { step: "review", section: "risks", matches: noRisksPattern };
+const reviewHasIssues: WorkflowStepCondition = { step: "review", section: "risks", notMatches: noRisksPattern };
+
 const defaultSteps: WorkflowStepDefinition[] = [
   {
     id: "plan",
@@ -35,9 +43,10 @@ const defaultSteps: WorkflowStepDefinition[] = [
       "You are the reviewer. Check the implementation for correctness, edge cases, and missing tests.\n\n" +
       "Task:\n{task}\n\n" +
       "Implementation:\n{carry}\n\n" +
-      "Return issues and recommended fixes (or say 'no issues').\n\n" +
+      "Diff of the changes (empty if none were captured):\n{diff}\n\n" +
+      "Return issues and recommended fixes.\n\n" +
       "{{snippet:workflow-handoff-schema}}\n\n" +
-      "Guidance: Put issues in Risks and concrete fixes in Next.",
+      "Guidance: Put every issue in Risks and concrete fixes in Next. Write only \"None\" under Risks when nothing needs fixing; the fix step runs whenever Risks lists anything else.",
     carry: true,
   },
   {
@@ -51,11 +60,26 @@ const defaultSteps: WorkflowStepDefinition[] = [
       "{{snippet:workflow-handoff-schema}}\n\n" +
       "Guidance: Artifacts should list changes. Next can be 'Done' if complete.",
     carry: true,
+    // Skip fixes when the review's Risks section is empty or "None"; otherwise loop
+    // review/fix until it is (bounded by maxIterations and maxSteps).
+    when: reviewHasIssues,
+    repeatUntil: reviewIsClean,
+    repeatFrom: "review",
+    maxIterations: 2,
   },
 ];
 
 function resolveStep(base: WorkflowStepDefinition | undefined, override: WorkflowStepConfig): WorkflowStepDefinition {
   const prompt = override.prompt ?? base?.prompt ?? "Task:\n{task}";
+  const when = override.when ?? base?.when;
+  const repeatUntil = override.repeatUntil ?? base?.repeatUntil;
+  const repeatFrom = override.repeatFrom ?? base?.repeatFrom;
+  const maxIterations = override.maxIterations ?? base?.maxIterations;
+  const retries = override.retries ?? base?.retries;
+  const backoffMs = override.backoffMs ?? base?.backoffMs;
+  const fallbackWorkerId = override.fallbackWorkerId ?? base?.fallbackWorkerId;
+  const outputSchema = override.outputSchema ?? base?.outputSchema;
+  const requiresApproval = override.requiresApproval ?? base?.requiresApproval;
   return {
     id: override.id,
     title: override.title ?? base?.title ?? override.id,
@@ -63,6 +87,16 @@ function resolveStep(base: WorkflowStepDefinition | undefined, override: Workflo
     prompt,
     carry: typeof override.carry === "boolean" ? override.carry : base?.carry ?? true,
     timeoutMs: typeof override.timeoutMs === "number" ? override.timeoutMs : base?.timeoutMs,
+    ...(override.dependsOn ? { dependsOn: override.dependsOn } : {}),
+    ...(when ? { when } : {}),
+    ...(repeatUntil ? { repeatUntil } : {}),
+    ...(repeatFrom ? { repeatFrom } : {}),
+    ...(typeof maxIterations === "number" ? { maxIterations } : {}),
+    ...(typeof retries === "number" ? { retries } : {}),
+    ...(typeof backoffMs === "number" ? { backoffMs } : {}),
+    ...(fallbackWorkerId ? { fallbackWorkerId } : {}),
+    ...(outputSchema ? { outputSchema } : {}),
+    ...(requiresApproval ? { requiresApproval } : {}),
   };
 }
 
@@ -1,20 +1,49 @@
 import { randomUUID } from "node:crypto";
+import { getProfile } from "../config/profiles";
 import type { OrchestratorContext } from "../context/orchestrator-context";
+import { type BudgetBreach, findBudgetBreach, formatBudgetBreach } from "../core/guardrails";
+import { workerJobs } from "../core/jobs";
 import { logger } from "../core/logger";
+import { jobScheduler, resolveWorkerConcurrency } from "../core/scheduler";
+import { captureJobChanges } from "../core/diffs";
+import { finalizeJobWorktree } from "../core/worktrees";
+import { sumUsage, usageLedger } from "../core/usage";
 import { publishErrorEvent, publishOrchestratorEvent } from "../core/orchestrator-events";
+import { resolveOutputSchema } from "../helpers/json-schema";
+import { processStartedAt } from "../helpers/process";
 import { sendToWorker, spawnWorker } from "../workers/spawner";
-import { executeWorkflowStep, getWorkflow, type WorkflowRunDependencies, validateWorkflowInput } from "./engine";
+import {
+  collectCompletedStepIds,
+  collectStepChanges,
+  collectStepOutputs,
+  countStepExecutions,
+  describeWorkflowGraph,
+  executeWorkflowStep,
+  getWorkflow,
+  planStepRepeat,
+  resolveStepCarry,
+  resolveStepDependencies,
+  resolveWorkflowInputs,
+  restartSteps,
+  scheduleWorkflowSteps,
+  toFailedStepResult,
+  type WorkflowRunDependencies,
+  validateWorkflowInput,
+} from "./engine";
 import type {
   WorkflowRunInput,
   WorkflowRunResult,
   WorkflowRunStatus,
   WorkflowSecurityLimits,
   WorkflowDefinition,
+  WorkflowStepApproval,
   WorkflowStepDefinition,
   WorkflowStepResult,
+  WorkflowTemplateContext,
 } from "./types";
 import type { WorkflowUiPolicy } from "../types";
 import {
+  claimWorkflowRun,
   createWorkflowRunState,
   deleteWorkflowRun,
   getWorkflowRun,
@@ -22,13 +51,31 @@ import {
   toWorkflowRunResult,
   type WorkflowRunState,
 } from "./runs";
+import {
+  formatPendingApprovalError,
+  recordWorkflowApproval,
+  requestWorkflowApproval,
+  type WorkflowApprovalDecision,
+  type WorkflowApprovalHandler,
+} from "./approvals";
+import { ROOCODE_BOOMERANG_MAX_STEPS } from "./roocode-boomerang";
+import { getGitBranch } from "../ux/repo-context";
 import { injectSessionNotice } from "../ux/wakeup";
 import { clearWorkflowSkillContext, setWorkflowSkillContext } from "../skills/context";
+import {
+  checkWorkflowSkillsLock,
+  describeSkillDrift,
+  lockWorkflowSkills,
+  readSkillsLock,
+  SKILLS_LOCK_FILE,
+  writeSkillsLock,
+} from "../skills/lockfile";
 import {
   collectWorkflowSkillRequirements,
   loadSkillConfig,
   resolveSkillPermissionMap,
   resolveSkillToolEnabled,
+  type SkillDescriptor,
   validateSkills,
 } from "../skills/preflight";
 
@@ -49,20 +96,31 @@ export function resolveWorkflowLimits(context: OrchestratorContext, workflowId:
   const security = context.security?.workflows;
   const workflows = context.workflows;
   const roocode = workflowId === "roocode-boomerang" ? workflows?.roocodeBoomerang : undefined;
+  // The boomerang's review/fix loop needs more steps than the global default allows.
+  const defaultMaxSteps = workflowId === "roocode-boomerang" ? ROOCODE_BOOMERANG_MAX_STEPS : defaultLimits.maxSteps;
 
-  const maxStepsCap = security?.maxSteps ?? defaultLimits.maxSteps;
+  const maxStepsCap = security?.maxSteps ?? defaultMaxSteps;
   const maxTaskCap = security?.maxTaskChars ?? defaultLimits.maxTaskChars;
   const maxCarryCap = security?.maxCarryChars ?? defaultLimits.maxCarryChars;
   const perStepCap = security?.perStepTimeoutMs ?? defaultLimits.perStepTimeoutMs;
 
   return {
-    maxSteps: clampLimit(roocode?.maxSteps, maxStepsCap, defaultLimits.maxSteps),
+    maxSteps: clampLimit(roocode?.maxSteps, maxStepsCap, defaultMaxSteps),
     maxTaskChars: clampLimit(roocode?.maxTaskChars, maxTaskCap, defaultLimits.maxTaskChars),
     maxCarryChars: clampLimit(roocode?.maxCarryChars, maxCarryCap, defaultLimits.maxCarryChars),
     perStepTimeoutMs: clampLimit(roocode?.perStepTimeoutMs, perStepCap, defaultLimits.perStepTimeoutMs),
   };
 }
 
+/** Project id and current git branch, captured once per run for `{project.id}` and `{git.branch}`. */
+export function resolveWorkflowTemplateContext(context: OrchestratorContext): WorkflowTemplateContext {
+  const gitBranch = getGitBranch(context.worktree ?? context.directory);
+  return {
+    ...(context.projectId ? { projectId: context.projectId } : {}),
+    ...(gitBranch ? { gitBranch } : {}),
+  };
+}
+
 const defaultUiPolicy: WorkflowUiPolicy = { execution: "auto", intervene: "on-error" };
 
 function resolveWorkflowUiPolicy(context: OrchestratorContext, override?: WorkflowUiPolicy): WorkflowUiPolicy {
@@ -76,9 +134,14 @@ function resolveWorkflowUiPolicy(context: OrchestratorContext, override?: Workfl
 function resolveStepGate(
   ui: WorkflowUiPolicy,
   step: WorkflowStepResult,
-  isLastStep: boolean
+  isLastStep: boolean,
+  awaitingApproval: boolean
 ): { pause: boolean; retry: boolean; terminalStatus?: WorkflowRunStatus; reason?: string } {
-  if (isLastStep && step.status === "success") {
+  if (awaitingApproval) {
+    return { pause: true, retry: false, reason: "approval required" };
+  }
+
+  if (isLastStep && step.status !== "error") {
     return { pause: false, retry: false, terminalStatus: "success" };
   }
 
@@ -106,6 +169,9 @@ function resolveStepGate(
   return { pause: false, retry: false };
 }
 
+/** Returns the budget that stops the run from starting more steps, if any. */
+type WorkflowBudgetCheck = (run: WorkflowRunState) => BudgetBreach | undefined;
+
 type WorkflowStepHook = (input: {
   phase: "start" | "finish";
   run: WorkflowRunState;
@@ -115,88 +181,286 @@ type WorkflowStepHook = (input: {
   pause?: boolean;
   retry?: boolean;
   pauseReason?: string;
+  awaitingApproval?: boolean;
 }) => Promise<void> | void;
 
+function summarizeRunSteps(run: WorkflowRunState) {
+  const usage = sumUsage(run.steps.map((step) => step.usage));
+  return {
+    steps: {
+      total: run.steps.length,
+      success: run.steps.filter((step) => step.status === "success").length,
+      error: run.steps.filter((step) => step.status === "error").length,
+      skipped: run.steps.filter((step) => step.status === "skipped").length,
+    },
+    ...(usage ? { usage } : {}),
+  };
+}
+
+/** Commit the changes of a finished run's worktree to its branch and record the diff. */
+async function settleRunWorktree(run: WorkflowRunState): Promise<void> {
+  if (!run.worktree || run.worktree.state !== "active" || run.status === "paused") return;
+  try {
+    const finalized = await finalizeJobWorktree(run.worktree, `orchestra: ${run.workflowId} run ${run.runId}`);
+    run.worktree = finalized.worktree;
+    run.changes = finalized.changes;
+  } catch (err) {
+    logger.warn(`[workflow] could not finalize worktree ${run.worktree.branch}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Resolve a step's worker for fresh and resumed runs alike: a running worker is
+ * used as-is, otherwise its profile is spawned when `autoSpawn` allows. Workers
+ * spawned for a session are owned by it.
+ */
+function createWorkerResolver(
+  context: OrchestratorContext,
+  sessionId: string | undefined
+): WorkflowRunDependencies["resolveWorker"] {
+  return async (workerId, autoSpawn) => {
+    const existing = context.workerPool.get(workerId);
+    if (existing && existing.status !== "error" && existing.status !== "stopped") {
+      return existing.profile.id;
+    }
+    if (!autoSpawn) {
+      throw new Error(`Worker "${workerId}" is not running. Spawn it first or pass autoSpawn=true.`);
+    }
+    const profile = context.profiles[workerId];
+    if (!profile) {
+      throw new Error(`Unknown worker profile "${workerId}".`);
+    }
+    const { basePort, timeout } = context.spawnDefaults;
+    const instance = await spawnWorker(profile, {
+      basePort,
+      timeout,
+      directory: context.directory,
+      client: context.client,
+      parentSessionId: sessionId,
+    });
+    if (sessionId && !existing && instance.modelResolution !== "reused existing worker") {
+      context.workerPool.trackOwnership(sessionId, instance.profile.id);
+    }
+    return instance.profile.id;
+  };
+}
+
+/**
+ * Send a step prompt and record what the worker changed in the checkout it ran in.
+ * Each prompt is checked against the job and run budgets before it is sent, and
+ * runs as a queued job on its worker so steps share the worker's
+ * `maxConcurrency` slots with task jobs.
+ */
+function createStepSender(
+  context: OrchestratorContext,
+  sessionId: string | undefined,
+  directory: string | undefined,
+  budgetIds: { job?: string; run: string }
+): WorkflowRunDependencies["sendToWorker"] {
+  return async (workerId, message, optionsInput) => {
+    const job = workerJobs.create({
+      workerId,
+      message,
+      sessionId,
+      requestedBy: `workflow:${budgetIds.run}`,
+      parentJobId: budgetIds.job,
+      queued: true,
+    });
+    let sent: Awaited<ReturnType<WorkflowRunDependencies["sendToWorker"]>> | undefined;
+    jobScheduler.schedule({
+      jobId: job.id,
+      workerId,
+      maxConcurrency: resolveWorkerConcurrency(
+        workerId,
+        context.workerPool.get(workerId)?.profile ?? getProfile(workerId, context.profiles)
+      ),
+      start: async () => {
+        const { result, changes } = await captureJobChanges(directory ?? context.directory, () =>
+          sendToWorker(workerId, message, {
+            attachments: optionsInput.attachments,
+            timeout: optionsInput.timeoutMs,
+            sessionId,
+            outputSchema: resolveOutputSchema(optionsInput.outputSchema, context.config.outputSchemas),
+            directory,
+            promptSections: optionsInput.promptSections,
+            budget: { limits: context.security?.budgets, ...budgetIds },
+          })
+        );
+        sent = changes ? { ...result, changes } : result;
+        if (result.success) {
+          workerJobs.setResult(job.id, {
+            responseText: result.response ?? "",
+            structured: result.structured,
+            usage: result.usage,
+          });
+        } else {
+          workerJobs.setError(job.id, { error: result.error ?? "Step failed" });
+        }
+      },
+    });
+    const settled = await workerJobs.await(job.id, { timeoutMs: Number.POSITIVE_INFINITY });
+    return sent ?? { success: false, error: settled.error ?? `Step job ${settled.status} before it could run` };
+  };
+}
+
+function pauseForBudget(run: WorkflowRunState, breach: BudgetBreach) {
+  run.status = "paused";
+  run.budgetExceeded = breach;
+  const message = `Workflow "${run.workflowName}" paused: ${formatBudgetBreach(breach)}`;
+  logger.warn(`[workflow] run=${run.runId} ${message}`);
+  publishOrchestratorEvent("orchestra.budget.exceeded", {
+    ...breach,
+    action: "paused",
+    message,
+    sessionId: run.parentSessionId,
+    runId: run.runId,
+    workflowId: run.workflowId,
+    workflowName: run.workflowName,
+  });
+}
+
 async function advanceWorkflowRun(
   run: WorkflowRunState,
   workflow: WorkflowDefinition,
   deps: WorkflowRunDependencies,
-  onStep?: WorkflowStepHook
+  options?: { onStep?: WorkflowStepHook; checkBudget?: WorkflowBudgetCheck; jobId?: string }
 ): Promise<WorkflowRunState> {
+  const onStep = options?.onStep;
   const totalSteps = workflow.steps.length;
+  const dependencies = resolveStepDependencies(workflow);
+  run.status = "running";
+  run.hostPid = process.pid;
+  run.hostStartedAt = processStartedAt;
+  run.interruptedAt = undefined;
+  run.budgetExceeded = undefined;
+  run.updatedAt = Date.now();
+  saveWorkflowRun(run);
+
+  let failed = false;
+  let paused = false;
+  await scheduleWorkflowSteps({
+    workflow,
+    dependencies,
+    completed: () => collectCompletedStepIds(run.steps, run.iterations),
+    canStart: () => {
+      const breach = options?.checkBudget?.(run);
+      if (breach) pauseForBudget(run, breach);
+      return !breach;
+    },
+    start: async (step, stepIndex) => {
+      await onStep?.({ phase: "start", run, stepIndex, step });
+      return await executeWorkflowStep(
+        {
+          runId: run.runId,
+          workflow,
+          stepIndex,
+          task: run.task,
+          carry: resolveStepCarry(workflow, dependencies, step, run.iterations, run.carryByStep, run.limits.maxCarryChars),
+          stepOutputs: collectStepOutputs(run.steps),
+          stepChanges: collectStepChanges(run.steps),
+          inputs: run.inputs,
+          context: run.context,
+          iteration: run.iterations[step.id],
+          autoSpawn: run.autoSpawn,
+          limits: run.limits,
+          attachments: run.attachments,
+          instructions: run.stepInstructions?.[step.id],
+        },
+        deps
+      );
+    },
+    settle: async ({ step, stepIndex, startedAt, outcome, running }) => {
+      const result =
+        outcome.status === "fulfilled"
+          ? outcome.value.step
+          : toFailedStepResult(step, startedAt, outcome.reason, run.iterations[step.id]);
+      run.steps.push(result);
+      run.lastStepResult = result;
+      if (run.stepInstructions) delete run.stepInstructions[result.id];
+      if (result.usage) usageLedger.record({ run: run.runId, job: options?.jobId }, result.usage);
+      if (outcome.status === "fulfilled" && result.status !== "error") {
+        run.carryByStep[result.id] = outcome.value.carry;
+        run.carry = outcome.value.carry;
+      }
 
-  while (run.currentStepIndex < totalSteps) {
-    const stepIndex = run.currentStepIndex;
-    const step = workflow.steps[stepIndex];
+      if (result.status !== "error") {
+        const repeat = planStepRepeat({
+          workflow,
+          dependencies,
+          step,
+          stepOutputs: collectStepOutputs(run.steps),
+          iterations: run.iterations,
+          executions: countStepExecutions(run.steps),
+          maxSteps: run.limits.maxSteps,
+        });
+        if (repeat.warning) {
+          logger.warn(`[workflow] loop stopped run=${run.runId} step=${step.id}: ${repeat.warning}`);
+          result.warning = result.warning ? `${result.warning}; ${repeat.warning}` : repeat.warning;
+        }
+        restartSteps(run.iterations, repeat.restart);
+      }
 
-    await onStep?.({ phase: "start", run, stepIndex, step });
+      // A prompt refused by a budget pauses the run whatever the intervene policy;
+      // the step stays incomplete and is sent again once the run continues.
+      const refused = outcome.status === "fulfilled" ? outcome.value.budgetExceeded : undefined;
+      if (refused) {
+        if (run.status === "running") pauseForBudget(run, refused);
+        await onStep?.({
+          phase: "finish",
+          run,
+          stepIndex,
+          step,
+          stepResult: result,
+          pause: true,
+          retry: true,
+          pauseReason: "budget exceeded",
+        });
+        saveWorkflowRun(run);
+        return false;
+      }
 
-    const executed = await executeWorkflowStep(
-      {
-        runId: run.runId,
-        workflow,
+      const completed = collectCompletedStepIds(run.steps, run.iterations);
+      run.currentStepIndex = completed.size;
+      const isLastStep = running === 0 && completed.size >= totalSteps;
+      const awaitingApproval = step.requiresApproval === true && result.status === "success" && completed.has(step.id);
+      const gate = resolveStepGate(run.ui, result, isLastStep, awaitingApproval);
+      if (result.status === "error" && !gate.pause) failed = true;
+      // Failed steps stay incomplete, so continuing the run retries them. Steps
+      // awaiting approval keep the run paused until they are decided.
+      if (gate.pause) paused = true;
+      if (awaitingApproval && !failed) requestWorkflowApproval(run, result);
+
+      await onStep?.({
+        phase: "finish",
+        run,
         stepIndex,
-        task: run.task,
-        carry: run.carry,
-        autoSpawn: run.autoSpawn,
-        limits: run.limits,
-        attachments: run.attachments,
-      },
-      deps
-    );
-
-    run.steps.push(executed.step);
-    run.lastStepResult = executed.step;
-    if (executed.step.status === "success") {
-      run.carry = executed.carry;
-    }
-
-    const gate = resolveStepGate(run.ui, executed.step, stepIndex >= totalSteps - 1);
-    const isError = executed.step.status === "error";
-
-    if (!isError) {
-      run.currentStepIndex = Math.min(stepIndex + 1, totalSteps);
-    }
-
-    await onStep?.({
-      phase: "finish",
-      run,
-      stepIndex,
-      step,
-      stepResult: executed.step,
-      pause: gate.pause,
-      retry: gate.retry,
-      pauseReason: gate.reason,
-    });
-
-    if (gate.terminalStatus) {
-      run.status = gate.terminalStatus;
-      break;
-    }
+        step,
+        stepResult: result,
+        pause: paused && !failed,
+        retry: gate.retry,
+        pauseReason: gate.reason,
+        awaitingApproval: awaitingApproval && !failed,
+      });
 
-    if (gate.pause) {
-      run.status = "paused";
-      if (gate.retry && isError) {
-        run.currentStepIndex = stepIndex;
+      if (run.status === "running") {
+        run.updatedAt = Date.now();
+        saveWorkflowRun(run);
       }
-      break;
-    }
-
-    if (isError) {
-      run.status = "error";
-      break;
-    }
-
-    run.status = "running";
-  }
+      return !failed && !paused && run.status === "running";
+    },
+  });
 
-  if (run.status === "running" && run.currentStepIndex >= totalSteps) {
-    run.status = "success";
+  if (run.status === "running") {
+    const completed = collectCompletedStepIds(run.steps, run.iterations);
+    run.status = failed ? "error" : paused ? "paused" : completed.size >= totalSteps ? "success" : "error";
   }
 
   run.updatedAt = Date.now();
   if (run.status === "success" || run.status === "error") {
     run.finishedAt = run.updatedAt;
+    deleteWorkflowRun(run.runId);
+  } else {
+    saveWorkflowRun(run);
   }
   return run;
 }
@@ -204,14 +468,24 @@ async function advanceWorkflowRun(
 export async function runWorkflowWithDependencies(
   input: WorkflowRunInput,
   deps: WorkflowRunDependencies,
-  options?: { uiPolicy?: WorkflowUiPolicy; onStep?: WorkflowStepHook; runId?: string; parentSessionId?: string }
+  options?: {
+    uiPolicy?: WorkflowUiPolicy;
+    onStep?: WorkflowStepHook;
+    checkBudget?: WorkflowBudgetCheck;
+    /** task_start job driving the run; step usage counts toward its budget */
+    jobId?: string;
+    runId?: string;
+    parentSessionId?: string;
+    /** Project directory the run belongs to */
+    directory?: string;
+  }
 ): Promise<WorkflowRunState> {
   const workflow = getWorkflow(input.workflowId);
   if (!workflow) {
     throw new Error(`Unknown workflow "${input.workflowId}".`);
   }
 
-  validateWorkflowInput(input, workflow);
+  const inputs = validateWorkflowInput(input, workflow);
 
   const runId = options?.runId ?? randomUUID();
   const ui: WorkflowUiPolicy = {
@@ -223,6 +497,10 @@ export async function runWorkflowWithDependencies(
     workflowId: workflow.id,
     workflowName: workflow.name,
     task: input.task,
+    inputs,
+    context: input.context,
+    directory: options?.directory,
+    worktree: input.worktree,
     autoSpawn: input.autoSpawn ?? true,
     limits: input.limits,
     attachments: input.attachments,
@@ -236,9 +514,10 @@ export async function runWorkflowWithDependencies(
     workflowName: workflow.name,
     task: input.task,
     startedAt: run.startedAt,
+    steps: describeWorkflowGraph(workflow),
   });
 
-  await advanceWorkflowRun(run, workflow, deps, options?.onStep);
+  await advanceWorkflowRun(run, workflow, deps, options);
   const nextStatus = (run as WorkflowRunState).status;
   if (nextStatus === "success" || nextStatus === "error") {
     publishOrchestratorEvent("orchestra.workflow.completed", {
@@ -249,11 +528,7 @@ export async function runWorkflowWithDependencies(
       startedAt: run.startedAt,
       finishedAt: run.finishedAt ?? Date.now(),
       durationMs: (run.finishedAt ?? Date.now()) - run.startedAt,
-      steps: {
-        total: run.steps.length,
-        success: run.steps.filter((step) => step.status === "success").length,
-        error: run.steps.filter((step) => step.status === "error").length,
-      },
+      ...summarizeRunSteps(run),
     });
   }
 
@@ -263,7 +538,7 @@ export async function runWorkflowWithDependencies(
 export async function continueWorkflowWithDependencies(
   run: WorkflowRunState,
   deps: WorkflowRunDependencies,
-  options?: { onStep?: WorkflowStepHook; uiPolicy?: WorkflowUiPolicy }
+  options?: { onStep?: WorkflowStepHook; checkBudget?: WorkflowBudgetCheck; jobId?: string; uiPolicy?: WorkflowUiPolicy }
 ): Promise<WorkflowRunState> {
   const workflow = getWorkflow(run.workflowId);
   if (!workflow) {
@@ -273,19 +548,24 @@ export async function continueWorkflowWithDependencies(
   if (run.status !== "paused") {
     return run;
   }
+  if (run.pendingApprovals?.length) {
+    throw new Error(formatPendingApprovalError(run));
+  }
 
   run.ui = options?.uiPolicy ?? run.ui;
 
   const validationInput: WorkflowRunInput = {
     workflowId: run.workflowId,
     task: run.task,
+    inputs: run.inputs,
     attachments: run.attachments,
     autoSpawn: run.autoSpawn,
     limits: run.limits,
   };
   validateWorkflowInput(validationInput, workflow);
 
-  await advanceWorkflowRun(run, workflow, deps, options?.onStep);
+  await claimWorkflowRun(run);
+  await advanceWorkflowRun(run, workflow, deps, options);
   const nextStatus = (run as WorkflowRunState).status;
   if (nextStatus === "success" || nextStatus === "error") {
     publishOrchestratorEvent("orchestra.workflow.completed", {
@@ -296,11 +576,7 @@ export async function continueWorkflowWithDependencies(
       startedAt: run.startedAt,
       finishedAt: run.finishedAt ?? Date.now(),
       durationMs: (run.finishedAt ?? Date.now()) - run.startedAt,
-      steps: {
-        total: run.steps.length,
-        success: run.steps.filter((step) => step.status === "success").length,
-        error: run.steps.filter((step) => step.status === "error").length,
-      },
+      ...summarizeRunSteps(run),
     });
   }
 
@@ -334,11 +610,18 @@ function formatStepFinishNotice(input: {
   pause?: boolean;
   retry?: boolean;
   pauseReason?: string;
+  awaitingApproval?: boolean;
   workerSessionId?: string;
   showOpenCommand: boolean;
 }): string {
-  const { run, stepIndex, step, totalSteps, stepResult, pause, retry, pauseReason, workerSessionId, showOpenCommand } = input;
-  const header = stepResult.status === "success" ? "**[WORKFLOW STEP FINISHED]**" : "**[WORKFLOW STEP FAILED]**";
+  const { run, stepIndex, step, totalSteps, stepResult, pause, retry, pauseReason, awaitingApproval, workerSessionId, showOpenCommand } =
+    input;
+  const header =
+    stepResult.status === "error"
+      ? "**[WORKFLOW STEP FAILED]**"
+      : stepResult.status === "skipped"
+        ? "**[WORKFLOW STEP SKIPPED]**"
+        : "**[WORKFLOW STEP FINISHED]**";
   const lines = [
     header,
     "",
@@ -354,12 +637,20 @@ function formatStepFinishNotice(input: {
   if (pause) {
     const reason = pauseReason ? ` (${pauseReason})` : "";
     lines.push("", `Paused${reason}.`);
-  } else if (stepResult.status === "success" && stepIndex < totalSteps - 1) {
+  } else if (stepResult.status !== "error" && stepIndex < totalSteps - 1) {
     lines.push("", "Continuing to next step...");
   }
 
   lines.push("", "Next actions:");
-  if (pause) {
+  if (awaitingApproval) {
+    const target = `runId: "${run.runId}", stepId: "${step.id}"`;
+    lines.push(
+      `- \`task_start({ kind: "op", op: "workflow.approve", task: "approve ${step.id}", approval: { ${target}, comment: "..." } })\` (optionally pass \`carry\` to edit what downstream steps receive)`,
+      `- \`task_start({ kind: "op", op: "workflow.reject", task: "reject ${step.id}", approval: { ${target}, instructions: "..." } })\` (re-runs the step with the amended instructions)`
+    );
+  } else if (pause && run.pendingApprovals?.length) {
+    lines.push(`- Decide the pending approval(s) first: ${run.pendingApprovals.map((entry) => entry.stepId).join(", ")}`);
+  } else if (pause) {
     const retryNote = retry ? " (retries the failed step)" : "";
     lines.push(
       `- \`task_start({ kind: "workflow", continueRunId: "${run.runId}", task: "continue workflow" })\`${retryNote}`
@@ -373,8 +664,23 @@ function formatStepFinishNotice(input: {
   return lines.join("\n");
 }
 
+function formatBudgetPauseNotice(run: WorkflowRunState, breach: BudgetBreach): string {
+  return [
+    "**[WORKFLOW PAUSED: BUDGET]**",
+    "",
+    `Workflow: ${run.workflowName} (${run.workflowId})`,
+    `Run: ${run.runId}`,
+    `Reason: ${formatBudgetBreach(breach)}`,
+    "",
+    "Next actions:",
+    "- Raise `security.budgets` in orchestrator.json, then",
+    `- \`task_start({ kind: "workflow", continueRunId: "${run.runId}", task: "continue workflow" })\``,
+    `- or \`task_cancel({ runId: "${run.runId}" })\` to abandon the run`,
+  ].join("\n");
+}
+
 function createStepHook(context: OrchestratorContext, sessionId: string | undefined, notify: boolean): WorkflowStepHook {
-  return async ({ phase, run, stepIndex, step, stepResult, pause, retry, pauseReason }) => {
+  return async ({ phase, run, stepIndex, step, stepResult, pause, retry, pauseReason, awaitingApproval }) => {
     const totalSteps = getWorkflow(run.workflowId)?.steps.length ?? 0;
     const instance = context.workerPool.get(step.workerId);
 
@@ -411,13 +717,15 @@ function createStepHook(context: OrchestratorContext, sessionId: string | undefi
       pause,
       retry,
       pauseReason,
+      awaitingApproval,
       workerSessionId: isInProcess ? instance?.sessionId : undefined,
       showOpenCommand: isInProcess,
     });
 
     await injectSessionNotice(context, sessionId, notice);
 
-    if (pause && context.client?.tui) {
+    // Approvals are never pre-filled: the reviewer has to decide explicitly.
+    if (pause && !run.pendingApprovals?.length && context.client?.tui) {
       void context.client.tui
         .appendPrompt({
           body: { text: `task_start({ kind: "workflow", continueRunId: "${run.runId}", task: "continue workflow" })` },
@@ -428,12 +736,62 @@ function createStepHook(context: OrchestratorContext, sessionId: string | undefi
   };
 }
 
+function createBudgetCheck(
+  context: OrchestratorContext,
+  options?: { sessionId?: string; jobId?: string }
+): WorkflowBudgetCheck | undefined {
+  const budgets = context.security?.budgets;
+  if (!budgets) return undefined;
+  return (run) => findBudgetBreach(budgets, { job: options?.jobId, run: run.runId, session: options?.sessionId });
+}
+
+/**
+ * Compare the skills preflight resolved with the workflow's entry in `skills.lock.json`;
+ * drift warns or fails. A workflow without an entry is only written to the lock with
+ * `skills.autoLock`. Returns a notice for the run result when the workflow is unlocked,
+ * was just locked, or drifted under the `warn` policy.
+ */
+async function checkSkillsLock(
+  context: OrchestratorContext,
+  workflowId: string,
+  skills: SkillDescriptor[]
+): Promise<string | undefined> {
+  const policy = context.config.skills?.lock ?? "warn";
+  if (policy === "off") return undefined;
+  const root = context.worktree ?? context.directory;
+  const lockOp = `task_start({ kind: "op", op: "skills.lock", task: "lock skills", skills: { workflowId: "${workflowId}" } })`;
+  const lock = await readSkillsLock(root);
+  const locked = lock.workflows[workflowId];
+  if (!locked) {
+    if (!context.config.skills?.autoLock) {
+      return `Skills of workflow "${workflowId}" are not in ${SKILLS_LOCK_FILE}, so drift is not checked. Lock them with ${lockOp}.`;
+    }
+    await writeSkillsLock(root, lockWorkflowSkills(lock, workflowId, skills));
+    logger.info(`[workflow] ${workflowId} skills locked in ${SKILLS_LOCK_FILE}`);
+    return `Recorded the skills of workflow "${workflowId}" in ${SKILLS_LOCK_FILE} at ${root}; commit the file.`;
+  }
+
+  const drift = checkWorkflowSkillsLock(locked, skills);
+  if (drift.length === 0) return undefined;
+  const summary = `${drift.map(describeSkillDrift).join("; ")}. Update the lock with ${lockOp}`;
+  if (policy === "warn") {
+    logger.warn(`[workflow] ${workflowId} skills differ from ${SKILLS_LOCK_FILE}: ${summary}`);
+    return `Skills differ from ${SKILLS_LOCK_FILE}: ${summary}.`;
+  }
+  publishErrorEvent({
+    message: `Workflow "${workflowId}" skills differ from ${SKILLS_LOCK_FILE}`,
+    source: "workflow",
+    workflowId,
+    details: summary,
+  });
+  throw new Error(`Skills differ from ${SKILLS_LOCK_FILE}: ${summary}`);
+}
+
 export async function runWorkflowWithContext(
   context: OrchestratorContext,
   input: Omit<WorkflowRunInput, "limits"> & { limits?: WorkflowSecurityLimits },
-  options?: { sessionId?: string; uiPolicy?: WorkflowUiPolicy; notify?: boolean }
+  options?: { sessionId?: string; jobId?: string; uiPolicy?: WorkflowUiPolicy; notify?: boolean }
 ): Promise<WorkflowRunResult> {
-  const workerPool = context.workerPool;
   const limits = input.limits ?? resolveWorkflowLimits(context, input.workflowId);
   const uiPolicy = resolveWorkflowUiPolicy(context, options?.uiPolicy);
   const notify = options?.notify !== false && context.config.ui?.wakeupInjection !== false;
@@ -441,7 +799,9 @@ export async function runWorkflowWithContext(
   if (!workflow) {
     throw new Error(`Unknown workflow "${input.workflowId}".`);
   }
+  resolveWorkflowInputs(workflow, input.inputs);
 
+  let skillsLockNotice: string | undefined;
   const requirements = collectWorkflowSkillRequirements(workflow, context.profiles);
   if (requirements.length > 0) {
     const config = await loadSkillConfig(context);
@@ -454,9 +814,13 @@ export async function runWorkflowWithContext(
       includeGlobal: true,
       permissionMap,
       toolEnabled,
+      registries: context.config.skills?.registries,
     });
     if (!preflight.ok) {
-      const summary = preflight.errors.join("; ");
+      const install = preflight.install?.length
+        ? `. Install ${preflight.install.join(", ")} with task_start({ kind: "op", op: "skills.install", task: "install skills", skills: { workflowId: "${input.workflowId}" } })`
+        : "";
+      const summary = preflight.errors.join("; ") + install;
       publishErrorEvent({
         message: `Workflow "${input.workflowId}" missing required skills`,
         source: "workflow",
@@ -465,60 +829,31 @@ export async function runWorkflowWithContext(
       });
       throw new Error(`Required skills missing/denied: ${summary}`);
     }
+    skillsLockNotice = await checkSkillsLock(context, input.workflowId, preflight.skills);
   }
 
-  const ensureWorker = async (workerId: string, autoSpawn: boolean): Promise<string> => {
-    const existing = workerPool.get(workerId);
-    if (existing && existing.status !== "error" && existing.status !== "stopped") {
-      return existing.profile.id;
-    }
-    if (!autoSpawn) {
-      throw new Error(`Worker "${workerId}" is not running. Spawn it first or pass autoSpawn=true.`);
-    }
-
-    const profile = context.profiles[workerId];
-    if (!profile) {
-      throw new Error(`Unknown worker profile "${workerId}".`);
-    }
-
-    const { basePort, timeout } = context.spawnDefaults;
-    const instance = await spawnWorker(profile, {
-      basePort,
-      timeout,
-      directory: context.directory,
-      client: context.client,
-      parentSessionId: options?.sessionId,
-    });
-    return instance.profile.id;
-  };
-
   const startedAt = Date.now();
+  // Known before the first step so step prompts are checked against the run budget too.
+  const runId = randomUUID();
   logger.info(`[workflow] ${input.workflowId} started`);
 
   let result: WorkflowRunState;
   try {
     const deps: WorkflowRunDependencies = {
-      resolveWorker: async (workerId, autoSpawn) => {
-        const existing = workerPool.get(workerId);
-        const resolved = await ensureWorker(workerId, autoSpawn);
-        const instance = workerPool.get(resolved);
-        if (options?.sessionId && !existing && instance && instance.modelResolution !== "reused existing worker") {
-          workerPool.trackOwnership(options.sessionId, instance.profile.id);
-        }
-        return resolved;
-      },
-      sendToWorker: async (workerId, message, optionsInput) =>
-        sendToWorker(workerId, message, {
-          attachments: optionsInput.attachments,
-          timeout: optionsInput.timeoutMs,
-          sessionId: options?.sessionId,
-        }),
+      resolveWorker: createWorkerResolver(context, options?.sessionId),
+      sendToWorker: createStepSender(context, options?.sessionId, input.worktree?.directory, {
+        job: options?.jobId,
+        run: runId,
+      }),
     };
 
     result = await runWorkflowWithDependencies(
       {
         workflowId: input.workflowId,
         task: input.task,
+        inputs: input.inputs,
+        context: input.context ?? resolveWorkflowTemplateContext(context),
+        worktree: input.worktree,
         attachments: input.attachments,
         autoSpawn: input.autoSpawn ?? true,
         limits,
@@ -526,8 +861,12 @@ export async function runWorkflowWithContext(
       deps,
       {
         uiPolicy,
+        runId,
         parentSessionId: options?.sessionId,
+        directory: context.directory,
         onStep: createStepHook(context, options?.sessionId, notify),
+        checkBudget: createBudgetCheck(context, options),
+        jobId: options?.jobId,
       }
     );
   } catch (err) {
@@ -540,6 +879,11 @@ export async function runWorkflowWithContext(
     throw err;
   }
 
+  if (result.budgetExceeded && notify && options?.sessionId) {
+    await injectSessionNotice(context, options.sessionId, formatBudgetPauseNotice(result, result.budgetExceeded));
+  }
+  await settleRunWorktree(result);
+
   const durationMs = Date.now() - startedAt;
   const failed = result.steps.some((step) => step.status === "error");
   if (failed) {
@@ -550,16 +894,14 @@ export async function runWorkflowWithContext(
     logger.info(`[workflow] ${input.workflowId} completed (${durationMs}ms)`);
   }
 
-  if (result.status === "paused") saveWorkflowRun(result);
-  else deleteWorkflowRun(result.runId);
-
-  return toWorkflowRunResult(result);
+  const runResult = toWorkflowRunResult(result);
+  return skillsLockNotice ? { ...runResult, skillsLockNotice } : runResult;
 }
 
 export async function continueWorkflowWithContext(
   context: OrchestratorContext,
   runId: string,
-  options?: { sessionId?: string; uiPolicy?: WorkflowUiPolicy; notify?: boolean }
+  options?: { sessionId?: string; jobId?: string; uiPolicy?: WorkflowUiPolicy; notify?: boolean }
 ): Promise<WorkflowRunResult> {
   try {
     const run = getWorkflowRun(runId);
@@ -570,53 +912,31 @@ export async function continueWorkflowWithContext(
       return toWorkflowRunResult(run);
     }
 
-    const workerPool = context.workerPool;
     const notify = options?.notify !== false && context.config.ui?.wakeupInjection !== false;
     const uiPolicy = resolveWorkflowUiPolicy(context, options?.uiPolicy);
     run.ui = uiPolicy;
     if (options?.sessionId) run.parentSessionId = options.sessionId;
 
     const deps: WorkflowRunDependencies = {
-      resolveWorker: async (workerId, autoSpawn) => {
-        const existing = workerPool.get(workerId);
-        if (existing && existing.status !== "error" && existing.status !== "stopped") {
-          return existing.profile.id;
-        }
-        if (!autoSpawn) {
-          throw new Error(`Worker "${workerId}" is not running. Spawn it first or pass autoSpawn=true.`);
-        }
-        const profile = context.profiles[workerId];
-        if (!profile) {
-          throw new Error(`Unknown worker profile "${workerId}".`);
-        }
-        const { basePort, timeout } = context.spawnDefaults;
-        const instance = await spawnWorker(profile, {
-          basePort,
-          timeout,
-          directory: context.directory,
-          client: context.client,
-          parentSessionId: options?.sessionId,
-        });
-        if (options?.sessionId && !existing && instance.modelResolution !== "reused existing worker") {
-          workerPool.trackOwnership(options.sessionId, instance.profile.id);
-        }
-        return instance.profile.id;
-      },
-      sendToWorker: async (workerId, message, optionsInput) =>
-        sendToWorker(workerId, message, {
-          attachments: optionsInput.attachments,
-          timeout: optionsInput.timeoutMs,
-          sessionId: options?.sessionId,
-        }),
+      resolveWorker: createWorkerResolver(context, options?.sessionId),
+      sendToWorker: createStepSender(
+        context,
+        options?.sessionId,
+        run.worktree?.state === "active" ? run.worktree.directory : undefined,
+        { job: options?.jobId, run: run.runId }
+      ),
     };
 
     const next = await continueWorkflowWithDependencies(run, deps, {
       uiPolicy,
       onStep: createStepHook(context, options?.sessionId, notify),
+      checkBudget: createBudgetCheck(context, options),
+      jobId: options?.jobId,
     });
-
-    if (next.status === "paused") saveWorkflowRun(next);
-    else deleteWorkflowRun(next.runId);
+    if (next.budgetExceeded && notify && options?.sessionId) {
+      await injectSessionNotice(context, options.sessionId, formatBudgetPauseNotice(next, next.budgetExceeded));
+    }
+    await settleRunWorktree(next);
 
     return toWorkflowRunResult(next);
   } catch (err) {
@@ -629,3 +949,66 @@ export async function continueWorkflowWithContext(
     throw err;
   }
 }
+
+export function abandonWorkflowRun(runId: string, options?: { reason?: string }): WorkflowRunResult {
+  const run = getWorkflowRun(runId);
+  if (!run) {
+    throw new Error(`Unknown workflow run "${runId}".`);
+  }
+  if (run.status !== "paused") {
+    throw new Error(`Workflow run "${runId}" is ${run.status}; only paused or interrupted runs can be abandoned.`);
+  }
+
+  run.status = "error";
+  run.updatedAt = Date.now();
+  run.finishedAt = run.updatedAt;
+  deleteWorkflowRun(run.runId);
+  logger.info(`[workflow] abandoned run=${run.runId}${options?.reason ? `: ${options.reason}` : ""}`);
+
+  publishOrchestratorEvent("orchestra.workflow.completed", {
+    runId: run.runId,
+    workflowId: run.workflowId,
+    workflowName: run.workflowName,
+    status: "error",
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt,
+    durationMs: run.finishedAt - run.startedAt,
+    ...summarizeRunSteps(run),
+    abandoned: true,
+  });
+
+  return toWorkflowRunResult(run);
+}
+
+/**
+ * Record an approval decision and, once no step of the run is left waiting,
+ * continue it. A rejected step runs again with the amended instructions.
+ */
+export async function decideWorkflowStep(
+  context: OrchestratorContext,
+  decision: WorkflowApprovalDecision,
+  options?: { sessionId?: string; jobId?: string; notify?: boolean }
+): Promise<{ stepId: string; approval: WorkflowStepApproval; resumed: boolean; result: WorkflowRunResult }> {
+  const { run, stepId, approval } = recordWorkflowApproval(decision);
+  if (run.pendingApprovals?.length) {
+    return { stepId, approval, resumed: false, result: toWorkflowRunResult(run) };
+  }
+  const result = await continueWorkflowWithContext(context, run.runId, options);
+  return { stepId, approval, resumed: true, result };
+}
+
+/** Bridge handler: records the decision and continues the run in the background. */
+export function createWorkflowApprovalHandler(context: OrchestratorContext): WorkflowApprovalHandler {
+  return async (decision) => {
+    try {
+      const { run, stepId } = recordWorkflowApproval(decision);
+      const resumed = !run.pendingApprovals?.length;
+      if (resumed) {
+        void continueWorkflowWithContext(context, run.runId, { sessionId: run.parentSessionId }).catch(() => {});
+      }
+      return { ok: true, runId: run.runId, stepId, decision: decision.decision, resumed };
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+  };
+}
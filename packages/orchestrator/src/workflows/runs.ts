@@ -1,17 +1,40 @@
+import { existsSync } from "node:fs";
+import { mkdir, readdir, readFile, rm, unlink, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { getUserConfigDir } from "../helpers/format";
+import { withFileLock, writeJsonAtomic } from "../helpers/fs";
+import { isSameProcessAlive, processStartedAt } from "../helpers/process";
+import { normalizeBase64Image } from "../workers/prompt/attachments";
 import type {
   WorkflowAttachment,
+  WorkflowInputValue,
+  WorkflowPendingApproval,
   WorkflowRunResult,
   WorkflowRunStatus,
   WorkflowSecurityLimits,
   WorkflowStepResult,
+  WorkflowTemplateContext,
 } from "./types";
 import type { WorkflowUiPolicy } from "../types";
+import type { BudgetBreach } from "../core/guardrails";
+import type { JobChanges } from "../core/diffs";
+import type { JobWorktree } from "../core/worktrees";
 
 export type WorkflowRunState = {
   runId: string;
   workflowId: string;
   workflowName: string;
   task: string;
+  /** Resolved values of the workflow's declared inputs */
+  inputs?: Record<string, WorkflowInputValue>;
+  /** Project id and git branch captured when the run started */
+  context?: WorkflowTemplateContext;
+  /** Project directory the run was started in; other projects' processes do not load it */
+  directory?: string;
+  /** Git worktree the steps run in, kept across pauses */
+  worktree?: JobWorktree;
+  /** Changes committed to the worktree branch once the run finished */
+  changes?: JobChanges;
   autoSpawn: boolean;
   limits: WorkflowSecurityLimits;
   attachments?: WorkflowAttachment[];
@@ -21,19 +44,220 @@ export type WorkflowRunState = {
   steps: WorkflowStepResult[];
   lastStepResult?: WorkflowStepResult;
   carry: string;
+  /** Carry produced by each completed step, used to build downstream inputs */
+  carryByStep: Record<string, string>;
+  /** Current loop iteration per step id (absent = first pass) */
+  iterations: Record<string, number>;
   startedAt: number;
   finishedAt?: number;
   updatedAt: number;
   parentSessionId?: string;
+  /** PID of the OpenCode process driving the run */
+  hostPid?: number;
+  /** Start time (Unix ms) of that process, so a reused PID is not mistaken for it */
+  hostStartedAt?: number;
+  /** Set when a run was left mid-step by a process that exited */
+  interruptedAt?: number;
+  /** Set when the run paused because a budget ran out */
+  budgetExceeded?: BudgetBreach;
+  /** Steps whose output waits for approval; the run cannot continue until they are decided */
+  pendingApprovals?: WorkflowPendingApproval[];
+  /** Amended instructions from rejected approvals, used on the step's next run */
+  stepInstructions?: Record<string, string>;
+};
+
+export type WorkflowRunStoreOptions = {
+  persist?: boolean;
+  directory?: string;
+  /** Only load runs of this project (runs stored without a project are always loaded) */
+  project?: { directory?: string; projectId?: string };
 };
 
 const runs = new Map<string, WorkflowRunState>();
+const writeChains = new Map<string, Promise<void>>();
+let storeDir: string | undefined;
+
+export function getDefaultWorkflowRunStoreDir(): string {
+  return join(getUserConfigDir(), "opencode", "orchestrator-workflow-runs");
+}
+
+function isWorkflowRunRecord(value: unknown): value is WorkflowRunState {
+  if (!value || typeof value !== "object") return false;
+  const record = value as Partial<WorkflowRunState>;
+  return (
+    typeof record.runId === "string" &&
+    typeof record.workflowId === "string" &&
+    typeof record.task === "string" &&
+    typeof record.status === "string" &&
+    Array.isArray(record.steps)
+  );
+}
+
+/** Directory beside a run's record that holds its inline attachment payloads. */
+function getRunAttachmentsDir(directory: string, runId: string): string {
+  return join(directory, `${runId}.attachments`);
+}
+
+const attachmentExtension = (mimeType?: string): string => {
+  const subtype = mimeType?.split("/")[1]?.replace(/[^a-z0-9.+-]/gi, "");
+  return subtype ? `.${subtype === "jpeg" ? "jpg" : subtype}` : ".bin";
+};
+
+/**
+ * Attachments are stored by path. Inline base64 payloads go to files in the
+ * run's attachments directory, so a resumed run still sends them.
+ */
+function toStoredRun(
+  state: WorkflowRunState,
+  directory: string
+): { record: WorkflowRunState; payloads: Array<{ path: string; base64: string }> } {
+  const payloads: Array<{ path: string; base64: string }> = [];
+  const attachments = state.attachments?.flatMap((attachment, index) => {
+    if (attachment.path) return [{ type: attachment.type, path: attachment.path, mimeType: attachment.mimeType }];
+    if (!attachment.base64) return [];
+    const path = join(getRunAttachmentsDir(directory, state.runId), `${index}${attachmentExtension(attachment.mimeType)}`);
+    payloads.push({ path, base64: normalizeBase64Image(attachment.base64) });
+    return [{ type: attachment.type, path, mimeType: attachment.mimeType }];
+  });
+  return { record: structuredClone({ ...state, attachments }), payloads };
+}
+
+async function writeStoredRun(path: string, stored: ReturnType<typeof toStoredRun>): Promise<void> {
+  for (const payload of stored.payloads) {
+    if (existsSync(payload.path)) continue;
+    await mkdir(dirname(payload.path), { recursive: true });
+    await writeFile(payload.path, Buffer.from(payload.base64, "base64"));
+  }
+  await writeJsonAtomic(path, stored.record, { tmpPrefix: "opencode-orch-run" });
+}
+
+function enqueueWrite(runId: string, task: () => Promise<void>) {
+  const next = (writeChains.get(runId) ?? Promise.resolve()).then(task).catch(() => {});
+  writeChains.set(runId, next);
+  void next.then(() => {
+    if (writeChains.get(runId) === next) writeChains.delete(runId);
+  });
+}
+
+function persistWorkflowRun(state: WorkflowRunState) {
+  if (!storeDir) return;
+  const path = join(storeDir, `${state.runId}.json`);
+  const stored = toStoredRun(state, storeDir);
+  enqueueWrite(state.runId, () => writeStoredRun(path, stored));
+}
+
+async function readRunRecord(path: string): Promise<WorkflowRunState | undefined> {
+  const raw = await readFile(path, "utf8").catch(() => undefined);
+  let record: unknown;
+  try {
+    record = raw ? JSON.parse(raw) : undefined;
+  } catch {
+    record = undefined;
+  }
+  return isWorkflowRunRecord(record) ? record : undefined;
+}
+
+function belongsToProject(record: WorkflowRunState, project?: WorkflowRunStoreOptions["project"]): boolean {
+  if (project?.directory && record.directory && record.directory !== project.directory) return false;
+  if (project?.projectId && record.context?.projectId && record.context.projectId !== project.projectId) return false;
+  return true;
+}
+
+function removePersistedRun(runId: string) {
+  if (!storeDir) return;
+  const path = join(storeDir, `${runId}.json`);
+  const attachmentsDir = getRunAttachmentsDir(storeDir, runId);
+  enqueueWrite(runId, async () => {
+    await unlink(path).catch(() => {});
+    await rm(attachmentsDir, { recursive: true, force: true });
+  });
+}
+
+/**
+ * Load paused runs of the current project from disk and enable persistence for
+ * new ones. Runs left "running" by a process that is no longer alive come back
+ * as paused with `interruptedAt` set, so they can be continued or abandoned.
+ */
+export async function restoreWorkflowRuns(options?: WorkflowRunStoreOptions): Promise<number> {
+  if (options?.persist === false) {
+    storeDir = undefined;
+    return 0;
+  }
+  const directory = options?.directory ?? getDefaultWorkflowRunStoreDir();
+  storeDir = directory;
+
+  const entries = await readdir(directory).catch(() => [] as string[]);
+  let restored = 0;
+  for (const entry of entries) {
+    if (!entry.endsWith(".json")) continue;
+    const record = await readRunRecord(join(directory, entry));
+    if (!record || !belongsToProject(record, options?.project)) continue;
+
+    if (record.status === "running") {
+      const hostAlive = await isSameProcessAlive(record.hostPid, {
+        startedAt: record.hostStartedAt,
+        startedBefore: record.updatedAt,
+      });
+      if (hostAlive) continue;
+      record.status = "paused";
+      record.interruptedAt = Date.now();
+      persistWorkflowRun(record);
+    } else if (record.status !== "paused") {
+      removePersistedRun(record.runId);
+      continue;
+    }
+
+    record.carryByStep ??= {};
+    record.iterations ??= {};
+    runs.set(record.runId, record);
+    restored += 1;
+  }
+  return restored;
+}
+
+/**
+ * Take a paused run over before continuing it. Every process of the project loads
+ * the same paused runs, so the stored owner is compared and swapped under a lock:
+ * the claim fails when another live process took the run since this one loaded it.
+ */
+export async function claimWorkflowRun(state: WorkflowRunState): Promise<void> {
+  if (!storeDir) return;
+  const path = join(storeDir, `${state.runId}.json`);
+  await writeChains.get(state.runId);
+  await withFileLock(path, async () => {
+    const stored = await readRunRecord(path);
+    if (!stored) {
+      throw new Error(`Workflow run "${state.runId}" is no longer stored; another process finished or abandoned it.`);
+    }
+    const ownerChanged = stored.hostPid !== state.hostPid || stored.hostStartedAt !== state.hostStartedAt;
+    const ownedHere = stored.hostPid === process.pid && stored.hostStartedAt === processStartedAt;
+    if (
+      ownerChanged &&
+      !ownedHere &&
+      (await isSameProcessAlive(stored.hostPid, { startedAt: stored.hostStartedAt, startedBefore: stored.updatedAt }))
+    ) {
+      throw new Error(`Workflow run "${state.runId}" was taken over by another OpenCode process (pid ${stored.hostPid}).`);
+    }
+    state.hostPid = process.pid;
+    state.hostStartedAt = processStartedAt;
+    await writeStoredRun(path, toStoredRun(state, dirname(path)));
+  });
+}
+
+/** Wait for pending run store writes (used by tests and shutdown paths). */
+export async function flushWorkflowRuns(): Promise<void> {
+  await Promise.all([...writeChains.values()]);
+}
 
 export function createWorkflowRunState(input: {
   runId: string;
   workflowId: string;
   workflowName: string;
   task: string;
+  inputs?: Record<string, WorkflowInputValue>;
+  context?: WorkflowTemplateContext;
+  directory?: string;
+  worktree?: JobWorktree;
   autoSpawn: boolean;
   limits: WorkflowSecurityLimits;
   attachments?: WorkflowAttachment[];
@@ -46,6 +270,10 @@ export function createWorkflowRunState(input: {
     workflowId: input.workflowId,
     workflowName: input.workflowName,
     task: input.task,
+    ...(input.inputs && Object.keys(input.inputs).length > 0 ? { inputs: input.inputs } : {}),
+    ...(input.context ? { context: input.context } : {}),
+    ...(input.directory ? { directory: input.directory } : {}),
+    ...(input.worktree ? { worktree: input.worktree } : {}),
     autoSpawn: input.autoSpawn,
     limits: input.limits,
     attachments: input.attachments,
@@ -54,22 +282,34 @@ export function createWorkflowRunState(input: {
     currentStepIndex: 0,
     steps: [],
     carry: "",
+    carryByStep: {},
+    iterations: {},
     startedAt: now,
     updatedAt: now,
+    hostPid: process.pid,
+    hostStartedAt: processStartedAt,
     ...(input.parentSessionId ? { parentSessionId: input.parentSessionId } : {}),
   };
 }
 
 export function saveWorkflowRun(state: WorkflowRunState): void {
   runs.set(state.runId, state);
+  persistWorkflowRun(state);
 }
 
 export function getWorkflowRun(runId: string): WorkflowRunState | undefined {
   return runs.get(runId);
 }
 
+export function listWorkflowRuns(options?: { status?: WorkflowRunStatus[] }): WorkflowRunState[] {
+  return [...runs.values()]
+    .filter((run) => !options?.status || options.status.includes(run.status))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
 export function deleteWorkflowRun(runId: string): void {
   runs.delete(runId);
+  removePersistedRun(runId);
 }
 
 export function toWorkflowRunResult(state: WorkflowRunState): WorkflowRunResult {
@@ -84,5 +324,10 @@ export function toWorkflowRunResult(state: WorkflowRunState): WorkflowRunResult
     steps: state.steps,
     lastStepResult: state.lastStepResult,
     ui: state.ui,
+    budgetExceeded: state.budgetExceeded,
+    ...(state.pendingApprovals?.length ? { pendingApprovals: state.pendingApprovals } : {}),
+    ...(state.inputs ? { inputs: state.inputs } : {}),
+    ...(state.worktree ? { worktree: state.worktree } : {}),
+    ...(state.changes ? { changes: state.changes } : {}),
   };
 }
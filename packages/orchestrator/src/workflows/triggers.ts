@@ -1,4 +1,5 @@
 import type { OrchestratorContext } from "../context/orchestrator-context";
+import { formatBudgetBreach } from "../core/guardrails";
 import { workerJobs } from "../core/jobs";
 import { normalizeForMemory } from "../memory/text";
 import { createMemoryTask, failMemoryTask, isMemoryTaskPending } from "../memory/tasks";
@@ -191,6 +192,9 @@ function isVisionErrorResponse(text: string): boolean {
 }
 
 function pickWorkflowResponse(result: WorkflowRunResult): { success: boolean; response?: string; error?: string } {
+  if (result.budgetExceeded) {
+    return { success: false, error: `Workflow paused: ${formatBudgetBreach(result.budgetExceeded)}` };
+  }
   const errorStep = result.steps.find((step) => step.status === "error");
   if (errorStep) {
     return { success: false, error: errorStep.error ?? "workflow step failed" };
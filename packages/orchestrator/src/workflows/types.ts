@@ -1,4 +1,16 @@
-import type { WorkflowUiPolicy } from "../types";
+import type { BudgetBreach } from "../core/guardrails";
+import type { JobChanges } from "../core/diffs";
+import type { JobWorktree } from "../core/worktrees";
+import type {
+  JsonSchema,
+  TokenUsage,
+  WorkflowInputDefinition,
+  WorkflowInputValue,
+  WorkflowStepCondition,
+  WorkflowUiPolicy,
+} from "../types";
+
+export type { WorkflowInputDefinition, WorkflowInputValue, WorkflowStepCondition } from "../types";
 
 export type WorkflowAttachment = {
   type: "image" | "file";
@@ -15,13 +27,44 @@ export type WorkflowStepDefinition = {
   carry?: boolean;
   timeoutMs?: number;
   requiredSkills?: string[];
+  /**
+   * Step ids that must succeed before this step runs. When omitted the step
+   * depends on the previous step; `[]` marks a root that can start immediately.
+   */
+  dependsOn?: string[];
+  /** Skip the step unless this condition holds */
+  when?: WorkflowStepCondition;
+  /** Re-run the loop ending at this step until the condition holds */
+  repeatUntil?: WorkflowStepCondition;
+  /** First step of the loop (default: this step) */
+  repeatFrom?: string;
+  /** Maximum loop iterations, including the first pass (default: 3) */
+  maxIterations?: number;
+  /** Extra attempts on the step's worker after a failed send (default: 0) */
+  retries?: number;
+  /** Delay before the first retry, doubled on each further attempt (default: 0) */
+  backoffMs?: number;
+  /** Worker that gets one last attempt once retries are exhausted */
+  fallbackWorkerId?: string;
+  /** JSON Schema (or the name of one in `outputSchemas`) the response must match */
+  outputSchema?: string | JsonSchema;
+  /** Pause after the step succeeds until someone approves or rejects its output */
+  requiresApproval?: boolean;
 };
 
+/** Where a workflow was registered from */
+export type WorkflowSource = "builtin" | "config" | "project" | "global";
+
 export type WorkflowDefinition = {
   id: string;
   name: string;
   description: string;
+  /** Typed inputs, available to step prompts as `{inputs.<name>}` */
+  inputs?: Record<string, WorkflowInputDefinition>;
   steps: WorkflowStepDefinition[];
+  source?: WorkflowSource;
+  /** File the workflow was loaded from (project and global workflows) */
+  sourcePath?: string;
 };
 
 export type WorkflowSecurityLimits = {
@@ -31,23 +74,76 @@ export type WorkflowSecurityLimits = {
   perStepTimeoutMs: number;
 };
 
+/** Project details available to step prompts as `{project.id}` and `{git.branch}` */
+export type WorkflowTemplateContext = {
+  projectId?: string;
+  gitBranch?: string;
+};
+
 export type WorkflowRunInput = {
   workflowId: string;
   task: string;
+  /** Values for the workflow's declared `inputs` (strings are coerced to the declared type) */
+  inputs?: Record<string, unknown>;
+  context?: WorkflowTemplateContext;
   attachments?: WorkflowAttachment[];
   autoSpawn?: boolean;
   limits: WorkflowSecurityLimits;
+  /** Git worktree every step runs in (steps on workers with `isolation: "worktree"`) */
+  worktree?: JobWorktree;
+};
+
+export type WorkflowStepAttempt = {
+  attempt: number;
+  workerId: string;
+  status: "success" | "error";
+  error?: string;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+};
+
+/** Decision recorded on a step that requires approval */
+export type WorkflowStepApproval = {
+  decision: "approved" | "rejected";
+  approver: string;
+  comment?: string;
+  /** Set when the approver replaced the carry handed to downstream steps */
+  carryEdited?: boolean;
+  /** Amended instructions the step is retried with (rejections only) */
+  instructions?: string;
+  decidedAt: number;
+};
+
+/** Step output waiting for an approval decision */
+export type WorkflowPendingApproval = {
+  stepId: string;
+  stepTitle: string;
+  iteration?: number;
+  requestedAt: number;
 };
 
 export type WorkflowStepResult = {
   id: string;
   title: string;
   workerId: string;
-  status: "success" | "error";
+  status: "success" | "error" | "skipped";
+  /** Loop iteration (present from the second pass on) */
+  iteration?: number;
   response?: string;
   warning?: string;
   error?: string;
   jobId?: string;
+  /** Every attempt made for this step, present when the step was retried */
+  attempts?: WorkflowStepAttempt[];
+  /** Parsed response when the step declares an `outputSchema` */
+  structured?: unknown;
+  /** Tokens and cost across all attempts */
+  usage?: TokenUsage;
+  /** Approval decision, for steps with `requiresApproval` */
+  approval?: WorkflowStepApproval;
+  /** Files the step's worker changed, with the unified diff */
+  changes?: JobChanges;
   startedAt: number;
   finishedAt: number;
   durationMs: number;
@@ -66,4 +162,16 @@ export type WorkflowRunResult = {
   steps: WorkflowStepResult[];
   lastStepResult?: WorkflowStepResult;
   ui?: WorkflowUiPolicy;
+  /** Set when the run paused because a budget ran out */
+  budgetExceeded?: BudgetBreach;
+  /** Steps whose output waits for approval before the run continues */
+  pendingApprovals?: WorkflowPendingApproval[];
+  /** Resolved values of the workflow's declared inputs */
+  inputs?: Record<string, WorkflowInputValue>;
+  /** Worktree the steps ran in; committed once the run finishes */
+  worktree?: JobWorktree;
+  /** Everything the run committed to its worktree branch */
+  changes?: JobChanges;
+  /** Set when the workflow's skills are not in `skills.lock.json`, drifted from it, or this run just recorded them */
+  skillsLockNotice?: string;
 };
@@ -1,7 +1,11 @@
 import { afterAll, beforeAll, describe, expect, test } from "bun:test";
 import { request } from "node:http";
 import { startBridgeServer } from "../../src/core/bridge-server";
-import { publishOrchestratorEvent } from "../../src/core/orchestrator-events";
+import { type DelegationRequest, setDelegationHandler } from "../../src/core/delegation";
+import { workerJobs } from "../../src/core/jobs";
+import { onOrchestratorEvent, publishOrchestratorEvent, type OrchestratorEvent } from "../../src/core/orchestrator-events";
+import { wakeupLimiter } from "../../src/ux/wakeup";
+import { setWorkflowApprovalHandler, type WorkflowApprovalDecision } from "../../src/workflows/approvals";
 
 describe("bridge server streaming", () => {
   let bridge: Awaited<ReturnType<typeof startBridgeServer>> | undefined;
@@ -33,6 +37,143 @@ describe("bridge server streaming", () => {
     expect(data.ok).toBe(true);
   });
 
+  test("v1/wakeup requires the bridge token", async () => {
+    const res = await fetch(`${bridge!.url}/v1/wakeup`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ workerId: "worker-test", reason: "result_ready" }),
+    });
+    expect(res.status).toBe(401);
+  });
+
+  test("v1/wakeup rejects job ids that are not the caller's", async () => {
+    wakeupLimiter.clear();
+    const job = workerJobs.create({ workerId: "worker-other", message: "task", sessionId: "session-other" });
+    const send = (jobId: string) =>
+      fetch(`${bridge!.url}/v1/wakeup`, {
+        method: "POST",
+        headers: {
+          authorization: `Bearer ${bridge!.token}`,
+          "content-type": "application/json",
+        },
+        body: JSON.stringify({ workerId: "worker-test", jobId, reason: "progress" }),
+      });
+
+    const foreign = await send(job.id);
+    expect(foreign.status).toBe(403);
+    expect(((await foreign.json()) as { error: string }).error).toBe("job_worker_mismatch");
+    const unknown = await send("no-such-job");
+    expect(unknown.status).toBe(404);
+    expect(((await unknown.json()) as { error: string }).error).toBe("unknown_job");
+  });
+
+  test("v1/wakeup routes to the job session and drops repeats", async () => {
+    wakeupLimiter.clear();
+    const job = workerJobs.create({ workerId: "worker-test", message: "task", sessionId: "session-wakeup" });
+    const events: OrchestratorEvent[] = [];
+    const off = onOrchestratorEvent((event) => {
+      if (event.type === "orchestra.worker.wakeup") events.push(event);
+    });
+    const send = (summary: string) =>
+      fetch(`${bridge!.url}/v1/wakeup`, {
+        method: "POST",
+        headers: {
+          authorization: `Bearer ${bridge!.token}`,
+          "content-type": "application/json",
+        },
+        body: JSON.stringify({ workerId: "worker-test", jobId: job.id, reason: "needs_attention", summary }),
+      });
+
+    try {
+      const first = await send("Which schema?");
+      expect(first.status).toBe(200);
+      expect(((await first.json()) as { routed: boolean }).routed).toBe(true);
+
+      const repeat = await send("Which schema?");
+      expect(repeat.status).toBe(429);
+      expect(((await repeat.json()) as { error: string }).error).toBe("duplicate");
+
+      expect(events.length).toBe(1);
+      expect(events[0]?.data).toMatchObject({ workerId: "worker-test", jobId: job.id, sessionId: "session-wakeup" });
+    } finally {
+      off();
+      wakeupLimiter.clear();
+    }
+  });
+
+  test("v1/delegate hands the request to the delegation handler", async () => {
+    const requests: DelegationRequest[] = [];
+    const uninstall = setDelegationHandler(async (request) => {
+      requests.push(request);
+      return { ok: true, jobId: "job-peer", workerId: request.workerId, response: "peer reply" };
+    });
+    try {
+      const res = await fetch(`${bridge!.url}/v1/delegate`, {
+        method: "POST",
+        headers: {
+          authorization: `Bearer ${bridge!.token}`,
+          "content-type": "application/json",
+        },
+        body: JSON.stringify({ workerId: "coder", targetWorkerId: "architect", task: "review", jobId: "job-1" }),
+      });
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ ok: true, response: "peer reply" });
+      expect(requests).toEqual([{ fromWorkerId: "coder", workerId: "architect", task: "review", jobId: "job-1" }]);
+    } finally {
+      uninstall();
+    }
+
+    const unavailable = await fetch(`${bridge!.url}/v1/delegate`, {
+      method: "POST",
+      headers: { authorization: `Bearer ${bridge!.token}`, "content-type": "application/json" },
+      body: JSON.stringify({ workerId: "coder", targetWorkerId: "architect", task: "review" }),
+    });
+    expect(unavailable.status).toBe(503);
+  });
+
+  test("v1/workflows/approval takes the admin token and calls the approval handler", async () => {
+    const post = (body: Record<string, unknown>, token = bridge!.adminToken) =>
+      fetch(`${bridge!.url}/v1/workflows/approval`, {
+        method: "POST",
+        headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    expect(bridge!.adminToken).not.toBe(bridge!.token);
+    const fromWorker = await post({ runId: "run-1", decision: "approve", approver: "coder" }, bridge!.token);
+    expect(fromWorker.status).toBe(401);
+
+    const invalid = await post({ runId: "run-1", decision: "maybe", approver: "ana" });
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({ error: "invalid_decision" });
+    const anonymous = await post({ runId: "run-1", decision: "approve" });
+    expect(await anonymous.json()).toEqual({ error: "missing_approver" });
+
+    const unavailable = await post({ runId: "run-1", decision: "approve", approver: "ana" });
+    expect(unavailable.status).toBe(503);
+
+    const decisions: WorkflowApprovalDecision[] = [];
+    const uninstall = setWorkflowApprovalHandler(async (decision) => {
+      decisions.push(decision);
+      return decision.runId === "run-1"
+        ? { ok: true, runId: decision.runId, stepId: "plan", decision: decision.decision, resumed: true }
+        : { ok: false, error: "not waiting" };
+    });
+    try {
+      const res = await post({ runId: "run-1", decision: "reject", approver: "ana", instructions: "add tests" });
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ ok: true, stepId: "plan", decision: "rejected" });
+      expect(decisions).toEqual([
+        { runId: "run-1", decision: "rejected", approver: "ana", instructions: "add tests" },
+      ]);
+
+      const conflict = await post({ runId: "run-2", decision: "approve", approver: "ana" });
+      expect(conflict.status).toBe(409);
+    } finally {
+      uninstall();
+    }
+  });
+
   test("v1/stream returns event-stream", async () => {
     const url = new URL(`${bridge!.url}/v1/stream`);
     await new Promise<void>((resolve, reject) => {
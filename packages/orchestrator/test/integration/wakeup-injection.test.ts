@@ -1,7 +1,8 @@
 import { describe, expect, test } from "bun:test";
 import { builtInProfiles } from "../../src/config/profiles";
 import { createOrchestratorContext } from "../../src/context/orchestrator-context";
-import { injectSessionNotice } from "../../src/ux/wakeup";
+import { publishOrchestratorEvent } from "../../src/core/orchestrator-events";
+import { injectSessionNotice, startWakeupInjector, WakeupLimiter } from "../../src/ux/wakeup";
 import type { OrchestratorConfig } from "../../src/types";
 
 const baseConfig: OrchestratorConfig = {
@@ -62,4 +63,73 @@ describe("wakeup injection", () => {
 
     expect(prompts.length).toBe(0);
   });
+
+  test("injects worker wakeups into the owning session", async () => {
+    const prompts: any[] = [];
+    const client = {
+      session: {
+        prompt: async (args: any) => {
+          prompts.push(args);
+          return { data: true };
+        },
+      },
+    };
+
+    const context = createOrchestratorContext({
+      directory: "/tmp",
+      projectId: "project-1",
+      config: baseConfig,
+      client: client as any,
+    });
+
+    const stop = startWakeupInjector(context);
+    try {
+      publishOrchestratorEvent("orchestra.worker.wakeup", {
+        workerId: "coder",
+        jobId: "job-1",
+        reason: "result_ready",
+        summary: "Refactor done",
+        timestamp: Date.now(),
+        sessionId: "session-1",
+      });
+      publishOrchestratorEvent("orchestra.worker.wakeup", {
+        workerId: "coder",
+        reason: "progress",
+        timestamp: Date.now(),
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    } finally {
+      stop();
+    }
+
+    expect(prompts.length).toBe(1);
+    expect(prompts[0]?.path?.id).toBe("session-1");
+    const text = prompts[0]?.body?.parts?.[0]?.text as string;
+    expect(text).toContain("[WORKER RESULT READY]");
+    expect(text).toContain("Refactor done");
+    expect(text).toContain('task_await({ taskId: "job-1" })');
+  });
+
+  test("rate limits wakeups per job", () => {
+    const limiter = new WakeupLimiter({ max: 2, windowMs: 1000 });
+    const wakeup = (summary: string, jobId = "job-1") => ({ workerId: "coder", jobId, reason: "progress" as const, summary });
+
+    expect(limiter.admit(wakeup("a"), 0)).toEqual({ ok: true });
+    expect(limiter.admit(wakeup("a"), 10)).toMatchObject({ ok: false, reason: "duplicate" });
+    expect(limiter.admit(wakeup("b"), 20)).toEqual({ ok: true });
+    expect(limiter.admit(wakeup("c"), 30)).toMatchObject({ ok: false, reason: "rate_limited", retryAfterMs: 970 });
+    expect(limiter.admit(wakeup("c", "job-2"), 30)).toEqual({ ok: true });
+    expect(limiter.admit(wakeup("c"), 1001)).toEqual({ ok: true });
+  });
+
+  test("caps wakeups per worker across its jobs", () => {
+    const limiter = new WakeupLimiter({ max: 2, windowMs: 1000 }, { max: 3, windowMs: 1000 });
+    const wakeup = (jobId: string) => ({ workerId: "coder", jobId, reason: "progress" as const, summary: jobId });
+
+    expect(limiter.admit(wakeup("job-1"), 0)).toEqual({ ok: true });
+    expect(limiter.admit(wakeup("job-2"), 10)).toEqual({ ok: true });
+    expect(limiter.admit(wakeup("job-3"), 20)).toEqual({ ok: true });
+    expect(limiter.admit(wakeup("job-4"), 30)).toMatchObject({ ok: false, reason: "rate_limited", retryAfterMs: 970 });
+    expect(limiter.admit({ ...wakeup("job-4"), workerId: "docs" }, 30)).toEqual({ ok: true });
+  });
 });
@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import {
+	buildDelegationChain,
+	checkDelegation,
+	findDelegatingJob,
+	getDelegationHandler,
+	setDelegationHandler,
+} from "../../../src/core/delegation";
+import { workerJobs } from "../../../src/core/jobs";
+
+describe("delegation", () => {
+	test("builds the chain from the parent job and the delegating worker", () => {
+		expect(buildDelegationChain(undefined, "coder#2")).toEqual(["coder"]);
+		const parent = workerJobs.create({
+			workerId: "architect",
+			message: "review",
+			delegationChain: ["coder"],
+		});
+		expect(buildDelegationChain(parent, "architect")).toEqual(["coder", "architect"]);
+	});
+
+	test("refuses cycles, deep chains, and disabled delegation", () => {
+		expect(checkDelegation(["coder"], "architect", undefined)).toBeUndefined();
+		expect(checkDelegation(["coder", "architect"], "coder#2", undefined)).toContain(
+			"Delegation cycle: coder → architect → coder",
+		);
+		expect(checkDelegation(["a", "b"], "c", { maxDepth: 1 })).toContain("depth limit (1)");
+		expect(checkDelegation(["a"], "b", { enabled: false })).toContain("disabled");
+	});
+
+	test("finds the delegating job by id or by the worker's running job", () => {
+		const running = workerJobs.create({ workerId: "unit-delegator", message: "work" });
+		expect(findDelegatingJob("unit-delegator#3")?.id).toBe(running.id);
+		expect(findDelegatingJob("unit-delegator", running.id)?.id).toBe(running.id);
+		workerJobs.setResult(running.id, { responseText: "done" });
+		expect(findDelegatingJob("unit-delegator")).toBeUndefined();
+	});
+
+	test("installs and removes the bridge handler", () => {
+		const handler = async () => ({ ok: false as const, error: "nope" });
+		const uninstall = setDelegationHandler(handler);
+		expect(getDelegationHandler()).toBe(handler);
+		uninstall();
+		expect(getDelegationHandler()).toBeUndefined();
+	});
+});
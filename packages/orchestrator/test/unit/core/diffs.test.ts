@@ -0,0 +1,64 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { mkdir, mkdtemp, realpath, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { captureJobChanges, diffSinceSnapshot, snapshotWorkingTree } from "../../../src/core/diffs";
+
+const git = (cwd: string, ...args: string[]) =>
+	execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+		cwd,
+		encoding: "utf8",
+	});
+
+describe("job change capture", () => {
+	let repo: string;
+
+	beforeAll(async () => {
+		repo = await realpath(await mkdtemp(join(tmpdir(), "opencode-orch-diffs-")));
+		git(repo, "init", "-q", "-b", "main");
+		await writeFile(join(repo, ".gitignore"), "dist/\n");
+		await writeFile(join(repo, "a.ts"), "export const a = 1;\n");
+		git(repo, "add", "-A");
+		git(repo, "commit", "-q", "-m", "init");
+		// Pre-existing uncommitted work must not show up as the job's change.
+		await writeFile(join(repo, "wip.ts"), "export const wip = 1;\n");
+	});
+
+	afterAll(async () => {
+		if (repo) await rm(repo, { recursive: true, force: true });
+	});
+
+	test("diffs tracked and untracked edits made after the snapshot", async () => {
+		const before = await snapshotWorkingTree(repo);
+		expect(before?.repo).toBe(repo);
+
+		await writeFile(join(repo, "a.ts"), "export const a = 2;\n");
+		await writeFile(join(repo, "new.ts"), "export const added = true;\n");
+		await mkdir(join(repo, "dist"));
+		await writeFile(join(repo, "dist", "out.js"), "ignored\n");
+
+		const changes = await diffSinceSnapshot(before!);
+		expect(changes.files).toEqual(["a.ts", "new.ts"]);
+		expect(changes.diff).toContain("-export const a = 1;\n+export const a = 2;");
+		expect(changes.diff).toContain("+export const added = true;");
+		// The user's index is untouched: new files are still untracked.
+		expect(git(repo, "status", "--porcelain")).toBe(" M a.ts\n?? new.ts\n?? wip.ts\n");
+	});
+
+	test("captures changes around a job and skips directories outside git", async () => {
+		const captured = await captureJobChanges(repo, async () => {
+			await writeFile(join(repo, "wip.ts"), "export const wip = 2;\n");
+			return "done";
+		});
+		expect(captured.result).toBe("done");
+		expect(captured.changes?.files).toEqual(["wip.ts"]);
+
+		const outside = await mkdtemp(join(tmpdir(), "opencode-orch-nogit-"));
+		try {
+			expect(await captureJobChanges(outside, async () => 1)).toEqual({ result: 1 });
+		} finally {
+			await rm(outside, { recursive: true, force: true });
+		}
+	});
+});
@@ -1,6 +1,9 @@
-import { describe, expect, test } from "bun:test";
+import { beforeEach, describe, expect, test } from "bun:test";
+import { emptyUsage, usageDayKey, usageLedger } from "../../../src/core/usage";
 import {
 	buildPendingTaskReminder,
+	findBudgetBreach,
+	formatBudgetBreach,
 	needsLegacyToolCorrection,
 	buildLegacyToolCorrectionHint,
 } from "../../../src/core/guardrails";
@@ -162,3 +165,51 @@ describe("buildPendingTaskReminder", () => {
 		}
 	});
 });
+
+describe("findBudgetBreach", () => {
+	beforeEach(() => {
+		usageLedger.clear();
+	});
+
+	test("returns undefined without budgets or usage", () => {
+		expect(findBudgetBreach(undefined, { session: "s1" })).toBeUndefined();
+		expect(findBudgetBreach({ perSession: { maxTokens: 10 } }, { session: "s1" })).toBeUndefined();
+	});
+
+	test("trips token and cost limits per scope", () => {
+		usageLedger.record(
+			{ session: "s1", run: "run-1", day: usageDayKey() },
+			{ ...emptyUsage(), inputTokens: 80, outputTokens: 20, cost: 0.5 },
+		);
+
+		expect(findBudgetBreach({ perSession: { maxTokens: 200 } }, { session: "s1" })).toBeUndefined();
+		expect(findBudgetBreach({ perSession: { maxTokens: 100 } }, { session: "s1" })).toEqual({
+			scope: "session",
+			id: "s1",
+			limit: "tokens",
+			used: 100,
+			max: 100,
+		});
+
+		const breach = findBudgetBreach({ perRun: { maxCost: 0.25 } }, { run: "run-1" });
+		expect(breach?.limit).toBe("cost");
+		expect(formatBudgetBreach(breach!)).toBe("run budget (run-1) exhausted: $0.5000 of $0.2500 spent");
+
+		expect(findBudgetBreach({ perDay: { maxCost: 0.5 } }, {})?.scope).toBe("day");
+	});
+
+	test("refuses work whose estimate would cross a limit", () => {
+		const budgets = { perJob: { maxTokens: 1000 } };
+		expect(findBudgetBreach(budgets, { job: "job-1" }, { tokens: 900 })).toBeUndefined();
+		const fresh = findBudgetBreach(budgets, { job: "job-1" }, { tokens: 1200 });
+		expect(fresh).toEqual({ scope: "job", id: "job-1", limit: "tokens", used: 0, max: 1000, estimated: 1200 });
+		expect(formatBudgetBreach(fresh!)).toBe("job budget (job-1) would be exceeded: 0 used + ~1200 estimated > 1000 tokens");
+
+		usageLedger.record({ job: "job-1" }, { ...emptyUsage(), inputTokens: 700, cost: 0.2 });
+		expect(findBudgetBreach(budgets, { job: "job-1" }, { tokens: 400 })?.estimated).toBe(400);
+		expect(findBudgetBreach({ perJob: { maxCost: 0.3 } }, { job: "job-1" }, { tokens: 10 })).toBeUndefined();
+		expect(findBudgetBreach({ perJob: { maxCost: 0.3 } }, { job: "job-1" }, { tokens: 10, cost: 0.15 })?.limit).toBe(
+			"cost",
+		);
+	});
+});
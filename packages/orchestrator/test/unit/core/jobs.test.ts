@@ -0,0 +1,172 @@
+import { describe, expect, test } from "bun:test";
+import { appendFile, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ORPHANED_JOB_ERROR, WorkerJobRegistry, type WorkerJob } from "../../../src/core/jobs";
+import { withFileLock } from "../../../src/helpers/fs";
+
+const withStoreDir = async (fn: (path: string) => Promise<void>) => {
+	const dir = await mkdtemp(join(tmpdir(), "opencode-orch-jobs-"));
+	try {
+		await fn(join(dir, "jobs.jsonl"));
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+};
+
+describe("WorkerJobRegistry persistence", () => {
+	test("replays finished jobs after a restart", async () => {
+		await withStoreDir(async (path) => {
+			const first = new WorkerJobRegistry();
+			await first.restore({ path });
+			const job = first.create({ workerId: "coder", message: "do work", sessionId: "s1" });
+			first.setResult(job.id, { responseText: "done" });
+			first.attachReport(job.id, { summary: "ok" });
+			await first.flush();
+
+			const second = new WorkerJobRegistry();
+			expect(await second.restore({ path })).toBe(1);
+			const restored = second.get(job.id);
+			expect(restored?.status).toBe("succeeded");
+			expect(restored?.responseText).toBe("done");
+			expect(restored?.report?.summary).toBe("ok");
+			expect(await second.await(job.id)).toEqual(restored as WorkerJob);
+		});
+	});
+
+	test("marks running jobs from a dead process as orphaned", async () => {
+		await withStoreDir(async (path) => {
+			const stale: WorkerJob = {
+				id: "stale-job",
+				workerId: "coder",
+				message: "interrupted",
+				hostPid: 2 ** 22 + 1,
+				status: "running",
+				startedAt: Date.now() - 1000,
+			};
+			await writeFile(path, `${JSON.stringify(stale)}\nnot json\n`, "utf8");
+
+			const registry = new WorkerJobRegistry();
+			await registry.restore({ path });
+			const job = registry.get("stale-job");
+			expect(job?.status).toBe("failed");
+			expect(job?.error).toBe(ORPHANED_JOB_ERROR);
+			expect(job?.finishedAt).toBeDefined();
+
+			const lines = (await readFile(path, "utf8")).trim().split("\n");
+			expect(lines).toHaveLength(1);
+			expect(JSON.parse(lines[0]).status).toBe("failed");
+		});
+	});
+
+	test("treats a running job whose PID was reused as orphaned", async () => {
+		await withStoreDir(async (path) => {
+			const reused: WorkerJob = {
+				id: "reused-pid-job",
+				workerId: "coder",
+				message: "interrupted",
+				hostPid: process.pid,
+				hostStartedAt: Date.now() - 60 * 60 * 1000,
+				status: "running",
+				startedAt: Date.now() - 60 * 60 * 1000,
+			};
+			await writeFile(path, `${JSON.stringify(reused)}\n`, "utf8");
+
+			const registry = new WorkerJobRegistry();
+			await registry.restore({ path });
+			expect(registry.get("reused-pid-job")?.error).toBe(ORPHANED_JOB_ERROR);
+		});
+	});
+
+	test("compaction keeps jobs that another live process appended", async () => {
+		await withStoreDir(async (path) => {
+			const registry = new WorkerJobRegistry();
+			await registry.restore({ path, maxJobs: 1 });
+			const other: WorkerJob = {
+				id: "other-process-job",
+				workerId: "docs",
+				message: "elsewhere",
+				hostPid: process.ppid,
+				status: "running",
+				startedAt: Date.now(),
+			};
+			await appendFile(path, `${JSON.stringify(other)}\n`, "utf8");
+
+			// maxJobs * 4 appends trigger a compaction from this process's in-memory map.
+			for (let i = 0; i < 3; i += 1) {
+				const job = registry.create({ workerId: "coder", message: `job ${i}` });
+				registry.setResult(job.id, { responseText: `${i}` });
+			}
+			await registry.flush();
+
+			const lines = (await readFile(path, "utf8")).trim().split("\n").map((line) => JSON.parse(line));
+			expect(lines.some((job) => job.id === "other-process-job" && job.status === "running")).toBe(true);
+			expect(await readFile(`${path}.lock`, "utf8").catch(() => undefined)).toBeUndefined();
+		});
+	});
+
+	test("waits for the store lock instead of appending beside it", async () => {
+		await withStoreDir(async (path) => {
+			const registry = new WorkerJobRegistry();
+			await registry.restore({ path });
+			let job: WorkerJob | undefined;
+			await withFileLock(path, async () => {
+				job = registry.create({ workerId: "coder", message: "while locked" });
+				await new Promise((resolve) => setTimeout(resolve, 50));
+				expect(await readFile(path, "utf8")).not.toContain("while locked");
+			});
+			await registry.flush();
+			expect(await readFile(path, "utf8")).toContain(job?.id ?? "missing");
+		});
+	});
+
+	test("follows a job another live process finishes", async () => {
+		await withStoreDir(async (path) => {
+			const foreign: WorkerJob = {
+				id: "foreign-job",
+				workerId: "docs",
+				message: "elsewhere",
+				hostPid: process.ppid,
+				status: "running",
+				startedAt: Date.now(),
+			};
+			await writeFile(path, `${JSON.stringify(foreign)}\n`, "utf8");
+
+			const registry = new WorkerJobRegistry();
+			await registry.restore({ path, foreignPollMs: 10 });
+			expect(registry.get("foreign-job")?.status).toBe("running");
+			const awaited = registry.await("foreign-job", { timeoutMs: 1000 });
+
+			const finished = { ...foreign, status: "succeeded", responseText: "done", finishedAt: Date.now() };
+			await appendFile(path, `${JSON.stringify(finished)}\n`, "utf8");
+			expect(await awaited).toMatchObject({ status: "succeeded", responseText: "done" });
+			expect(registry.list({ status: "running" })).toEqual([]);
+		});
+	});
+
+	test("applies configured retention on replay", async () => {
+		await withStoreDir(async (path) => {
+			const first = new WorkerJobRegistry();
+			await first.restore({ path });
+			for (let i = 0; i < 5; i += 1) {
+				const job = first.create({ workerId: "coder", message: `job ${i}` });
+				first.setResult(job.id, { responseText: `${i}` });
+			}
+			await first.flush();
+
+			const second = new WorkerJobRegistry();
+			await second.restore({ path, maxJobs: 2 });
+			expect(second.list({ limit: 10 })).toHaveLength(2);
+		});
+	});
+
+	test("does not touch disk when persistence is disabled", async () => {
+		await withStoreDir(async (path) => {
+			const registry = new WorkerJobRegistry();
+			await registry.restore({ path, persist: false });
+			registry.create({ workerId: "coder", message: "memory only" });
+			await registry.flush();
+			expect(await readFile(path, "utf8").catch(() => undefined)).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { workerJobs } from "../../../src/core/jobs";
+import { jobScheduler, resolveWorkerConcurrency } from "../../../src/core/scheduler";
+import { workerPool } from "../../../src/core/worker-pool";
+import { createOrchestratorContext } from "../../../src/context/orchestrator-context";
+import { registerWorkflow } from "../../../src/workflows/engine";
+import { runWorkflowWithContext } from "../../../src/workflows/runner";
+
+type Deferred = { promise: Promise<void>; resolve: () => void };
+
+const deferred = (): Deferred => {
+	let resolve = () => {};
+	const promise = new Promise<void>((done) => {
+		resolve = done;
+	});
+	return { promise, resolve };
+};
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const queueJob = (
+	workerId: string,
+	message: string,
+	started: string[],
+	gate: Deferred,
+	options?: { priority?: number; deadline?: number; maxConcurrency?: number },
+) => {
+	const job = workerJobs.create({
+		workerId,
+		message,
+		queued: true,
+		priority: options?.priority,
+		deadline: options?.deadline,
+	});
+	jobScheduler.schedule({
+		jobId: job.id,
+		workerId,
+		priority: options?.priority,
+		deadline: options?.deadline,
+		maxConcurrency: options?.maxConcurrency,
+		start: async () => {
+			started.push(message);
+			await gate.promise;
+			workerJobs.setResult(job.id, { responseText: message });
+		},
+	});
+	return job;
+};
+
+afterEach(() => {
+	jobScheduler.clear();
+});
+
+describe("JobScheduler", () => {
+	test("runs one job per worker at a time in priority order", async () => {
+		const gate = deferred();
+		const started: string[] = [];
+		const first = queueJob("unit-coder", "first", started, gate);
+		const low = queueJob("unit-coder", "low", started, gate);
+		const high = queueJob("unit-coder", "high", started, gate, { priority: 5 });
+
+		expect(first.status).toBe("running");
+		expect(low.status).toBe("queued");
+		expect(jobScheduler.position(high.id)).toBe(1);
+		expect(jobScheduler.position(low.id)).toBe(2);
+		expect(started).toEqual(["first"]);
+
+		gate.resolve();
+		await workerJobs.await(low.id, { timeoutMs: 1000 });
+		expect(started).toEqual(["first", "high", "low"]);
+		await tick();
+		expect(jobScheduler.list("unit-coder")).toEqual([]);
+	});
+
+	test("honors maxConcurrency and skips canceled jobs", async () => {
+		const gate = deferred();
+		const started: string[] = [];
+		queueJob("unit-docs", "a", started, gate, { maxConcurrency: 2 });
+		queueJob("unit-docs", "b", started, gate, { maxConcurrency: 2 });
+		const canceled = queueJob("unit-docs", "c", started, gate, { maxConcurrency: 2 });
+		const last = queueJob("unit-docs", "d", started, gate, { maxConcurrency: 2 });
+		expect(started).toEqual(["a", "b"]);
+
+		workerJobs.cancel(canceled.id);
+		gate.resolve();
+		await workerJobs.await(last.id, { timeoutMs: 1000 });
+		expect(started).toEqual(["a", "b", "d"]);
+		expect(workerJobs.get(canceled.id)?.status).toBe("canceled");
+	});
+
+	test("fails queued jobs whose deadline passes before they start", async () => {
+		const gate = deferred();
+		const started: string[] = [];
+		queueJob("unit-vision", "busy", started, gate);
+		const late = queueJob("unit-vision", "late", started, gate, { deadline: Date.now() + 5 });
+
+		const failed = await workerJobs.await(late.id, { timeoutMs: 1000 });
+		expect(failed.status).toBe("failed");
+		expect(failed.error).toContain("deadline");
+		expect(jobScheduler.position(late.id)).toBeUndefined();
+
+		gate.resolve();
+		await tick();
+		expect(started).toEqual(["busy"]);
+	});
+
+	test("queues workflow steps behind the worker's running jobs", async () => {
+		const profile = { id: "unit-step-worker", name: "Step", model: "test/model", purpose: "unit", whenToUse: "unit" };
+		expect(resolveWorkerConcurrency("unit-step-worker", { ...profile, maxConcurrency: 2 })).toBe(2);
+		expect(resolveWorkerConcurrency("unit-step-worker#2", { ...profile, maxConcurrency: 2 })).toBe(2);
+		workerPool.register({ profile, status: "ready", port: 0, directory: process.cwd(), startedAt: new Date() });
+		registerWorkflow({
+			id: "unit-scheduled-steps",
+			name: "Scheduled steps",
+			description: "unit workflow",
+			steps: [{ id: "only", title: "Only", workerId: "unit-step-worker", prompt: "step for {task}" }],
+		});
+
+		try {
+			const gate = deferred();
+			const started: string[] = [];
+			queueJob("unit-step-worker", "busy", started, gate);
+			const context = createOrchestratorContext({
+				directory: process.cwd(),
+				config: { basePort: 0, profiles: {}, spawn: [], autoSpawn: false, startupTimeout: 1000, healthCheckInterval: 1000 },
+			});
+			const run = runWorkflowWithContext(context, {
+				workflowId: "unit-scheduled-steps",
+				task: "queue",
+				autoSpawn: false,
+			});
+			await tick();
+			const queued = jobScheduler.list("unit-step-worker").filter((entry) => entry.status === "queued");
+			expect(queued).toHaveLength(1);
+
+			gate.resolve();
+			const result = await run;
+			expect(result.steps).toHaveLength(1);
+			const step = workerJobs.get(queued[0]?.jobId ?? "");
+			expect(step?.status).not.toBe("queued");
+			expect(step?.requestedBy).toBe(`workflow:${result.runId}`);
+		} finally {
+			workerPool.unregister("unit-step-worker");
+		}
+	});
+});
@@ -0,0 +1,169 @@
+import { afterAll, beforeEach, describe, expect, setSystemTime, test } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	computeUsageCost,
+	emptyUsage,
+	priceUsage,
+	recordWorkerUsage,
+	restoreDailyUsage,
+	sumUsage,
+	usageDayKey,
+	usageLedger,
+} from "../../../src/core/usage";
+import { withFileLock } from "../../../src/helpers/fs";
+import { extractUsageFromPromptResponse } from "../../../src/workers/prompt/extract";
+
+const usage = (overrides: Partial<ReturnType<typeof emptyUsage>> & { model?: string }) => ({
+	...emptyUsage(),
+	...overrides,
+});
+
+describe("extractUsageFromPromptResponse", () => {
+	test("reads tokens, cost and model from the message info", () => {
+		const result = extractUsageFromPromptResponse({
+			info: {
+				providerID: "anthropic",
+				modelID: "claude-sonnet",
+				cost: 0.02,
+				tokens: { input: 100, output: 40, reasoning: 10, cache: { read: 500, write: 0 } },
+			},
+		});
+		expect(result).toEqual({
+			inputTokens: 100,
+			outputTokens: 40,
+			reasoningTokens: 10,
+			cacheReadTokens: 500,
+			cacheWriteTokens: 0,
+			cost: 0.02,
+			model: "anthropic/claude-sonnet",
+		});
+	});
+
+	test("returns undefined when no tokens are reported", () => {
+		expect(extractUsageFromPromptResponse({ info: {} })).toBeUndefined();
+		expect(extractUsageFromPromptResponse(undefined)).toBeUndefined();
+	});
+});
+
+describe("usage math", () => {
+	test("prices tokens per million with reasoning at the output rate", () => {
+		const cost = computeUsageCost(
+			usage({ inputTokens: 1_000_000, outputTokens: 500_000, reasoningTokens: 500_000, cacheReadTokens: 2_000_000 }),
+			{ input: 3, output: 15, cache: { read: 0.3, write: 3.75 } },
+		);
+		expect(cost).toBeCloseTo(3 + 15 + 0.6);
+	});
+
+	test("sums records and keeps the model only when shared", () => {
+		expect(sumUsage([undefined])).toBeUndefined();
+		const same = sumUsage([usage({ inputTokens: 1, cost: 0.5, model: "a/b" }), usage({ inputTokens: 2, model: "a/b" })]);
+		expect(same?.inputTokens).toBe(3);
+		expect(same?.cost).toBe(0.5);
+		expect(same?.model).toBe("a/b");
+		const mixed = sumUsage([usage({ model: "a/b" }), usage({ model: "c/d" })]);
+		expect(mixed?.model).toBeUndefined();
+	});
+});
+
+describe("usageLedger", () => {
+	beforeEach(() => {
+		usageLedger.clear();
+	});
+
+	test("aggregates per scope and totals across workers", () => {
+		usageLedger.record({ worker: "coder", job: "job-1", session: "s1" }, usage({ inputTokens: 10, cost: 1 }));
+		usageLedger.record({ worker: "coder", job: "job-2", session: "s1" }, usage({ inputTokens: 5, cost: 1 }), {
+			prompts: 2,
+		});
+		usageLedger.record({ worker: "docs", session: undefined }, usage({ outputTokens: 7 }));
+
+		expect(usageLedger.get("worker", "coder")?.prompts).toBe(3);
+		expect(usageLedger.get("session", "s1")?.usage.inputTokens).toBe(15);
+		expect(usageLedger.list("job").map((entry) => entry.id)).toEqual(["job-2", "job-1"]);
+		expect(usageLedger.list("worker", { limit: 1 }).map((entry) => entry.id)).toEqual(["docs"]);
+
+		const total = usageLedger.total();
+		expect(total.prompts).toBe(4);
+		expect(total.usage.inputTokens).toBe(15);
+		expect(total.usage.outputTokens).toBe(7);
+		expect(total.usage.cost).toBe(2);
+	});
+});
+
+describe("daily usage store", () => {
+	let dir: string | undefined;
+
+	afterAll(async () => {
+		await restoreDailyUsage({ persist: false });
+		if (dir) await rm(dir, { recursive: true, force: true });
+	});
+
+	test("keeps the day's total on disk across restarts", async () => {
+		dir = await mkdtemp(join(tmpdir(), "opencode-orch-usage-"));
+		const path = join(dir, "usage.json");
+		usageLedger.clear();
+		await restoreDailyUsage({ path });
+		await recordWorkerUsage({ directory: dir, workerId: "coder", usage: usage({ inputTokens: 40 }) });
+		await recordWorkerUsage({ directory: dir, workerId: "coder", usage: usage({ outputTokens: 2 }) });
+
+		const stored = JSON.parse(await readFile(path, "utf8"));
+		expect(stored.days[usageDayKey()].usage.inputTokens).toBe(40);
+
+		usageLedger.clear();
+		await restoreDailyUsage({ path });
+		expect(usageLedger.get("day", usageDayKey())).toMatchObject({ prompts: 2, usage: { inputTokens: 40, outputTokens: 2 } });
+	});
+
+	test("waits for another process's lock and adds to what it wrote", async () => {
+		dir ??= await mkdtemp(join(tmpdir(), "opencode-orch-usage-"));
+		const root = dir;
+		const path = join(root, "shared-usage.json");
+		usageLedger.clear();
+		await restoreDailyUsage({ path });
+
+		let recorded: Promise<unknown> | undefined;
+		await withFileLock(path, async () => {
+			recorded = recordWorkerUsage({ directory: root, workerId: "coder", usage: usage({ inputTokens: 5 }) });
+			await new Promise((resolve) => setTimeout(resolve, 50));
+			const other = { prompts: 3, usage: usage({ inputTokens: 30 }), updatedAt: Date.now() };
+			await writeFile(path, JSON.stringify({ days: { [usageDayKey()]: other } }));
+		});
+		await recorded;
+
+		const stored = JSON.parse(await readFile(path, "utf8"));
+		expect(stored.days[usageDayKey()]).toMatchObject({ prompts: 4, usage: { inputTokens: 35 } });
+	});
+});
+
+describe("priceUsage", () => {
+	afterAll(() => {
+		setSystemTime();
+	});
+
+	test("looks a model up again when the catalog did not have it", async () => {
+		let fetches = 0;
+		const models: Record<string, unknown> = {};
+		const client = {
+			config: {
+				providers: async () => {
+					fetches += 1;
+					return { data: { providers: [{ id: "acme", source: "config", models: { ...models } }], default: {} } };
+				},
+			},
+		};
+		const priced = (model: string) =>
+			priceUsage(usage({ inputTokens: 1_000_000, model }), { client, directory: process.cwd() });
+
+		setSystemTime(new Date("2031-01-01T00:00:00Z"));
+		expect((await priced("acme/late")).cost).toBe(0);
+		models.late = { cost: { input: 2, output: 0 } };
+		expect((await priced("acme/late")).cost).toBe(0);
+		expect(fetches).toBe(1);
+
+		setSystemTime(new Date("2031-01-01T00:02:00Z"));
+		expect((await priced("acme/late")).cost).toBe(2);
+		expect(fetches).toBe(2);
+	});
+});
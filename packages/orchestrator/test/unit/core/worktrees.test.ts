@@ -0,0 +1,93 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdir, mkdtemp, readFile, realpath, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	applyJobWorktree,
+	cleanupStaleWorktrees,
+	createJobWorktree,
+	finalizeJobWorktree,
+	isWorktreeActive,
+} from "../../../src/core/worktrees";
+
+const git = (cwd: string, ...args: string[]) =>
+	execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+		cwd,
+		encoding: "utf8",
+	});
+
+describe("job worktrees", () => {
+	let repo: string;
+
+	beforeAll(async () => {
+		repo = await realpath(await mkdtemp(join(tmpdir(), "opencode-orch-worktrees-")));
+		git(repo, "init", "-q", "-b", "main");
+		await mkdir(join(repo, "pkg"));
+		await writeFile(join(repo, "pkg", "a.ts"), "export const a = 1;\n");
+		git(repo, "add", "-A");
+		git(repo, "commit", "-q", "-m", "init");
+	});
+
+	afterAll(async () => {
+		if (repo) await rm(repo, { recursive: true, force: true });
+	});
+
+	test("runs a job on a scratch branch and merges its diff", async () => {
+		const worktree = await createJobWorktree(join(repo, "pkg"), "job-merge");
+		expect(worktree.branch).toBe("orchestra/job-merge");
+		expect(worktree.directory).toBe(join(worktree.path, "pkg"));
+		expect(isWorktreeActive(worktree.path)).toBe(true);
+
+		await writeFile(join(worktree.directory, "a.ts"), "export const a = 2;\n");
+		const { worktree: done, changes } = await finalizeJobWorktree(worktree, "job-merge changes");
+		expect(done.state).toBe("ready");
+		expect(done.files).toEqual(["pkg/a.ts"]);
+		expect(changes.diff).toContain("+export const a = 2;");
+		expect(existsSync(worktree.path)).toBe(false);
+		expect(isWorktreeActive(worktree.path)).toBe(false);
+		expect(await readFile(join(repo, "pkg", "a.ts"), "utf8")).toBe("export const a = 1;\n");
+
+		const merged = await applyJobWorktree(done, "merge");
+		expect(merged.state).toBe("merged");
+		expect(await readFile(join(repo, "pkg", "a.ts"), "utf8")).toBe("export const a = 2;\n");
+		expect(git(repo, "branch", "--list", "orchestra/*").trim()).toBe("");
+		await expect(applyJobWorktree(merged, "merge")).rejects.toThrow("is merged; nothing to merge");
+	});
+
+	test("cherry-picks, discards and drops branches without changes", async () => {
+		const picked = await createJobWorktree(repo, "job-pick");
+		await writeFile(join(picked.path, "b.ts"), "export const b = 1;\n");
+		const { worktree: pickedDone } = await finalizeJobWorktree(picked, "add b");
+		await applyJobWorktree(pickedDone, "cherry-pick");
+		expect(existsSync(join(repo, "b.ts"))).toBe(true);
+
+		const dropped = await createJobWorktree(repo, "job-drop");
+		await writeFile(join(dropped.path, "c.ts"), "export const c = 1;\n");
+		const discarded = await applyJobWorktree((await finalizeJobWorktree(dropped, "add c")).worktree, "discard");
+		expect(discarded.state).toBe("discarded");
+		expect(existsSync(join(repo, "c.ts"))).toBe(false);
+
+		const empty = await finalizeJobWorktree(await createJobWorktree(repo, "job-empty"), "nothing");
+		expect(empty.worktree.state).toBe("empty");
+		expect(empty.changes).toEqual({ files: [], diff: "" });
+		expect(git(repo, "branch", "--list", "orchestra/*").trim()).toBe("");
+	});
+
+	test("cleans up stale checkouts but keeps their changes on the branch", async () => {
+		const stalePath = join(repo, ".git", "orchestra-worktrees", "job-stale");
+		const keptPath = join(repo, ".git", "orchestra-worktrees", "job-kept");
+		git(repo, "worktree", "add", "-q", "-b", "orchestra/job-stale", stalePath);
+		git(repo, "worktree", "add", "-q", "-b", "orchestra/job-kept", keptPath);
+		await writeFile(join(stalePath, "leftover.ts"), "export const leftover = true;\n");
+
+		const cleaned = await cleanupStaleWorktrees(repo, (checkout) => checkout.path === keptPath);
+		expect(cleaned.map((entry) => [entry.ownerId, entry.worktree.state, entry.worktree.files])).toEqual([
+			["job-stale", "ready", ["leftover.ts"]],
+		]);
+		expect(existsSync(stalePath)).toBe(false);
+		expect(existsSync(keptPath)).toBe(true);
+		expect(git(repo, "show", "--name-only", "--format=", "orchestra/job-stale").trim()).toBe("leftover.ts");
+	});
+});
@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import { resolveOutputSchema, validateJsonSchema } from "../../../src/helpers/json-schema";
+
+describe("validateJsonSchema", () => {
+	const schema = {
+		type: "object",
+		required: ["title", "tags"],
+		additionalProperties: false,
+		properties: {
+			title: { type: "string", minLength: 1 },
+			score: { type: "integer", minimum: 0, maximum: 10 },
+			tags: { type: "array", items: { type: "string" }, maxItems: 2 },
+		},
+	};
+
+	test("accepts matching values", () => {
+		expect(validateJsonSchema({ title: "ok", score: 3, tags: ["a"] }, schema)).toEqual([]);
+	});
+
+	test("reports paths for every mismatch", () => {
+		const errors = validateJsonSchema({ title: "", score: 2.5, tags: ["a", 1, "c"], extra: true }, schema);
+		expect(errors).toEqual([
+			"$.title: shorter than 1 characters",
+			"$.score: expected integer, got number",
+			"$.tags: more than 2 items",
+			"$.tags[1]: expected string, got integer",
+			"$.extra: is not allowed",
+		]);
+		expect(validateJsonSchema({}, schema)).toEqual(["$.title: is required", "$.tags: is required"]);
+	});
+
+	test("supports enum and anyOf", () => {
+		expect(validateJsonSchema("b", { enum: ["a", "b"] })).toEqual([]);
+		expect(validateJsonSchema(null, { anyOf: [{ type: "string" }, { type: "number" }] })).toEqual([
+			"$: does not match any allowed schema",
+		]);
+	});
+
+	test("follows local $refs", () => {
+		const schema = {
+			type: "object",
+			properties: { when: { $ref: "#/definitions/condition" }, other: { $ref: "#/definitions/missing" } },
+			definitions: { condition: { type: "object", additionalProperties: false, properties: { step: { type: "string" } } } },
+		};
+		expect(validateJsonSchema({ when: { step: "plan" } }, schema)).toEqual([]);
+		expect(validateJsonSchema({ when: { step: 1, extra: true } }, schema)).toEqual([
+			"$.when.step: expected string, got integer",
+			"$.when.extra: is not allowed",
+		]);
+		expect(validateJsonSchema({ other: 1 }, schema)).toEqual(["$.other: cannot resolve #/definitions/missing"]);
+	});
+});
+
+describe("resolveOutputSchema", () => {
+	test("resolves names from the configured map", () => {
+		const review = { type: "object" };
+		expect(resolveOutputSchema("review", { review })).toBe(review);
+		expect(resolveOutputSchema(review, undefined)).toBe(review);
+		expect(() => resolveOutputSchema("missing", { review })).toThrow('Unknown output schema "missing"');
+	});
+});
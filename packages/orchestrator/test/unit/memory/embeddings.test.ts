@@ -0,0 +1,105 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { resolveMemoryStore, withMemoryEmbeddings } from "../../../src/memory/backend";
+import { cosineSimilarity, createHashingEmbedder, resolveMemoryEmbedder } from "../../../src/memory/embeddings";
+import { buildMemoryInjection } from "../../../src/memory/inject";
+import { LocalMemoryStore } from "../../../src/memory/local-store";
+import { rankMemory } from "../../../src/memory/ranking";
+
+describe("hashing embedder", () => {
+	test("is deterministic and places related wording closer", async () => {
+		const embedder = createHashingEmbedder(128);
+		const [a, b, c, again] = await embedder.embed([
+			"database migration scripts",
+			"how do we migrate the database?",
+			"toast notification colors",
+			"database migration scripts",
+		]);
+		expect(a).toHaveLength(128);
+		expect(again).toEqual(a);
+		expect(cosineSimilarity(a ?? [], b ?? [])).toBeGreaterThan(cosineSimilarity(a ?? [], c ?? []) + 0.2);
+		expect(embedder.id).toBe("hash-128");
+	});
+
+	test("is picked by memory.embeddings.provider", () => {
+		expect(resolveMemoryEmbedder()).toBeUndefined();
+		expect(resolveMemoryEmbedder({ provider: "none" })).toBeUndefined();
+		expect(resolveMemoryEmbedder({ provider: "hash", dimensions: 64 })?.id).toBe("hash-64");
+		expect(resolveMemoryEmbedder({ provider: "nope" })).toBeUndefined();
+	});
+});
+
+describe("rankMemory", () => {
+	test("combines keyword, vector and recency scores", () => {
+		const now = Date.now();
+		const day = 24 * 60 * 60 * 1000;
+		const node = (key: string, value: string, updatedAt: number, embedding?: number[]) => ({
+			scope: "global" as const,
+			key,
+			value,
+			tags: [],
+			updatedAt,
+			...(embedding ? { embedding, embeddingModel: "m" } : {}),
+		});
+		const ranked = rankMemory(
+			[
+				node("old-keyword", "uses sqlite storage", now - 30 * day),
+				node("new-keyword", "sqlite settings", now),
+				node("vector", "local database file", now - day, [1, 0]),
+				node("unrelated", "colors", now, [0, 1]),
+			],
+			{ query: "sqlite storage", embedding: [1, 0], embeddingModel: "m", limit: 10, now }
+		);
+
+		expect(ranked.map((m) => m.key)).toEqual(["vector", "old-keyword", "new-keyword"]);
+		expect(ranked[0]?.scores).toEqual({ keyword: 0, recency: 0.5 ** (1 / 7), vector: 1 });
+		expect(ranked[0]).not.toHaveProperty("embedding");
+	});
+});
+
+describe("semantic memory search", () => {
+	let dir: string;
+
+	beforeAll(async () => {
+		dir = await mkdtemp(join(tmpdir(), "opencode-orch-embeddings-"));
+	});
+
+	afterAll(async () => {
+		if (dir) await rm(dir, { recursive: true, force: true });
+	});
+
+	test("stores vectors and injects the notes relevant to the user message", async () => {
+		const store = withMemoryEmbeddings(new LocalMemoryStore(join(dir, "memory.json")), createHashingEmbedder());
+		await store.upsert({ scope: "project", projectId: "p1", key: "decision:migrations", value: "Migrations run via drizzle-kit" });
+		for (let i = 0; i < 3; i++) {
+			await store.upsert({ scope: "project", projectId: "p1", key: `note:${i}`, value: `Toast colors follow theme ${i}` });
+		}
+
+		const matches = await store.searchRelevant({ scope: "project", projectId: "p1", query: "migrating schemas" });
+		expect(matches[0]?.key).toBe("decision:migrations");
+		expect(matches[0]?.scores.vector).toBeGreaterThan(0);
+
+		const injected = await buildMemoryInjection({
+			enabled: true,
+			store,
+			scope: "project",
+			projectId: "p1",
+			query: "how are migrations applied?",
+			inject: { maxEntries: 1 },
+		});
+		expect(injected).toContain("`decision:migrations`");
+		expect(injected).not.toContain("`note:");
+	});
+
+	test("resolveMemoryStore adds vectors when embeddings are configured", async () => {
+		const path = join(dir, "resolved.json");
+		const store = resolveMemoryStore({ backend: "local", path, embeddings: { provider: "hash" } });
+		await store?.upsert({ scope: "global", key: "k", value: "vector search" });
+
+		const raw = await Bun.file(path).json();
+		expect(raw.nodes[0].embeddingModel).toBe("hash-256");
+		expect(await new LocalMemoryStore(path).get({ scope: "global", key: "k" })).not.toHaveProperty("embedding");
+	});
+});
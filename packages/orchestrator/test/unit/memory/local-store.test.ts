@@ -0,0 +1,112 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { resolveMemoryStore } from "../../../src/memory/backend";
+import { buildMemoryInjection } from "../../../src/memory/inject";
+import { LocalMemoryStore } from "../../../src/memory/local-store";
+
+describe("LocalMemoryStore", () => {
+	let dir: string;
+	let count = 0;
+	const nextPath = () => join(dir, `memory-${++count}.json`);
+
+	beforeAll(async () => {
+		dir = await mkdtemp(join(tmpdir(), "opencode-orch-memory-"));
+	});
+
+	afterAll(async () => {
+		if (dir) await rm(dir, { recursive: true, force: true });
+	});
+
+	test("upserts, searches and lists entries per scope", async () => {
+		const path = nextPath();
+		const store = new LocalMemoryStore(path);
+		await store.upsert({ scope: "project", projectId: "p1", key: "decision:db", value: "Use SQLite", tags: ["decision"] });
+		await store.upsert({ scope: "project", projectId: "p1", key: "entity:api", value: "REST gateway", tags: [] });
+		await store.upsert({ scope: "project", projectId: "p2", key: "decision:db", value: "Use Postgres", tags: [] });
+		const updated = await store.upsert({ scope: "project", projectId: "p1", key: "decision:db", value: "Use SQLite (WAL)" });
+
+		expect(updated.createdAt).toBeLessThan(updated.updatedAt ?? 0);
+		expect((await store.get({ scope: "project", projectId: "p1", key: "decision:db" }))?.value).toBe("Use SQLite (WAL)");
+		expect((await store.recent({ scope: "project", projectId: "p1" })).map((n) => n.key)).toEqual([
+			"decision:db",
+			"entity:api",
+		]);
+		expect((await store.search({ scope: "project", projectId: "p1", query: "sqlite" })).map((n) => n.key)).toEqual([
+			"decision:db",
+		]);
+		expect(await store.search({ scope: "global", query: "sqlite" })).toEqual([]);
+		await expect(store.recent({ scope: "project" })).rejects.toThrow("projectId is required");
+
+		const reopened = new LocalMemoryStore(path);
+		expect((await reopened.get({ scope: "project", projectId: "p2", key: "decision:db" }))?.value).toBe("Use Postgres");
+	});
+
+	test("links existing entries and drops links with trimmed entries", async () => {
+		const path = nextPath();
+		const store = new LocalMemoryStore(path);
+		for (const key of ["message:s1:1", "message:s1:2", "message:s1:3", "user:u1"]) {
+			await store.upsert({ scope: "global", key, value: key });
+		}
+		await store.link({ scope: "global", fromKey: "message:s1:1", toKey: "user:u1", type: "belongs_to_user" });
+		await store.link({ scope: "global", fromKey: "message:s1:3", toKey: "user:u1", type: "belongs_to_user" });
+		await store.link({ scope: "global", fromKey: "message:s1:3", toKey: "missing", type: "belongs_to_user" });
+
+		expect(await store.trim({ scope: "global", keyPrefix: "message:s1:", keepLatest: 1 })).toEqual({ deleted: 2 });
+		expect((await store.recent({ scope: "global" })).map((n) => n.key)).toEqual(["user:u1", "message:s1:3"]);
+		const file = JSON.parse(await readFile(path, "utf8"));
+		expect(file.links.map((l: { fromKey: string }) => l.fromKey)).toEqual(["message:s1:3"]);
+	});
+
+	test("keeps global messages of the most recently active projects", async () => {
+		const store = new LocalMemoryStore(nextPath());
+		await store.upsert({ scope: "global", key: "message:old:s:1", value: "a" });
+		await store.upsert({ scope: "global", key: "message:mid:s:1", value: "b" });
+		await store.upsert({ scope: "global", key: "message:old:s:2", value: "c" });
+		await store.upsert({ scope: "global", key: "message:new:s:1", value: "d" });
+
+		expect(await store.trimGlobalMessageProjects({ keepProjects: 2 })).toEqual({ projectsDropped: 1, messagesDeleted: 1 });
+		expect((await store.recent({ scope: "global" })).map((n) => n.key)).toEqual([
+			"message:new:s:1",
+			"message:old:s:2",
+			"message:old:s:1",
+		]);
+	});
+
+	test("feeds memory injection", async () => {
+		const store = new LocalMemoryStore(nextPath());
+		await store.upsert({ scope: "project", projectId: "p1", key: "summary:project", value: "- built the API" });
+		await store.upsert({ scope: "project", projectId: "p1", key: "decision:auth", value: "Use sessions" });
+
+		const injected = await buildMemoryInjection({ enabled: true, store, scope: "project", projectId: "p1" });
+		expect(injected).toContain("### Project\n- built the API");
+		expect(injected).toContain("- `decision:auth` Use sessions");
+	});
+});
+
+describe("resolveMemoryStore", () => {
+	const neo4jEnv = ["OPENCODE_NEO4J_URI", "OPENCODE_NEO4J_USERNAME", "OPENCODE_NEO4J_PASSWORD"];
+	const saved = neo4jEnv.map((name) => process.env[name]);
+
+	afterEach(() => {
+		neo4jEnv.forEach((name, i) => {
+			if (saved[i] === undefined) delete process.env[name];
+			else process.env[name] = saved[i];
+		});
+	});
+
+	test("falls back to the local store unless Neo4j is required", () => {
+		for (const name of neo4jEnv) delete process.env[name];
+		const path = join(tmpdir(), "opencode-orch-memory-resolve.json");
+		expect(resolveMemoryStore({ path })?.backend).toBe("local");
+		expect(resolveMemoryStore({ backend: "auto", path })).toBe(resolveMemoryStore({ path }));
+		expect(resolveMemoryStore({ backend: "neo4j" })).toBeUndefined();
+
+		process.env.OPENCODE_NEO4J_URI = "bolt://localhost:7687";
+		process.env.OPENCODE_NEO4J_USERNAME = "neo4j";
+		process.env.OPENCODE_NEO4J_PASSWORD = "secret";
+		expect(resolveMemoryStore()?.backend).toBe("neo4j");
+		expect(resolveMemoryStore({ backend: "local", path })?.backend).toBe("local");
+	});
+});
@@ -0,0 +1,129 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { LocalMemoryStore } from "../../../src/memory/local-store";
+import {
+	exportMemory,
+	importMemory,
+	parseMemoryExport,
+	promoteMemory,
+	rekeyMemory,
+	serializeMemoryExport,
+} from "../../../src/memory/transfer";
+
+describe("memory transfer", () => {
+	let dir: string;
+	let count = 0;
+	const nextStore = () => new LocalMemoryStore(join(dir, `memory-${++count}.json`));
+
+	beforeAll(async () => {
+		dir = await mkdtemp(join(tmpdir(), "opencode-orch-transfer-"));
+	});
+
+	afterAll(async () => {
+		if (dir) await rm(dir, { recursive: true, force: true });
+	});
+
+	test("exports to JSONL and imports into another project", async () => {
+		const source = nextStore();
+		await source.upsert({ scope: "project", projectId: "p1", key: "decision:db", value: "Use SQLite", tags: ["decision"] });
+		await source.upsert({ scope: "project", projectId: "p1", key: "entity:api", value: "REST gateway" });
+		await source.link({ scope: "project", projectId: "p1", fromKey: "entity:api", toKey: "decision:db", type: "depends_on" });
+		await source.upsert({ scope: "global", key: "pref:style", value: "Tabs" });
+
+		const text = serializeMemoryExport(await exportMemory(source, { projectId: "p1", scopes: ["project", "global"] }));
+		const lines = text.trim().split("\n").map((line) => JSON.parse(line));
+		expect(lines.map((line) => line.type)).toEqual(["header", "node", "node", "node", "link"]);
+		expect(lines[4]).toMatchObject({ fromKey: "entity:api", toKey: "decision:db", relation: "depends_on" });
+
+		const target = nextStore();
+		const result = await importMemory(target, parseMemoryExport(text), { projectId: "p2" });
+		expect(result).toEqual({ created: 3, overwritten: 0, merged: 0, skipped: 0, links: 1 });
+
+		const imported = await target.dump({ scope: "project", projectId: "p2" });
+		expect(imported.nodes.map((n) => n.key).sort()).toEqual(["decision:db", "entity:api"]);
+		expect(imported.links).toEqual([expect.objectContaining({ fromKey: "entity:api", type: "depends_on" })]);
+		const original = await source.get({ scope: "project", projectId: "p1", key: "decision:db" });
+		expect((await target.get({ scope: "project", projectId: "p2", key: "decision:db" }))?.createdAt).toBe(
+			original?.createdAt,
+		);
+	});
+
+	test("applies the conflict policy to existing keys", async () => {
+		const data = parseMemoryExport(
+			`${JSON.stringify({ type: "node", scope: "global", key: "k", value: "imported", tags: ["b"] })}\n`,
+		);
+		const run = async (onConflict: "skip" | "overwrite" | "merge-tags") => {
+			const store = nextStore();
+			await store.upsert({ scope: "global", key: "k", value: "existing", tags: ["a"] });
+			const result = await importMemory(store, data, { onConflict });
+			return { result, node: await store.get({ scope: "global", key: "k" }) };
+		};
+
+		const skipped = await run("skip");
+		expect(skipped.result.skipped).toBe(1);
+		expect(skipped.node).toMatchObject({ value: "existing", tags: ["a"] });
+
+		const overwritten = await run("overwrite");
+		expect(overwritten.result.overwritten).toBe(1);
+		expect(overwritten.node).toMatchObject({ value: "imported", tags: ["b"] });
+
+		const merged = await run("merge-tags");
+		expect(merged.result.merged).toBe(1);
+		expect(merged.node).toMatchObject({ value: "existing", tags: ["a", "b"] });
+	});
+
+	test("rejects malformed export lines", () => {
+		expect(() => parseMemoryExport("not json\n")).toThrow("line 1 is not JSON");
+		expect(() => parseMemoryExport(`${JSON.stringify({ type: "node", key: "k", value: "v" })}\n`)).toThrow(
+			"no valid scope",
+		);
+		expect(() => parseMemoryExport(`${JSON.stringify({ type: "header", version: 99 })}\n`)).toThrow("newer");
+	});
+
+	test("promotes selected project memories to global", async () => {
+		const store = nextStore();
+		for (const key of ["decision:db", "decision:auth", "note:todo"]) {
+			await store.upsert({ scope: "project", projectId: "p1", key, value: key });
+		}
+		await store.link({ scope: "project", projectId: "p1", fromKey: "decision:auth", toKey: "decision:db" });
+		await store.link({ scope: "project", projectId: "p1", fromKey: "note:todo", toKey: "decision:db" });
+
+		const result = await promoteMemory(store, { projectId: "p1", keyPrefix: "decision:" });
+		expect(result).toMatchObject({ created: 2, links: 1 });
+		const global = await store.dump({ scope: "global" });
+		expect(global.nodes.map((n) => n.key).sort()).toEqual(["decision:auth", "decision:db"]);
+		expect(global.nodes[0]?.tags).toEqual(["project:p1"]);
+		expect(global.links).toHaveLength(1);
+		expect(await store.recent({ scope: "project", projectId: "p1" })).toHaveLength(3);
+		await expect(promoteMemory(store, { projectId: "p1" })).rejects.toThrow("keys or keyPrefix");
+	});
+
+	test("re-keys memories to a new projectId", async () => {
+		const store = nextStore();
+		await store.upsert({ scope: "project", projectId: "old", key: "decision:db", value: "Use SQLite" });
+		await store.upsert({ scope: "global", key: "project:old", value: "repo", tags: ["project"] });
+		await store.upsert({ scope: "global", key: "summary:project:old", value: "- summary" });
+		await store.upsert({ scope: "global", key: "message:old:s1:1", value: "hi", tags: ["project:old"] });
+		await store.upsert({ scope: "global", key: "decision:shared", value: "x", tags: ["project:old"] });
+		await store.link({ scope: "global", fromKey: "message:old:s1:1", toKey: "project:old", type: "belongs_to_project" });
+
+		const result = await rekeyMemory(store, { fromProjectId: "old", toProjectId: "new" });
+		expect(result).toMatchObject({ created: 4, overwritten: 1, links: 1, deleted: 4 });
+
+		expect(await store.recent({ scope: "project", projectId: "old" })).toEqual([]);
+		expect((await store.get({ scope: "project", projectId: "new", key: "decision:db" }))?.value).toBe("Use SQLite");
+		const global = await store.dump({ scope: "global" });
+		expect(global.nodes.map((n) => n.key).sort()).toEqual([
+			"decision:shared",
+			"message:new:s1:1",
+			"project:new",
+			"summary:project:new",
+		]);
+		expect(global.nodes.find((n) => n.key === "decision:shared")?.tags).toEqual(["project:new"]);
+		expect(global.links).toEqual([
+			expect.objectContaining({ fromKey: "message:new:s1:1", toKey: "project:new", type: "belongs_to_project" }),
+		]);
+	});
+});
@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { resolveWorkerEntry } from "../../src/config/orchestrator";
+import { workerPool } from "../../src/core/worker-pool";
+import { classifyModelError, getModelChain } from "../../src/models/fallback";
+import { sendToWorker } from "../../src/workers/spawner";
+import type { WorkerProfile } from "../../src/types";
+
+const createClient = (failing: Record<string, unknown>) => {
+  const prompted: string[] = [];
+  const client = {
+    session: {
+      prompt: async (args: any) => {
+        const model = `${args.body.model?.providerID}/${args.body.model?.modelID}`;
+        prompted.push(model);
+        if (failing[model]) return { error: failing[model] };
+        return { data: { parts: [{ type: "text", text: `answer from ${model}` }] } };
+      },
+    },
+  };
+  return { client, prompted };
+};
+
+const registerAgent = (profile: WorkerProfile, client: any) =>
+  workerPool.register({
+    profile,
+    kind: "agent",
+    status: "ready",
+    port: 0,
+    directory: process.cwd(),
+    startedAt: new Date(),
+    modelPolicy: "dynamic",
+    client,
+    sessionId: "session-1",
+  });
+
+const baseProfile = {
+  name: "Fallback",
+  purpose: "Fallback test",
+  whenToUse: "Unit tests",
+  kind: "agent" as const,
+};
+
+afterEach(async () => {
+  await workerPool.stopAll();
+});
+
+describe("classifyModelError", () => {
+  test("classifies provider failures and ignores task failures", () => {
+    expect(classifyModelError({ name: "APIError", data: { message: "slow down", statusCode: 429 } })).toBe("rate_limit");
+    expect(classifyModelError({ data: { message: "Overloaded" } })).toBe("overloaded");
+    expect(classifyModelError({ status: 502 })).toBe("server");
+    expect(classifyModelError({ name: "ProviderAuthError", data: { message: "bad key" } })).toBe("auth");
+    expect(classifyModelError(new Error("fetch failed"))).toBe("network");
+    expect(classifyModelError(new Error("worker prompt timed out"))).toBeUndefined();
+    expect(classifyModelError(new Error("Worker response did not match the output schema: $.x"))).toBeUndefined();
+    expect(classifyModelError({ status: 400 })).toBeUndefined();
+  });
+});
+
+describe("model chains", () => {
+  test("config accepts model as an ordered list", () => {
+    const profile = resolveWorkerEntry({
+      id: "chain",
+      ...baseProfile,
+      model: ["anthropic/claude-sonnet-4", "openrouter/x", "node:fast"],
+    });
+    expect(profile?.model).toBe("anthropic/claude-sonnet-4");
+    expect(profile?.modelFallbacks).toEqual(["openrouter/x", "node:fast"]);
+    expect(profile && getModelChain(profile)).toEqual(["anthropic/claude-sonnet-4", "openrouter/x", "node:fast"]);
+    expect(resolveWorkerEntry({ id: "empty", ...baseProfile, model: [] })).toBeUndefined();
+  });
+
+  test("sendToWorker retries the prompt on the next model after a provider error", async () => {
+    const { client, prompted } = createClient({
+      "anthropic/claude-sonnet-4": { data: { message: "rate limited", statusCode: 429 } },
+      "openrouter/backup": { data: { message: "Internal Server Error", statusCode: 500 } },
+    });
+    registerAgent(
+      {
+        id: "fallback-agent",
+        ...baseProfile,
+        model: "anthropic/claude-sonnet-4",
+        modelFallbacks: ["openrouter/backup", "openai/gpt-4o-mini"],
+      },
+      client
+    );
+
+    const res = await sendToWorker("fallback-agent", "hello");
+    expect(res.success).toBe(true);
+    expect(res.response).toBe("answer from openai/gpt-4o-mini");
+    expect(res.model).toBe("openai/gpt-4o-mini");
+    expect(res.modelFailovers?.map((f) => [f.model, f.kind])).toEqual([
+      ["anthropic/claude-sonnet-4", "rate_limit"],
+      ["openrouter/backup", "server"],
+    ]);
+    expect(prompted).toEqual(["anthropic/claude-sonnet-4", "openrouter/backup", "openai/gpt-4o-mini"]);
+  });
+
+  test("does not fail over on other errors or explicit model overrides", async () => {
+    const { client, prompted } = createClient({
+      "anthropic/claude-sonnet-4": { data: { message: "invalid request" } },
+      "openai/gpt-4.1": { data: { message: "rate limited", statusCode: 429 } },
+    });
+    registerAgent(
+      { id: "no-fallback", ...baseProfile, model: "anthropic/claude-sonnet-4", modelFallbacks: ["openai/gpt-4o-mini"] },
+      client
+    );
+
+    const failed = await sendToWorker("no-fallback", "hello");
+    expect(failed.success).toBe(false);
+    expect(failed.modelFailovers).toBeUndefined();
+
+    const explicit = await sendToWorker("no-fallback", "hello", { model: "openai/gpt-4.1" });
+    expect(explicit).toMatchObject({ success: false, errorKind: "rate_limit" });
+    expect(prompted).toEqual(["anthropic/claude-sonnet-4", "openai/gpt-4.1"]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, test } from "bun:test";
+import type { Provider } from "@opencode-ai/sdk";
+import { parseOrchestratorConfigFile } from "../../src/config/orchestrator";
+import { flattenProviders } from "../../src/models/catalog";
+import { resolveWorkerModel } from "../../src/models/resolve";
+import { getRoutingRule, pickRoutedModel, rankModels } from "../../src/models/routing";
+import type { WorkerProfile } from "../../src/types";
+
+const caps = (input: { image?: boolean; toolcall?: boolean; reasoning?: boolean }) => ({
+  temperature: true,
+  reasoning: input.reasoning ?? false,
+  attachment: false,
+  toolcall: input.toolcall ?? false,
+  input: { text: true, audio: false, image: input.image ?? false, video: false, pdf: false },
+  output: { text: true, audio: false, image: false, video: false, pdf: false },
+});
+
+const cost = (input: number, output: number) => ({ input, output, cache: { read: 0, write: 0 } });
+
+const providers = [
+  {
+    id: "cheap",
+    source: "config",
+    models: {
+      "mini-fast": { name: "mini-fast", capabilities: caps({ toolcall: true }), cost: cost(0.1, 0.4) },
+      "eye-lite": { name: "eye-lite", capabilities: caps({ image: true }), cost: cost(0.2, 0.8) },
+    },
+  },
+  {
+    id: "premium",
+    source: "config",
+    models: {
+      "big-vision": {
+        name: "big-vision",
+        capabilities: caps({ image: true, toolcall: true, reasoning: true }),
+        limit: { context: 1_000_000, output: 0 },
+        cost: cost(15, 75),
+      },
+    },
+  },
+] as unknown as Provider[];
+
+const makeProfile = (model: string, extra?: Partial<WorkerProfile>): WorkerProfile => ({
+  id: "routed",
+  name: "Routed",
+  model,
+  purpose: "Test",
+  whenToUse: "Test",
+  ...extra,
+});
+
+describe("model routing", () => {
+  test("ranks candidates and explains scores and exclusions", () => {
+    const models = flattenProviders(providers);
+    const ranked = rankModels(models, getRoutingRule("vision"));
+    expect(ranked.map((r) => r.model.full)).toEqual(["premium/big-vision", "cheap/eye-lite", "cheap/mini-fast"]);
+    expect(ranked[0]?.reasons).toContain("image +100");
+    expect(ranked[2]?.rejected).toEqual(["no image input"]);
+  });
+
+  test("applies cost ceilings and provider filters", () => {
+    const models = flattenProviders(providers);
+    const routing = { maxCost: { input: 5 }, tags: { vision: { prefer: { providers: { premium: 500 } } } } };
+    expect(pickRoutedModel(models, "vision", routing)?.full).toBe("cheap/eye-lite");
+    expect(pickRoutedModel(models, "vision", { providers: { deny: ["CHEAP"] } })?.full).toBe("premium/big-vision");
+    expect(pickRoutedModel(models, "vision", { providers: { allow: ["other"] } })).toBeUndefined();
+    expect(pickRoutedModel(models, "unknown")).toBeUndefined();
+  });
+
+  test("custom tags are resolved through node:<tag>", () => {
+    const resolved = resolveWorkerModel({
+      profile: makeProfile("node:reasoning"),
+      providers,
+      routing: { tags: { reasoning: { require: { reasoning: true, minContext: 200_000 } } } },
+    });
+    expect(resolved.resolvedModel).toBe("premium/big-vision");
+    expect(resolved.reason).toBe("auto-selected from configured models (node:reasoning)");
+  });
+
+  test("vision profiles respect the policy and explicit models are checked", () => {
+    const routing = { providers: { deny: ["premium"] } };
+    const vision = resolveWorkerModel({
+      profile: makeProfile("node:vision", { supportsVision: true }),
+      providers,
+      routing,
+    });
+    expect(vision.resolvedModel).toBe("cheap/eye-lite");
+
+    expect(() => resolveWorkerModel({ profile: makeProfile("premium/big-vision"), providers, routing })).toThrow(
+      'Model "premium/big-vision" for profile "routed" is not allowed by modelRouting: provider premium denied'
+    );
+  });
+
+  test("parses modelRouting from config", () => {
+    const parsed = parseOrchestratorConfigFile({
+      modelRouting: {
+        providers: { deny: ["expensive"], allow: "nope" },
+        maxCost: { input: 3, output: "x" },
+        tags: {
+          Fast: { require: { toolcall: true }, prefer: { cost: -1, providers: { cheap: 5 }, bogus: 1 } },
+        },
+      },
+    });
+    expect(parsed.modelRouting).toEqual({
+      providers: { deny: ["expensive"] },
+      maxCost: { input: 3 },
+      tags: { fast: { require: { toolcall: true }, prefer: { cost: -1, providers: { cheap: 5 } } } },
+    });
+  });
+});
@@ -31,6 +31,51 @@ describe("parseOrchestratorConfigFile", () => {
       throw new Error("Expected custom profile entry to be parsed.");
     }
   });
+
+  test("parses workflow step dependencies", () => {
+    const parsed = parseOrchestratorConfigFile({
+      workflows: {
+        definitions: [
+          {
+            id: "fan-in",
+            steps: [
+              { id: "a", dependsOn: [] },
+              { id: "b", dependsOn: ["a", 1] },
+              { id: "c", dependsOn: ["a", "b"] },
+            ],
+          },
+        ],
+      },
+    });
+
+    const steps = parsed.workflows?.definitions?.[0]?.steps ?? [];
+    expect(steps.map((step) => step.dependsOn)).toEqual([[], undefined, ["a", "b"]]);
+  });
+
+  test("parses typed workflow inputs", () => {
+    const parsed = parseOrchestratorConfigFile({
+      workflows: {
+        definitions: [
+          {
+            id: "review",
+            inputs: {
+              targetFile: "string",
+              strict: { type: "boolean", default: false, description: "Fail on warnings" },
+              level: { type: "number", enum: [1, 2, "x", null] },
+              bad: { type: "date" },
+            },
+            steps: [{ id: "a" }],
+          },
+        ],
+      },
+    });
+
+    expect(parsed.workflows?.definitions?.[0]?.inputs).toEqual({
+      targetFile: "string",
+      strict: { type: "boolean", default: false, description: "Fail on warnings" },
+      level: { type: "number", enum: [1, 2, "x"] },
+    });
+  });
 });
 
 describe("resolveWorkerEntry", () => {
@@ -67,6 +112,12 @@ describe("resolveWorkerEntry", () => {
     expect(resolved?.requiredSkills).toEqual(["docs-research", "code-implementer"]);
   });
 
+  test("accepts worktree isolation and rejects unknown modes", () => {
+    const base = { id: "custom", name: "Custom", model: "node", purpose: "Test", whenToUse: "Test" };
+    expect(resolveWorkerEntry({ ...base, isolation: "worktree" })?.isolation).toBe("worktree");
+    expect(resolveWorkerEntry({ ...base, isolation: "container" })).toBeUndefined();
+  });
+
   test("rejects conflicting backend and kind", () => {
     expect(() =>
       resolveWorkerEntry({
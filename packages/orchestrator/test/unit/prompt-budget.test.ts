@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test";
+import { onOrchestratorEvent, type OrchestratorEvent } from "../../src/core/orchestrator-events";
+import { compressPromptSections } from "../../src/workers/prompt/budget";
+import { sendWorkerPrompt } from "../../src/workers/send";
+
+const model = (context: number, output: number, cost = 1) => ({
+  limit: { context, output },
+  cost: { input: cost, output: cost, cache: { read: 0, write: 0 } },
+  capabilities: {
+    temperature: true,
+    reasoning: false,
+    attachment: false,
+    toolcall: true,
+    input: { text: true, audio: false, image: false, video: false, pdf: false },
+    output: { text: true, audio: false, image: false, video: false, pdf: false },
+  },
+});
+
+const createClient = () => {
+  const sent: Array<{ model?: string; text: string }> = [];
+  const client = {
+    config: {
+      providers: async () => ({
+        data: {
+          providers: [
+            {
+              id: "acme",
+              source: "config",
+              models: { small: model(8_000, 1_000), large: model(200_000, 8_000, 3), huge: model(1_000_000, 8_000, 10) },
+            },
+          ],
+          default: {},
+        },
+      }),
+    },
+    session: {
+      prompt: async (args: any) => {
+        const target = args.body.model;
+        sent.push({
+          model: target ? `${target.providerID}/${target.modelID}` : undefined,
+          text: args.body.parts.map((part: any) => part.text ?? "").join(""),
+        });
+        return { data: { parts: [{ type: "text", text: "done" }] } };
+      },
+    },
+  };
+  return { client, sent };
+};
+
+const send = (client: unknown, input: Record<string, unknown>) =>
+  sendWorkerPrompt({
+    client,
+    sessionId: "s1",
+    directory: process.cwd(),
+    workerId: "coder",
+    message: "hello",
+    ...input,
+  });
+
+describe("prompt budget", () => {
+  test("compressPromptSections keeps the start and end of a section", () => {
+    const carry = `START ${"x".repeat(4000)} END`;
+    const { message, compressed } = compressPromptSections(`Task\n${carry}\nDone`, [{ name: "carry", text: carry }], 500);
+    expect(compressed).toEqual(["carry"]);
+    expect(message.length).toBeLessThan(carry.length);
+    expect(message).toContain("START");
+    expect(message).toContain("END");
+    expect(message).toContain("omitted to fit the model's context window");
+  });
+
+  test("moves an oversized prompt to a larger-context model", async () => {
+    const { client, sent } = createClient();
+    const events: OrchestratorEvent[] = [];
+    const off = onOrchestratorEvent((event) => {
+      if (event.type === "orchestra.prompt.fit") events.push(event);
+    });
+    const result = await send(client, {
+      message: "y".repeat(40_000),
+      defaultModel: "acme/small",
+      allowModelSwitch: true,
+      jobId: "job-1",
+    });
+    off();
+
+    expect(result.fit).toMatchObject({ action: "switched", fromModel: "acme/small", model: "acme/large" });
+    expect(sent[0]?.model).toBe("acme/large");
+    expect(events[0]?.data).toMatchObject({ workerId: "coder", jobId: "job-1", action: "switched" });
+  });
+
+  test("shortens compressible sections when the model is fixed", async () => {
+    const { client, sent } = createClient();
+    const carry = "z".repeat(40_000);
+    const result = await send(client, {
+      message: `Continue.\n\n${carry}`,
+      model: "acme/small",
+      sections: [{ name: "carry", text: carry }],
+    });
+
+    expect(result.fit).toMatchObject({ action: "compressed", model: "acme/small", compressed: ["carry"] });
+    expect(sent[0]?.model).toBe("acme/small");
+    expect(sent[0]?.text.length).toBeLessThan(8_000 * 4);
+
+    const small = await send(client, { model: "acme/small" });
+    expect(small.fit?.action).toBe("fits");
+    const unknown = await send({ session: client.session }, { model: "acme/small" });
+    expect(unknown.fit).toBeUndefined();
+  });
+});
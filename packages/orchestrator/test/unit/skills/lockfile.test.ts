@@ -0,0 +1,137 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseOrchestratorConfigFile } from "../../../src/config/orchestrator";
+import { createOrchestratorContext } from "../../../src/context/orchestrator-context";
+import { hashSkillDir } from "../../../src/skills/discovery";
+import {
+	checkWorkflowSkillsLock,
+	describeSkillDrift,
+	getSkillLockStatuses,
+	lockWorkflowSkills,
+	readSkillsLock,
+	writeSkillsLock,
+} from "../../../src/skills/lockfile";
+import { listSkills } from "../../../src/skills/preflight";
+import type { OrchestratorConfig } from "../../../src/types";
+import { registerWorkflow } from "../../../src/workflows/engine";
+import { runWorkflowWithContext } from "../../../src/workflows/runner";
+
+const skillMd = (name: string, version: string, body = "") =>
+	`---\nname: ${name}\ndescription: ${name} skill\nversion: ${version}\n---\n\n# ${name}\n${body}`;
+
+describe("skills lock", () => {
+	let dir: string;
+	let skillRoot: string;
+
+	beforeAll(async () => {
+		dir = await mkdtemp(join(tmpdir(), "opencode-orch-skills-lock-"));
+		skillRoot = join(dir, ".opencode", "skill");
+		for (const name of ["review-flow", "lint-rules"]) {
+			await mkdir(join(skillRoot, name), { recursive: true });
+			await writeFile(join(skillRoot, name, "SKILL.md"), skillMd(name, "1.0.0"));
+		}
+	});
+
+	afterAll(async () => {
+		if (dir) await rm(dir, { recursive: true, force: true });
+	});
+
+	test("hashes skill content, not location or dotfiles", async () => {
+		const copy = join(dir, "copy", "review-flow");
+		await mkdir(copy, { recursive: true });
+		await writeFile(join(copy, "SKILL.md"), skillMd("review-flow", "1.0.0"));
+		const original = await hashSkillDir(join(skillRoot, "review-flow"));
+		expect(original).toMatch(/^sha256:[0-9a-f]{64}$/);
+		expect(await hashSkillDir(copy)).toBe(original);
+
+		await writeFile(join(copy, ".DS_Store"), "noise");
+		expect(await hashSkillDir(copy)).toBe(original);
+		await writeFile(join(copy, "notes.md"), "extra");
+		expect(await hashSkillDir(copy)).not.toBe(original);
+
+		const skills = await listSkills({ directory: dir, includeGlobal: false });
+		expect(skills.find((skill) => skill.name === "review-flow")).toMatchObject({ version: "1.0.0", hash: original });
+	});
+
+	test("records a workflow's skills and reports drift", async () => {
+		const before = await listSkills({ directory: dir, includeGlobal: false });
+		await writeSkillsLock(dir, lockWorkflowSkills(await readSkillsLock(dir), "review", before));
+		const lock = await readSkillsLock(dir);
+		expect(Object.keys(lock.workflows.review?.skills ?? {})).toEqual(["lint-rules", "review-flow"]);
+		expect(JSON.parse(await readFile(join(dir, "skills.lock.json"), "utf8")).lockfileVersion).toBe(1);
+		expect(checkWorkflowSkillsLock(lock.workflows.review, before)).toEqual([]);
+
+		await writeFile(join(skillRoot, "review-flow", "SKILL.md"), skillMd("review-flow", "1.0.0", "Edited.\n"));
+		await writeFile(join(skillRoot, "lint-rules", "SKILL.md"), skillMd("lint-rules", "2.0.0"));
+		await mkdir(join(skillRoot, "style-guide"), { recursive: true });
+		await writeFile(join(skillRoot, "style-guide", "SKILL.md"), skillMd("style-guide", "0.1.0"));
+		const after = await listSkills({ directory: dir, includeGlobal: false });
+
+		const drift = checkWorkflowSkillsLock(lock.workflows.review, after);
+		expect(drift.map((entry) => [entry.name, entry.kind])).toEqual(
+			expect.arrayContaining([
+				["review-flow", "hash"],
+				["lint-rules", "version"],
+				["style-guide", "unlocked"],
+			]),
+		);
+		const lint = drift.find((entry) => entry.name === "lint-rules");
+		expect(lint && describeSkillDrift(lint)).toBe('skill "lint-rules" is version 2.0.0, locked at 1.0.0');
+
+		const statuses = getSkillLockStatuses(lock, after.filter((skill) => skill.name !== "review-flow"));
+		expect(statuses.map((skill) => [skill.name, skill.status])).toEqual([
+			["lint-rules", "drift"],
+			["review-flow", "missing"],
+			["style-guide", "unlocked"],
+		]);
+		expect(statuses[0]?.drift?.[0]).toStartWith("review: ");
+	});
+
+	test("rejects an unreadable lockfile and parses the lock policy", async () => {
+		const broken = join(dir, "broken");
+		await mkdir(broken, { recursive: true });
+		await writeFile(join(broken, "skills.lock.json"), "{ nope");
+		await expect(readSkillsLock(broken)).rejects.toThrow("Invalid skills.lock.json");
+		expect((await readSkillsLock(join(dir, "absent"))).workflows).toEqual({});
+
+		expect(parseOrchestratorConfigFile({ skills: { lock: "fail" } }).skills).toEqual({ lock: "fail" });
+		expect(parseOrchestratorConfigFile({ skills: { lock: "sometimes" } }).skills).toEqual({});
+	});
+
+	test("writes the lock on a first run only with autoLock, and says so in the run result", async () => {
+		const project = join(dir, "project");
+		await mkdir(join(project, ".opencode", "skill", "review-flow"), { recursive: true });
+		await writeFile(join(project, ".opencode", "skill", "review-flow", "SKILL.md"), skillMd("review-flow", "1.0.0"));
+		registerWorkflow({
+			id: "unit-lock-first-run",
+			name: "Unit lock",
+			description: "unit workflow",
+			steps: [{ id: "review", title: "Review", workerId: "reviewer", prompt: "{task}", requiredSkills: ["review-flow"] }],
+		});
+		const run = (skills: OrchestratorConfig["skills"]) => {
+			const config: OrchestratorConfig = {
+				basePort: 0,
+				profiles: {},
+				spawn: [],
+				autoSpawn: false,
+				startupTimeout: 1000,
+				healthCheckInterval: 1000,
+				skills,
+			};
+			const context = createOrchestratorContext({ directory: project, config });
+			return runWorkflowWithContext(context, { workflowId: "unit-lock-first-run", task: "review", autoSpawn: false });
+		};
+
+		const unlocked = await run({});
+		expect(unlocked.skillsLockNotice).toContain("not in skills.lock.json");
+		expect(await readFile(join(project, "skills.lock.json"), "utf8").catch(() => undefined)).toBeUndefined();
+
+		const recorded = await run({ autoLock: true });
+		expect(recorded.skillsLockNotice).toContain("Recorded the skills");
+		expect(Object.keys((await readSkillsLock(project)).workflows)).toEqual(["unit-lock-first-run"]);
+		expect((await run({ autoLock: true })).skillsLockNotice).toBeUndefined();
+		expect(parseOrchestratorConfigFile({ skills: { autoLock: true } }).skills).toEqual({ autoLock: true });
+	});
+});
@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseSkillFrontmatter } from "../../../src/skills/frontmatter";
+import { resolveSkillDependencies, validateSkills } from "../../../src/skills/preflight";
+import { installSkills, loadSkillRegistry } from "../../../src/skills/registry";
+
+const skillMd = (name: string, dependencies: string[] = []) =>
+	`---\nname: ${name}\ndescription: ${name} skill\n${dependencies.length ? `dependencies: [${dependencies.join(", ")}]\n` : ""}---\n\n# ${name}\n`;
+
+const writeSkill = async (root: string, name: string, dependencies?: string[]) => {
+	await mkdir(join(root, name), { recursive: true });
+	await writeFile(join(root, name, "SKILL.md"), skillMd(name, dependencies));
+};
+
+describe("skill dependencies", () => {
+	let dir: string;
+
+	beforeAll(async () => {
+		dir = await mkdtemp(join(tmpdir(), "opencode-orch-skills-"));
+	});
+
+	afterAll(async () => {
+		if (dir) await rm(dir, { recursive: true, force: true });
+	});
+
+	test("parses dependencies in inline and list form", () => {
+		expect(parseSkillFrontmatter(skillMd("a", ["b", "c"]))?.dependencies).toEqual(["b", "c"]);
+		const list = parseSkillFrontmatter("---\nname: a\ndependencies:\n  - b\n  - 'c'\ndescription: x\n---\n");
+		expect(list).toEqual({ name: "a", dependencies: ["b", "c"], description: "x" });
+	});
+
+	test("orders dependencies first and reports cycles", () => {
+		const graph: Record<string, string[]> = { a: ["b", "c"], b: ["c"], c: [], x: ["y"], y: ["x"] };
+		const resolved = resolveSkillDependencies(["a", "x"], (name) => graph[name]);
+		expect(resolved.order).toEqual(["c", "b", "a", "y", "x"]);
+		expect(resolved.requiredBy.get("c")).toEqual(["b", "a"]);
+		expect(resolved.cycles).toEqual([["x", "y", "x"]]);
+	});
+
+	test("preflight offers missing dependencies from a registry and installs them", async () => {
+		const project = join(dir, "project");
+		const registry = join(dir, "registry");
+		await writeSkill(join(project, ".opencode", "skill"), "review-flow", ["lint-rules"]);
+		await writeSkill(registry, "lint-rules", ["style-guide"]);
+		await writeSkill(registry, "style-guide");
+
+		const check = () =>
+			validateSkills({ requiredSkills: ["review-flow"], directory: project, includeGlobal: false, registries: [registry] });
+		const before = await check();
+		expect(before.ok).toBe(false);
+		expect(before.install).toEqual(["style-guide", "lint-rules"]);
+		expect(before.errors[0]).toContain('missing skill "style-guide" (required by lint-rules)');
+
+		const result = await installSkills({
+			names: before.install ?? [],
+			registry: await loadSkillRegistry([registry], project),
+			directory: project,
+		});
+		expect(result.installed.map((skill) => skill.name)).toEqual(["style-guide", "lint-rules"]);
+		expect(existsSync(join(project, ".opencode", "skill", "lint-rules", "SKILL.md"))).toBe(true);
+		expect((await check()).ok).toBe(true);
+	});
+
+	test("installs skills from a tarball index", async () => {
+		const source = join(dir, "archive-src");
+		await writeSkill(source, "web-fetch");
+		const index = join(dir, "index");
+		await mkdir(index, { recursive: true });
+		execFileSync("tar", ["-czf", join(index, "web-fetch.tgz"), "-C", source, "web-fetch"]);
+		await writeFile(join(index, "index.json"), JSON.stringify({ skills: { "web-fetch": { tarball: "web-fetch.tgz" } } }));
+
+		const project = join(dir, "tar-project");
+		const registry = await loadSkillRegistry([join(index, "index.json")], project);
+		const result = await installSkills({ names: ["web-fetch", "unknown"], registry, directory: project });
+		expect(result.installed.map((skill) => skill.name)).toEqual(["web-fetch"]);
+		expect(result.missing).toEqual(["unknown"]);
+		expect(existsSync(join(project, ".opencode", "skill", "web-fetch", "SKILL.md"))).toBe(true);
+	});
+});
@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import { WorkerPool } from "../../src/core/worker-pool";
+import { parseReplicaId, replicaProfile, resolveReplicaLimits } from "../../src/core/worker-replicas";
+import type { WorkerInstance, WorkerProfile } from "../../src/types";
+
+const createProfile = (overrides: Partial<WorkerProfile> = {}): WorkerProfile => ({
+  id: "coder",
+  name: "Coder",
+  model: "test/model",
+  purpose: "Test worker",
+  whenToUse: "Unit tests",
+  ...overrides,
+});
+
+const createSpawnFn = (pool: WorkerPool) => {
+  const spawned: string[] = [];
+  const stopped: string[] = [];
+  const spawnFn = async (profile: WorkerProfile) => {
+    spawned.push(profile.id);
+    const instance: WorkerInstance = {
+      profile,
+      status: "ready",
+      port: 0,
+      directory: process.cwd(),
+      startedAt: new Date(),
+      shutdown: async () => {
+        stopped.push(profile.id);
+      },
+    };
+    pool.register(instance);
+    return instance;
+  };
+  return { spawnFn, spawned, stopped };
+};
+
+describe("worker replicas", () => {
+  test("parses replica ids and drops the fixed port for extra replicas", () => {
+    expect(parseReplicaId("coder#3")).toEqual({ profileId: "coder", index: 3 });
+    expect(parseReplicaId("coder")).toEqual({ profileId: "coder", index: 1 });
+    expect(parseReplicaId("coder#1")).toEqual({ profileId: "coder#1", index: 1 });
+
+    const replica = replicaProfile(createProfile({ port: 4100 }), 2);
+    expect(replica.id).toBe("coder#2");
+    expect(replica.name).toBe("Coder #2");
+    expect(replica.port).toBeUndefined();
+  });
+
+  test("keeps agent workers to a single replica", () => {
+    expect(resolveReplicaLimits(createProfile({ kind: "agent", maxReplicas: 4 })).max).toBe(1);
+    expect(resolveReplicaLimits(createProfile({ minReplicas: 3, maxReplicas: 2 }))).toMatchObject({ min: 2, max: 2 });
+  });
+
+  test("scales up under load and routes to the least busy replica", async () => {
+    const pool = new WorkerPool();
+    const { spawnFn, spawned } = createSpawnFn(pool);
+    const profile = createProfile({ maxReplicas: 2 });
+
+    const first = await pool.acquire(profile, spawnFn);
+    const second = await pool.acquire(profile, spawnFn);
+    expect(first.instance.profile.id).toBe("coder");
+    expect(second.instance.profile.id).toBe("coder#2");
+    expect(second.spawned).toBe(true);
+
+    const third = await pool.acquire(profile, spawnFn);
+    expect(spawned).toEqual(["coder", "coder#2"]);
+    expect(third.instance.profile.id).toBe("coder");
+    expect(pool.getLoad("coder")).toBe(2);
+
+    first.release();
+    third.release();
+    const fourth = await pool.acquire(profile, spawnFn);
+    expect(fourth.instance.profile.id).toBe("coder");
+    expect(pool.listReplicas("coder").map((w) => w.profile.id)).toEqual(["coder", "coder#2"]);
+    fourth.release();
+    second.release();
+    await pool.stopAll();
+  });
+
+  test("reaps idle replicas above minReplicas", async () => {
+    const pool = new WorkerPool();
+    const { spawnFn, stopped } = createSpawnFn(pool);
+    const profile = createProfile({ maxReplicas: 3, minReplicas: 2, replicaIdleTtlMs: 5 });
+
+    const leases = [
+      await pool.acquire(profile, spawnFn),
+      await pool.acquire(profile, spawnFn),
+      await pool.acquire(profile, spawnFn),
+    ];
+    for (const lease of leases) lease.release();
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(stopped).toEqual(["coder#3"]);
+    expect(pool.listReplicas("coder").map((w) => w.profile.id)).toEqual(["coder", "coder#2"]);
+    await pool.stopAll();
+  });
+});
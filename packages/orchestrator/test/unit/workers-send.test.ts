@@ -1,5 +1,5 @@
 import { describe, expect, test } from "bun:test";
-import { buildWorkerPromptBody } from "../../src/workers/send";
+import { buildWorkerPromptBody, buildWorkerTaskText, sendWorkerPrompt } from "../../src/workers/send";
 
 describe("buildWorkerPromptBody", () => {
   test("includes agent and model override", () => {
@@ -35,3 +35,60 @@ describe("buildWorkerPromptBody", () => {
     ).toThrow('Invalid model override "node:fast". Expected "provider/model".');
   });
 });
+
+describe("structured output", () => {
+  const schema = {
+    type: "object",
+    required: ["verdict"],
+    properties: { verdict: { enum: ["approve", "changes"] } },
+  };
+
+  const fakeClient = (replies: string[]) => {
+    const prompts: string[] = [];
+    const client = {
+      session: {
+        prompt: async (input: { body: { parts: Array<{ text?: string }> } }) => {
+          prompts.push(input.body.parts.map((part) => part.text ?? "").join(""));
+          return { data: { parts: [{ type: "text", text: replies.shift() ?? "" }] } };
+        },
+      },
+    };
+    return { client, prompts };
+  };
+
+  test("adds the schema to the task text", () => {
+    const text = buildWorkerTaskText({ message: "Review", outputSchema: schema });
+    expect(text).toContain("<output-schema>");
+    expect(text).toContain('"required"');
+  });
+
+  test("asks the worker to fix a reply that does not match", async () => {
+    const { client, prompts } = fakeClient(['{"verdict":"maybe"}', '```json\n{"verdict":"approve"}\n```']);
+    const result = await sendWorkerPrompt({
+      client,
+      sessionId: "s1",
+      directory: process.cwd(),
+      workerId: "architect",
+      message: "Review",
+      outputSchema: schema,
+    });
+
+    expect(result.structured).toEqual({ verdict: "approve" });
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain("$.verdict: must be one of");
+  });
+
+  test("fails once schema retries are used up", async () => {
+    const { client } = fakeClient(["not json", "still not json"]);
+    await expect(
+      sendWorkerPrompt({
+        client,
+        sessionId: "s1",
+        directory: process.cwd(),
+        workerId: "architect",
+        message: "Review",
+        outputSchema: schema,
+      })
+    ).rejects.toThrow("did not match the output schema: response is not valid JSON");
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test";
+import { onOrchestratorEvent, type OrchestratorEvent } from "../../src/core/orchestrator-events";
+import { recordWorkflowApproval } from "../../src/workflows/approvals";
+import { registerWorkflow } from "../../src/workflows/engine";
+import { continueWorkflowWithDependencies, runWorkflowWithDependencies } from "../../src/workflows/runner";
+import type { WorkflowStepDefinition } from "../../src/workflows/types";
+
+const limits = {
+  maxSteps: 6,
+  maxTaskChars: 1000,
+  maxCarryChars: 1000,
+  perStepTimeoutMs: 5000,
+};
+
+const registerTestWorkflow = (id: string, steps: WorkflowStepDefinition[]) => {
+  registerWorkflow({
+    id,
+    name: `Unit ${id}`,
+    description: "unit workflow",
+    steps,
+  });
+};
+
+const createDeps = (reply: (workerId: string, message: string) => string) => {
+  const prompts: Array<{ workerId: string; message: string }> = [];
+  return {
+    prompts,
+    deps: {
+      resolveWorker: async (workerId: string) => workerId,
+      sendToWorker: async (workerId: string, message: string) => {
+        prompts.push({ workerId, message });
+        return { success: true, response: reply(workerId, message) };
+      },
+    },
+  };
+};
+
+describe("workflow approvals", () => {
+  test("pauses for approval and hands the edited carry downstream", async () => {
+    registerTestWorkflow("unit-approve", [
+      { id: "plan", title: "Plan", workerId: "architect", prompt: "Plan {task}", carry: true, requiresApproval: true },
+      { id: "build", title: "Build", workerId: "coder", prompt: "Build from:\n{carry}", carry: true },
+    ]);
+    const { deps, prompts } = createDeps(() => "### Summary\nthe plan");
+    const events: OrchestratorEvent[] = [];
+    const off = onOrchestratorEvent((event) => {
+      if (event.type === "orchestra.workflow.approval") events.push(event);
+    });
+
+    const run = await runWorkflowWithDependencies({ workflowId: "unit-approve", task: "x", limits }, deps, {
+      uiPolicy: { execution: "auto", intervene: "never" },
+    });
+    expect(run.status).toBe("paused");
+    expect(run.pendingApprovals?.map((entry) => entry.stepId)).toEqual(["plan"]);
+    await expect(continueWorkflowWithDependencies(run, deps)).rejects.toThrow("waiting for approval");
+
+    const { approval } = recordWorkflowApproval({
+      runId: run.runId,
+      decision: "approved",
+      approver: "reviewer@example.com",
+      comment: "looks good",
+      carry: "edited plan",
+    });
+    expect(approval).toMatchObject({ decision: "approved", approver: "reviewer@example.com", carryEdited: true });
+
+    const resumed = await continueWorkflowWithDependencies(run, deps);
+    off();
+    expect(resumed.status).toBe("success");
+    expect(resumed.steps[0]?.approval?.comment).toBe("looks good");
+    expect(prompts[1]?.message).toContain("edited plan");
+    expect(events.map((event) => event.data)).toMatchObject([
+      { stepId: "plan", status: "pending" },
+      { stepId: "plan", status: "approved", approver: "reviewer@example.com", carryEdited: true },
+    ]);
+  });
+
+  test("rejecting a step re-runs it with the amended instructions", async () => {
+    registerTestWorkflow("unit-reject", [
+      { id: "draft", title: "Draft", workerId: "docs", prompt: "Draft {task}", carry: true, requiresApproval: true },
+      { id: "publish", title: "Publish", workerId: "coder", prompt: "Publish:\n{steps.draft.response}" },
+    ]);
+    let drafts = 0;
+    const { deps, prompts } = createDeps((workerId) => {
+      if (workerId !== "docs") return "published";
+      drafts += 1;
+      return `draft ${drafts}`;
+    });
+
+    const run = await runWorkflowWithDependencies({ workflowId: "unit-reject", task: "notes", limits }, deps, {
+      uiPolicy: { execution: "auto", intervene: "never" },
+    });
+    recordWorkflowApproval({
+      runId: run.runId,
+      stepId: "draft",
+      decision: "rejected",
+      approver: "reviewer",
+      instructions: "Use bullet points",
+    });
+    expect(run.currentStepIndex).toBe(0);
+
+    const retried = await continueWorkflowWithDependencies(run, deps);
+    expect(retried.status).toBe("paused");
+    expect(prompts[1]?.message).toContain("Use bullet points");
+    expect(retried.pendingApprovals?.map((entry) => entry.stepId)).toEqual(["draft"]);
+
+    recordWorkflowApproval({ runId: run.runId, decision: "approved", approver: "reviewer" });
+    const finished = await continueWorkflowWithDependencies(run, deps);
+    expect(finished.status).toBe("success");
+    expect(finished.steps.map((step) => step.approval?.decision)).toEqual(["rejected", "approved", undefined]);
+    expect(prompts[2]?.message).toContain("draft 2");
+  });
+});
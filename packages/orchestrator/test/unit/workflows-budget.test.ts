@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { findBudgetBreach } from "../../src/core/guardrails";
+import { onOrchestratorEvent, type OrchestratorEventDataMap } from "../../src/core/orchestrator-events";
+import { usageLedger } from "../../src/core/usage";
+import { registerWorkflow } from "../../src/workflows/engine";
+import { continueWorkflowWithDependencies, runWorkflowWithDependencies } from "../../src/workflows/runner";
+
+const limits = {
+  maxSteps: 4,
+  maxTaskChars: 1000,
+  maxCarryChars: 2000,
+  perStepTimeoutMs: 5000,
+};
+
+registerWorkflow({
+  id: "unit-budget-three-step",
+  name: "Unit budget",
+  description: "unit workflow",
+  steps: [
+    { id: "plan", title: "Plan", workerId: "architect", prompt: "Plan {task}", carry: true },
+    { id: "build", title: "Build", workerId: "coder", prompt: "Build {task}\n{carry}", carry: true },
+    { id: "review", title: "Review", workerId: "reviewer", prompt: "Review {task}\n{carry}" },
+  ],
+});
+
+registerWorkflow({
+  id: "unit-budget-refused-step",
+  name: "Unit budget refusal",
+  description: "unit workflow",
+  steps: [
+    { id: "plan", title: "Plan", workerId: "architect", prompt: "Plan {task}", carry: true },
+    {
+      id: "build",
+      title: "Build",
+      workerId: "coder",
+      prompt: "Build {task}\n{carry}",
+      retries: 2,
+      fallbackWorkerId: "backup",
+    },
+  ],
+});
+
+const usage = { inputTokens: 400, outputTokens: 100, reasoningTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, cost: 0.1 };
+
+afterEach(() => {
+  usageLedger.clear();
+});
+
+describe("workflow budgets", () => {
+  test("pauses the run when its budget runs out and resumes after it is raised", async () => {
+    const workers: string[] = [];
+    const deps = {
+      resolveWorker: async (workerId: string) => workerId,
+      sendToWorker: async (workerId: string) => {
+        workers.push(workerId);
+        return { success: true, response: "ok", usage };
+      },
+    };
+    const events: OrchestratorEventDataMap["orchestra.budget.exceeded"][] = [];
+    const off = onOrchestratorEvent((event) => {
+      if (event.type === "orchestra.budget.exceeded") {
+        events.push(event.data as OrchestratorEventDataMap["orchestra.budget.exceeded"]);
+      }
+    });
+
+    const run = await runWorkflowWithDependencies({ workflowId: "unit-budget-three-step", task: "do", limits }, deps, {
+      uiPolicy: { execution: "auto", intervene: "never" },
+      jobId: "job-budget",
+      checkBudget: (state) => findBudgetBreach({ perRun: { maxTokens: 1000 } }, { run: state.runId }),
+    });
+    off();
+
+    expect(run.status).toBe("paused");
+    expect(workers).toEqual(["architect", "coder"]);
+    expect(run.budgetExceeded).toMatchObject({ scope: "run", limit: "tokens", used: 1000, max: 1000 });
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ action: "paused", runId: run.runId, scope: "run" });
+    expect(usageLedger.get("job", "job-budget")?.usage.inputTokens).toBe(800);
+
+    const finished = await continueWorkflowWithDependencies(run, deps, {
+      checkBudget: (state) => findBudgetBreach({ perRun: { maxTokens: 5000 } }, { run: state.runId }),
+    });
+    expect(finished.status).toBe("success");
+    expect(finished.budgetExceeded).toBeUndefined();
+    expect(workers).toEqual(["architect", "coder", "reviewer"]);
+  });
+
+  test("pauses instead of retrying when a step prompt is refused by a budget", async () => {
+    const workers: string[] = [];
+    let refuse = true;
+    const breach = { scope: "run" as const, id: "run", limit: "tokens" as const, used: 900, max: 1000 };
+    const deps = {
+      resolveWorker: async (workerId: string) => workerId,
+      sendToWorker: async (workerId: string) => {
+        workers.push(workerId);
+        if (workerId === "coder" && refuse) {
+          return { success: false, error: "Budget exceeded", budgetExceeded: breach };
+        }
+        return { success: true, response: "ok" };
+      },
+    };
+
+    const run = await runWorkflowWithDependencies({ workflowId: "unit-budget-refused-step", task: "do", limits }, deps, {
+      uiPolicy: { execution: "auto", intervene: "never" },
+    });
+    expect(run.status).toBe("paused");
+    expect(run.budgetExceeded).toEqual(breach);
+    expect(workers).toEqual(["architect", "coder"]);
+
+    refuse = false;
+    const finished = await continueWorkflowWithDependencies(run, deps);
+    expect(finished.status).toBe("success");
+    expect(workers).toEqual(["architect", "coder", "coder"]);
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, expect, test } from "bun:test";
+import { evaluateStepCondition, registerWorkflow } from "../../src/workflows/engine";
+import { buildRooCodeBoomerangWorkflow } from "../../src/workflows/roocode-boomerang";
+import { runWorkflowWithDependencies } from "../../src/workflows/runner";
+import type { WorkflowStepDefinition } from "../../src/workflows/types";
+
+const limits = {
+  maxSteps: 8,
+  maxTaskChars: 1000,
+  maxCarryChars: 2000,
+  perStepTimeoutMs: 5000,
+};
+
+const auto = { execution: "auto", intervene: "never" } as const;
+
+const registerTestWorkflow = (id: string, steps: WorkflowStepDefinition[]) => {
+  registerWorkflow({
+    id,
+    name: `Unit ${id}`,
+    description: "unit workflow",
+    steps,
+  });
+};
+
+const reviewLoop = (id: string, maxIterations: number) =>
+  registerTestWorkflow(id, [
+    { id: "review", title: "Review", workerId: "architect", prompt: "Review", carry: true },
+    {
+      id: "fix",
+      title: "Fix",
+      workerId: "coder",
+      prompt: "Fix: {steps.review.risks}",
+      carry: true,
+      when: { section: "risks", empty: false },
+      repeatUntil: { step: "review", section: "risks", empty: true },
+      repeatFrom: "review",
+      maxIterations,
+    },
+  ]);
+
+describe("evaluateStepCondition", () => {
+  test("checks handoff sections and regex patterns", () => {
+    const output = "Summary:\nAll good\n\nRisks:\n- missing test";
+    expect(evaluateStepCondition({ section: "risks", empty: false }, output)).toBe(true);
+    expect(evaluateStepCondition({ section: "risks", matches: "MISSING" }, output)).toBe(true);
+    expect(evaluateStepCondition({ section: "summary", notMatches: "good" }, output)).toBe(false);
+    expect(evaluateStepCondition({ section: "next", empty: true }, output)).toBe(true);
+  });
+});
+
+describe("workflow conditions and loops", () => {
+  test("skips a step whose condition fails and passes carry through", async () => {
+    registerTestWorkflow("unit-when-skip", [
+      { id: "check", title: "Check", workerId: "architect", prompt: "Check", carry: true },
+      {
+        id: "fix",
+        title: "Fix",
+        workerId: "coder",
+        prompt: "Fix",
+        carry: true,
+        when: { notMatches: "no issues" },
+      },
+      { id: "report", title: "Report", workerId: "docs", prompt: "Report:\n{carry}" },
+    ]);
+
+    const prompts = new Map<string, string>();
+    const run = await runWorkflowWithDependencies(
+      { workflowId: "unit-when-skip", task: "do", limits },
+      {
+        resolveWorker: async (workerId) => workerId,
+        sendToWorker: async (workerId, message) => {
+          prompts.set(workerId, message);
+          return { success: true, response: "No issues found." };
+        },
+      },
+      { uiPolicy: auto }
+    );
+
+    expect(run.status).toBe("success");
+    expect(run.steps.map((step) => step.status)).toEqual(["success", "skipped", "success"]);
+    expect(prompts.has("coder")).toBe(false);
+    expect(prompts.get("docs")).toContain("### Check");
+  });
+
+  test("repeats a review/fix loop until the review is clean", async () => {
+    reviewLoop("unit-loop-clean", 3);
+
+    let reviews = 0;
+    const fixPrompts: string[] = [];
+    const run = await runWorkflowWithDependencies(
+      { workflowId: "unit-loop-clean", task: "do", limits },
+      {
+        resolveWorker: async (workerId) => workerId,
+        sendToWorker: async (workerId, message) => {
+          if (workerId === "architect") {
+            reviews += 1;
+            return { success: true, response: reviews < 2 ? "Summary:\nbad\n\nRisks:\n- off by one" : "Summary:\nclean" };
+          }
+          fixPrompts.push(message);
+          return { success: true, response: "Summary:\nfixed" };
+        },
+      },
+      { uiPolicy: auto }
+    );
+
+    expect(run.status).toBe("success");
+    expect(reviews).toBe(2);
+    expect(fixPrompts).toEqual(["Fix: - off by one"]);
+    expect(run.steps.map((step) => `${step.id}:${step.status}:${step.iteration ?? 1}`)).toEqual([
+      "review:success:1",
+      "fix:success:1",
+      "review:success:2",
+      "fix:skipped:2",
+    ]);
+  });
+
+  test("stops looping at maxIterations or maxSteps with a warning", async () => {
+    const deps = {
+      resolveWorker: async (workerId: string) => workerId,
+      sendToWorker: async () => ({ success: true, response: "Risks:\n- still broken" }),
+    };
+
+    reviewLoop("unit-loop-iterations", 2);
+    const byIterations = await runWorkflowWithDependencies(
+      { workflowId: "unit-loop-iterations", task: "do", limits },
+      deps,
+      { uiPolicy: auto }
+    );
+    expect(byIterations.status).toBe("success");
+    expect(byIterations.steps.length).toBe(4);
+    expect(byIterations.lastStepResult?.warning).toContain("maxIterations=2");
+
+    reviewLoop("unit-loop-max-steps", 10);
+    const bySteps = await runWorkflowWithDependencies(
+      { workflowId: "unit-loop-max-steps", task: "do", limits: { ...limits, maxSteps: 5 } },
+      deps,
+      { uiPolicy: auto }
+    );
+    expect(bySteps.status).toBe("success");
+    expect(bySteps.steps.length).toBe(4);
+    expect(bySteps.lastStepResult?.warning).toContain("maxSteps=5");
+  });
+
+  test("roocode-boomerang skips fix when the review reports no issues", async () => {
+    registerWorkflow(buildRooCodeBoomerangWorkflow());
+    const workers: string[] = [];
+    const run = await runWorkflowWithDependencies(
+      { workflowId: "roocode-boomerang", task: "do", limits: { ...limits, maxSteps: 4 } },
+      {
+        resolveWorker: async (workerId) => workerId,
+        sendToWorker: async (workerId) => {
+          workers.push(workerId);
+          return { success: true, response: workers.length === 3 ? "## Summary\nLooks good.\n\n## Risks\n- None" : "Summary:\nok" };
+        },
+      },
+      { uiPolicy: auto }
+    );
+
+    expect(run.status).toBe("success");
+    expect(workers).toEqual(["architect", "coder", "architect"]);
+    expect(run.steps[3]?.status).toBe("skipped");
+  });
+
+  test("roocode-boomerang loops review/fix while the review lists risks", async () => {
+    registerWorkflow(buildRooCodeBoomerangWorkflow());
+    const workers: string[] = [];
+    const reviews = [
+      "## Summary\nMostly fine, no issues with naming.\n\n## Risks\n- Missing null check in parse()",
+      "## Summary\nFixed.\n\n## Risks\nNone",
+    ];
+    const run = await runWorkflowWithDependencies(
+      { workflowId: "roocode-boomerang", task: "do", limits: { ...limits, maxSteps: 6 } },
+      {
+        resolveWorker: async (workerId) => workerId,
+        sendToWorker: async (workerId, message) => {
+          workers.push(workerId);
+          const review = message.includes("You are the reviewer") ? reviews.shift() : undefined;
+          return { success: true, response: review ?? "Summary:\nok" };
+        },
+      },
+      { uiPolicy: auto }
+    );
+
+    expect(run.status).toBe("success");
+    expect(workers).toEqual(["architect", "coder", "architect", "coder", "architect"]);
+    expect(run.lastStepResult?.warning).toBeUndefined();
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, expect, test } from "bun:test";
+import { registerWorkflow } from "../../src/workflows/engine";
+import {
+  continueWorkflowWithDependencies,
+  runWorkflowWithDependencies,
+} from "../../src/workflows/runner";
+import type { WorkflowStepDefinition } from "../../src/workflows/types";
+
+const limits = {
+  maxSteps: 4,
+  maxTaskChars: 1000,
+  maxCarryChars: 2000,
+  perStepTimeoutMs: 5000,
+};
+
+const registerTestWorkflow = (id: string, steps: WorkflowStepDefinition[]) => {
+  registerWorkflow({
+    id,
+    name: `Unit ${id}`,
+    description: "unit workflow",
+    steps,
+  });
+};
+
+const auto = { execution: "auto", intervene: "never" } as const;
+
+describe("workflow dependencies", () => {
+  test("runs independent steps concurrently and fans in named outputs", async () => {
+    registerTestWorkflow("unit-dag-fan-in", [
+      { id: "plan", title: "Plan", workerId: "architect", prompt: "Plan {task}", carry: true, dependsOn: [] },
+      { id: "docs", title: "Docs", workerId: "docs", prompt: "Research {task}", carry: true, dependsOn: [] },
+      {
+        id: "build",
+        title: "Build",
+        workerId: "coder",
+        prompt: "Plan={steps.plan.summary}\nDocs={steps.docs.response}\nCarry:\n{carry}",
+        dependsOn: ["plan", "docs"],
+      },
+    ]);
+
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const prompts = new Map<string, string>();
+    const attachmentsSeen = new Map<string, unknown>();
+    const run = await runWorkflowWithDependencies(
+      {
+        workflowId: "unit-dag-fan-in",
+        task: "ship it",
+        limits,
+        attachments: [{ type: "file", path: "/tmp/spec.md" }],
+      },
+      {
+        resolveWorker: async (workerId) => workerId,
+        sendToWorker: async (workerId, message, options) => {
+          inFlight += 1;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          prompts.set(workerId, message);
+          attachmentsSeen.set(workerId, options.attachments);
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          inFlight -= 1;
+          if (workerId === "architect") return { success: true, response: "Summary:\nPLAN_OK\n\nNext:\nbuild" };
+          if (workerId === "docs") return { success: true, response: "DOCS_OK" };
+          return { success: true, response: "BUILD_OK" };
+        },
+      },
+      { uiPolicy: auto }
+    );
+
+    expect(run.status).toBe("success");
+    expect(maxInFlight).toBe(2);
+    expect(run.steps.map((step) => step.id).slice(-1)).toEqual(["build"]);
+    expect(run.currentStepIndex).toBe(3);
+    const buildPrompt = prompts.get("coder") ?? "";
+    expect(buildPrompt).toContain("Plan=PLAN_OK");
+    expect(buildPrompt).toContain("Docs=DOCS_OK");
+    expect(buildPrompt).toContain("### Plan");
+    expect(buildPrompt).toContain("### Docs");
+    expect(attachmentsSeen.get("architect")).toBeTruthy();
+    expect(attachmentsSeen.get("docs")).toBeTruthy();
+    expect(attachmentsSeen.get("coder")).toBeUndefined();
+  });
+
+  test("never sends two steps to the same worker at once", async () => {
+    registerTestWorkflow("unit-dag-same-worker", [
+      { id: "a", title: "A", workerId: "coder", prompt: "A", dependsOn: [] },
+      { id: "b", title: "B", workerId: "coder", prompt: "B", dependsOn: [] },
+    ]);
+
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const run = await runWorkflowWithDependencies(
+      { workflowId: "unit-dag-same-worker", task: "do", limits },
+      {
+        resolveWorker: async (workerId) => workerId,
+        sendToWorker: async () => {
+          inFlight += 1;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          inFlight -= 1;
+          return { success: true, response: "ok" };
+        },
+      },
+      { uiPolicy: auto }
+    );
+
+    expect(run.status).toBe("success");
+    expect(maxInFlight).toBe(1);
+    expect(run.steps.length).toBe(2);
+  });
+
+  test("starts a step once its own dependencies finish, without waiting for the wave", async () => {
+    registerTestWorkflow("unit-dag-eager", [
+      { id: "slow", title: "Slow", workerId: "architect", prompt: "Slow", dependsOn: [] },
+      { id: "fast", title: "Fast", workerId: "docs", prompt: "Fast", dependsOn: [] },
+      { id: "next", title: "Next", workerId: "coder", prompt: "Next", dependsOn: ["fast"] },
+    ]);
+
+    const finished: string[] = [];
+    const run = await runWorkflowWithDependencies(
+      { workflowId: "unit-dag-eager", task: "do", limits },
+      {
+        resolveWorker: async (workerId) => workerId,
+        sendToWorker: async (workerId) => {
+          await new Promise((resolve) => setTimeout(resolve, workerId === "architect" ? 40 : 5));
+          finished.push(workerId);
+          return { success: true, response: "ok" };
+        },
+      },
+      { uiPolicy: auto }
+    );
+
+    expect(run.status).toBe("success");
+    expect(finished).toEqual(["docs", "coder", "architect"]);
+    expect(run.steps.map((step) => step.id)).toEqual(["fast", "next", "slow"]);
+  });
+
+  test("keeps sibling results when a step throws", async () => {
+    registerTestWorkflow("unit-dag-throw", [
+      { id: "a", title: "A", workerId: "architect", prompt: "A", dependsOn: [] },
+      { id: "b", title: "B", workerId: "docs", prompt: "B", dependsOn: [] },
+      { id: "c", title: "C", workerId: "coder", prompt: "C", dependsOn: ["a", "b"] },
+    ]);
+
+    const run = await runWorkflowWithDependencies(
+      { workflowId: "unit-dag-throw", task: "do", limits },
+      {
+        resolveWorker: async (workerId) => workerId,
+        sendToWorker: async () => {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          return { success: true, response: "ok" };
+        },
+      },
+      {
+        uiPolicy: auto,
+        onStep: ({ phase, step }) => {
+          if (phase === "start" && step.id === "b") throw new Error("hook failed");
+        },
+      }
+    );
+
+    expect(run.status).toBe("error");
+    expect(run.steps.map((step) => [step.id, step.status])).toEqual(
+      expect.arrayContaining([
+        ["a", "success"],
+        ["b", "error"],
+      ])
+    );
+    expect(run.steps.find((step) => step.id === "b")?.error).toBe("hook failed");
+    expect(run.steps.some((step) => step.id === "c")).toBe(false);
+  });
+
+  test("retries only the failed branch when a paused run continues", async () => {
+    registerTestWorkflow("unit-dag-retry", [
+      { id: "a", title: "A", workerId: "architect", prompt: "A", dependsOn: [] },
+      { id: "b", title: "B", workerId: "docs", prompt: "B", dependsOn: [] },
+      { id: "c", title: "C", workerId: "coder", prompt: "C", dependsOn: ["a", "b"] },
+    ]);
+
+    const calls: string[] = [];
+    let docsAttempts = 0;
+    const deps = {
+      resolveWorker: async (workerId: string) => workerId,
+      sendToWorker: async (workerId: string) => {
+        calls.push(workerId);
+        if (workerId === "docs" && docsAttempts++ === 0) return { success: false, error: "flaky" };
+        return { success: true, response: "ok" };
+      },
+    };
+
+    const run = await runWorkflowWithDependencies({ workflowId: "unit-dag-retry", task: "do", limits }, deps, {
+      uiPolicy: { execution: "auto", intervene: "on-error" },
+    });
+    expect(run.status).toBe("paused");
+    expect(run.currentStepIndex).toBe(1);
+
+    const resumed = await continueWorkflowWithDependencies(run, deps);
+    expect(resumed.status).toBe("success");
+    expect(calls.filter((id) => id === "architect").length).toBe(1);
+    expect(calls.filter((id) => id === "docs").length).toBe(2);
+    expect(calls[calls.length - 1]).toBe("coder");
+  });
+
+  test("rejects cycles, unknown dependencies, and non-upstream references", async () => {
+    const deps = {
+      resolveWorker: async (workerId: string) => workerId,
+      sendToWorker: async () => ({ success: true, response: "ok" }),
+    };
+
+    registerTestWorkflow("unit-dag-cycle", [
+      { id: "a", title: "A", workerId: "coder", prompt: "A", dependsOn: ["b"] },
+      { id: "b", title: "B", workerId: "coder", prompt: "B", dependsOn: ["a"] },
+    ]);
+    await expect(
+      runWorkflowWithDependencies({ workflowId: "unit-dag-cycle", task: "do", limits }, deps)
+    ).rejects.toThrow("dependency cycle");
+
+    registerTestWorkflow("unit-dag-unknown", [
+      { id: "a", title: "A", workerId: "coder", prompt: "A", dependsOn: ["missing"] },
+    ]);
+    await expect(
+      runWorkflowWithDependencies({ workflowId: "unit-dag-unknown", task: "do", limits }, deps)
+    ).rejects.toThrow('unknown step "missing"');
+
+    registerTestWorkflow("unit-dag-reference", [
+      { id: "a", title: "A", workerId: "coder", prompt: "A", dependsOn: [] },
+      { id: "b", title: "B", workerId: "docs", prompt: "{steps.a.summary}", dependsOn: [] },
+    ]);
+    await expect(
+      runWorkflowWithDependencies({ workflowId: "unit-dag-reference", task: "do", limits }, deps)
+    ).rejects.toThrow('does not depend on "a"');
+  });
+});
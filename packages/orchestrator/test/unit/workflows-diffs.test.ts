@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test";
+import { onOrchestratorEvent, type OrchestratorEventDataMap } from "../../src/core/orchestrator-events";
+import { registerWorkflow } from "../../src/workflows/engine";
+import { runWorkflowWithDependencies } from "../../src/workflows/runner";
+
+const limits = {
+  maxSteps: 4,
+  maxTaskChars: 1000,
+  maxCarryChars: 2000,
+  perStepTimeoutMs: 5000,
+};
+
+const auto = { execution: "auto", intervene: "never" } as const;
+
+const implementDiff = "diff --git a/src/a.ts b/src/a.ts\n-export const a = 1;\n+export const a = 2;\n";
+
+describe("workflow step diffs", () => {
+  test("records step changes, publishes them and feeds downstream prompts", async () => {
+    registerWorkflow({
+      id: "unit-step-diffs",
+      name: "Unit diffs",
+      description: "unit workflow",
+      steps: [
+        { id: "implement", title: "Implement", workerId: "coder", prompt: "Implement {task}" },
+        {
+          id: "review",
+          title: "Review",
+          workerId: "architect",
+          prompt: "Files:\n{steps.implement.files}\nDiff:\n{diff}",
+        },
+      ],
+    });
+
+    const events: OrchestratorEventDataMap["orchestra.workflow.step"][] = [];
+    const off = onOrchestratorEvent((event) => {
+      if (event.type === "orchestra.workflow.step") {
+        events.push(event.data as OrchestratorEventDataMap["orchestra.workflow.step"]);
+      }
+    });
+    const prompts: string[] = [];
+    const run = await runWorkflowWithDependencies(
+      { workflowId: "unit-step-diffs", task: "bump a", limits },
+      {
+        resolveWorker: async (workerId) => workerId,
+        sendToWorker: async (workerId, message) => {
+          prompts.push(message);
+          return workerId === "coder"
+            ? { success: true, response: "bumped", changes: { files: ["src/a.ts"], diff: implementDiff } }
+            : { success: true, response: "no issues", changes: { files: [], diff: "" } };
+        },
+      },
+      { uiPolicy: auto }
+    );
+    off();
+
+    expect(run.status).toBe("success");
+    expect(run.steps[0]?.changes).toEqual({ files: ["src/a.ts"], diff: implementDiff });
+    expect(prompts[1]).toBe(`Files:\nsrc/a.ts\nDiff:\n${implementDiff}`);
+    const stepEvents = events.filter((event) => event.runId === run.runId);
+    expect(stepEvents.map((event) => [event.stepId, event.files, event.diff])).toEqual([
+      ["implement", ["src/a.ts"], implementDiff],
+      ["review", [], undefined],
+    ]);
+  });
+});
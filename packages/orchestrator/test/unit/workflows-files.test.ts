@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getWorkflowFileErrors, reloadWorkflowFiles } from "../../src/workflows";
+import { getWorkflow, registerWorkflow } from "../../src/workflows/engine";
+import { loadWorkflowFiles, parseWorkflowFile, watchWorkflowRoots } from "../../src/workflows/files";
+
+const reviewYaml = `
+id: file-review
+name: File review
+description: Review checked into the repo
+steps:
+  - id: inspect
+    workerId: architect
+    prompt: "Inspect {task}"
+    carry: true
+  - id: report
+    workerId: docs
+    prompt: "Report on:\\n{carry}"
+    when: { step: inspect, notMatches: "nothing to do" }
+`;
+
+describe("workflow files", () => {
+  let tmpDir: string;
+  let projectDir: string;
+  let nestedDir: string;
+  let configHome: string;
+
+  beforeAll(async () => {
+    await mkdir(join(process.cwd(), ".tmp"), { recursive: true });
+    tmpDir = await mkdtemp(join(process.cwd(), ".tmp", "workflow-files-"));
+    projectDir = join(tmpDir, "repo");
+    nestedDir = join(projectDir, "pkg");
+    configHome = join(tmpDir, "config");
+    await Promise.all([
+      mkdir(join(nestedDir, ".opencode", "workflows"), { recursive: true }),
+      mkdir(join(projectDir, ".opencode", "workflows"), { recursive: true }),
+      mkdir(join(configHome, "opencode", "workflows"), { recursive: true }),
+    ]);
+  });
+
+  afterAll(async () => {
+    if (tmpDir) await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test("validates files against the workflow schema", () => {
+    expect(parseWorkflowFile("review.yaml", reviewYaml).steps[1]?.when).toEqual({
+      step: "inspect",
+      notMatches: "nothing to do",
+    });
+    expect(() => parseWorkflowFile("bad.json", JSON.stringify({ id: "bad", steps: [{ id: "a", workerId: 1 }] }))).toThrow(
+      "Invalid workflow bad.json: $.steps[0].prompt: is required; $.steps[0].workerId: expected string, got integer"
+    );
+    expect(() => parseWorkflowFile("broken.json", "{")).toThrow("Cannot parse broken.json");
+  });
+
+  test("loads YAML and JSON files with the nearest definition winning", async () => {
+    const options = { directory: nestedDir, worktree: projectDir, xdgConfigHome: configHome };
+    await writeFile(join(nestedDir, ".opencode", "workflows", "review.yaml"), reviewYaml);
+    await writeFile(
+      join(projectDir, ".opencode", "workflows", "review.json"),
+      JSON.stringify({ id: "file-review", steps: [{ id: "outer", workerId: "coder", prompt: "{task}" }] })
+    );
+    await writeFile(
+      join(configHome, "opencode", "workflows", "release.json"),
+      JSON.stringify({ $schema: "./workflow.schema.json", id: "file-release", steps: [{ id: "tag", workerId: "coder", prompt: "{task}" }] })
+    );
+    await writeFile(join(configHome, "opencode", "workflows", "notes.md"), "not a workflow");
+
+    const { workflows, errors } = await loadWorkflowFiles(options);
+    expect(workflows.map((entry) => [entry.definition.id, entry.source])).toEqual([
+      ["file-review", "project"],
+      ["file-release", "global"],
+    ]);
+    expect(workflows[0]?.path).toBe(join(nestedDir, ".opencode", "workflows", "review.yaml"));
+    expect(workflows[1]?.definition).not.toHaveProperty("$schema");
+    expect(errors).toEqual([
+      {
+        path: join(projectDir, ".opencode", "workflows", "review.json"),
+        error: `Workflow "file-review" is already defined in ${join(nestedDir, ".opencode", "workflows", "review.yaml")}`,
+      },
+    ]);
+  });
+
+  test("reloading swaps file workflows and restores the ones they replaced", async () => {
+    const dir = join(tmpDir, "reload");
+    const workflowsDir = join(dir, ".opencode", "workflows");
+    await mkdir(workflowsDir, { recursive: true });
+    const options = { directory: dir, includeGlobal: false };
+    registerWorkflow({
+      id: "file-shadowed",
+      name: "From config",
+      description: "",
+      steps: [{ id: "a", title: "A", workerId: "coder", prompt: "{task}" }],
+      source: "config",
+    });
+
+    await writeFile(
+      join(workflowsDir, "shadow.json"),
+      JSON.stringify({ id: "file-shadowed", name: "From file", steps: [{ id: "b", workerId: "coder", prompt: "{task}" }] })
+    );
+    await writeFile(
+      join(workflowsDir, "cycle.yaml"),
+      "id: file-cycle\nsteps:\n  - { id: a, workerId: coder, prompt: x, dependsOn: [b] }\n  - { id: b, workerId: coder, prompt: y, dependsOn: [a] }\n"
+    );
+    const first = await reloadWorkflowFiles(options);
+    expect(first.loaded.map((workflow) => workflow.id)).toEqual(["file-shadowed"]);
+    expect(getWorkflow("file-shadowed")).toMatchObject({
+      name: "From file",
+      source: "project",
+      sourcePath: join(workflowsDir, "shadow.json"),
+    });
+    expect(getWorkflow("file-cycle")).toBeUndefined();
+    expect(getWorkflowFileErrors().map((entry) => entry.path)).toEqual([join(workflowsDir, "cycle.yaml")]);
+
+    await rm(join(workflowsDir, "shadow.json"));
+    await reloadWorkflowFiles(options);
+    expect(getWorkflow("file-shadowed")).toMatchObject({ name: "From config", source: "config" });
+  });
+
+  test("watches workflow directories for changes", async () => {
+    const dir = join(tmpDir, "watch");
+    const workflowsDir = join(dir, ".opencode", "workflows");
+    await mkdir(workflowsDir, { recursive: true });
+    let changes = 0;
+    const stop = watchWorkflowRoots({ directory: dir, includeGlobal: false }, () => changes++, 10);
+
+    await writeFile(join(workflowsDir, "ignored.txt"), "x");
+    await writeFile(join(workflowsDir, "new.yaml"), "id: file-new\nsteps: []\n");
+    for (let i = 0; i < 100 && changes === 0; i++) await Bun.sleep(20);
+    stop();
+    expect(changes).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, test } from "bun:test";
+import { createTaskTools } from "../../src/command/tasks";
+import { createOrchestratorContext } from "../../src/context/orchestrator-context";
+import { workerJobs } from "../../src/core/jobs";
+import type { OrchestratorConfig } from "../../src/types";
+import { registerWorkflow, resolveWorkflowInputs, validateWorkflowGraph } from "../../src/workflows/engine";
+import { runWorkflowWithDependencies } from "../../src/workflows/runner";
+import type { WorkflowDefinition } from "../../src/workflows/types";
+
+const limits = {
+  maxSteps: 4,
+  maxTaskChars: 1000,
+  maxCarryChars: 1000,
+  perStepTimeoutMs: 5000,
+};
+
+const reviewWorkflow: WorkflowDefinition = {
+  id: "unit-inputs-review",
+  name: "Unit review",
+  description: "Reusable review",
+  inputs: {
+    targetFile: { type: "string" },
+    strict: { type: "boolean", default: false },
+    depth: { type: "number", required: false },
+    tone: { type: "string", enum: ["terse", "friendly"], default: "terse" },
+  },
+  steps: [
+    {
+      id: "inspect",
+      title: "Inspect",
+      workerId: "architect",
+      prompt: "Inspect {inputs.targetFile} on {git.branch} ({project.id}) strict={inputs.strict} depth={inputs.depth}",
+    },
+    {
+      id: "report",
+      title: "Report",
+      workerId: "docs",
+      prompt: "Write a {inputs.tone} report from:\n{steps.inspect.response}",
+    },
+  ],
+};
+
+describe("workflow inputs", () => {
+  test("coerces values, applies defaults and reports every problem", () => {
+    expect(resolveWorkflowInputs(reviewWorkflow, { targetFile: "src/a.ts", strict: "true", depth: "2" })).toEqual({
+      targetFile: "src/a.ts",
+      strict: true,
+      depth: 2,
+      tone: "terse",
+    });
+    expect(() => resolveWorkflowInputs(reviewWorkflow, { strict: "maybe", tone: "loud", extra: 1 })).toThrow(
+      'Invalid inputs for workflow "unit-inputs-review": unknown input "extra"; missing required input "targetFile" (string); ' +
+        '"strict" must be a boolean (got "maybe"); "tone" must be one of "terse", "friendly" (got "loud").'
+    );
+  });
+
+  test("rejects prompts that reference undeclared inputs", () => {
+    expect(() =>
+      validateWorkflowGraph({
+        ...reviewWorkflow,
+        steps: [{ id: "a", title: "A", workerId: "coder", prompt: "Fix {inputs.targetFlie}" }],
+      })
+    ).toThrow('references "{inputs.targetFlie}" but the workflow declares no input "targetFlie"');
+    expect(() =>
+      validateWorkflowGraph({ ...reviewWorkflow, inputs: { strict: { type: "boolean", default: "yes" } } })
+    ).toThrow('has an invalid default: "strict" must be a boolean (got "yes")');
+  });
+
+  test("substitutes inputs, project details and step outputs into prompts", async () => {
+    registerWorkflow(reviewWorkflow);
+    const prompts: string[] = [];
+    const run = await runWorkflowWithDependencies(
+      {
+        workflowId: reviewWorkflow.id,
+        task: "review",
+        inputs: { targetFile: "src/a.ts" },
+        context: { projectId: "proj-1", gitBranch: "feature/x" },
+        limits,
+      },
+      {
+        resolveWorker: async (workerId) => workerId,
+        sendToWorker: async (_workerId, message) => {
+          prompts.push(message);
+          return { success: true, response: `out ${prompts.length}` };
+        },
+      }
+    );
+
+    expect(run.status).toBe("success");
+    expect(run.inputs).toEqual({ targetFile: "src/a.ts", strict: false, tone: "terse" });
+    expect(prompts[0]).toBe("Inspect src/a.ts on feature/x (proj-1) strict=false depth=");
+    expect(prompts[1]).toBe("Write a terse report from:\nout 1");
+  });
+
+  test("task_start refuses bad inputs before creating a job", async () => {
+    registerWorkflow(reviewWorkflow);
+    const config: OrchestratorConfig = {
+      basePort: 0,
+      profiles: {},
+      spawn: [],
+      autoSpawn: false,
+      startupTimeout: 1000,
+      healthCheckInterval: 1000,
+    };
+    const tools = createTaskTools(createOrchestratorContext({ directory: process.cwd(), config }));
+    const before = workerJobs.list({ limit: 1000 }).length;
+
+    const reply = await tools.taskStart.execute(
+      { kind: "workflow", workflowId: reviewWorkflow.id, task: "review", inputs: { strict: true } } as any,
+      { agent: "test", sessionID: "session-1", messageID: "msg" } as any
+    );
+    expect(reply).toContain('missing required input "targetFile" (string)');
+    expect(workerJobs.list({ limit: 1000 })).toHaveLength(before);
+  });
+});
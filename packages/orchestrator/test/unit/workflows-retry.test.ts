@@ -0,0 +1,117 @@
+import { describe, expect, test } from "bun:test";
+import { onOrchestratorEvent, type OrchestratorEventDataMap } from "../../src/core/orchestrator-events";
+import { registerWorkflow } from "../../src/workflows/engine";
+import { runWorkflowWithDependencies } from "../../src/workflows/runner";
+import type { WorkflowStepDefinition } from "../../src/workflows/types";
+
+const limits = {
+  maxSteps: 4,
+  maxTaskChars: 1000,
+  maxCarryChars: 2000,
+  perStepTimeoutMs: 5000,
+};
+
+const auto = { execution: "auto", intervene: "never" } as const;
+
+const registerTestWorkflow = (id: string, step: Omit<WorkflowStepDefinition, "id" | "title" | "prompt">) => {
+  registerWorkflow({
+    id,
+    name: `Unit ${id}`,
+    description: "unit workflow",
+    steps: [{ id: "build", title: "Build", prompt: "Build {task}", ...step }],
+  });
+};
+
+const collectRetryEvents = () => {
+  const events: OrchestratorEventDataMap["orchestra.workflow.step.retry"][] = [];
+  const off = onOrchestratorEvent((event) => {
+    if (event.type === "orchestra.workflow.step.retry") {
+      events.push(event.data as OrchestratorEventDataMap["orchestra.workflow.step.retry"]);
+    }
+  });
+  return { events, off };
+};
+
+describe("workflow step retries", () => {
+  test("retries a failed send with backoff and records every attempt", async () => {
+    registerTestWorkflow("unit-retry-backoff", { workerId: "coder", retries: 2, backoffMs: 5 });
+
+    let calls = 0;
+    const { events, off } = collectRetryEvents();
+    const started = Date.now();
+    const run = await runWorkflowWithDependencies(
+      { workflowId: "unit-retry-backoff", task: "do", limits },
+      {
+        resolveWorker: async (workerId) => workerId,
+        sendToWorker: async () => {
+          calls += 1;
+          return calls < 3 ? { success: false, error: "provider returned 503" } : { success: true, response: "ok" };
+        },
+      },
+      { uiPolicy: auto }
+    );
+    off();
+
+    expect(run.status).toBe("success");
+    expect(Date.now() - started).toBeGreaterThanOrEqual(15);
+    expect(run.steps[0]?.attempts?.map((attempt) => attempt.status)).toEqual(["error", "error", "success"]);
+    expect(run.steps[0]?.attempts?.[0]?.error).toBe("provider returned 503");
+    expect(events.map((event) => [event.attempt, event.backoffMs])).toEqual([
+      [2, 5],
+      [3, 10],
+    ]);
+  });
+
+  test("falls back to another worker once retries are exhausted", async () => {
+    registerTestWorkflow("unit-retry-fallback", { workerId: "coder", retries: 1, fallbackWorkerId: "architect" });
+
+    const workers: string[] = [];
+    const { events, off } = collectRetryEvents();
+    const run = await runWorkflowWithDependencies(
+      { workflowId: "unit-retry-fallback", task: "do", limits },
+      {
+        resolveWorker: async (workerId) => {
+          if (workerId === "coder" && workers.length > 0) throw new Error("worker crashed");
+          return workerId;
+        },
+        sendToWorker: async (workerId) => {
+          workers.push(workerId);
+          return workerId === "coder" ? { success: false, error: "connection reset" } : { success: true, response: "ok" };
+        },
+      },
+      { uiPolicy: auto }
+    );
+    off();
+
+    expect(run.status).toBe("success");
+    expect(workers).toEqual(["coder", "architect"]);
+    expect(run.steps[0]?.workerId).toBe("architect");
+    expect(run.steps[0]?.attempts?.map((attempt) => `${attempt.workerId}:${attempt.error ?? "ok"}`)).toEqual([
+      "coder:connection reset",
+      "coder:worker crashed",
+      "architect:ok",
+    ]);
+    expect(events.map((event) => event.nextWorkerId)).toEqual(["coder", "architect"]);
+  });
+
+  test("fails the step after the last attempt without recording attempts for single tries", async () => {
+    registerTestWorkflow("unit-retry-exhausted", { workerId: "coder", retries: 1 });
+    registerTestWorkflow("unit-retry-none", { workerId: "coder" });
+    const deps = {
+      resolveWorker: async (workerId: string) => workerId,
+      sendToWorker: async () => ({ success: false, error: "boom" }),
+    };
+
+    const exhausted = await runWorkflowWithDependencies({ workflowId: "unit-retry-exhausted", task: "do", limits }, deps, {
+      uiPolicy: auto,
+    });
+    expect(exhausted.status).toBe("error");
+    expect(exhausted.steps[0]?.attempts).toHaveLength(2);
+
+    const single = await runWorkflowWithDependencies({ workflowId: "unit-retry-none", task: "do", limits }, deps, {
+      uiPolicy: auto,
+    });
+    expect(single.status).toBe("error");
+    expect(single.steps[0]?.attempts).toBeUndefined();
+  });
+});
@@ -0,0 +1,199 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { registerWorkflow } from "../../src/workflows/engine";
+import {
+  abandonWorkflowRun,
+  continueWorkflowWithDependencies,
+  runWorkflowWithDependencies,
+} from "../../src/workflows/runner";
+import {
+  createWorkflowRunState,
+  flushWorkflowRuns,
+  getWorkflowRun,
+  listWorkflowRuns,
+  restoreWorkflowRuns,
+} from "../../src/workflows/runs";
+
+const limits = {
+  maxSteps: 4,
+  maxTaskChars: 1000,
+  maxCarryChars: 2000,
+  perStepTimeoutMs: 5000,
+};
+
+const deps = {
+  resolveWorker: async (workerId: string) => workerId,
+  sendToWorker: async () => ({ success: true, response: "ok" }),
+};
+
+registerWorkflow({
+  id: "unit-runs-two-step",
+  name: "Unit runs",
+  description: "unit workflow",
+  steps: [
+    { id: "plan", title: "Plan", workerId: "architect", prompt: "Plan {task}", carry: true },
+    { id: "build", title: "Build", workerId: "coder", prompt: "Build {task}\n{carry}" },
+  ],
+});
+
+const withStoreDir = async (fn: (directory: string) => Promise<void>) => {
+  const directory = await mkdtemp(join(tmpdir(), "opencode-orch-runs-"));
+  try {
+    await restoreWorkflowRuns({ directory });
+    await fn(directory);
+  } finally {
+    await flushWorkflowRuns();
+    await rm(directory, { recursive: true, force: true });
+  }
+};
+
+afterEach(async () => {
+  await restoreWorkflowRuns({ persist: false });
+});
+
+describe("workflow run store", () => {
+  test("writes paused runs to disk with inline attachments saved beside them", async () => {
+    await withStoreDir(async (directory) => {
+      const run = await runWorkflowWithDependencies(
+        {
+          workflowId: "unit-runs-two-step",
+          task: "ship it",
+          limits,
+          attachments: [
+            { type: "file", path: "/tmp/spec.md" },
+            { type: "image", base64: "aGVsbG8=", mimeType: "image/png" },
+          ],
+        },
+        deps,
+        { uiPolicy: { execution: "step", intervene: "on-error" } }
+      );
+      expect(run.status).toBe("paused");
+      await flushWorkflowRuns();
+
+      const stored = JSON.parse(await readFile(join(directory, `${run.runId}.json`), "utf8"));
+      expect(stored.status).toBe("paused");
+      expect(stored.carryByStep.plan).toContain("ok");
+      const imagePath = join(directory, `${run.runId}.attachments`, "1.png");
+      expect(stored.attachments).toEqual([
+        { type: "file", path: "/tmp/spec.md" },
+        { type: "image", path: imagePath, mimeType: "image/png" },
+      ]);
+      expect(await readFile(imagePath, "utf8")).toBe("hello");
+
+      const finished = await continueWorkflowWithDependencies(run, deps);
+      expect(finished.status).toBe("success");
+      await flushWorkflowRuns();
+      expect(await readdir(directory)).toEqual([]);
+    });
+  });
+
+  test("restores runs left running by a dead process as interrupted", async () => {
+    await withStoreDir(async (directory) => {
+      const state = createWorkflowRunState({
+        runId: "unit-run-interrupted",
+        workflowId: "unit-runs-two-step",
+        workflowName: "Unit runs",
+        task: "ship it",
+        autoSpawn: true,
+        limits,
+        ui: { execution: "auto", intervene: "on-error" },
+      });
+      state.hostPid = 2 ** 22 + 1;
+      state.steps.push({
+        id: "plan",
+        title: "Plan",
+        workerId: "architect",
+        status: "success",
+        response: "ok",
+        startedAt: 1,
+        finishedAt: 2,
+        durationMs: 1,
+      });
+      state.carryByStep.plan = "### Plan\nok";
+      state.currentStepIndex = 1;
+      await writeFile(join(directory, `${state.runId}.json`), JSON.stringify(state), "utf8");
+      await writeFile(join(directory, "broken.json"), "not json", "utf8");
+
+      expect(await restoreWorkflowRuns({ directory })).toBe(1);
+      const restored = getWorkflowRun(state.runId);
+      expect(restored?.status).toBe("paused");
+      expect(restored?.interruptedAt).toBeDefined();
+      expect(listWorkflowRuns({ status: ["paused"] }).map((run) => run.runId)).toContain(state.runId);
+
+      const calls: string[] = [];
+      const finished = await continueWorkflowWithDependencies(restored!, {
+        resolveWorker: async (workerId) => workerId,
+        sendToWorker: async (workerId, message) => {
+          calls.push(`${workerId}:${message}`);
+          return { success: true, response: "built" };
+        },
+      });
+      expect(finished.status).toBe("success");
+      expect(calls).toHaveLength(1);
+      expect(calls[0]).toContain("coder:");
+      expect(calls[0]).toContain("### Plan");
+      expect(getWorkflowRun(state.runId)).toBeUndefined();
+    });
+  });
+
+  test("loads only the current project's runs", async () => {
+    await withStoreDir(async (directory) => {
+      const paused = (runId: string, project?: string) => ({
+        ...createWorkflowRunState({
+          runId,
+          workflowId: "unit-runs-two-step",
+          workflowName: "Unit runs",
+          task: "ship it",
+          directory: project,
+          autoSpawn: true,
+          limits,
+          ui: { execution: "auto", intervene: "on-error" },
+        }),
+        status: "paused",
+      });
+      for (const run of [paused("unit-run-mine", "/repo/a"), paused("unit-run-theirs", "/repo/b"), paused("unit-run-legacy")]) {
+        await writeFile(join(directory, `${run.runId}.json`), JSON.stringify(run), "utf8");
+      }
+
+      expect(await restoreWorkflowRuns({ directory, project: { directory: "/repo/a" } })).toBe(2);
+      expect(getWorkflowRun("unit-run-mine")).toBeDefined();
+      expect(getWorkflowRun("unit-run-legacy")).toBeDefined();
+      expect(getWorkflowRun("unit-run-theirs")).toBeUndefined();
+    });
+  });
+
+  test("refuses to continue a run another live process took over", async () => {
+    await withStoreDir(async (directory) => {
+      const run = await runWorkflowWithDependencies({ workflowId: "unit-runs-two-step", task: "race", limits }, deps, {
+        uiPolicy: { execution: "step", intervene: "on-error" },
+      });
+      expect(run.status).toBe("paused");
+      await flushWorkflowRuns();
+
+      const path = join(directory, `${run.runId}.json`);
+      const stored = JSON.parse(await readFile(path, "utf8"));
+      await writeFile(path, JSON.stringify({ ...stored, hostPid: process.ppid, hostStartedAt: undefined }), "utf8");
+
+      await expect(continueWorkflowWithDependencies(run, deps)).rejects.toThrow("taken over by another OpenCode process");
+      expect(run.steps).toHaveLength(1);
+    });
+  });
+
+  test("abandons a paused run and removes it from disk", async () => {
+    await withStoreDir(async (directory) => {
+      const run = await runWorkflowWithDependencies({ workflowId: "unit-runs-two-step", task: "drop it", limits }, deps, {
+        uiPolicy: { execution: "step", intervene: "on-error" },
+      });
+      expect(run.status).toBe("paused");
+
+      const result = abandonWorkflowRun(run.runId);
+      expect(result.status).toBe("error");
+      expect(getWorkflowRun(run.runId)).toBeUndefined();
+      expect(() => abandonWorkflowRun(run.runId)).toThrow("Unknown workflow run");
+      await flushWorkflowRuns();
+      expect(await readdir(directory)).toEqual([]);
+    });
+  });
+});